@@ -4,6 +4,10 @@ const nextConfig: NextConfig = {
   experimental: {
     turbopackUseSystemTlsCerts: true,
   },
+  images: {
+    // Listing images shown in the dashboard are served from Etsy's image CDN
+    remotePatterns: [{ protocol: "https", hostname: "i.etsystatic.com" }],
+  },
 };
 
 export default nextConfig;
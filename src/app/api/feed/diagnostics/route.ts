@@ -0,0 +1,140 @@
+/**
+ * Feed Diagnostics API Route
+ * Imports the errors Meta reports for the feed and maps them back to Etsy listings
+ *
+ * GET /api/feed/diagnostics
+ * - Returns the last imported diagnostics (null if nothing has been imported)
+ *
+ * POST /api/feed/diagnostics
+ * - Content-Type text/csv: Commerce Manager error report (columns id/retailer_id, message, severity?, field?)
+ * - Content-Type application/json: [{ id, message, severity?, field? }] or { data: [...] }
+ * - ?source=graph (no body): Fetches the errors of the latest feed upload from the Graph API
+ *   (requires FACEBOOK_CATALOG_ID and FACEBOOK_ACCESS_TOKEN)
+ * - Joins each diagnostic to a listing from the last sync, adds a suggested fix when the message
+ *   is recognized and replaces the stored diagnostics
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  fetchFeedDiagnostics,
+  importFeedDiagnostics,
+  loadFeedDiagnostics,
+  parseDiagnosticsCSV,
+  parseDiagnosticsJSON,
+  type RawFeedDiagnostic,
+} from '@/lib/facebook/diagnostics';
+import { FacebookCatalogClient, getGraphApiConfig } from '@/lib/facebook/graph';
+import type { FeedDiagnosticsSource } from '@/lib/facebook/types';
+import { loadSyncSnapshot } from '@/lib/sync/snapshot';
+import { logInfo, logError } from '@/lib/utils/logger';
+import {
+  FacebookApiError,
+  StorageError,
+  ValidationError,
+  toPublicError,
+} from '@/lib/utils/errors';
+
+/**
+ * Maps an error to an HTTP status code
+ */
+function getErrorStatus(error: unknown): number {
+  if (error instanceof ValidationError) {
+    return 400;
+  }
+  if (error instanceof FacebookApiError) {
+    return 502;
+  }
+  if (error instanceof StorageError) {
+    return 503;
+  }
+  return 500;
+}
+
+/**
+ * Reads diagnostics from the request (CSV body, JSON body or the Graph API)
+ */
+async function readDiagnostics(
+  request: NextRequest
+): Promise<{ diagnostics: RawFeedDiagnostic[]; source: FeedDiagnosticsSource }> {
+  if (request.nextUrl.searchParams.get('source') === 'graph') {
+    const client = new FacebookCatalogClient(getGraphApiConfig());
+    return { diagnostics: await fetchFeedDiagnostics(client), source: 'graph_api' };
+  }
+
+  const contentType = request.headers.get('content-type') ?? '';
+  if (contentType.includes('text/csv') || contentType.includes('text/plain')) {
+    const content = await request.text();
+    if (!content.trim()) {
+      throw new ValidationError('Error report is empty');
+    }
+    return { diagnostics: parseDiagnosticsCSV(content), source: 'csv' };
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ValidationError('Request body must be valid JSON');
+  }
+  return { diagnostics: parseDiagnosticsJSON(body), source: 'json' };
+}
+
+/**
+ * GET handler for feed diagnostics
+ */
+export async function GET(): Promise<NextResponse> {
+  logInfo('Feed diagnostics requested');
+
+  try {
+    const document = await loadFeedDiagnostics();
+
+    return NextResponse.json({
+      success: true,
+      data: document,
+    });
+  } catch (error) {
+    logError('Failed to get feed diagnostics', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
+
+/**
+ * POST handler for feed diagnostics
+ * Imports diagnostics and replaces the stored ones
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  logInfo('Feed diagnostics import requested');
+
+  try {
+    const { diagnostics, source } = await readDiagnostics(request);
+    const snapshot = await loadSyncSnapshot();
+    const document = await importFeedDiagnostics(diagnostics, source, snapshot);
+
+    return NextResponse.json({
+      success: true,
+      data: document,
+    });
+  } catch (error) {
+    logError('Failed to import feed diagnostics', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof FacebookApiError ? error.code : undefined,
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Feed Diff API Route
+ * Compares two Facebook feeds by product ID
+ *
+ * GET /api/feed/diff
+ * GET /api/feed/diff?from=previous&to=live
+ * GET /api/feed/diff?from=20250101T060000Z-3f2a9c1b7d4e&to=live
+ * - from/to: a stored version ID, "live" (the current live feed) or "previous" (the version recorded
+ *   before the live version); defaults to from=previous, to=live
+ * - Returns the added and removed product IDs, the changed products with per-field deltas, and
+ *   counts of price changes, availability flips and title edits
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { diffFeeds, summarizeFeedDiff } from '@/lib/facebook/diff';
+import type { FacebookProduct, FeedVersionIndex } from '@/lib/facebook/types';
+import {
+  getPreviousFeedVersion,
+  loadFeedVersionIndex,
+  loadFeedVersionProducts,
+  parseFeedProducts,
+} from '@/lib/facebook/versions';
+import { getCSV } from '@/lib/storage/blob';
+import { logInfo, logError } from '@/lib/utils/logger';
+import { StorageError, ValidationError, toPublicError } from '@/lib/utils/errors';
+
+/** Reference to the current live feed */
+const LIVE_REF = 'live';
+
+/** Reference to the version recorded before the live version */
+const PREVIOUS_REF = 'previous';
+
+/**
+ * One side of the comparison
+ * @property ref - Requested reference
+ * @property versionId - Resolved version ID (null for a live feed that was never recorded as a version)
+ * @property createdAt - When the version was recorded (null if unknown)
+ * @property productCount - Products in the feed
+ */
+interface FeedDiffSide {
+  ref: string;
+  versionId: string | null;
+  createdAt: string | null;
+  productCount: number;
+}
+
+/**
+ * Maps an error to an HTTP status code
+ */
+function getErrorStatus(error: unknown): number {
+  if (error instanceof ValidationError) {
+    return error.code === 'FEED_VERSION_NOT_FOUND' ? 404 : 400;
+  }
+  if (error instanceof StorageError) {
+    return 503;
+  }
+  return 500;
+}
+
+/**
+ * Loads the products of the feed a reference points to
+ * @throws ValidationError if the reference does not resolve (code FEED_VERSION_NOT_FOUND)
+ * @throws StorageError if the feed cannot be read
+ */
+async function loadFeed(
+  ref: string,
+  index: FeedVersionIndex
+): Promise<{ side: FeedDiffSide; products: FacebookProduct[] }> {
+  if (ref === LIVE_REF) {
+    const live = await getCSV();
+    if (!live) {
+      throw new ValidationError('No feed has been published yet', 'FEED_VERSION_NOT_FOUND');
+    }
+    const products = parseFeedProducts(live.content);
+    const version = index.versions.find((candidate) => candidate.id === index.liveVersionId);
+    return {
+      side: {
+        ref,
+        versionId: version?.id ?? null,
+        createdAt: version?.createdAt ?? null,
+        productCount: products.length,
+      },
+      products,
+    };
+  }
+
+  const version =
+    ref === PREVIOUS_REF
+      ? getPreviousFeedVersion(index)
+      : index.versions.find((candidate) => candidate.id === ref);
+  if (!version) {
+    throw new ValidationError(
+      ref === PREVIOUS_REF
+        ? 'There is no feed version before the live version'
+        : `Feed version ${ref} does not exist`,
+      'FEED_VERSION_NOT_FOUND'
+    );
+  }
+
+  const products = await loadFeedVersionProducts(version);
+  return {
+    side: { ref, versionId: version.id, createdAt: version.createdAt, productCount: products.length },
+    products,
+  };
+}
+
+/**
+ * GET handler for the feed diff
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const from = request.nextUrl.searchParams.get('from')?.trim() || PREVIOUS_REF;
+  const to = request.nextUrl.searchParams.get('to')?.trim() || LIVE_REF;
+
+  logInfo('Feed diff requested', { from, to });
+
+  try {
+    const index = await loadFeedVersionIndex();
+    const before = await loadFeed(from, index);
+    const after = await loadFeed(to, index);
+    const diff = diffFeeds(before.products, after.products);
+    const summary = summarizeFeedDiff(diff);
+
+    logInfo('Feed diff completed', { from, to, ...summary });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        from: before.side,
+        to: after.side,
+        summary,
+        diff,
+      },
+    });
+  } catch (error) {
+    logError('Failed to diff feeds', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof StorageError || error instanceof ValidationError ? error.code : undefined,
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
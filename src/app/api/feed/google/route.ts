@@ -0,0 +1,67 @@
+/**
+ * Google Merchant Feed API Route
+ * Serves the Google Merchant Center RSS 2.0 feed from Blob storage
+ *
+ * GET /api/feed/google
+ * - Returns XML with Content-Type: application/xml; charset=utf-8
+ * - Same caching behavior as /api/feed (ETag, Last-Modified, gzip, CORS)
+ * - Returns 404 if no feed available
+ * - Returns 500 if Blob fetch fails
+ *
+ * This endpoint is public and does not require authentication.
+ * Register this URL as a scheduled fetch in Google Merchant Center.
+ */
+
+import { NextRequest } from 'next/server';
+import { getFeedFile } from '@/lib/storage/blob';
+import { GOOGLE_MERCHANT_FILENAME } from '@/lib/google/merchant';
+import { XML_CONTENT_TYPE } from '@/lib/utils/xml';
+import {
+  createFeedErrorResponse,
+  createFeedNotFoundResponse,
+  createFeedOptionsResponse,
+  createFeedResponse,
+} from '@/lib/utils/feed-response';
+import { logInfo, logError } from '@/lib/utils/logger';
+import { StorageError } from '@/lib/utils/errors';
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+export async function OPTIONS(): Promise<Response> {
+  return createFeedOptionsResponse();
+}
+
+/**
+ * GET handler for the Google Merchant feed endpoint
+ * Supports conditional requests via ETag/If-None-Match for efficient caching
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  const userAgent = request.headers.get('user-agent') || 'unknown';
+
+  logInfo('Google Merchant feed access requested', {
+    userAgent,
+    ip: request.headers.get('x-forwarded-for'),
+    isGoogleBot: userAgent.includes('Google'),
+  });
+
+  try {
+    const result = await getFeedFile(GOOGLE_MERCHANT_FILENAME);
+
+    if (!result) {
+      logInfo('Google Merchant feed not found - no XML available');
+      return createFeedNotFoundResponse(
+        'No Google Merchant feed available. Please run a sync first.'
+      );
+    }
+
+    return await createFeedResponse(request, result, XML_CONTENT_TYPE);
+  } catch (error) {
+    logError('Google Merchant feed access failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof StorageError ? error.code : undefined,
+    });
+
+    return createFeedErrorResponse(error);
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Pinterest Catalog Feed API Route
+ * Serves the Pinterest catalog CSV from Blob storage
+ *
+ * GET /api/feed/pinterest
+ * - Returns CSV with Content-Type: text/csv; charset=utf-8
+ * - Same caching behavior as /api/feed (ETag, Last-Modified, gzip, CORS)
+ * - Returns 404 if no feed available
+ * - Returns 500 if Blob fetch fails
+ *
+ * This endpoint is public and does not require authentication.
+ * Add this URL as a catalog data source in Pinterest Business.
+ */
+
+import { NextRequest } from 'next/server';
+import { getFeedFile } from '@/lib/storage/blob';
+import { PINTEREST_CATALOG_FILENAME } from '@/lib/pinterest/catalog';
+import {
+  createFeedErrorResponse,
+  createFeedNotFoundResponse,
+  createFeedOptionsResponse,
+  createFeedResponse,
+} from '@/lib/utils/feed-response';
+import { logInfo, logError } from '@/lib/utils/logger';
+import { StorageError } from '@/lib/utils/errors';
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+export async function OPTIONS(): Promise<Response> {
+  return createFeedOptionsResponse();
+}
+
+/**
+ * GET handler for the Pinterest catalog feed endpoint
+ * Supports conditional requests via ETag/If-None-Match for efficient caching
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  const userAgent = request.headers.get('user-agent') || 'unknown';
+
+  logInfo('Pinterest feed access requested', {
+    userAgent,
+    ip: request.headers.get('x-forwarded-for'),
+    isPinterestBot: userAgent.toLowerCase().includes('pinterest'),
+  });
+
+  try {
+    const result = await getFeedFile(PINTEREST_CATALOG_FILENAME);
+
+    if (!result) {
+      logInfo('Pinterest feed not found - no CSV available');
+      return createFeedNotFoundResponse(
+        'No Pinterest catalog feed available. Please run a sync first.'
+      );
+    }
+
+    return await createFeedResponse(request, result, 'text/csv; charset=utf-8');
+  } catch (error) {
+    logError('Pinterest feed access failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof StorageError ? error.code : undefined,
+    });
+
+    return createFeedErrorResponse(error);
+  }
+}
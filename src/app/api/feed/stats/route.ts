@@ -8,6 +8,7 @@
  */
 
 import { NextResponse } from 'next/server';
+import { parseCSV } from '@/lib/facebook/csv-parser';
 import { getCSV } from '@/lib/storage/blob';
 import { logInfo, logError } from '@/lib/utils/logger';
 import { StorageError, toPublicError } from '@/lib/utils/errors';
@@ -56,9 +57,9 @@ export async function GET(): Promise<Response> {
       );
     }
 
-    // Count products (lines minus header)
-    const lines = result.content.split('\n').filter((line) => line.trim().length > 0);
-    const productCount = Math.max(0, lines.length - 1); // Exclude header row
+    // Count products (records minus header; quoted fields may contain newlines)
+    const records = parseCSV(result.content);
+    const productCount = Math.max(0, records.length - 1); // Exclude header row
 
     logInfo('Feed stats served', {
       productCount,
@@ -1,22 +1,20 @@
 /**
  * Feed Validation API Route
- * Validates the structure of the current feed
+ * Validates the current feed against the Facebook catalog spec
  *
  * GET /api/feed/validate
- * - Checks if feed exists and has correct headers
- * - Returns validation status and metadata
+ * - Checks the header row and every product row (required fields, length limits,
+ *   price format, URLs, availability/condition/status values, image count)
+ * - Returns errors and warnings grouped by listing, with CSV row numbers
  */
 
 import { NextResponse } from 'next/server';
+import { CSV_HEADERS } from '@/lib/facebook/catalog';
+import { validateFeed } from '@/lib/facebook/validator';
 import { getCSV } from '@/lib/storage/blob';
 import { logInfo, logError } from '@/lib/utils/logger';
 import { StorageError, toPublicError } from '@/lib/utils/errors';
 
-/**
- * Expected CSV headers for Facebook catalog feed
- */
-const EXPECTED_HEADERS = 'id,title,description,availability,condition,price,link,image_link,brand';
-
 /**
  * CORS headers for cross-origin access
  */
@@ -38,7 +36,7 @@ export async function OPTIONS(): Promise<Response> {
 
 /**
  * GET handler for feed validation
- * Validates the structure and format of the current feed
+ * Validates every row of the current feed
  */
 export async function GET(): Promise<Response> {
   logInfo('Feed validation requested');
@@ -62,27 +60,23 @@ export async function GET(): Promise<Response> {
       );
     }
 
-    // Parse and validate headers
-    const lines = result.content.split('\n').filter((line) => line.trim().length > 0);
-    const headerLine = lines[0] || '';
-    const headersValid = headerLine === EXPECTED_HEADERS;
-    const lineCount = Math.max(0, lines.length - 1); // Exclude header row
+    const report = validateFeed(result.content);
 
     logInfo('Feed validation completed', {
-      valid: headersValid,
-      lineCount,
+      valid: report.valid,
+      productCount: report.productCount,
+      errorCount: report.errorCount,
+      warningCount: report.warningCount,
     });
 
     return NextResponse.json(
       {
         success: true,
         data: {
-          valid: headersValid,
-          lineCount,
+          ...report,
           sizeBytes: result.content.length,
           uploadedAt: result.uploadedAt.toISOString(),
-          headers: headerLine,
-          expectedHeaders: EXPECTED_HEADERS,
+          expectedHeaders: [...CSV_HEADERS],
         },
       },
       {
@@ -0,0 +1,99 @@
+/**
+ * Pending Feed Version API Route
+ * Resolves a feed blocked by the publish guard
+ *
+ * POST /api/feed/versions/pending
+ * - Approves the pending version: publishes it as the live Facebook feed (CSV and XML)
+ *   and adds it to the version history
+ * - In push mode, pushes the version's products to Meta so the catalog matches the live feed
+ *   (returned as facebookPush; a failed push does not fail the request)
+ *
+ * DELETE /api/feed/versions/pending
+ * - Discards the pending version; the live feed stays as it is
+ *
+ * To publish everything a sync builds (all feeds and the snapshot) despite the guard,
+ * run POST /api/sync/manual?force=true instead
+ */
+
+import { NextResponse } from 'next/server';
+import { pushFeedVersion } from '@/lib/facebook/push';
+import { approvePendingFeedVersion, discardPendingFeedVersion } from '@/lib/facebook/versions';
+import { logInfo, logError } from '@/lib/utils/logger';
+import { StorageError, ValidationError, toPublicError } from '@/lib/utils/errors';
+
+/**
+ * Maps an error to an HTTP status code
+ */
+function getErrorStatus(error: unknown): number {
+  if (error instanceof ValidationError) {
+    return error.code === 'NO_PENDING_VERSION' ? 404 : 400;
+  }
+  if (error instanceof StorageError) {
+    return error.code === 'FEED_VERSION_INDEX_CONFLICT' ? 409 : 503;
+  }
+  return 500;
+}
+
+/**
+ * Builds the error response shared by all handlers
+ */
+function createErrorResponse(error: unknown): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: toPublicError(error),
+    },
+    { status: getErrorStatus(error) }
+  );
+}
+
+/**
+ * POST handler - approves the pending version
+ */
+export async function POST(): Promise<NextResponse> {
+  logInfo('Pending feed version approval requested');
+
+  try {
+    const version = await approvePendingFeedVersion();
+
+    // Keep Meta's catalog in step with the feed now live (push mode only)
+    const facebookPush = await pushFeedVersion(version);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        liveVersionId: version.id,
+        version,
+        facebookPush: facebookPush ?? undefined,
+      },
+    });
+  } catch (error) {
+    logError('Failed to approve pending feed version', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * DELETE handler - discards the pending version
+ */
+export async function DELETE(): Promise<NextResponse> {
+  logInfo('Pending feed version discard requested');
+
+  try {
+    await discardPendingFeedVersion();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        pending: null,
+      },
+    });
+  } catch (error) {
+    logError('Failed to discard pending feed version', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return createErrorResponse(error);
+  }
+}
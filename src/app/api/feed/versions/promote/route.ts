@@ -0,0 +1,79 @@
+/**
+ * Feed Version Promote API Route
+ * Rolls the live Facebook feed back (or forward) to a stored version
+ *
+ * POST /api/feed/versions/promote
+ * - Body: { versionId }
+ * - Verifies the stored copy against its content hash, replaces the live CSV with it and
+ *   regenerates the Facebook XML feed
+ * - The next sync publishes a freshly built feed again
+ * - In push mode, pushes the version's products to Meta so the catalog matches the live feed
+ *   (returned as facebookPush; a failed push does not fail the request)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { pushFeedVersion } from '@/lib/facebook/push';
+import { promoteFeedVersion } from '@/lib/facebook/versions';
+import { logInfo, logError } from '@/lib/utils/logger';
+import { StorageError, ValidationError, toPublicError } from '@/lib/utils/errors';
+
+/**
+ * Maps an error to an HTTP status code
+ */
+function getErrorStatus(error: unknown): number {
+  if (error instanceof ValidationError) {
+    return error.code === 'FEED_VERSION_NOT_FOUND' ? 404 : 400;
+  }
+  if (error instanceof StorageError) {
+    return error.code === 'FEED_VERSION_INDEX_CONFLICT' ? 409 : 503;
+  }
+  return 500;
+}
+
+/**
+ * POST handler for promoting a feed version
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  logInfo('Feed version promotion requested');
+
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ValidationError('Request body must be valid JSON');
+    }
+
+    const versionId = (body as { versionId?: unknown } | null)?.versionId;
+    if (typeof versionId !== 'string' || !versionId.trim()) {
+      throw new ValidationError('versionId must be a non-empty string');
+    }
+
+    const version = await promoteFeedVersion(versionId.trim());
+
+    // Keep Meta's catalog in step with the feed now live (push mode only)
+    const facebookPush = await pushFeedVersion(version);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        liveVersionId: version.id,
+        version,
+        facebookPush: facebookPush ?? undefined,
+      },
+    });
+  } catch (error) {
+    logError('Failed to promote feed version', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof StorageError || error instanceof ValidationError ? error.code : undefined,
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
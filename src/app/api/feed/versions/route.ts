@@ -0,0 +1,46 @@
+/**
+ * Feed Versions API Route
+ * Lists the stored versions of the Facebook catalog CSV
+ *
+ * GET /api/feed/versions
+ * - Returns the versions (newest first), the ID of the live version and the feed blocked by
+ *   the publish guard, if any (pending)
+ * - Each sync that changes the feed records a version; FEED_VERSION_LIMIT versions are kept
+ */
+
+import { NextResponse } from 'next/server';
+import { loadFeedVersionIndex } from '@/lib/facebook/versions';
+import { logInfo, logError } from '@/lib/utils/logger';
+import { StorageError, toPublicError } from '@/lib/utils/errors';
+
+/**
+ * GET handler for feed versions
+ */
+export async function GET(): Promise<NextResponse> {
+  logInfo('Feed versions requested');
+
+  try {
+    const index = await loadFeedVersionIndex();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        liveVersionId: index.liveVersionId,
+        versions: index.versions,
+        pending: index.pending ?? null,
+      },
+    });
+  } catch (error) {
+    logError('Failed to list feed versions', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: error instanceof StorageError ? 503 : 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Listing Filters API Route
+ * Manages the include/exclude filters that keep listings out of the Facebook catalog
+ *
+ * GET /api/filters
+ * - Returns the stored filters and how many listings each removed in the last successful sync
+ *
+ * PUT /api/filters
+ * - Body: { filters: [{ id?, name?, mode: "include" | "exclude", enabled?, condition }] }
+ * - Conditions: { field: "tags", values: [...] }, { field: "shop_section_id", values: [...] },
+ *   { field: "is_digital", value: true }, { field: "listing_type", values: [...] },
+ *   { field: "price", min?, max? }, { field: "title", pattern: "regex" }
+ * - Replaces all filters; they take effect on the next sync
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateListingFilters } from '@/lib/filters/engine';
+import {
+  getListingFilters,
+  getSyncMetadata,
+  storeListingFilters,
+} from '@/lib/storage/edge-config';
+import { logInfo, logError } from '@/lib/utils/logger';
+import { StorageError, ValidationError, toPublicError } from '@/lib/utils/errors';
+
+/**
+ * Maps an error to an HTTP status code
+ */
+function getErrorStatus(error: unknown): number {
+  if (error instanceof ValidationError) {
+    return 400;
+  }
+  if (error instanceof StorageError) {
+    return 503;
+  }
+  return 500;
+}
+
+/**
+ * GET handler for listing filters
+ */
+export async function GET(): Promise<NextResponse> {
+  logInfo('Listing filters requested');
+
+  try {
+    const filters = await getListingFilters();
+    const metadata = await getSyncMetadata();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        filters,
+        lastSync: metadata?.filterStats
+          ? { timestamp: metadata.timestamp, stats: metadata.filterStats }
+          : null,
+      },
+    });
+  } catch (error) {
+    logError('Failed to get listing filters', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
+
+/**
+ * PUT handler for listing filters
+ * Validates and replaces all filters
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  logInfo('Listing filters update requested');
+
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ValidationError('Request body must be valid JSON');
+    }
+
+    const filters = validateListingFilters((body as { filters?: unknown } | null)?.filters);
+    await storeListingFilters(filters);
+
+    logInfo('Listing filters updated', { count: filters.length });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        filters,
+      },
+    });
+  } catch (error) {
+    logError('Failed to update listing filters', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
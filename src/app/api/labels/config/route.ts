@@ -0,0 +1,109 @@
+/**
+ * Custom Label Config API Route
+ * Manages how custom_label_0..3 are derived from listing data
+ *
+ * GET /api/labels/config
+ * - Returns the active configuration (stored or default) and the defaults
+ *
+ * PUT /api/labels/config
+ * - Body: { config: { priceBands?, popularityTiers?, newArrivalDays?, newArrivalLabel?, skillLevels? } }
+ * - Omitted settings keep their default values
+ * - Labels are re-derived on the next sync (no listings are re-fetched)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_CUSTOM_LABEL_CONFIG, validateCustomLabelConfig } from '@/lib/facebook/labels';
+import { getCustomLabelConfig, storeCustomLabelConfig } from '@/lib/storage/edge-config';
+import { logInfo, logError } from '@/lib/utils/logger';
+import { StorageError, ValidationError, toPublicError } from '@/lib/utils/errors';
+
+/**
+ * Maps an error to an HTTP status code
+ */
+function getErrorStatus(error: unknown): number {
+  if (error instanceof ValidationError) {
+    return 400;
+  }
+  if (error instanceof StorageError) {
+    return 503;
+  }
+  return 500;
+}
+
+/**
+ * GET handler for the custom label configuration
+ */
+export async function GET(): Promise<NextResponse> {
+  logInfo('Custom label config requested');
+
+  try {
+    const stored = await getCustomLabelConfig();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        config: stored ?? DEFAULT_CUSTOM_LABEL_CONFIG,
+        isDefault: stored === null,
+        defaults: DEFAULT_CUSTOM_LABEL_CONFIG,
+      },
+    });
+  } catch (error) {
+    logError('Failed to get custom label config', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
+
+/**
+ * PUT handler for the custom label configuration
+ * Validates and replaces the stored configuration
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  logInfo('Custom label config update requested');
+
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ValidationError('Request body must be valid JSON');
+    }
+
+    const config = validateCustomLabelConfig((body as { config?: unknown } | null)?.config);
+    await storeCustomLabelConfig(config);
+
+    logInfo('Custom label config updated', {
+      priceBands: config.priceBands.length,
+      popularityTiers: config.popularityTiers.length,
+      newArrivalDays: config.newArrivalDays,
+      skillLevels: config.skillLevels.length,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        config,
+      },
+    });
+  } catch (error) {
+    logError('Failed to update custom label config', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Listing History API Route
+ * Returns the snapshots recorded for one listing as a time series
+ *
+ * GET /api/listings/{listingId}/history
+ * GET /api/listings/{listingId}/history?since=2025-01-01&limit=100
+ * - since: Only snapshots captured at or after this date (optional)
+ * - limit: Most recent snapshots to return (default 100, max 1000)
+ * - Returns the snapshots oldest first and the price, quantity, state, tag and image changes between them
+ * - Requires a Postgres database (POSTGRES_URL); without one, configured is false and no snapshots are returned
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isDatabaseConfigured } from '@/lib/db/client';
+import {
+  DEFAULT_LISTING_SNAPSHOT_LIMIT,
+  findListingChanges,
+  listListingSnapshots,
+  MAX_LISTING_SNAPSHOT_LIMIT,
+} from '@/lib/db/listing-snapshots';
+import { logInfo, logError } from '@/lib/utils/logger';
+import { StorageError, ValidationError, toPublicError } from '@/lib/utils/errors';
+
+/**
+ * Maps an error to an HTTP status code
+ */
+function getErrorStatus(error: unknown): number {
+  if (error instanceof ValidationError) {
+    return 400;
+  }
+  if (error instanceof StorageError) {
+    return 503;
+  }
+  return 500;
+}
+
+/**
+ * Parses the listing ID path segment
+ * @throws ValidationError if it is not a positive integer
+ */
+function parseListingId(value: string): number {
+  const listingId = Number(value);
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(listingId) || listingId < 1) {
+    throw new ValidationError('Listing ID must be a positive integer', 'INVALID_LISTING_ID');
+  }
+  return listingId;
+}
+
+/**
+ * Parses the since query parameter
+ * @throws ValidationError if it is not a valid date
+ */
+function parseSince(value: string | null): string | undefined {
+  if (value === null || value.trim() === '') {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new ValidationError('since must be a valid date');
+  }
+  return new Date(time).toISOString();
+}
+
+/**
+ * Parses the limit query parameter
+ * @throws ValidationError if it is not an integer within [1, MAX_LISTING_SNAPSHOT_LIMIT]
+ */
+function parseLimit(value: string | null): number {
+  if (value === null || value.trim() === '') {
+    return DEFAULT_LISTING_SNAPSHOT_LIMIT;
+  }
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LISTING_SNAPSHOT_LIMIT) {
+    throw new ValidationError(`limit must be an integer between 1 and ${MAX_LISTING_SNAPSHOT_LIMIT}`);
+  }
+  return limit;
+}
+
+/**
+ * GET handler for a listing's history
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ listingId: string }> }
+): Promise<NextResponse> {
+  const { listingId: listingIdParam } = await params;
+  logInfo('Listing history requested', { listingId: listingIdParam });
+
+  try {
+    const listingId = parseListingId(listingIdParam);
+    const { searchParams } = request.nextUrl;
+    const since = parseSince(searchParams.get('since'));
+    const limit = parseLimit(searchParams.get('limit'));
+
+    if (!isDatabaseConfigured()) {
+      return NextResponse.json({
+        success: true,
+        data: { configured: false, listingId, snapshots: [], changes: [] },
+      });
+    }
+
+    const snapshots = await listListingSnapshots(listingId, { since, limit });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        configured: true,
+        listingId,
+        snapshots,
+        changes: findListingChanges(snapshots),
+      },
+    });
+  } catch (error) {
+    logError('Failed to get listing history', {
+      listingId: listingIdParam,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
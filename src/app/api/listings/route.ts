@@ -0,0 +1,136 @@
+/**
+ * Listings API Route
+ * Lists the listings from the last sync for browsing in the dashboard (no Etsy requests)
+ *
+ * GET /api/listings?q=blanket&limit=50&offset=0
+ * - q: Case-insensitive filter on title or listing ID (optional)
+ * - limit: Page size (default 50, max 200)
+ * - offset: Number of listings to skip (default 0)
+ * - Returns each listing's formatted product fields, images, current override and the
+ *   Facebook diagnostics imported for it
+ * - Returns 404 if no sync snapshot exists yet
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { groupDiagnosticsByListing, loadFeedDiagnostics } from '@/lib/facebook/diagnostics';
+import { loadListingOverrides } from '@/lib/facebook/overrides';
+import { loadSyncSnapshot } from '@/lib/sync/snapshot';
+import { logInfo, logError } from '@/lib/utils/logger';
+import { StorageError, toPublicError } from '@/lib/utils/errors';
+import type { FeedDiagnostic, ListingOverride } from '@/lib/facebook/types';
+
+/** Default page size */
+const DEFAULT_LIMIT = 50;
+
+/** Maximum page size */
+const MAX_LIMIT = 200;
+
+/**
+ * Listing summary returned to the dashboard
+ * @property listingId - Etsy listing ID
+ * @property title - Formatted catalog title (before overrides)
+ * @property description - Formatted catalog description (before overrides)
+ * @property brand - Formatted brand (before overrides)
+ * @property state - Etsy listing state
+ * @property url - Etsy listing URL
+ * @property variants - Number of catalog rows for the listing
+ * @property images - Listing images in Etsy order
+ * @property override - Current override, or null
+ * @property diagnostics - Problems Meta reported for the listing's products (last import)
+ */
+export interface ListingSummary {
+  listingId: number;
+  title: string;
+  description: string;
+  brand: string;
+  state: string;
+  url: string;
+  variants: number;
+  images: Array<{ id: number; url: string }>;
+  override: ListingOverride | null;
+  diagnostics: FeedDiagnostic[];
+}
+
+/**
+ * Parses a non-negative integer query parameter
+ */
+function parseIntParam(value: string | null, fallback: number): number {
+  const parsed = value === null ? NaN : parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+/**
+ * GET handler for listings
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const params = request.nextUrl.searchParams;
+  const query = params.get('q')?.trim().toLowerCase() ?? '';
+  const limit = Math.min(parseIntParam(params.get('limit'), DEFAULT_LIMIT) || DEFAULT_LIMIT, MAX_LIMIT);
+  const offset = parseIntParam(params.get('offset'), 0);
+
+  logInfo('Listings requested', { query, limit, offset });
+
+  try {
+    const snapshot = await loadSyncSnapshot();
+    if (!snapshot) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: 'No synced listings yet. Please run a sync first.',
+            code: 'NO_SNAPSHOT',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const overrides = await loadListingOverrides();
+    const diagnostics = groupDiagnosticsByListing(await loadFeedDiagnostics());
+
+    const entries = Object.values(snapshot.entries).filter(
+      ({ listing }) =>
+        !query ||
+        listing.title.toLowerCase().includes(query) ||
+        listing.listing_id.toString().includes(query)
+    );
+
+    const listings: ListingSummary[] = entries.slice(offset, offset + limit).map(({ listing, products }) => ({
+      listingId: listing.listing_id,
+      title: products[0]?.title ?? listing.title,
+      description: products[0]?.description ?? '',
+      brand: products[0]?.brand ?? '',
+      state: listing.state,
+      url: listing.url,
+      variants: products.length,
+      images: [...(listing.images ?? [])]
+        .sort((a, b) => a.rank - b.rank)
+        .map((image) => ({ id: image.listing_image_id, url: image.url_170x135 || image.url_fullxfull })),
+      override: overrides[listing.listing_id] ?? null,
+      diagnostics: diagnostics[listing.listing_id] ?? [],
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        total: entries.length,
+        offset,
+        limit,
+        syncedAt: snapshot.createdAt,
+        listings,
+      },
+    });
+  } catch (error) {
+    logError('Failed to list listings', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: error instanceof StorageError ? 503 : 500 }
+    );
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Listing Overrides API Route
+ * Manages per-listing manual overrides applied to the Facebook catalog on every sync
+ *
+ * GET /api/overrides
+ * - Returns all overrides keyed by listing ID
+ *
+ * PUT /api/overrides
+ * - Body: { listingId, override: { title?, description?, brand?, imageOrder?, excluded?, customLabels? } }
+ * - Replaces the override for one listing; an override with no fields removes it
+ *
+ * DELETE /api/overrides?listingId=123
+ * - Removes the override for one listing
+ *
+ * Changes take effect on the next sync (no listings are re-fetched)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteListingOverride,
+  isEmptyOverride,
+  loadListingOverrides,
+  storeListingOverride,
+  validateListingOverride,
+} from '@/lib/facebook/overrides';
+import { logInfo, logError } from '@/lib/utils/logger';
+import { StorageError, ValidationError, toPublicError } from '@/lib/utils/errors';
+
+/**
+ * Maps an error to an HTTP status code
+ */
+function getErrorStatus(error: unknown): number {
+  if (error instanceof ValidationError) {
+    return 400;
+  }
+  if (error instanceof StorageError) {
+    return 503;
+  }
+  return 500;
+}
+
+/**
+ * Builds the error response shared by all handlers
+ */
+function createErrorResponse(error: unknown): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: toPublicError(error),
+    },
+    { status: getErrorStatus(error) }
+  );
+}
+
+/**
+ * Validates a listing ID from the request
+ */
+function parseListingId(value: unknown): string {
+  const listingId = typeof value === 'number' ? value.toString() : value;
+  if (typeof listingId !== 'string' || !/^\d+$/.test(listingId.trim())) {
+    throw new ValidationError('listingId must be a numeric Etsy listing ID');
+  }
+  return listingId.trim();
+}
+
+/**
+ * GET handler for listing overrides
+ */
+export async function GET(): Promise<NextResponse> {
+  logInfo('Listing overrides requested');
+
+  try {
+    const overrides = await loadListingOverrides();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        overrides,
+      },
+    });
+  } catch (error) {
+    logError('Failed to get listing overrides', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * PUT handler for a single listing override
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  logInfo('Listing override update requested');
+
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ValidationError('Request body must be valid JSON');
+    }
+
+    const input = (body ?? {}) as { listingId?: unknown; override?: unknown };
+    const listingId = parseListingId(input.listingId);
+    const override = validateListingOverride(input.override);
+
+    // Only this listing's override is written, so concurrent edits of other listings are kept
+    if (isEmptyOverride(override)) {
+      await deleteListingOverride(listingId);
+    } else {
+      await storeListingOverride(listingId, override);
+    }
+
+    logInfo('Listing override updated', { listingId, removed: isEmptyOverride(override) });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        listingId,
+        override: isEmptyOverride(override) ? null : override,
+      },
+    });
+  } catch (error) {
+    logError('Failed to update listing override', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * DELETE handler for a single listing override
+ */
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
+  logInfo('Listing override removal requested');
+
+  try {
+    const listingId = parseListingId(request.nextUrl.searchParams.get('listingId'));
+
+    const existed = await deleteListingOverride(listingId);
+
+    logInfo('Listing override removed', { listingId, existed });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        listingId,
+        removed: existed,
+      },
+    });
+  } catch (error) {
+    logError('Failed to remove listing override', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return createErrorResponse(error);
+  }
+}
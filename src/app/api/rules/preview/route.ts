@@ -0,0 +1,122 @@
+/**
+ * Feed Rules Preview API Route
+ * Shows how rules would change the catalog, using the listings from the last sync snapshot
+ *
+ * POST /api/rules/preview
+ * - Body (optional): { rules: [...] } - rules to preview; defaults to the stored rules
+ * - Custom labels and sale prices are applied first, as in a sync, so rules see the same products
+ * - Returns the products matched by at least one rule with their field changes
+ *   (first 50 items), plus totals
+ * - Returns 404 if no sync snapshot exists yet
+ * - Nothing is stored or published
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_CUSTOM_LABEL_CONFIG } from '@/lib/facebook/labels';
+import { previewFeedRules, validateFeedRules } from '@/lib/rules/engine';
+import { getCustomLabelConfig, getFeedRules, getShopSales } from '@/lib/storage/edge-config';
+import { enrichListingProducts } from '@/lib/sync/pipeline';
+import { loadSyncSnapshot } from '@/lib/sync/snapshot';
+import { logInfo, logError } from '@/lib/utils/logger';
+import { StorageError, ValidationError, toPublicError } from '@/lib/utils/errors';
+import type { FeedRule } from '@/lib/rules/types';
+
+/** Maximum number of preview items returned */
+const MAX_PREVIEW_ITEMS = 50;
+
+/**
+ * Maps an error to an HTTP status code
+ */
+function getErrorStatus(error: unknown): number {
+  if (error instanceof ValidationError) {
+    return 400;
+  }
+  if (error instanceof StorageError) {
+    return 503;
+  }
+  return 500;
+}
+
+/**
+ * Reads the rules to preview from the request body, falling back to the stored rules
+ */
+async function getRulesToPreview(request: NextRequest): Promise<FeedRule[]> {
+  const text = await request.text();
+  if (!text.trim()) {
+    return getFeedRules();
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new ValidationError('Request body must be valid JSON');
+  }
+
+  const rules = (body as { rules?: unknown } | null)?.rules;
+  return rules === undefined ? getFeedRules() : validateFeedRules(rules);
+}
+
+/**
+ * POST handler for the rules preview
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  logInfo('Feed rules preview requested');
+
+  try {
+    const rules = await getRulesToPreview(request);
+
+    const snapshot = await loadSyncSnapshot();
+    if (!snapshot) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: 'No synced listings to preview against. Please run a sync first.',
+            code: 'NO_SNAPSHOT',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const labelConfig = (await getCustomLabelConfig()) ?? DEFAULT_CUSTOM_LABEL_CONFIG;
+    const shopSales = await getShopSales();
+    const now = new Date();
+    const entries = Object.values(snapshot.entries).map(({ listing, products }) => ({
+      listing,
+      products: enrichListingProducts(listing, products, labelConfig, shopSales, now),
+    }));
+    const items = previewFeedRules(entries, rules);
+    const totalProducts = entries.reduce((sum, entry) => sum + entry.products.length, 0);
+
+    logInfo('Feed rules preview generated', {
+      rules: rules.length,
+      matchedProducts: items.length,
+      totalProducts,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        snapshotCreatedAt: snapshot.createdAt,
+        totalProducts,
+        matchedProducts: items.length,
+        changedProducts: items.filter((item) => item.changes.length > 0).length,
+        items: items.slice(0, MAX_PREVIEW_ITEMS),
+      },
+    });
+  } catch (error) {
+    logError('Failed to preview feed rules', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Feed Rules API Route
+ * Manages the declarative rules applied to catalog products before the feeds are serialized
+ *
+ * GET /api/rules
+ * - Returns the stored rules
+ *
+ * PUT /api/rules
+ * - Body: { rules: [{ id?, name?, enabled?, conditions: [{ field, operator, value }], actions: [{ field, value }] }] }
+ * - Example: { "conditions": [{ "field": "tags", "operator": "contains", "value": "amigurumi" }],
+ *   "actions": [{ "field": "custom_label_0", "value": "Amigurumi" }] }
+ * - Replaces all rules; they take effect on the next sync (no listings are re-fetched)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateFeedRules } from '@/lib/rules/engine';
+import { getFeedRules, storeFeedRules } from '@/lib/storage/edge-config';
+import { logInfo, logError } from '@/lib/utils/logger';
+import { StorageError, ValidationError, toPublicError } from '@/lib/utils/errors';
+
+/**
+ * Maps an error to an HTTP status code
+ */
+function getErrorStatus(error: unknown): number {
+  if (error instanceof ValidationError) {
+    return 400;
+  }
+  if (error instanceof StorageError) {
+    return 503;
+  }
+  return 500;
+}
+
+/**
+ * GET handler for feed rules
+ */
+export async function GET(): Promise<NextResponse> {
+  logInfo('Feed rules requested');
+
+  try {
+    const rules = await getFeedRules();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rules,
+      },
+    });
+  } catch (error) {
+    logError('Failed to get feed rules', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
+
+/**
+ * PUT handler for feed rules
+ * Validates and replaces all rules
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  logInfo('Feed rules update requested');
+
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ValidationError('Request body must be valid JSON');
+    }
+
+    const rules = validateFeedRules((body as { rules?: unknown } | null)?.rules);
+    await storeFeedRules(rules);
+
+    logInfo('Feed rules updated', { count: rules.length });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rules,
+      },
+    });
+  } catch (error) {
+    logError('Failed to update feed rules', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Shop Sales API Route
+ * Manages the shop sales used to fill sale_price and sale_price_effective_date in the Facebook catalog.
+ * The Etsy Open API v3 does not expose shop sales or coupons, so each Etsy sale is mirrored here.
+ *
+ * GET /api/sales
+ * - Returns the stored sales with their current status (scheduled, active or ended)
+ *
+ * PUT /api/sales
+ * - Body: { sales: [{ id?, name?, percentOff, startDate, endDate, listingIds? }] }
+ * - Omit listingIds for a shop-wide sale
+ * - Replaces all sales; they take effect on the next sync (no listings are re-fetched)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSaleStatus, validateShopSales } from '@/lib/facebook/sales';
+import { getShopSales, storeShopSales } from '@/lib/storage/edge-config';
+import { logInfo, logError } from '@/lib/utils/logger';
+import { StorageError, ValidationError, toPublicError } from '@/lib/utils/errors';
+import type { ShopSale } from '@/lib/facebook/types';
+
+/**
+ * Maps an error to an HTTP status code
+ */
+function getErrorStatus(error: unknown): number {
+  if (error instanceof ValidationError) {
+    return 400;
+  }
+  if (error instanceof StorageError) {
+    return 503;
+  }
+  return 500;
+}
+
+/**
+ * Adds the current status to each sale
+ */
+function withStatus(sales: ShopSale[]) {
+  const now = new Date();
+  return sales.map((sale) => ({ ...sale, status: getSaleStatus(sale, now) }));
+}
+
+/**
+ * GET handler for shop sales
+ */
+export async function GET(): Promise<NextResponse> {
+  logInfo('Shop sales requested');
+
+  try {
+    const sales = await getShopSales();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        sales: withStatus(sales),
+      },
+    });
+  } catch (error) {
+    logError('Failed to get shop sales', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
+
+/**
+ * PUT handler for shop sales
+ * Validates and replaces all sales
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  logInfo('Shop sales update requested');
+
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ValidationError('Request body must be valid JSON');
+    }
+
+    const sales = validateShopSales((body as { sales?: unknown } | null)?.sales);
+    await storeShopSales(sales);
+
+    logInfo('Shop sales updated', { count: sales.length });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        sales: withStatus(sales),
+      },
+    });
+  } catch (error) {
+    logError('Failed to update shop sales', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
@@ -6,16 +6,23 @@
  * - Returns auth status (connected/not connected)
  * - Returns last sync metadata from Edge Config
  * - Returns feed URL if available
+ * - Returns the counts of what the last sync changed in the Facebook feed (feedDiff)
+ * - Returns the remaining Etsy API quota for today (rateLimit), as last reported by Etsy's
+ *   response headers or estimated from the local request count
  */
 
 import { NextResponse } from 'next/server';
+import { getRateLimitQuota } from '@/lib/etsy/rate-limiter';
 import {
   getEtsyTokens,
   isTokenExpired,
   getSyncMetadata,
+  getRateLimitState,
 } from '@/lib/storage/edge-config';
 import { logInfo, logError } from '@/lib/utils/logger';
 import { StorageError, toPublicError, isEdgeConfigNotConfigured } from '@/lib/utils/errors';
+import type { EtsyRateLimitQuota } from '@/lib/etsy/types';
+import type { FeedDiffSummary } from '@/lib/facebook/types';
 
 /**
  * Status response type
@@ -26,10 +33,15 @@ export interface StatusResponse {
   shopId?: string;
   sync?: {
     lastSyncTime: string;
-    status: 'success' | 'failure';
+    status: 'success' | 'failure' | 'blocked';
     listingsCount: number;
+    blockedReason?: string;
     feedUrl?: string;
+    googleFeedUrl?: string;
+    pinterestFeedUrl?: string;
+    feedDiff?: FeedDiffSummary;
   };
+  rateLimit?: EtsyRateLimitQuota;
 }
 
 /**
@@ -70,7 +82,11 @@ export async function GET(): Promise<NextResponse> {
           lastSyncTime: syncMetadata.timestamp,
           status: syncMetadata.status,
           listingsCount: syncMetadata.listingsCount,
+          blockedReason: syncMetadata.publishGuard?.reason,
           feedUrl: syncMetadata.feedUrl,
+          googleFeedUrl: syncMetadata.googleFeedUrl,
+          pinterestFeedUrl: syncMetadata.pinterestFeedUrl,
+          feedDiff: syncMetadata.feedDiff,
         };
       }
     } catch (error) {
@@ -81,6 +97,18 @@ export async function GET(): Promise<NextResponse> {
       }
     }
 
+    // Get remaining Etsy API quota
+    // Handle case where Edge Config is not configured
+    try {
+      response.rateLimit = getRateLimitQuota(await getRateLimitState());
+    } catch (error) {
+      if (isEdgeConfigNotConfigured(error)) {
+        logInfo('Edge Config not configured, skipping rate limit quota');
+      } else {
+        throw error;
+      }
+    }
+
     logInfo('Status fetched successfully', {
       authenticated: response.authenticated,
       hasSyncMetadata: !!response.sync,
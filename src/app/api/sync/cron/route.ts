@@ -2,6 +2,7 @@
  * Cron Sync Route
  * Automated daily sync triggered by Vercel Cron Jobs
  * Validates CRON_SECRET before executing the sync
+ * Runs incrementally (only changed listings are re-fetched) unless SYNC_MODE=full
  *
  * GET /api/sync/cron
  *
@@ -9,14 +10,24 @@
  *   Authorization: Bearer <CRON_SECRET>
  *
  * Returns 401 if secret is missing or invalid
+ * Returns 409 if the publish guard blocked the feed (it is kept as a pending feed version)
  * Returns 200 with sync stats on success
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { timingSafeEqual } from 'crypto';
 import { EtsyClient, getValidToken } from '@/lib/etsy/client';
-import { formatListingsToCSV } from '@/lib/facebook/catalog';
-import { uploadCSV } from '@/lib/storage/blob';
+import {
+  buildCatalog,
+  parseSyncMode,
+  publishCatalog,
+  recordSyncRun,
+  resolveShop,
+  storeBlockedSyncMetadata,
+  type CatalogBuild,
+  type PublishedFeeds,
+} from '@/lib/sync/pipeline';
+import { pushFacebookCatalog, summarizePushResult } from '@/lib/facebook/push';
 import { storeSyncMetadata } from '@/lib/storage/edge-config';
 import { logInfo, logError } from '@/lib/utils/logger';
 import {
@@ -25,6 +36,7 @@ import {
   StorageError,
   RateLimitError,
   ConfigError,
+  PublishBlockedError,
   AppError,
   toPublicError,
 } from '@/lib/utils/errors';
@@ -36,6 +48,8 @@ import type { SyncStats } from '@/types';
 interface CronSyncResponse {
   success: true;
   feedUrl: string;
+  googleFeedUrl: string;
+  pinterestFeedUrl: string;
   stats: SyncStats;
   trigger: 'cron';
 }
@@ -97,6 +111,8 @@ function validateCronSecret(request: NextRequest): boolean {
 export async function GET(request: NextRequest): Promise<NextResponse> {
   const startTime = Date.now();
   const cronTimestamp = new Date().toISOString();
+  // Cron runs incrementally unless SYNC_MODE=full is configured
+  const requestedMode = parseSyncMode(process.env.SYNC_MODE);
 
   logInfo('Cron sync triggered', { timestamp: cronTimestamp });
 
@@ -119,6 +135,9 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
   logInfo('Cron sync authenticated successfully');
 
+  let build: CatalogBuild | null = null;
+  let published: PublishedFeeds | null = null;
+
   try {
     // Step 1: Validate authentication - ensure user has valid tokens
     logInfo('Cron sync: Validating Etsy authentication');
@@ -127,50 +146,52 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
     // Step 2: Create Etsy client and fetch shop details
     logInfo('Cron sync: Fetching shop details');
+    // The client's rate limit accounting is flushed once its Etsy requests are done, even if one failed
     const client = new EtsyClient();
+    try {
+      const shop = await resolveShop(client, tokens);
 
-    // Get shop using stored shop_id or look up by shop name
-    let shop;
-    if (tokens.shop_id) {
-      logInfo('Cron sync: Using stored shop_id', { shopId: tokens.shop_id });
-      shop = await client.getShopDetails(tokens.shop_id);
-    } else {
-      const shopName = process.env.ETSY_SHOP_NAME;
-      if (!shopName) {
-        logError('ETSY_SHOP_NAME environment variable is not set');
-        throw new ConfigError(
-          'ETSY_SHOP_NAME environment variable is required when shop_id is not stored'
-        );
-      }
-      logInfo('Cron sync: No shop_id stored, fetching shop by name', {
-        shopName,
+      logInfo('Cron sync: Shop details fetched', {
+        shopId: shop.shop_id,
+        shopName: shop.shop_name,
+        activeListingCount: shop.listing_active_count,
       });
-      shop = await client.getShopByName(shopName);
+
+      // Steps 3-4: Fetch listings, reuse unchanged ones, format changed ones
+      logInfo('Cron sync: Fetching listings and building catalog', { requestedMode });
+      build = await buildCatalog(client, shop, { mode: requestedMode });
+    } finally {
+      await client.flushRateLimit();
     }
 
-    logInfo('Cron sync: Shop details fetched', {
-      shopId: shop.shop_id,
-      shopName: shop.shop_name,
-      activeListingCount: shop.listing_active_count,
+    const rateLimit = client.getRateLimitQuota() ?? undefined;
+    const listingsCount = build.listings.length;
+    logInfo('Cron sync: Catalog built', {
+      mode: build.mode,
+      listingsCount,
+      productsCount: build.products.length,
+      changedListings: build.changedListings,
+      reusedListings: build.reusedListings,
+      archivedListings: build.archivedListings,
+      removedListings: build.removedListings,
+      excludedListings: build.excludedListings,
     });
 
-    // Step 3: Fetch all active listings from Etsy
-    logInfo('Cron sync: Fetching active listings');
-    const listings = await client.getShopListings(shop.shop_id.toString());
-    logInfo('Cron sync: Listings fetched', { count: listings.length });
-
-    // Step 4: Transform listings to Facebook CSV format
-    logInfo('Cron sync: Transforming listings to CSV');
-    const csvContent = formatListingsToCSV(listings, shop.shop_name);
-    logInfo('Cron sync: CSV generated', {
-      contentLength: csvContent.length,
-      listingsCount: listings.length,
+    // Step 5: Upload Facebook, Google Merchant and Pinterest feeds and snapshot to Blob storage
+    logInfo('Cron sync: Uploading feeds to Blob storage');
+    published = await publishCatalog(build);
+    const { feedUrl, xmlFeedUrl, googleFeedUrl, pinterestFeedUrl, feedVersionId, feedDiff } = published;
+    logInfo('Cron sync: Feeds uploaded', {
+      feedUrl,
+      xmlFeedUrl,
+      googleFeedUrl,
+      pinterestFeedUrl,
+      feedVersionId,
+      feedDiff,
     });
 
-    // Step 5: Upload CSV to Blob storage
-    logInfo('Cron sync: Uploading CSV to Blob storage');
-    const feedUrl = await uploadCSV(csvContent);
-    logInfo('Cron sync: CSV uploaded', { feedUrl });
+    // Push changed products to Meta (FACEBOOK_PUSH_ENABLED only; a failed push does not fail the sync)
+    const facebookPush = await pushFacebookCatalog(build.products);
 
     // Calculate sync duration
     const duration = Date.now() - startTime;
@@ -181,25 +202,44 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     await storeSyncMetadata({
       timestamp,
       status: 'success',
-      listingsCount: listings.length,
+      listingsCount,
       feedUrl,
+      googleFeedUrl,
+      pinterestFeedUrl,
+      filterStats: build.filterStats,
+      facebookPush: facebookPush ? summarizePushResult(facebookPush) : undefined,
+      feedDiff,
     });
     logInfo('Cron sync: Sync metadata stored');
+    await recordSyncRun('cron', startTime, { build, published });
 
     // Step 7: Return success response
     const response: CronSyncResponse = {
       success: true,
       feedUrl,
+      googleFeedUrl,
+      pinterestFeedUrl,
       stats: {
-        listingsCount: listings.length,
+        listingsCount,
         timestamp,
         duration,
+        mode: build.mode,
+        productsCount: build.products.length,
+        changedListings: build.changedListings,
+        reusedListings: build.reusedListings,
+        archivedListings: build.archivedListings,
+        removedListings: build.removedListings,
+        excludedListings: build.excludedListings,
+        facebookPush: facebookPush ?? undefined,
+        feedDiff,
+        rateLimit,
       },
       trigger: 'cron',
     };
 
     logInfo('Cron sync completed successfully', {
-      listingsCount: listings.length,
+      listingsCount,
+      mode: build.mode,
       duration: `${duration}ms`,
       feedUrl,
       trigger: 'cron',
@@ -216,18 +256,23 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       trigger: 'cron',
     });
 
-    // Store failure metadata
+    // Store failure metadata (a blocked publish keeps the previous feed URLs - the live feeds are unchanged)
     try {
-      await storeSyncMetadata({
-        timestamp: new Date().toISOString(),
-        status: 'failure',
-        listingsCount: 0,
-      });
+      if (error instanceof PublishBlockedError) {
+        await storeBlockedSyncMetadata(error);
+      } else {
+        await storeSyncMetadata({
+          timestamp: new Date().toISOString(),
+          status: 'failure',
+          listingsCount: 0,
+        });
+      }
     } catch (metadataError) {
       logError('Cron sync: Failed to store failure metadata', {
         error: metadataError instanceof Error ? metadataError.message : 'Unknown error',
       });
     }
+    await recordSyncRun('cron', startTime, { build, published, error });
 
     // Determine appropriate status code
     let statusCode = 500;
@@ -241,6 +286,8 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       statusCode = 503;
     } else if (error instanceof ConfigError) {
       statusCode = 500;
+    } else if (error instanceof PublishBlockedError) {
+      statusCode = 409;
     }
 
     const publicError = toPublicError(error);
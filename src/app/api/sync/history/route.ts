@@ -0,0 +1,97 @@
+/**
+ * Sync History API Route
+ * Lists recorded manual and cron sync runs
+ *
+ * GET /api/sync/history
+ * GET /api/sync/history?page=2&pageSize=20
+ * - Returns one page of runs, newest first, with the total number of runs
+ * - pageSize defaults to 20 (at most 100)
+ * - Requires a Postgres database (POSTGRES_URL); without one, configured is false and no runs are returned
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isDatabaseConfigured } from '@/lib/db/client';
+import {
+  DEFAULT_SYNC_RUN_PAGE_SIZE,
+  listSyncRuns,
+  MAX_SYNC_RUN_PAGE_SIZE,
+} from '@/lib/db/sync-runs';
+import { logInfo, logError } from '@/lib/utils/logger';
+import { StorageError, ValidationError, toPublicError } from '@/lib/utils/errors';
+
+/**
+ * Maps an error to an HTTP status code
+ */
+function getErrorStatus(error: unknown): number {
+  if (error instanceof ValidationError) {
+    return 400;
+  }
+  if (error instanceof StorageError) {
+    return 503;
+  }
+  return 500;
+}
+
+/**
+ * Parses a positive integer query parameter
+ * @throws ValidationError if the value is not an integer within [1, max]
+ */
+function parsePositiveInt(value: string | null, name: string, fallback: number, max?: number): number {
+  if (value === null || value.trim() === '') {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || (max !== undefined && parsed > max)) {
+    throw new ValidationError(
+      max === undefined
+        ? `${name} must be a positive integer`
+        : `${name} must be an integer between 1 and ${max}`
+    );
+  }
+  return parsed;
+}
+
+/**
+ * GET handler for the sync history
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  logInfo('Sync history requested');
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const page = parsePositiveInt(searchParams.get('page'), 'page', 1);
+    const pageSize = parsePositiveInt(
+      searchParams.get('pageSize'),
+      'pageSize',
+      DEFAULT_SYNC_RUN_PAGE_SIZE,
+      MAX_SYNC_RUN_PAGE_SIZE
+    );
+
+    if (!isDatabaseConfigured()) {
+      return NextResponse.json({
+        success: true,
+        data: { configured: false, runs: [], page, pageSize, total: 0 },
+      });
+    }
+
+    const history = await listSyncRuns(page, pageSize);
+
+    return NextResponse.json({
+      success: true,
+      data: { configured: true, ...history },
+    });
+  } catch (error) {
+    logError('Failed to get sync history', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
@@ -3,19 +3,42 @@
  * Orchestrates the complete sync process:
  * 1. Validate authentication (user must have valid tokens)
  * 2. Fetch shop details from Etsy
- * 3. Fetch all active listings from Etsy (handles pagination)
- * 4. Transform listings to Facebook CSV format
- * 5. Upload CSV to Blob storage
- * 6. Store sync metadata in Edge Config
+ * 3. Fetch all active listings from Etsy (handles pagination); in incremental mode,
+ *    reuse unchanged listings from the previous sync snapshot
+ * 4. Fetch inventory for changed listings with variations and transform them to
+ *    Facebook CSV format (one row per variant)
+ * 5. Check the new Facebook feed against the live one (publish guard), upload the Facebook,
+ *    Google Merchant and Pinterest feeds and the new snapshot to Blob storage, then push changed
+ *    products to Meta's Catalog Batch API (push mode only)
+ * 6. Store sync metadata in Edge Config and record the run in the sync history (POSTGRES_URL only)
  * 7. Return success response with feed URL and sync stats
  *
  * POST /api/sync/manual
+ * POST /api/sync/manual?mode=full  - Force a full sync (ignore the previous snapshot)
+ * POST /api/sync/manual?force=true - Publish even if the publish guard would block the feed
+ * POST /api/sync/manual?dryRun=1   - Preview: run steps 1-4, then return the products, their
+ *                                    validation issues and a diff against the live feed without
+ *                                    uploading anything or storing sync metadata
+ *                                    (a JSON body of { "dryRun": true } works too)
+ *
+ * Returns 409 (PUBLISH_BLOCKED) when the feed would shrink past PUBLISH_SHRINK_THRESHOLD;
+ * the new feed is then kept as a pending feed version
  */
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { EtsyClient, getValidToken } from '@/lib/etsy/client';
-import { formatListingsToCSV } from '@/lib/facebook/catalog';
-import { uploadCSV } from '@/lib/storage/blob';
+import {
+  buildCatalog,
+  parseSyncMode,
+  previewCatalog,
+  publishCatalog,
+  recordSyncRun,
+  resolveShop,
+  storeBlockedSyncMetadata,
+  type CatalogBuild,
+  type PublishedFeeds,
+} from '@/lib/sync/pipeline';
+import { pushFacebookCatalog, summarizePushResult } from '@/lib/facebook/push';
 import { storeSyncMetadata } from '@/lib/storage/edge-config';
 import { logInfo, logError } from '@/lib/utils/logger';
 import {
@@ -24,19 +47,47 @@ import {
   StorageError,
   RateLimitError,
   ConfigError,
+  PublishBlockedError,
   AppError,
   toPublicError,
 } from '@/lib/utils/errors';
-import type { ManualSyncResponse } from '@/types';
+import type { ManualSyncPreviewResponse, ManualSyncResponse } from '@/types';
+
+/**
+ * Checks whether the request asks for a dry run (?dryRun=1 or a JSON body with dryRun: true)
+ */
+async function isDryRun(request: NextRequest): Promise<boolean> {
+  const param = request.nextUrl.searchParams.get('dryRun');
+  if (param !== null) {
+    return param === '1' || param === 'true';
+  }
+
+  if (!request.headers.get('content-type')?.includes('application/json')) {
+    return false;
+  }
+  try {
+    const body = await request.json();
+    return body?.dryRun === true;
+  } catch {
+    return false;
+  }
+}
 
 /**
  * POST handler for manual sync
- * Triggers a complete sync of Etsy listings to Facebook catalog CSV
+ * Triggers a sync of Etsy listings to Facebook catalog CSV
+ * Runs incrementally by default; pass ?mode=full to rebuild from scratch, ?dryRun=1 to preview
  */
-export async function POST(): Promise<NextResponse> {
+export async function POST(request: NextRequest): Promise<NextResponse> {
   const startTime = Date.now();
+  const requestedMode = parseSyncMode(request.nextUrl.searchParams.get('mode'));
+  const force = request.nextUrl.searchParams.get('force') === 'true';
+  const dryRun = await isDryRun(request);
+
+  logInfo('Manual sync started', { requestedMode, force, dryRun });
 
-  logInfo('Manual sync started');
+  let build: CatalogBuild | null = null;
+  let published: PublishedFeeds | null = null;
 
   try {
     // Step 1: Validate authentication - ensure user has valid tokens
@@ -46,50 +97,85 @@ export async function POST(): Promise<NextResponse> {
 
     // Step 2: Create Etsy client and fetch shop details
     logInfo('Step 2: Fetching shop details');
+    // The client's rate limit accounting is flushed once its Etsy requests are done, even if one failed
     const client = new EtsyClient();
+    try {
+      const shop = await resolveShop(client, tokens);
 
-    // Get shop using stored shop_id or look up by shop name
-    let shop;
-    if (tokens.shop_id) {
-      logInfo('Using stored shop_id', { shopId: tokens.shop_id });
-      shop = await client.getShopDetails(tokens.shop_id);
-    } else {
-      const shopName = process.env.ETSY_SHOP_NAME;
-      if (!shopName) {
-        logError('ETSY_SHOP_NAME environment variable is not set');
-        throw new ConfigError(
-          'ETSY_SHOP_NAME environment variable is required when shop_id is not stored'
-        );
-      }
-      logInfo('No shop_id stored, fetching shop by name', {
-        shopName,
+      logInfo('Shop details fetched', {
+        shopId: shop.shop_id,
+        shopName: shop.shop_name,
+        activeListingCount: shop.listing_active_count,
       });
-      shop = await client.getShopByName(shopName);
+
+      // Steps 3-4: Fetch listings, reuse unchanged ones, format changed ones
+      logInfo('Steps 3-4: Fetching listings and building catalog');
+      build = await buildCatalog(client, shop, { mode: requestedMode });
+    } finally {
+      await client.flushRateLimit();
     }
 
-    logInfo('Shop details fetched', {
-      shopId: shop.shop_id,
-      shopName: shop.shop_name,
-      activeListingCount: shop.listing_active_count,
+    const rateLimit = client.getRateLimitQuota() ?? undefined;
+    const listingsCount = build.listings.length;
+    logInfo('Catalog built', {
+      mode: build.mode,
+      listingsCount,
+      productsCount: build.products.length,
+      changedListings: build.changedListings,
+      reusedListings: build.reusedListings,
+      archivedListings: build.archivedListings,
+      removedListings: build.removedListings,
+      excludedListings: build.excludedListings,
     });
 
-    // Step 3: Fetch all active listings from Etsy
-    logInfo('Step 3: Fetching active listings');
-    const listings = await client.getShopListings(shop.shop_id.toString());
-    logInfo('Listings fetched', { count: listings.length });
-
-    // Step 4: Transform listings to Facebook CSV format
-    logInfo('Step 4: Transforming listings to CSV');
-    const csvContent = formatListingsToCSV(listings, shop.shop_name);
-    logInfo('CSV generated', {
-      contentLength: csvContent.length,
-      listingsCount: listings.length,
+    // Dry run: report what would be published and stop before any upload
+    if (dryRun) {
+      const preview = await previewCatalog(build);
+      const duration = Date.now() - startTime;
+
+      const response: ManualSyncPreviewResponse = {
+        success: true,
+        dryRun: true,
+        stats: {
+          listingsCount,
+          timestamp: new Date().toISOString(),
+          duration,
+          mode: build.mode,
+          productsCount: build.products.length,
+          changedListings: build.changedListings,
+          reusedListings: build.reusedListings,
+          archivedListings: build.archivedListings,
+          removedListings: build.removedListings,
+          excludedListings: build.excludedListings,
+          rateLimit,
+        },
+        preview,
+      };
+
+      logInfo('Manual sync preview completed', {
+        listingsCount,
+        mode: build.mode,
+        duration: `${duration}ms`,
+      });
+
+      return NextResponse.json(response);
+    }
+
+    // Step 5: Upload Facebook, Google Merchant and Pinterest feeds and snapshot to Blob storage
+    logInfo('Step 5: Uploading feeds to Blob storage');
+    published = await publishCatalog(build, { force });
+    const { feedUrl, xmlFeedUrl, googleFeedUrl, pinterestFeedUrl, feedVersionId, feedDiff } = published;
+    logInfo('Feeds uploaded', {
+      feedUrl,
+      xmlFeedUrl,
+      googleFeedUrl,
+      pinterestFeedUrl,
+      feedVersionId,
+      feedDiff,
     });
 
-    // Step 5: Upload CSV to Blob storage
-    logInfo('Step 5: Uploading CSV to Blob storage');
-    const feedUrl = await uploadCSV(csvContent);
-    logInfo('CSV uploaded', { feedUrl });
+    // Push changed products to Meta (FACEBOOK_PUSH_ENABLED only; a failed push does not fail the sync)
+    const facebookPush = await pushFacebookCatalog(build.products);
 
     // Calculate sync duration
     const duration = Date.now() - startTime;
@@ -100,24 +186,43 @@ export async function POST(): Promise<NextResponse> {
     await storeSyncMetadata({
       timestamp,
       status: 'success',
-      listingsCount: listings.length,
+      listingsCount,
       feedUrl,
+      googleFeedUrl,
+      pinterestFeedUrl,
+      filterStats: build.filterStats,
+      facebookPush: facebookPush ? summarizePushResult(facebookPush) : undefined,
+      feedDiff,
     });
     logInfo('Sync metadata stored');
+    await recordSyncRun('manual', startTime, { build, published });
 
     // Step 7: Return success response
     const response: ManualSyncResponse = {
       success: true,
       feedUrl,
+      googleFeedUrl,
+      pinterestFeedUrl,
       stats: {
-        listingsCount: listings.length,
+        listingsCount,
         timestamp,
         duration,
+        mode: build.mode,
+        productsCount: build.products.length,
+        changedListings: build.changedListings,
+        reusedListings: build.reusedListings,
+        archivedListings: build.archivedListings,
+        removedListings: build.removedListings,
+        excludedListings: build.excludedListings,
+        facebookPush: facebookPush ?? undefined,
+        feedDiff,
+        rateLimit,
       },
     };
 
     logInfo('Manual sync completed successfully', {
-      listingsCount: listings.length,
+      listingsCount,
+      mode: build.mode,
       duration: `${duration}ms`,
       feedUrl,
     });
@@ -130,19 +235,28 @@ export async function POST(): Promise<NextResponse> {
       error: error instanceof Error ? error.message : 'Unknown error',
       code: error instanceof AppError ? error.code : undefined,
       duration: `${duration}ms`,
+      dryRun,
     });
 
-    // Store failure metadata
-    try {
-      await storeSyncMetadata({
-        timestamp: new Date().toISOString(),
-        status: 'failure',
-        listingsCount: 0,
-      });
-    } catch (metadataError) {
-      logError('Failed to store failure metadata', {
-        error: metadataError instanceof Error ? metadataError.message : 'Unknown error',
-      });
+    // Store failure metadata (a blocked publish keeps the previous feed URLs - the live feeds are unchanged;
+    // a dry run never touches the metadata)
+    if (!dryRun) {
+      try {
+        if (error instanceof PublishBlockedError) {
+          await storeBlockedSyncMetadata(error);
+        } else {
+          await storeSyncMetadata({
+            timestamp: new Date().toISOString(),
+            status: 'failure',
+            listingsCount: 0,
+          });
+        }
+      } catch (metadataError) {
+        logError('Failed to store failure metadata', {
+          error: metadataError instanceof Error ? metadataError.message : 'Unknown error',
+        });
+      }
+      await recordSyncRun('manual', startTime, { build, published, error });
     }
 
     // Determine appropriate status code
@@ -157,6 +271,8 @@ export async function POST(): Promise<NextResponse> {
       statusCode = 503;
     } else if (error instanceof ConfigError) {
       statusCode = 500;
+    } else if (error instanceof PublishBlockedError) {
+      statusCode = 409;
     }
 
     const publicError = toPublicError(error);
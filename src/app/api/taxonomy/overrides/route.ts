@@ -0,0 +1,113 @@
+/**
+ * Taxonomy Overrides API Route
+ * Manages shop-level category overrides layered on top of the bundled
+ * Etsy taxonomy → Google product category mapping table
+ *
+ * GET /api/taxonomy/overrides
+ * - Returns the stored overrides and the bundled mapping table
+ *
+ * PUT /api/taxonomy/overrides
+ * - Body: { overrides: [{ match, googleProductCategory?, productType? }] }
+ * - `match` is an Etsy taxonomy ID (e.g., "1234") or a category path prefix
+ *   (e.g., "Craft Supplies & Tools > Patterns & How To")
+ * - Replaces all overrides; the next sync re-formats every listing
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTaxonomyOverrides, storeTaxonomyOverrides } from '@/lib/storage/edge-config';
+import {
+  GOOGLE_CATEGORY_MAPPINGS,
+  GOOGLE_CATEGORY_MAPPING_VERSION,
+} from '@/lib/taxonomy/google-categories';
+import { validateTaxonomyOverrides } from '@/lib/taxonomy/mapper';
+import { logInfo, logError } from '@/lib/utils/logger';
+import { StorageError, ValidationError, toPublicError } from '@/lib/utils/errors';
+
+/**
+ * Maps an error to an HTTP status code
+ */
+function getErrorStatus(error: unknown): number {
+  if (error instanceof ValidationError) {
+    return 400;
+  }
+  if (error instanceof StorageError) {
+    return 503;
+  }
+  return 500;
+}
+
+/**
+ * GET handler for taxonomy overrides
+ * Returns the shop overrides and the bundled mapping table they apply on top of
+ */
+export async function GET(): Promise<NextResponse> {
+  logInfo('Taxonomy overrides requested');
+
+  try {
+    const overrides = await getTaxonomyOverrides();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        overrides,
+        mappingVersion: GOOGLE_CATEGORY_MAPPING_VERSION,
+        mappings: GOOGLE_CATEGORY_MAPPINGS,
+      },
+    });
+  } catch (error) {
+    logError('Failed to get taxonomy overrides', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
+
+/**
+ * PUT handler for taxonomy overrides
+ * Validates and replaces all shop overrides
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  logInfo('Taxonomy overrides update requested');
+
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ValidationError('Request body must be valid JSON');
+    }
+
+    const overrides = validateTaxonomyOverrides(
+      (body as { overrides?: unknown } | null)?.overrides
+    );
+    await storeTaxonomyOverrides(overrides);
+
+    logInfo('Taxonomy overrides updated', { count: overrides.length });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        overrides,
+      },
+    });
+  } catch (error) {
+    logError('Failed to update taxonomy overrides', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: toPublicError(error),
+      },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
@@ -8,6 +8,15 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { formatDistanceToNow } from 'date-fns';
 import type { StatusResponse } from '@/app/api/status/route';
+import DiagnosticsPanel from './DiagnosticsPanel';
+import FeedDiffPanel from './FeedDiffPanel';
+import FeedValidationPanel from './FeedValidationPanel';
+import FeedVersionsPanel from './FeedVersionsPanel';
+import FiltersPanel from './FiltersPanel';
+import OverridesEditor from './OverridesEditor';
+import RulesPanel from './RulesPanel';
+import SyncHistoryPanel from './SyncHistoryPanel';
+import SyncPreviewPanel from './SyncPreviewPanel';
 
 /**
  * Props for toast/feedback messages
@@ -205,10 +214,34 @@ function CopyButton({ text }: { text: string }) {
   );
 }
 
+/**
+ * Card showing a published feed URL with a copy button
+ */
+function FeedUrlCard({ title, url, hint }: { title: string; url: string; hint: string }) {
+  return (
+    <div className="mt-6 bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6">
+      <h2 className="text-lg font-semibold text-zinc-900 dark:text-white mb-4">
+        {title}
+      </h2>
+      <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
+        <div className="flex-1 min-w-0 w-full">
+          <div className="bg-zinc-50 dark:bg-zinc-800 rounded-lg p-3 font-mono text-sm text-zinc-700 dark:text-zinc-300 break-all">
+            {url}
+          </div>
+        </div>
+        <CopyButton text={url} />
+      </div>
+      <p className="mt-3 text-sm text-zinc-500 dark:text-zinc-500">
+        {hint}
+      </p>
+    </div>
+  );
+}
+
 /**
  * Sync status badge
  */
-function SyncStatusBadge({ status }: { status: 'success' | 'failure' }) {
+function SyncStatusBadge({ status }: { status: 'success' | 'failure' | 'blocked' }) {
   if (status === 'success') {
     return (
       <span className="px-2 py-1 text-xs font-medium rounded-full bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400">
@@ -217,6 +250,14 @@ function SyncStatusBadge({ status }: { status: 'success' | 'failure' }) {
     );
   }
 
+  if (status === 'blocked') {
+    return (
+      <span className="px-2 py-1 text-xs font-medium rounded-full bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400">
+        Blocked
+      </span>
+    );
+  }
+
   return (
     <span className="px-2 py-1 text-xs font-medium rounded-full bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400">
       Failed
@@ -320,6 +361,17 @@ export default function DashboardClient({
       });
       const data = await response.json();
 
+      if (data.error?.code === 'PUBLISH_BLOCKED') {
+        // The feed is waiting for approval in the Feed Versions panel
+        const statusResponse = await fetch('/api/status');
+        const statusData = await statusResponse.json();
+        if (statusData.success) {
+          setStatus(statusData.data);
+        }
+        setFeedback({ type: 'warning', text: data.error.message });
+        return;
+      }
+
       if (!response.ok || !data.success) {
         throw new Error(data.error?.message || 'Sync failed');
       }
@@ -342,9 +394,12 @@ export default function DashboardClient({
 
       const listingsCount = data.stats?.listingsCount ?? 0;
       const durationText = duration ? ` in ${formatDuration(duration)}` : '';
+      const modeText = data.stats?.mode === 'incremental'
+        ? ` (incremental: ${data.stats.changedListings ?? 0} changed)`
+        : '';
       setFeedback({
         type: 'success',
-        text: `Successfully synced ${listingsCount} listings${durationText}!`,
+        text: `Successfully synced ${listingsCount} listings${durationText}${modeText}!`,
       });
     } catch (err) {
       setFeedback(getActionableError(err));
@@ -594,6 +649,11 @@ export default function DashboardClient({
                         </span>
                         <SyncStatusBadge status={status.sync.status} />
                       </div>
+                      {status.sync.blockedReason && (
+                        <p className="text-sm text-yellow-700 dark:text-yellow-400">
+                          {status.sync.blockedReason}
+                        </p>
+                      )}
                       <div className="flex items-center justify-between">
                         <span className="text-zinc-600 dark:text-zinc-400">
                           Listings
@@ -602,6 +662,16 @@ export default function DashboardClient({
                           {status.sync.listingsCount}
                         </span>
                       </div>
+                      {status.sync.feedDiff && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-zinc-600 dark:text-zinc-400">
+                            Changes
+                          </span>
+                          <span className="text-zinc-500 dark:text-zinc-500 text-sm" data-testid="sync-feed-diff">
+                            +{status.sync.feedDiff.added} / -{status.sync.feedDiff.removed} / {status.sync.feedDiff.changed} changed
+                          </span>
+                        </div>
+                      )}
                       {lastSyncDuration && (
                         <div className="flex items-center justify-between">
                           <span className="text-zinc-600 dark:text-zinc-400">
@@ -658,27 +728,61 @@ export default function DashboardClient({
               </div>
             </div>
 
-            {/* Feed URL Card */}
+            {/* Feed URL Cards */}
             {status.sync?.feedUrl && (
-              <div className="mt-6 bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6">
-                <h2 className="text-lg font-semibold text-zinc-900 dark:text-white mb-4">
-                  Facebook Catalog Feed
-                </h2>
-                <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
-                  <div className="flex-1 min-w-0 w-full">
-                    <div className="bg-zinc-50 dark:bg-zinc-800 rounded-lg p-3 font-mono text-sm text-zinc-700 dark:text-zinc-300 break-all">
-                      {status.sync.feedUrl}
-                    </div>
-                  </div>
-                  <CopyButton text={status.sync.feedUrl} />
-                </div>
-                <p className="mt-3 text-sm text-zinc-500 dark:text-zinc-500">
-                  Add this URL to your Facebook Business Manager to import your
-                  catalog.
-                </p>
-              </div>
+              <FeedUrlCard
+                title="Facebook Catalog Feed"
+                url={status.sync.feedUrl}
+                hint="Add this URL to your Facebook Business Manager to import your catalog."
+              />
+            )}
+            {status.sync?.googleFeedUrl && (
+              <FeedUrlCard
+                title="Google Merchant Feed"
+                url={status.sync.googleFeedUrl}
+                hint="Add this URL as a scheduled fetch in Google Merchant Center."
+              />
+            )}
+            {status.sync?.pinterestFeedUrl && (
+              <FeedUrlCard
+                title="Pinterest Catalog Feed"
+                url={status.sync.pinterestFeedUrl}
+                hint="Add this URL as a catalog data source in Pinterest Business."
+              />
             )}
 
+            {/* Sync Preview */}
+            {status.authenticated && !status.tokenExpired && <SyncPreviewPanel />}
+
+            {/* Sync History */}
+            {status.authenticated && <SyncHistoryPanel refreshKey={status.sync?.lastSyncTime} />}
+
+            {/* Feed Validation */}
+            {status.sync?.feedUrl && <FeedValidationPanel />}
+
+            {/* Feed Versions */}
+            {status.sync?.feedUrl && (
+              <FeedVersionsPanel
+                refreshKey={status.sync.lastSyncTime}
+                onPendingResolved={handleRefreshStatus}
+              />
+            )}
+
+            {/* Feed Changes */}
+            {status.sync?.feedUrl && <FeedDiffPanel refreshKey={status.sync.lastSyncTime} />}
+
+            {/* Facebook Diagnostics */}
+            {status.sync?.feedUrl && <DiagnosticsPanel />}
+
+            {/* Listing Filters */}
+            {status.authenticated && <FiltersPanel />}
+
+            {/* Feed Rules */}
+            {status.authenticated && <RulesPanel />}
+
+            {/* Listing Overrides */}
+            {status.authenticated && <OverridesEditor />}
+
             {/* Instructions */}
             <div className="mt-6 p-6 bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800">
               <h2 className="text-lg font-semibold text-zinc-900 dark:text-white mb-4">
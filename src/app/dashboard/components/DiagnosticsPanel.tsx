@@ -0,0 +1,194 @@
+'use client';
+
+/**
+ * Feed Diagnostics Panel
+ * Imports the errors Meta reported for the feed (error report file or Graph API) and lists them
+ * by listing with suggested fixes
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import type { FeedDiagnosticsDocument } from '@/lib/facebook/types';
+
+/** Maximum number of diagnostics rendered in the table */
+const MAX_VISIBLE_DIAGNOSTICS = 200;
+
+const SOURCE_LABELS: Record<FeedDiagnosticsDocument['source'], string> = {
+  csv: 'CSV report',
+  json: 'JSON report',
+  graph_api: 'Meta Graph API',
+};
+
+/**
+ * Unwraps the { success, data, error } envelope
+ */
+async function readResponse<T>(response: Response): Promise<T> {
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error?.message || `Request failed (${response.status})`);
+  }
+  return result.data as T;
+}
+
+/**
+ * Feed diagnostics panel component
+ */
+export default function DiagnosticsPanel() {
+  const [report, setReport] = useState<FeedDiagnosticsDocument | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/feed/diagnostics')
+      .then((response) => readResponse<FeedDiagnosticsDocument | null>(response))
+      .then(setReport)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load diagnostics'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const runImport = useCallback(async (request: () => Promise<Response>) => {
+    setImporting(true);
+    setError(null);
+    try {
+      setReport(await readResponse<FeedDiagnosticsDocument>(await request()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setImporting(false);
+    }
+  }, []);
+
+  const handleFile = useCallback(
+    async (file: File) => {
+      const content = await file.text();
+      const isJson = file.name.toLowerCase().endsWith('.json') || file.type === 'application/json';
+      await runImport(() =>
+        fetch('/api/feed/diagnostics', {
+          method: 'POST',
+          headers: { 'Content-Type': isJson ? 'application/json' : 'text/csv' },
+          body: content,
+        })
+      );
+    },
+    [runImport]
+  );
+
+  const handleFetch = useCallback(
+    () => runImport(() => fetch('/api/feed/diagnostics?source=graph', { method: 'POST' })),
+    [runImport]
+  );
+
+  return (
+    <div
+      className="mt-6 bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6"
+      data-testid="diagnostics-panel"
+    >
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <h2 className="text-lg font-semibold text-zinc-900 dark:text-white">
+          Facebook Diagnostics
+        </h2>
+        <div className="flex gap-2">
+          <label className="px-4 py-2 text-sm font-medium text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-lg transition-colors cursor-pointer">
+            Upload Report
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              aria-label="Error report file"
+              className="sr-only"
+              disabled={importing}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                event.target.value = '';
+                if (file) {
+                  handleFile(file);
+                }
+              }}
+            />
+          </label>
+          <button
+            onClick={handleFetch}
+            disabled={importing}
+            className="px-4 py-2 text-sm font-medium text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {importing ? 'Importing...' : 'Fetch from Meta'}
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-zinc-500 dark:text-zinc-500">
+        Import the error report from Commerce Manager (CSV or JSON) or fetch the errors of the latest
+        feed upload. Each problem is matched to its Etsy listing; the overrides editor shows them too.
+      </p>
+
+      {error && <p className="mt-3 text-sm text-red-700 dark:text-red-400">{error}</p>}
+
+      {loading ? (
+        <p className="mt-3 text-sm text-zinc-500">Loading...</p>
+      ) : !report ? (
+        <p className="mt-3 text-sm text-zinc-500">No diagnostics imported yet.</p>
+      ) : (
+        <div className="mt-4" data-testid="diagnostics-results">
+          <p className="text-sm text-zinc-700 dark:text-zinc-300">
+            {report.total} issue{report.total === 1 ? '' : 's'} from{' '}
+            {SOURCE_LABELS[report.source]}, imported {new Date(report.importedAt).toLocaleString()}
+            {report.unmatched > 0 && (
+              <span className="text-yellow-700 dark:text-yellow-400">
+                {' '}({report.unmatched} not matched to a synced listing)
+              </span>
+            )}
+          </p>
+
+          {report.diagnostics.length > 0 && (
+            <div className="mt-3 overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-zinc-500 dark:text-zinc-500">
+                  <tr>
+                    <th className="py-2 pr-4 font-medium">Listing</th>
+                    <th className="py-2 pr-4 font-medium">Product</th>
+                    <th className="py-2 pr-4 font-medium">Severity</th>
+                    <th className="py-2 pr-4 font-medium">Message</th>
+                    <th className="py-2 font-medium">Suggested Fix</th>
+                  </tr>
+                </thead>
+                <tbody className="text-zinc-700 dark:text-zinc-300">
+                  {report.diagnostics.slice(0, MAX_VISIBLE_DIAGNOSTICS).map((diagnostic, index) => (
+                    <tr
+                      key={`${diagnostic.productId}-${index}`}
+                      className="border-t border-zinc-200 dark:border-zinc-800"
+                    >
+                      <td className="py-2 pr-4">
+                        {diagnostic.listingId === null ? (
+                          <span className="text-zinc-500">Not found</span>
+                        ) : (
+                          <span className="block max-w-xs truncate" title={diagnostic.listingTitle}>
+                            {diagnostic.listingTitle ?? diagnostic.listingId}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 font-mono text-xs">{diagnostic.productId}</td>
+                      <td
+                        className={`py-2 pr-4 ${
+                          diagnostic.severity === 'error'
+                            ? 'text-red-700 dark:text-red-400'
+                            : 'text-yellow-700 dark:text-yellow-400'
+                        }`}
+                      >
+                        {diagnostic.severity === 'error' ? 'Error' : 'Warning'}
+                      </td>
+                      <td className="py-2 pr-4">{diagnostic.message}</td>
+                      <td className="py-2 text-zinc-600 dark:text-zinc-400">{diagnostic.suggestion ?? ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {report.diagnostics.length > MAX_VISIBLE_DIAGNOSTICS && (
+                <p className="mt-2 text-xs text-zinc-500">
+                  Showing the first {MAX_VISIBLE_DIAGNOSTICS} of {report.diagnostics.length} issues.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
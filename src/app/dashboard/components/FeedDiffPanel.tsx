@@ -0,0 +1,153 @@
+'use client';
+
+/**
+ * Feed Diff Panel
+ * Compares the live Facebook feed with the previous version, or any two stored versions
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import type { FeedDiff, FeedDiffSummary, FeedVersion } from '@/lib/facebook/types';
+import FeedDiffView from './FeedDiffView';
+
+/**
+ * One side of a comparison returned by GET /api/feed/diff
+ */
+interface FeedDiffSide {
+  ref: string;
+  versionId: string | null;
+  createdAt: string | null;
+  productCount: number;
+}
+
+/**
+ * Comparison returned by GET /api/feed/diff
+ */
+interface FeedDiffResult {
+  from: FeedDiffSide;
+  to: FeedDiffSide;
+  summary: FeedDiffSummary;
+  diff: FeedDiff;
+}
+
+/**
+ * Props for FeedDiffPanel
+ */
+interface FeedDiffPanelProps {
+  /** Changing value (e.g., the last sync time) that triggers a reload */
+  refreshKey?: string | null;
+}
+
+/**
+ * Unwraps the { success, data, error } envelope
+ */
+async function readResponse<T>(response: Response): Promise<T> {
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error?.message || `Request failed (${response.status})`);
+  }
+  return result.data as T;
+}
+
+/**
+ * Describes one side of a comparison
+ */
+function describeSide(side: FeedDiffSide): string {
+  const name = side.ref === 'live' ? 'Live feed' : side.ref === 'previous' ? 'Previous version' : 'Version';
+  const version = side.versionId ? ` ${side.versionId}` : '';
+  return `${name}${version} (${side.productCount} products)`;
+}
+
+/**
+ * Feed diff panel component
+ */
+export default function FeedDiffPanel({ refreshKey }: FeedDiffPanelProps) {
+  const [versions, setVersions] = useState<FeedVersion[]>([]);
+  const [from, setFrom] = useState('previous');
+  const [to, setTo] = useState('live');
+  const [result, setResult] = useState<FeedDiffResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const compare = useCallback(async (fromRef: string, toRef: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ from: fromRef, to: toRef });
+      setResult(await readResponse<FeedDiffResult>(await fetch(`/api/feed/diff?${params}`)));
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Comparison failed');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetch('/api/feed/versions')
+      .then((response) => readResponse<{ versions: FeedVersion[] }>(response))
+      .then((data) => setVersions(data.versions))
+      .catch(() => setVersions([]));
+    compare('previous', 'live');
+  }, [compare, refreshKey]);
+
+  const selectClassName =
+    'px-3 py-2 text-sm rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white';
+
+  return (
+    <div
+      className="mt-6 bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6"
+      data-testid="feed-diff-panel"
+    >
+      <h2 className="text-lg font-semibold text-zinc-900 dark:text-white mb-2">Feed Changes</h2>
+      <p className="text-sm text-zinc-500 dark:text-zinc-500">
+        What changed on Facebook: new and removed products, price changes, availability flips and
+        title edits. Compares the live feed with the previous version by default.
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-sm text-zinc-600 dark:text-zinc-400">
+          From
+          <select value={from} onChange={(event) => setFrom(event.target.value)} className={selectClassName}>
+            <option value="previous">Previous version</option>
+            <option value="live">Live feed</option>
+            {versions.map((version) => (
+              <option key={version.id} value={version.id}>
+                {version.id}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-zinc-600 dark:text-zinc-400">
+          To
+          <select value={to} onChange={(event) => setTo(event.target.value)} className={selectClassName}>
+            <option value="live">Live feed</option>
+            <option value="previous">Previous version</option>
+            {versions.map((version) => (
+              <option key={version.id} value={version.id}>
+                {version.id}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={() => compare(from, to)}
+          disabled={loading}
+          className="px-4 py-2 text-sm font-medium text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {loading ? 'Comparing...' : 'Compare'}
+        </button>
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-700 dark:text-red-400">{error}</p>}
+
+      {result && (
+        <div className="mt-4 space-y-3" data-testid="feed-diff-results">
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            {describeSide(result.from)} → {describeSide(result.to)}
+          </p>
+          <FeedDiffView diff={result.diff} summary={result.summary} beforeLabel="Before" afterLabel="After" />
+        </div>
+      )}
+    </div>
+  );
+}
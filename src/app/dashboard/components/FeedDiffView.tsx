@@ -0,0 +1,162 @@
+'use client';
+
+/**
+ * Feed Diff View
+ * Renders a feed diff: summary counts, added and removed product IDs, and the changed fields of each
+ * product, filterable by kind of change
+ */
+
+import { useState } from 'react';
+import type { FeedChangeCategory, FeedDiff, FeedDiffSummary } from '@/lib/facebook/types';
+
+/** Maximum number of products rendered per list */
+const MAX_VISIBLE_ROWS = 200;
+
+/**
+ * Change filter: all changes or one category
+ */
+type ChangeFilter = 'all' | Exclude<FeedChangeCategory, 'other'>;
+
+const FILTER_LABELS: Record<ChangeFilter, string> = {
+  all: 'All',
+  price: 'Price',
+  availability: 'Availability',
+  title: 'Title',
+};
+
+/**
+ * Props for FeedDiffView
+ * @property diff - Diff to render
+ * @property summary - Counts of the diff
+ * @property beforeLabel - Column heading for the earlier values
+ * @property afterLabel - Column heading for the later values
+ */
+interface FeedDiffViewProps {
+  diff: FeedDiff;
+  summary: FeedDiffSummary;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+/**
+ * Comma-separated list of IDs, truncated to MAX_VISIBLE_ROWS
+ */
+function formatIds(ids: string[]): string {
+  const visible = ids.slice(0, MAX_VISIBLE_ROWS).join(', ');
+  return ids.length > MAX_VISIBLE_ROWS ? `${visible}, ... (${ids.length - MAX_VISIBLE_ROWS} more)` : visible;
+}
+
+/**
+ * Feed diff view component
+ */
+export default function FeedDiffView({ diff, summary, beforeLabel, afterLabel }: FeedDiffViewProps) {
+  const [filter, setFilter] = useState<ChangeFilter>('all');
+
+  const changed =
+    filter === 'all'
+      ? diff.changed
+      : diff.changed
+          .map((product) => ({
+            ...product,
+            changes: product.changes.filter((change) => change.category === filter),
+          }))
+          .filter((product) => product.changes.length > 0);
+
+  const filterCounts: Record<ChangeFilter, number> = {
+    all: summary.changed,
+    price: summary.priceChanges,
+    availability: summary.availabilityChanges,
+    title: summary.titleChanges,
+  };
+
+  return (
+    <div className="space-y-4" data-testid="feed-diff-view">
+      <p className="text-sm text-zinc-700 dark:text-zinc-300">
+        <span className="text-green-700 dark:text-green-400">{summary.added} added</span>,{' '}
+        <span className="text-red-700 dark:text-red-400">{summary.removed} removed</span>,{' '}
+        {summary.changed} changed, {summary.unchanged} unchanged. Price changes: {summary.priceChanges},
+        availability flips: {summary.availabilityChanges}, title edits: {summary.titleChanges}.
+      </p>
+
+      {diff.added.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-zinc-900 dark:text-white">Added</h3>
+          <p className="text-sm font-mono text-zinc-700 dark:text-zinc-300 break-all">
+            {formatIds(diff.added)}
+          </p>
+        </div>
+      )}
+
+      {diff.removed.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-zinc-900 dark:text-white">Removed</h3>
+          <p className="text-sm font-mono text-zinc-700 dark:text-zinc-300 break-all">
+            {formatIds(diff.removed)}
+          </p>
+        </div>
+      )}
+
+      {diff.changed.length > 0 && (
+        <div className="overflow-x-auto">
+          <div className="flex flex-wrap items-center gap-2">
+            <h3 className="text-sm font-medium text-zinc-900 dark:text-white mr-2">Changed</h3>
+            {(Object.keys(FILTER_LABELS) as ChangeFilter[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => setFilter(option)}
+                aria-pressed={filter === option}
+                className={`px-2 py-0.5 text-xs rounded-full transition-colors ${
+                  filter === option
+                    ? 'bg-orange-600 text-white'
+                    : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700'
+                }`}
+              >
+                {FILTER_LABELS[option]} ({filterCounts[option]})
+              </button>
+            ))}
+          </div>
+          <table className="mt-1 w-full text-sm text-left">
+            <thead className="text-zinc-500 dark:text-zinc-500">
+              <tr>
+                <th className="py-2 pr-4 font-medium">Product</th>
+                <th className="py-2 pr-4 font-medium">Field</th>
+                <th className="py-2 pr-4 font-medium">{beforeLabel}</th>
+                <th className="py-2 font-medium">{afterLabel}</th>
+              </tr>
+            </thead>
+            <tbody className="text-zinc-700 dark:text-zinc-300">
+              {changed.slice(0, MAX_VISIBLE_ROWS).flatMap((product) =>
+                product.changes.map((change, index) => (
+                  <tr
+                    key={`${product.id}-${change.field}`}
+                    className="border-t border-zinc-200 dark:border-zinc-800 align-top"
+                  >
+                    <td className="py-2 pr-4">
+                      {index === 0 && (
+                        <span className="block max-w-xs truncate" title={product.title}>
+                          <span className="font-mono text-xs">{product.id}</span> {product.title}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 font-mono text-xs">{change.field}</td>
+                    <td className="py-2 pr-4 max-w-xs truncate" title={change.before}>
+                      {change.before}
+                    </td>
+                    <td className="py-2 max-w-xs truncate" title={change.after}>
+                      {change.after}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+          {changed.length > MAX_VISIBLE_ROWS && (
+            <p className="mt-2 text-xs text-zinc-500">
+              Showing the first {MAX_VISIBLE_ROWS} of {changed.length} changed products.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+/**
+ * Feed Validation Panel
+ * Validates the stored Facebook feed and lists errors and warnings per listing and row
+ */
+
+import { useState, useCallback } from 'react';
+import type { FeedValidationIssue, FeedValidationReport } from '@/lib/facebook/types';
+
+/**
+ * Validation data returned by GET /api/feed/validate
+ */
+type FeedValidation = FeedValidationReport & { uploadedAt: string };
+
+/**
+ * Issue row shown in the table
+ */
+interface IssueRow extends FeedValidationIssue {
+  listingId: string;
+}
+
+/** Maximum number of issues rendered in the table */
+const MAX_VISIBLE_ISSUES = 200;
+
+/**
+ * Flattens the report into table rows (header issues first, then by row number)
+ */
+function getIssueRows(report: FeedValidation): IssueRow[] {
+  const rows: IssueRow[] = report.headerIssues.map((issue) => ({ ...issue, listingId: '' }));
+  for (const listing of report.listings) {
+    for (const issue of [...listing.errors, ...listing.warnings]) {
+      rows.push({ ...issue, listingId: listing.listingId });
+    }
+  }
+  return rows.sort((a, b) => a.row - b.row);
+}
+
+/**
+ * Feed validation panel component
+ */
+export default function FeedValidationPanel() {
+  const [report, setReport] = useState<FeedValidation | null>(null);
+  const [validating, setValidating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleValidate = useCallback(async () => {
+    setValidating(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/feed/validate');
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error?.message || `Request failed (${response.status})`);
+      }
+      if (result.data.error) {
+        throw new Error(result.data.error);
+      }
+      setReport(result.data);
+    } catch (err) {
+      setReport(null);
+      setError(err instanceof Error ? err.message : 'Validation failed');
+    } finally {
+      setValidating(false);
+    }
+  }, []);
+
+  const issues = report ? getIssueRows(report) : [];
+
+  return (
+    <div
+      className="mt-6 bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6"
+      data-testid="feed-validation-panel"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-semibold text-zinc-900 dark:text-white">
+          Feed Validation
+        </h2>
+        <button
+          onClick={handleValidate}
+          disabled={validating}
+          className="px-4 py-2 text-sm font-medium text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {validating ? 'Validating...' : 'Validate Feed'}
+        </button>
+      </div>
+      <p className="text-sm text-zinc-500 dark:text-zinc-500">
+        Checks every row of the Facebook feed against the catalog spec. Errors make Facebook reject a
+        product; warnings are accepted but worth fixing.
+      </p>
+
+      {error && <p className="mt-3 text-sm text-red-700 dark:text-red-400">{error}</p>}
+
+      {report && (
+        <div className="mt-4" data-testid="feed-validation-results">
+          <p
+            className={`text-sm font-medium ${
+              report.valid ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'
+            }`}
+          >
+            {report.valid ? 'Feed is valid' : 'Feed has errors'}: {report.productCount} products,{' '}
+            {report.errorCount} error{report.errorCount === 1 ? '' : 's'}, {report.warningCount} warning
+            {report.warningCount === 1 ? '' : 's'}
+          </p>
+
+          {issues.length > 0 && (
+            <div className="mt-3 overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-zinc-500 dark:text-zinc-500">
+                  <tr>
+                    <th className="py-2 pr-4 font-medium">Row</th>
+                    <th className="py-2 pr-4 font-medium">Listing</th>
+                    <th className="py-2 pr-4 font-medium">Field</th>
+                    <th className="py-2 pr-4 font-medium">Severity</th>
+                    <th className="py-2 font-medium">Message</th>
+                  </tr>
+                </thead>
+                <tbody className="text-zinc-700 dark:text-zinc-300">
+                  {issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, index) => (
+                    <tr
+                      key={`${issue.row}-${issue.field}-${index}`}
+                      className="border-t border-zinc-200 dark:border-zinc-800"
+                    >
+                      <td className="py-2 pr-4 font-mono text-xs">{issue.row}</td>
+                      <td className="py-2 pr-4 font-mono text-xs">{issue.listingId || 'Header'}</td>
+                      <td className="py-2 pr-4 font-mono text-xs">{issue.field}</td>
+                      <td
+                        className={`py-2 pr-4 ${
+                          issue.severity === 'error'
+                            ? 'text-red-700 dark:text-red-400'
+                            : 'text-yellow-700 dark:text-yellow-400'
+                        }`}
+                      >
+                        {issue.severity === 'error' ? 'Error' : 'Warning'}
+                      </td>
+                      <td className="py-2">{issue.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {issues.length > MAX_VISIBLE_ISSUES && (
+                <p className="mt-2 text-xs text-zinc-500">
+                  Showing the first {MAX_VISIBLE_ISSUES} of {issues.length} issues.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+'use client';
+
+/**
+ * Feed Versions Panel
+ * Lists the stored versions of the Facebook feed and restores an earlier one as the live feed.
+ * A feed blocked by the publish guard is shown as pending and can be approved, force-published
+ * or discarded.
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import type { FeedVersion, PendingFeedVersion } from '@/lib/facebook/types';
+
+/**
+ * Version list returned by GET /api/feed/versions
+ */
+interface FeedVersionList {
+  liveVersionId: string | null;
+  versions: FeedVersion[];
+  pending: PendingFeedVersion | null;
+}
+
+/**
+ * Props for FeedVersionsPanel
+ */
+interface FeedVersionsPanelProps {
+  /** Changing value (e.g., the last sync time) that triggers a reload */
+  refreshKey?: string | null;
+  /** Called after the pending version was resolved, so the sync status can be refreshed */
+  onPendingResolved?: () => void;
+}
+
+/**
+ * Panel message
+ */
+interface PanelMessage {
+  type: 'success' | 'error';
+  text: string;
+}
+
+/**
+ * Unwraps the { success, data, error } envelope
+ */
+async function readResponse<T>(response: Response): Promise<T> {
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error?.message || `Request failed (${response.status})`);
+  }
+  return result.data as T;
+}
+
+/**
+ * Feed versions panel component
+ */
+export default function FeedVersionsPanel({ refreshKey, onPendingResolved }: FeedVersionsPanelProps) {
+  const [list, setList] = useState<FeedVersionList | null>(null);
+  const [confirming, setConfirming] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [resolving, setResolving] = useState(false);
+  const [message, setMessage] = useState<PanelMessage | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setList(await readResponse<FeedVersionList>(await fetch('/api/feed/versions')));
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to load versions' });
+    }
+  }, []);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions, refreshKey]);
+
+  const handleRestore = useCallback(async (versionId: string) => {
+    setRestoring(true);
+    setMessage(null);
+    try {
+      const data = await readResponse<{ liveVersionId: string }>(
+        await fetch('/api/feed/versions/promote', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ versionId }),
+        })
+      );
+      setList((current) => (current ? { ...current, liveVersionId: data.liveVersionId } : current));
+      setMessage({ type: 'success', text: `Version ${versionId} is now the live feed.` });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Restore failed' });
+    } finally {
+      setRestoring(false);
+      setConfirming(null);
+    }
+  }, []);
+
+  const resolvePending = useCallback(
+    async (request: () => Promise<Response>, successText: string) => {
+      setResolving(true);
+      setMessage(null);
+      try {
+        await readResponse<unknown>(await request());
+        setMessage({ type: 'success', text: successText });
+        onPendingResolved?.();
+      } catch (err) {
+        setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Request failed' });
+      } finally {
+        setResolving(false);
+        await loadVersions();
+      }
+    },
+    [loadVersions, onPendingResolved]
+  );
+
+  const handleApprove = useCallback(
+    () =>
+      resolvePending(
+        () => fetch('/api/feed/versions/pending', { method: 'POST' }),
+        'Pending version approved and published as the live feed.'
+      ),
+    [resolvePending]
+  );
+
+  const handleForcePublish = useCallback(
+    () =>
+      resolvePending(
+        () => fetch('/api/sync/manual?force=true', { method: 'POST' }),
+        'Sync completed without the publish guard.'
+      ),
+    [resolvePending]
+  );
+
+  const handleDiscard = useCallback(
+    () =>
+      resolvePending(
+        () => fetch('/api/feed/versions/pending', { method: 'DELETE' }),
+        'Pending version discarded. The live feed is unchanged.'
+      ),
+    [resolvePending]
+  );
+
+  return (
+    <div
+      className="mt-6 bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6"
+      data-testid="feed-versions-panel"
+    >
+      <h2 className="text-lg font-semibold text-zinc-900 dark:text-white mb-2">
+        Feed Versions
+      </h2>
+      <p className="text-sm text-zinc-500 dark:text-zinc-500">
+        Every sync that changes the Facebook feed keeps a copy. Restoring a version replaces the live
+        feed until the next sync.
+      </p>
+
+      {message && (
+        <p
+          className={`mt-3 text-sm ${
+            message.type === 'success'
+              ? 'text-green-700 dark:text-green-400'
+              : 'text-red-700 dark:text-red-400'
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+
+      {list?.pending && (
+        <div
+          className="mt-4 p-4 rounded-lg border border-yellow-300 dark:border-yellow-800 bg-yellow-50 dark:bg-yellow-900/20"
+          data-testid="pending-feed-version"
+        >
+          <p className="text-sm font-medium text-yellow-700 dark:text-yellow-400">
+            Publishing blocked by the publish guard
+          </p>
+          {list.pending.guard.reason && (
+            <p className="mt-1 text-sm text-yellow-700 dark:text-yellow-400">
+              {list.pending.guard.reason}.
+            </p>
+          )}
+          <p className="mt-1 text-sm text-zinc-700 dark:text-zinc-300">
+            Live feed: {list.pending.guard.previousCount} products. Pending version{' '}
+            <span className="font-mono text-xs">{list.pending.id}</span>:{' '}
+            {list.pending.guard.newCount} products, {list.pending.guard.removedCount} removed.
+          </p>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <button
+              onClick={handleApprove}
+              disabled={resolving}
+              className="px-3 py-1 text-xs font-medium text-white bg-orange-600 hover:bg-orange-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Approve
+            </button>
+            <button
+              onClick={handleForcePublish}
+              disabled={resolving}
+              className="px-3 py-1 text-xs font-medium text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Force Publish
+            </button>
+            <button
+              onClick={handleDiscard}
+              disabled={resolving}
+              className="px-3 py-1 text-xs font-medium text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Discard
+            </button>
+          </div>
+          <p className="mt-2 text-xs text-zinc-500">
+            Approve publishes the pending Facebook feed. Force Publish runs a new sync without the
+            guard and publishes every feed.
+          </p>
+        </div>
+      )}
+
+      {list && list.versions.length === 0 && (
+        <p className="mt-3 text-sm text-zinc-500">No versions recorded yet.</p>
+      )}
+
+      {list && list.versions.length > 0 && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-zinc-500 dark:text-zinc-500">
+              <tr>
+                <th className="py-2 pr-4 font-medium">Version</th>
+                <th className="py-2 pr-4 font-medium">Created</th>
+                <th className="py-2 pr-4 font-medium">Products</th>
+                <th className="py-2 pr-4 font-medium">Size</th>
+                <th className="py-2 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody className="text-zinc-700 dark:text-zinc-300">
+              {list.versions.map((version) => (
+                <tr key={version.id} className="border-t border-zinc-200 dark:border-zinc-800">
+                  <td className="py-2 pr-4 font-mono text-xs">
+                    <a
+                      href={version.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="hover:underline"
+                    >
+                      {version.id}
+                    </a>
+                  </td>
+                  <td className="py-2 pr-4">{new Date(version.createdAt).toLocaleString()}</td>
+                  <td className="py-2 pr-4">{version.productCount}</td>
+                  <td className="py-2 pr-4">{(version.sizeBytes / 1024).toFixed(1)} KB</td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    {version.id === list.liveVersionId ? (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400">
+                        Live
+                      </span>
+                    ) : confirming === version.id ? (
+                      <span className="flex justify-end gap-2">
+                        <button
+                          onClick={() => handleRestore(version.id)}
+                          disabled={restoring}
+                          className="px-3 py-1 text-xs font-medium text-white bg-orange-600 hover:bg-orange-700 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          {restoring ? 'Restoring...' : 'Confirm Restore'}
+                        </button>
+                        <button
+                          onClick={() => setConfirming(null)}
+                          disabled={restoring}
+                          className="px-3 py-1 text-xs font-medium text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          Cancel
+                        </button>
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => setConfirming(version.id)}
+                        disabled={restoring}
+                        className="px-3 py-1 text-xs font-medium text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        Restore
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+'use client';
+
+/**
+ * Listing Filters Panel
+ * Edits the listing filters as JSON and shows how many listings each filter removed in the last sync
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import type { ListingFilter, ListingFilterStats } from '@/lib/filters/types';
+
+/**
+ * Last sync filter counts returned by GET /api/filters
+ */
+interface LastSyncFilterStats {
+  timestamp: string;
+  stats: ListingFilterStats;
+}
+
+/**
+ * Panel message
+ */
+interface PanelMessage {
+  type: 'success' | 'error';
+  text: string;
+}
+
+/**
+ * Example shown when no filters are stored yet
+ */
+const EXAMPLE_FILTERS: ListingFilter[] = [
+  {
+    id: 'no-free-patterns',
+    name: 'Hide free patterns',
+    mode: 'exclude',
+    condition: { field: 'price', max: 0 },
+  },
+];
+
+/**
+ * Parses the editor text into the filters payload
+ * @throws Error if the text is not a JSON array
+ */
+function parseFiltersText(text: string): unknown {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Filters must be valid JSON');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('Filters must be a JSON array');
+  }
+  return parsed;
+}
+
+/**
+ * Describes a filter condition in plain words
+ */
+function describeCondition(filter: ListingFilter): string {
+  const { condition } = filter;
+  switch (condition.field) {
+    case 'tags':
+      return `tagged ${condition.values.join(', ')}`;
+    case 'shop_section_id':
+      return `in section ${condition.values.join(', ')}`;
+    case 'is_digital':
+      return condition.value ? 'digital' : 'physical';
+    case 'listing_type':
+      return `listing type ${condition.values.join(', ')}`;
+    case 'price':
+      if (condition.min !== undefined && condition.max !== undefined) {
+        return `priced ${condition.min} to ${condition.max}`;
+      }
+      return condition.min !== undefined
+        ? `priced at least ${condition.min}`
+        : `priced at most ${condition.max}`;
+    case 'title':
+      return `title matches /${condition.pattern}/`;
+    case 'title_contains':
+      return `title contains ${condition.values.join(', ')}`;
+  }
+}
+
+/**
+ * Listing filters panel component
+ */
+export default function FiltersPanel() {
+  const [filtersText, setFiltersText] = useState('');
+  const [filters, setFilters] = useState<ListingFilter[]>([]);
+  const [lastSync, setLastSync] = useState<LastSyncFilterStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<PanelMessage | null>(null);
+
+  useEffect(() => {
+    const loadFilters = async () => {
+      try {
+        const response = await fetch('/api/filters');
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error?.message || 'Failed to load filters');
+        }
+        const stored: ListingFilter[] = result.data.filters;
+        setFilters(stored);
+        setLastSync(result.data.lastSync);
+        setFiltersText(JSON.stringify(stored.length > 0 ? stored : EXAMPLE_FILTERS, null, 2));
+      } catch (err) {
+        setMessage({
+          type: 'error',
+          text: err instanceof Error ? err.message : 'Failed to load filters',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadFilters();
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/filters', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filters: parseFiltersText(filtersText) }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error?.message || `Request failed (${response.status})`);
+      }
+      const saved: ListingFilter[] = result.data.filters;
+      setFilters(saved);
+      setFiltersText(JSON.stringify(saved, null, 2));
+      setMessage({
+        type: 'success',
+        text: `Saved ${saved.length} filter${saved.length === 1 ? '' : 's'}. They apply from the next sync.`,
+      });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Save failed' });
+    } finally {
+      setSaving(false);
+    }
+  }, [filtersText]);
+
+  return (
+    <div
+      className="mt-6 bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6"
+      data-testid="filters-panel"
+    >
+      <h2 className="text-lg font-semibold text-zinc-900 dark:text-white mb-2">
+        Listing Filters
+      </h2>
+      <p className="text-sm text-zinc-500 dark:text-zinc-500 mb-4">
+        Filters keep listings out of the Facebook catalog. A listing is published only if it matches
+        every <code className="font-mono">include</code> filter and no{' '}
+        <code className="font-mono">exclude</code> filter.
+      </p>
+
+      {filters.length > 0 && (
+        <div className="mb-4 overflow-x-auto" data-testid="filter-counts">
+          <table className="w-full text-sm text-left">
+            <thead className="text-zinc-500 dark:text-zinc-500">
+              <tr>
+                <th className="py-2 pr-4 font-medium">Filter</th>
+                <th className="py-2 pr-4 font-medium">Rule</th>
+                <th className="py-2 font-medium">Removed (last sync)</th>
+              </tr>
+            </thead>
+            <tbody className="text-zinc-700 dark:text-zinc-300">
+              {filters.map((filter) => {
+                const removed = lastSync?.stats.removedByFilter[filter.id];
+                return (
+                  <tr key={filter.id} className="border-t border-zinc-200 dark:border-zinc-800">
+                    <td className="py-2 pr-4">
+                      <div className="font-medium">{filter.name || filter.id}</div>
+                      {filter.enabled === false && (
+                        <div className="text-xs text-zinc-500">Disabled</div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {filter.mode === 'include' ? 'Keep only listings ' : 'Remove listings '}
+                      {describeCondition(filter)}
+                    </td>
+                    <td className="py-2">
+                      {removed === undefined
+                        ? 'Not synced yet'
+                        : `${removed} listing${removed === 1 ? '' : 's'}`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {lastSync && (
+            <p className="mt-2 text-xs text-zinc-500">
+              {lastSync.stats.removed} of {lastSync.stats.evaluated} listings removed in the sync at{' '}
+              {new Date(lastSync.timestamp).toLocaleString()}
+            </p>
+          )}
+        </div>
+      )}
+
+      <textarea
+        value={loading ? 'Loading filters...' : filtersText}
+        onChange={(event) => setFiltersText(event.target.value)}
+        disabled={loading}
+        spellCheck={false}
+        rows={10}
+        aria-label="Listing filters JSON"
+        className="w-full bg-zinc-50 dark:bg-zinc-800 rounded-lg p-3 font-mono text-sm text-zinc-700 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-700"
+      />
+
+      <div className="mt-3 flex gap-3">
+        <button
+          onClick={handleSave}
+          disabled={loading || saving}
+          className="px-4 py-2 text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Filters'}
+        </button>
+      </div>
+
+      {message && (
+        <p
+          className={`mt-3 text-sm ${
+            message.type === 'success'
+              ? 'text-green-700 dark:text-green-400'
+              : 'text-red-700 dark:text-red-400'
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
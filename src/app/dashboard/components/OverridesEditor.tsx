@@ -0,0 +1,456 @@
+'use client';
+
+/**
+ * Listing Overrides Editor
+ * Browses the synced listings and edits their per-listing Facebook catalog overrides,
+ * showing the problems Meta reported for each listing next to the form
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import Image from 'next/image';
+import type { ListingSummary } from '@/app/api/listings/route';
+import type { CustomLabelField, ListingOverride } from '@/lib/facebook/types';
+
+/**
+ * Editable override fields (form state)
+ */
+interface OverrideForm {
+  title: string;
+  description: string;
+  brand: string;
+  excluded: boolean;
+  imageOrder: number[];
+  customLabels: Record<CustomLabelField, string>;
+}
+
+/**
+ * Editor message
+ */
+interface EditorMessage {
+  type: 'success' | 'error';
+  text: string;
+}
+
+const CUSTOM_LABEL_FIELDS: CustomLabelField[] = [
+  'custom_label_0',
+  'custom_label_1',
+  'custom_label_2',
+  'custom_label_3',
+  'custom_label_4',
+];
+
+/**
+ * Builds the form state for a listing from its override
+ */
+function toForm(listing: ListingSummary): OverrideForm {
+  const override = listing.override;
+  const customLabels = Object.fromEntries(
+    CUSTOM_LABEL_FIELDS.map((field) => [field, override?.customLabels?.[field] ?? ''])
+  ) as Record<CustomLabelField, string>;
+
+  return {
+    title: override?.title ?? '',
+    description: override?.description ?? '',
+    brand: override?.brand ?? '',
+    excluded: override?.excluded ?? false,
+    imageOrder: override?.imageOrder ?? listing.images.map((image) => image.id),
+    customLabels,
+  };
+}
+
+/**
+ * Builds the override payload from the form state
+ * The image order is only sent when it differs from the Etsy order
+ */
+function toPayload(form: OverrideForm, listing: ListingSummary) {
+  const etsyOrder = listing.images.map((image) => image.id);
+  const reordered = form.imageOrder.some((id, index) => id !== etsyOrder[index]);
+
+  return {
+    title: form.title,
+    description: form.description,
+    brand: form.brand,
+    excluded: form.excluded,
+    imageOrder: reordered ? form.imageOrder : undefined,
+    customLabels: form.customLabels,
+  };
+}
+
+/**
+ * Unwraps the { success, data, error } envelope
+ */
+async function readResponse<T>(response: Response): Promise<T> {
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error?.message || `Request failed (${response.status})`);
+  }
+  return result.data as T;
+}
+
+/**
+ * Listing overrides editor component
+ */
+export default function OverridesEditor() {
+  const [query, setQuery] = useState('');
+  const [listings, setListings] = useState<ListingSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<ListingSummary | null>(null);
+  const [form, setForm] = useState<OverrideForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<EditorMessage | null>(null);
+
+  const loadListings = useCallback(async (search: string) => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ q: search, limit: '50' });
+      const data = await readResponse<{ total: number; listings: ListingSummary[] }>(
+        await fetch(`/api/listings?${params}`)
+      );
+      setListings(data.listings);
+      setTotal(data.total);
+    } catch (err) {
+      setListings([]);
+      setTotal(0);
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to load listings' });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => loadListings(query), 300);
+    return () => clearTimeout(timer);
+  }, [query, loadListings]);
+
+  const handleSelect = useCallback((listing: ListingSummary) => {
+    setSelected(listing);
+    setForm(toForm(listing));
+    setMessage(null);
+  }, []);
+
+  const updateListing = useCallback((listingId: number, override: ListingOverride | null) => {
+    setListings((current) =>
+      current.map((listing) => (listing.listingId === listingId ? { ...listing, override } : listing))
+    );
+    setSelected((current) => (current ? { ...current, override } : current));
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    if (!selected || !form) {
+      return;
+    }
+    setSaving(true);
+    setMessage(null);
+    try {
+      const data = await readResponse<{ override: ListingOverride | null }>(
+        await fetch('/api/overrides', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ listingId: selected.listingId, override: toPayload(form, selected) }),
+        })
+      );
+      updateListing(selected.listingId, data.override);
+      setMessage({ type: 'success', text: 'Override saved. It applies from the next sync.' });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Save failed' });
+    } finally {
+      setSaving(false);
+    }
+  }, [selected, form, updateListing]);
+
+  const handleRemove = useCallback(async () => {
+    if (!selected) {
+      return;
+    }
+    setSaving(true);
+    setMessage(null);
+    try {
+      await readResponse(
+        await fetch(`/api/overrides?listingId=${selected.listingId}`, { method: 'DELETE' })
+      );
+      updateListing(selected.listingId, null);
+      setForm(toForm({ ...selected, override: null }));
+      setMessage({ type: 'success', text: 'Override removed. The Etsy values apply from the next sync.' });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Remove failed' });
+    } finally {
+      setSaving(false);
+    }
+  }, [selected, updateListing]);
+
+  const moveImage = useCallback((index: number, direction: -1 | 1) => {
+    setForm((current) => {
+      if (!current) {
+        return current;
+      }
+      const target = index + direction;
+      if (target < 0 || target >= current.imageOrder.length) {
+        return current;
+      }
+      const imageOrder = [...current.imageOrder];
+      [imageOrder[index], imageOrder[target]] = [imageOrder[target], imageOrder[index]];
+      return { ...current, imageOrder };
+    });
+  }, []);
+
+  const inputClass =
+    'w-full bg-zinc-50 dark:bg-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-700 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-700';
+
+  return (
+    <div
+      className="mt-6 bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6"
+      data-testid="overrides-editor"
+    >
+      <h2 className="text-lg font-semibold text-zinc-900 dark:text-white mb-2">
+        Listing Overrides
+      </h2>
+      <p className="text-sm text-zinc-500 dark:text-zinc-500 mb-4">
+        Change how individual listings appear in the Facebook catalog. Empty fields keep the Etsy values.
+      </p>
+
+      <div className="grid gap-6 md:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+        {/* Listing browser */}
+        <div>
+          <input
+            type="search"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Search listings"
+            aria-label="Search listings"
+            className={inputClass}
+          />
+          <p className="mt-2 text-xs text-zinc-500">
+            {loading ? 'Loading...' : `${total} listing${total === 1 ? '' : 's'}`}
+          </p>
+          <ul className="mt-2 max-h-96 overflow-y-auto divide-y divide-zinc-200 dark:divide-zinc-800">
+            {listings.map((listing) => (
+              <li key={listing.listingId}>
+                <button
+                  onClick={() => handleSelect(listing)}
+                  className={`w-full text-left px-2 py-2 text-sm rounded-lg transition-colors ${
+                    selected?.listingId === listing.listingId
+                      ? 'bg-orange-50 dark:bg-orange-900/20'
+                      : 'hover:bg-zinc-50 dark:hover:bg-zinc-800'
+                  }`}
+                >
+                  <span className="block text-zinc-900 dark:text-white truncate">{listing.title}</span>
+                  <span className="flex items-center gap-2 text-xs text-zinc-500">
+                    <span className="font-mono">{listing.listingId}</span>
+                    {listing.override?.excluded ? (
+                      <span className="px-1.5 rounded-full bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400">
+                        Excluded
+                      </span>
+                    ) : listing.override ? (
+                      <span className="px-1.5 rounded-full bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400">
+                        Override
+                      </span>
+                    ) : null}
+                    {listing.diagnostics.length > 0 && (
+                      <span
+                        className="px-1.5 rounded-full bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400"
+                        data-testid="listing-issues-badge"
+                      >
+                        {listing.diagnostics.length} issue{listing.diagnostics.length === 1 ? '' : 's'}
+                      </span>
+                    )}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Override form */}
+        <div>
+          {!selected || !form ? (
+            <p className="text-sm text-zinc-500">Select a listing to edit its override.</p>
+          ) : (
+            <div className="space-y-3" data-testid="override-form">
+              <div className="flex items-center justify-between gap-3">
+                <a
+                  href={selected.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm font-medium text-orange-600 dark:text-orange-400 hover:underline truncate"
+                >
+                  {selected.title}
+                </a>
+                <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300 shrink-0">
+                  <input
+                    type="checkbox"
+                    checked={form.excluded}
+                    onChange={(event) => setForm({ ...form, excluded: event.target.checked })}
+                  />
+                  Exclude from catalog
+                </label>
+              </div>
+
+              {selected.diagnostics.length > 0 && (
+                <div
+                  className="rounded-lg border border-yellow-200 dark:border-yellow-900/50 bg-yellow-50 dark:bg-yellow-900/10 p-3"
+                  data-testid="listing-diagnostics"
+                >
+                  <p className="text-sm font-medium text-yellow-700 dark:text-yellow-400 mb-1">
+                    Facebook issues
+                  </p>
+                  <ul className="space-y-1 text-sm">
+                    {selected.diagnostics.map((diagnostic, index) => (
+                      <li key={`${diagnostic.productId}-${index}`}>
+                        <span
+                          className={
+                            diagnostic.severity === 'error'
+                              ? 'text-red-700 dark:text-red-400'
+                              : 'text-yellow-700 dark:text-yellow-400'
+                          }
+                        >
+                          {diagnostic.message}
+                        </span>
+                        {diagnostic.productId !== selected.listingId.toString() && (
+                          <span className="ml-1 font-mono text-xs text-zinc-500">({diagnostic.productId})</span>
+                        )}
+                        {diagnostic.suggestion && (
+                          <span className="block text-xs text-zinc-600 dark:text-zinc-400">
+                            Fix: {diagnostic.suggestion}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <label className="block text-sm text-zinc-600 dark:text-zinc-400">
+                Title
+                <input
+                  value={form.title}
+                  onChange={(event) => setForm({ ...form, title: event.target.value })}
+                  placeholder={selected.title}
+                  maxLength={150}
+                  className={inputClass}
+                />
+              </label>
+
+              <label className="block text-sm text-zinc-600 dark:text-zinc-400">
+                Description
+                <textarea
+                  value={form.description}
+                  onChange={(event) => setForm({ ...form, description: event.target.value })}
+                  placeholder={selected.description.substring(0, 200)}
+                  rows={4}
+                  className={inputClass}
+                />
+              </label>
+
+              <label className="block text-sm text-zinc-600 dark:text-zinc-400">
+                Brand
+                <input
+                  value={form.brand}
+                  onChange={(event) => setForm({ ...form, brand: event.target.value })}
+                  placeholder={selected.brand}
+                  className={inputClass}
+                />
+              </label>
+
+              <div className="grid gap-2 sm:grid-cols-2">
+                {CUSTOM_LABEL_FIELDS.map((field) => (
+                  <label key={field} className="block text-sm text-zinc-600 dark:text-zinc-400">
+                    <span className="font-mono text-xs">{field}</span>
+                    <input
+                      value={form.customLabels[field]}
+                      onChange={(event) =>
+                        setForm({
+                          ...form,
+                          customLabels: { ...form.customLabels, [field]: event.target.value },
+                        })
+                      }
+                      maxLength={100}
+                      className={inputClass}
+                    />
+                  </label>
+                ))}
+              </div>
+
+              {form.imageOrder.length > 1 && (
+                <div>
+                  <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-2">
+                    Image order (the first image is the main image)
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {form.imageOrder.map((id, index) => {
+                      const image = selected.images.find((candidate) => candidate.id === id);
+                      return (
+                        <div key={id} className="flex flex-col items-center gap-1">
+                          {image ? (
+                            <Image
+                              src={image.url}
+                              alt={`Image ${index + 1}`}
+                              width={80}
+                              height={64}
+                              className="w-20 h-16 object-cover rounded border border-zinc-200 dark:border-zinc-700"
+                            />
+                          ) : (
+                            <div className="w-20 h-16 rounded border border-zinc-200 dark:border-zinc-700" />
+                          )}
+                          <div className="flex gap-1">
+                            <button
+                              onClick={() => moveImage(index, -1)}
+                              disabled={index === 0}
+                              aria-label={`Move image ${index + 1} earlier`}
+                              className="px-2 text-xs rounded bg-zinc-100 dark:bg-zinc-800 disabled:opacity-30"
+                            >
+                              ←
+                            </button>
+                            <button
+                              onClick={() => moveImage(index, 1)}
+                              disabled={index === form.imageOrder.length - 1}
+                              aria-label={`Move image ${index + 1} later`}
+                              className="px-2 text-xs rounded bg-zinc-100 dark:bg-zinc-800 disabled:opacity-30"
+                            >
+                              →
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex gap-3 pt-1">
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save Override'}
+                </button>
+                {selected.override && (
+                  <button
+                    onClick={handleRemove}
+                    disabled={saving}
+                    className="px-4 py-2 text-sm font-medium text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Remove Override
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {message && (
+            <p
+              className={`mt-3 text-sm ${
+                message.type === 'success'
+                  ? 'text-green-700 dark:text-green-400'
+                  : 'text-red-700 dark:text-red-400'
+              }`}
+            >
+              {message.text}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+'use client';
+
+/**
+ * Feed Rules Panel
+ * Edits the feed rules as JSON and previews their effect on the last synced catalog
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import type { FeedRule, RulePreviewItem } from '@/lib/rules/types';
+
+/**
+ * Preview data returned by POST /api/rules/preview
+ */
+interface RulesPreview {
+  totalProducts: number;
+  matchedProducts: number;
+  changedProducts: number;
+  items: RulePreviewItem[];
+}
+
+/**
+ * Panel message
+ */
+interface PanelMessage {
+  type: 'success' | 'error';
+  text: string;
+}
+
+/**
+ * Example shown when no rules are stored yet
+ */
+const EXAMPLE_RULES: FeedRule[] = [
+  {
+    id: 'amigurumi-label',
+    name: 'Label amigurumi patterns',
+    conditions: [{ field: 'tags', operator: 'contains', value: 'amigurumi' }],
+    actions: [{ field: 'custom_label_0', value: 'Amigurumi' }],
+  },
+];
+
+/**
+ * Parses the editor text into the rules payload
+ * @throws Error if the text is not a JSON array
+ */
+function parseRulesText(text: string): unknown {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Rules must be valid JSON');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('Rules must be a JSON array');
+  }
+  return parsed;
+}
+
+/**
+ * Sends a rules request and unwraps the { success, data, error } envelope
+ */
+async function requestRules<T>(url: string, method: 'PUT' | 'POST', rules: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ rules }),
+  });
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error?.message || `Request failed (${response.status})`);
+  }
+  return result.data as T;
+}
+
+/**
+ * Feed rules panel component
+ */
+export default function RulesPanel() {
+  const [rulesText, setRulesText] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<'preview' | 'save' | null>(null);
+  const [preview, setPreview] = useState<RulesPreview | null>(null);
+  const [message, setMessage] = useState<PanelMessage | null>(null);
+
+  useEffect(() => {
+    const loadRules = async () => {
+      try {
+        const response = await fetch('/api/rules');
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error?.message || 'Failed to load rules');
+        }
+        const rules: FeedRule[] = result.data.rules;
+        setRulesText(JSON.stringify(rules.length > 0 ? rules : EXAMPLE_RULES, null, 2));
+      } catch (err) {
+        setMessage({
+          type: 'error',
+          text: err instanceof Error ? err.message : 'Failed to load rules',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRules();
+  }, []);
+
+  const handlePreview = useCallback(async () => {
+    setBusy('preview');
+    setMessage(null);
+    try {
+      const data = await requestRules<RulesPreview>(
+        '/api/rules/preview',
+        'POST',
+        parseRulesText(rulesText)
+      );
+      setPreview(data);
+    } catch (err) {
+      setPreview(null);
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Preview failed' });
+    } finally {
+      setBusy(null);
+    }
+  }, [rulesText]);
+
+  const handleSave = useCallback(async () => {
+    setBusy('save');
+    setMessage(null);
+    try {
+      const data = await requestRules<{ rules: FeedRule[] }>(
+        '/api/rules',
+        'PUT',
+        parseRulesText(rulesText)
+      );
+      setRulesText(JSON.stringify(data.rules, null, 2));
+      setMessage({
+        type: 'success',
+        text: `Saved ${data.rules.length} rule${data.rules.length === 1 ? '' : 's'}. They apply from the next sync.`,
+      });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Save failed' });
+    } finally {
+      setBusy(null);
+    }
+  }, [rulesText]);
+
+  return (
+    <div
+      className="mt-6 bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6"
+      data-testid="rules-panel"
+    >
+      <h2 className="text-lg font-semibold text-zinc-900 dark:text-white mb-2">
+        Feed Rules
+      </h2>
+      <p className="text-sm text-zinc-500 dark:text-zinc-500 mb-4">
+        Rules adjust catalog fields before the feeds are generated. Use placeholders such as{' '}
+        <code className="font-mono">{'{title}'}</code> or{' '}
+        <code className="font-mono">{'{shop_name}'}</code> in action values.
+      </p>
+
+      <textarea
+        value={loading ? 'Loading rules...' : rulesText}
+        onChange={(event) => setRulesText(event.target.value)}
+        disabled={loading}
+        spellCheck={false}
+        rows={12}
+        aria-label="Feed rules JSON"
+        className="w-full bg-zinc-50 dark:bg-zinc-800 rounded-lg p-3 font-mono text-sm text-zinc-700 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-700"
+      />
+
+      <div className="mt-3 flex gap-3">
+        <button
+          onClick={handlePreview}
+          disabled={loading || busy !== null}
+          className="px-4 py-2 text-sm font-medium text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {busy === 'preview' ? 'Previewing...' : 'Preview'}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={loading || busy !== null}
+          className="px-4 py-2 text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {busy === 'save' ? 'Saving...' : 'Save Rules'}
+        </button>
+      </div>
+
+      {message && (
+        <p
+          className={`mt-3 text-sm ${
+            message.type === 'success'
+              ? 'text-green-700 dark:text-green-400'
+              : 'text-red-700 dark:text-red-400'
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+
+      {preview && (
+        <div className="mt-4" data-testid="rules-preview">
+          <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-2">
+            {preview.matchedProducts} of {preview.totalProducts} products matched,{' '}
+            {preview.changedProducts} changed
+            {preview.items.length < preview.matchedProducts &&
+              ` (showing first ${preview.items.length})`}
+          </p>
+          {preview.items.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-zinc-500 dark:text-zinc-500">
+                  <tr>
+                    <th className="py-2 pr-4 font-medium">Product</th>
+                    <th className="py-2 pr-4 font-medium">Rules</th>
+                    <th className="py-2 font-medium">Changes</th>
+                  </tr>
+                </thead>
+                <tbody className="text-zinc-700 dark:text-zinc-300">
+                  {preview.items.map((item) => (
+                    <tr key={item.id} className="border-t border-zinc-200 dark:border-zinc-800 align-top">
+                      <td className="py-2 pr-4">
+                        <div className="font-medium">{item.title}</div>
+                        <div className="font-mono text-xs text-zinc-500">{item.id}</div>
+                      </td>
+                      <td className="py-2 pr-4 font-mono text-xs">{item.ruleIds.join(', ')}</td>
+                      <td className="py-2">
+                        {item.changes.length === 0 ? (
+                          <span className="text-zinc-500">No changes</span>
+                        ) : (
+                          <ul className="space-y-1">
+                            {item.changes.map((change) => (
+                              <li key={change.field}>
+                                <span className="font-mono text-xs">{change.field}</span>:{' '}
+                                <span className="line-through text-zinc-400">{change.before || '(empty)'}</span>{' '}
+                                → <span>{change.after || '(empty)'}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+/**
+ * Sync History Panel
+ * Lists recorded manual and cron sync runs, newest first, one page at a time
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import type { SyncRun, SyncRunPage } from '@/lib/db/types';
+
+/** Runs per page */
+const PAGE_SIZE = 10;
+
+/**
+ * History page returned by GET /api/sync/history
+ */
+interface SyncHistory extends SyncRunPage {
+  configured: boolean;
+}
+
+/**
+ * Props for SyncHistoryPanel
+ */
+interface SyncHistoryPanelProps {
+  /** Changing value (e.g., the last sync time) that triggers a reload */
+  refreshKey?: string | null;
+}
+
+const STATUS_CLASSES: Record<SyncRun['status'], string> = {
+  success: 'text-green-700 dark:text-green-400',
+  failure: 'text-red-700 dark:text-red-400',
+  blocked: 'text-yellow-700 dark:text-yellow-400',
+};
+
+const STATUS_LABELS: Record<SyncRun['status'], string> = {
+  success: 'Success',
+  failure: 'Failed',
+  blocked: 'Blocked',
+};
+
+/**
+ * Unwraps the { success, data, error } envelope
+ */
+async function readResponse<T>(response: Response): Promise<T> {
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error?.message || `Request failed (${response.status})`);
+  }
+  return result.data as T;
+}
+
+/**
+ * Formats the feed changes of a run (e.g., "+2 / -1 / 5 changed")
+ */
+function formatChanges(run: SyncRun): string {
+  if (run.addedProducts === null || run.removedProducts === null || run.changedProducts === null) {
+    return '';
+  }
+  return `+${run.addedProducts} / -${run.removedProducts} / ${run.changedProducts} changed`;
+}
+
+/**
+ * Sync history panel component
+ */
+export default function SyncHistoryPanel({ refreshKey }: SyncHistoryPanelProps) {
+  const [page, setPage] = useState(1);
+  const [history, setHistory] = useState<SyncHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(async (pageNumber: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ page: String(pageNumber), pageSize: String(PAGE_SIZE) });
+      setHistory(await readResponse<SyncHistory>(await fetch(`/api/sync/history?${params}`)));
+      setPage(pageNumber);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sync history');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage(1);
+  }, [loadPage, refreshKey]);
+
+  const pageCount = history ? Math.max(1, Math.ceil(history.total / history.pageSize)) : 1;
+
+  return (
+    <div
+      className="mt-6 bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6"
+      data-testid="sync-history-panel"
+    >
+      <h2 className="text-lg font-semibold text-zinc-900 dark:text-white mb-2">Sync History</h2>
+      <p className="text-sm text-zinc-500 dark:text-zinc-500">
+        Every manual and cron sync, with its outcome and what it changed in the Facebook feed.
+      </p>
+
+      {error && <p className="mt-3 text-sm text-red-700 dark:text-red-400">{error}</p>}
+
+      {loading && !history ? (
+        <p className="mt-3 text-sm text-zinc-500">Loading...</p>
+      ) : history && !history.configured ? (
+        <p className="mt-3 text-sm text-zinc-500">
+          Sync history needs a Postgres database. Set POSTGRES_URL to start recording runs.
+        </p>
+      ) : history && history.runs.length === 0 ? (
+        <p className="mt-3 text-sm text-zinc-500">No sync runs recorded yet.</p>
+      ) : (
+        history && (
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-zinc-500 dark:text-zinc-500">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">Started</th>
+                  <th className="py-2 pr-4 font-medium">Trigger</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 pr-4 font-medium">Duration</th>
+                  <th className="py-2 pr-4 font-medium">Listings</th>
+                  <th className="py-2 pr-4 font-medium">Products</th>
+                  <th className="py-2 pr-4 font-medium">Changes</th>
+                  <th className="py-2 font-medium">Error</th>
+                </tr>
+              </thead>
+              <tbody className="text-zinc-700 dark:text-zinc-300">
+                {history.runs.map((run) => (
+                  <tr key={run.id} className="border-t border-zinc-200 dark:border-zinc-800 align-top">
+                    <td className="py-2 pr-4 whitespace-nowrap">{new Date(run.startedAt).toLocaleString()}</td>
+                    <td className="py-2 pr-4">{run.trigger === 'cron' ? 'Cron' : 'Manual'}</td>
+                    <td className={`py-2 pr-4 ${STATUS_CLASSES[run.status]}`}>{STATUS_LABELS[run.status]}</td>
+                    <td className="py-2 pr-4">{(run.durationMs / 1000).toFixed(1)}s</td>
+                    <td className="py-2 pr-4">{run.listingsCount ?? ''}</td>
+                    <td className="py-2 pr-4">{run.productsCount ?? ''}</td>
+                    <td className="py-2 pr-4 whitespace-nowrap">{formatChanges(run)}</td>
+                    <td className="py-2">
+                      {run.errorCode && (
+                        <span title={run.errorMessage ?? undefined}>
+                          <span className="font-mono text-xs">{run.errorCode}</span>
+                          {run.errorMessage && (
+                            <span className="block max-w-xs truncate text-zinc-500">{run.errorMessage}</span>
+                          )}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="mt-3 flex items-center justify-between text-sm text-zinc-600 dark:text-zinc-400">
+              <span>
+                Page {page} of {pageCount} ({history.total} runs)
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => loadPage(page - 1)}
+                  disabled={loading || page <= 1}
+                  className="px-3 py-1 text-xs font-medium text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => loadPage(page + 1)}
+                  disabled={loading || page >= pageCount}
+                  className="px-3 py-1 text-xs font-medium text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
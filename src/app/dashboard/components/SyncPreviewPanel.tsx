@@ -0,0 +1,185 @@
+'use client';
+
+/**
+ * Sync Preview Panel
+ * Runs a dry-run sync and shows what it would publish: the products, their validation issues and
+ * the differences from the live Facebook feed
+ */
+
+import { useState, useCallback } from 'react';
+import type { FeedValidationIssue } from '@/lib/facebook/types';
+import type { ManualSyncPreviewResponse } from '@/types';
+import FeedDiffView from './FeedDiffView';
+
+/** Maximum number of rows rendered per table */
+const MAX_VISIBLE_ROWS = 200;
+
+/**
+ * Validation issue with the listing it belongs to
+ */
+interface PreviewIssue extends FeedValidationIssue {
+  listingId: string;
+}
+
+/**
+ * Lists the validation issues of a preview, errors first
+ */
+function collectIssues(preview: ManualSyncPreviewResponse['preview']): PreviewIssue[] {
+  const { headerIssues, listings } = preview.validation;
+  const issues: PreviewIssue[] = headerIssues.map((issue) => ({ ...issue, listingId: '' }));
+  for (const listing of listings) {
+    issues.push(...listing.errors.map((issue) => ({ ...issue, listingId: listing.listingId })));
+  }
+  for (const listing of listings) {
+    issues.push(...listing.warnings.map((issue) => ({ ...issue, listingId: listing.listingId })));
+  }
+  return issues;
+}
+
+/**
+ * Sync preview panel component
+ */
+export default function SyncPreviewPanel() {
+  const [result, setResult] = useState<ManualSyncPreviewResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePreview = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/sync/manual?dryRun=1', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || `Preview failed (${response.status})`);
+      }
+      setResult(data as ManualSyncPreviewResponse);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Preview failed');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const preview = result?.preview;
+  const issues = preview ? collectIssues(preview) : [];
+
+  return (
+    <div
+      className="mt-6 bg-white dark:bg-zinc-900 rounded-xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6"
+      data-testid="sync-preview-panel"
+    >
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <h2 className="text-lg font-semibold text-zinc-900 dark:text-white">Sync Preview</h2>
+        <button
+          onClick={handlePreview}
+          disabled={loading}
+          className="px-4 py-2 text-sm font-medium text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {loading ? 'Previewing...' : 'Preview Sync'}
+        </button>
+      </div>
+      <p className="text-sm text-zinc-500 dark:text-zinc-500">
+        Fetches and formats your listings like a sync, then shows what would change on Facebook.
+        Nothing is published.
+      </p>
+
+      {error && <p className="mt-3 text-sm text-red-700 dark:text-red-400">{error}</p>}
+
+      {result && preview && (
+        <div className="mt-4 space-y-4" data-testid="sync-preview-results">
+          <p className="text-sm text-zinc-700 dark:text-zinc-300">
+            {result.stats.productsCount ?? preview.products.length} products from{' '}
+            {result.stats.listingsCount} listings ({result.stats.mode} build).
+          </p>
+
+          {!preview.publishGuard.allowed && (
+            <p className="text-sm text-yellow-700 dark:text-yellow-400">
+              The publish guard would block this sync: {preview.publishGuard.reason}.
+            </p>
+          )}
+
+          <div>
+            <h3 className="text-sm font-medium text-zinc-900 dark:text-white">Validation</h3>
+            <p
+              className={`text-sm ${
+                preview.validation.errorCount > 0
+                  ? 'text-red-700 dark:text-red-400'
+                  : 'text-zinc-600 dark:text-zinc-400'
+              }`}
+            >
+              {preview.validation.errorCount} error{preview.validation.errorCount === 1 ? '' : 's'},{' '}
+              {preview.validation.warningCount} warning{preview.validation.warningCount === 1 ? '' : 's'}
+            </p>
+            {issues.length > 0 && (
+              <ul className="mt-2 space-y-1 text-sm text-zinc-700 dark:text-zinc-300">
+                {issues.slice(0, MAX_VISIBLE_ROWS).map((issue, index) => (
+                  <li key={`${issue.row}-${issue.field}-${index}`}>
+                    <span
+                      className={
+                        issue.severity === 'error'
+                          ? 'text-red-700 dark:text-red-400'
+                          : 'text-yellow-700 dark:text-yellow-400'
+                      }
+                    >
+                      {issue.severity === 'error' ? 'Error' : 'Warning'}
+                    </span>{' '}
+                    {issue.listingId && <span className="font-mono text-xs">{issue.listingId} </span>}
+                    (row {issue.row}, {issue.field}): {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-zinc-900 dark:text-white">Changes from the live feed</h3>
+            <FeedDiffView
+              diff={preview.diff}
+              summary={preview.diffSummary}
+              beforeLabel="Live"
+              afterLabel="Preview"
+            />
+          </div>
+
+          {preview.products.length > 0 && (
+            <div className="overflow-x-auto">
+              <h3 className="text-sm font-medium text-zinc-900 dark:text-white">Products</h3>
+              <table className="mt-1 w-full text-sm text-left">
+                <thead className="text-zinc-500 dark:text-zinc-500">
+                  <tr>
+                    <th className="py-2 pr-4 font-medium">ID</th>
+                    <th className="py-2 pr-4 font-medium">Title</th>
+                    <th className="py-2 pr-4 font-medium">Price</th>
+                    <th className="py-2 font-medium">Availability</th>
+                  </tr>
+                </thead>
+                <tbody className="text-zinc-700 dark:text-zinc-300">
+                  {preview.products.slice(0, MAX_VISIBLE_ROWS).map((product) => (
+                    <tr key={product.id} className="border-t border-zinc-200 dark:border-zinc-800">
+                      <td className="py-2 pr-4 font-mono text-xs">{product.id}</td>
+                      <td className="py-2 pr-4">
+                        <span className="block max-w-xs truncate" title={product.title}>
+                          {product.title}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-4">
+                        {product.sale_price ? `${product.sale_price} (was ${product.price})` : product.price}
+                      </td>
+                      <td className="py-2">{product.availability}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {preview.products.length > MAX_VISIBLE_ROWS && (
+                <p className="mt-2 text-xs text-zinc-500">
+                  Showing the first {MAX_VISIBLE_ROWS} of {preview.products.length} products.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * Postgres client
+ * Repositories take a Queryable so they can run against any pg-compatible client: the app uses a
+ * @vercel/postgres pool (POSTGRES_URL, set automatically when a Vercel Postgres/Neon database is
+ * connected), tests pass an in-process PGlite database and scripts can pass a pool connected to a
+ * local Postgres.
+ */
+
+import { createPool, type QueryResultRow } from '@vercel/postgres';
+import { StorageError } from '@/lib/utils/errors';
+
+/**
+ * Minimal query interface shared by @vercel/postgres and node-postgres pools and clients
+ */
+export interface Queryable {
+  query<R extends QueryResultRow = QueryResultRow>(
+    text: string,
+    values?: unknown[]
+  ): Promise<{ rows: R[] }>;
+}
+
+/** Pool shared by all requests in this instance */
+let pool: Queryable | null = null;
+
+/**
+ * Checks whether a database is configured
+ * Features backed by Postgres are optional: without POSTGRES_URL they are skipped
+ */
+export function isDatabaseConfigured(): boolean {
+  return Boolean(process.env.POSTGRES_URL);
+}
+
+/**
+ * Get the shared database pool
+ *
+ * @returns Pool for POSTGRES_URL
+ * @throws StorageError if POSTGRES_URL is not set (code DATABASE_NOT_CONFIGURED)
+ */
+export function getDatabase(): Queryable {
+  const connectionString = process.env.POSTGRES_URL;
+  if (!connectionString) {
+    throw new StorageError(
+      'Database is not configured. Ensure POSTGRES_URL environment variable is set.',
+      'DATABASE_NOT_CONFIGURED'
+    );
+  }
+
+  pool ??= createPool({ connectionString });
+  return pool;
+}
@@ -0,0 +1,108 @@
+/**
+ * Feed version index
+ * Postgres home of the feed version index when a database is configured: the index is a single row
+ * of the feed_version_index table, and a write is one conditional upsert that only applies while the
+ * stored generation is the one the writer loaded, so two requests cannot both change the same index.
+ * The table is created on first use.
+ */
+
+import type { FeedVersionIndex } from '@/lib/facebook/types';
+import { StorageError } from '@/lib/utils/errors';
+import { getDatabase, type Queryable } from './client';
+
+/**
+ * Schema of the feed_version_index table
+ * The generation column is authoritative; the generation inside the document is ignored
+ */
+export const FEED_VERSION_INDEX_SCHEMA = `
+CREATE TABLE IF NOT EXISTS feed_version_index (
+  id SMALLINT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  generation INTEGER NOT NULL CHECK (generation >= 0),
+  document JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+`;
+
+/** Databases whose schema has been created in this instance */
+const initialized = new WeakSet<Queryable>();
+
+/**
+ * Creates the feed_version_index table if it does not exist
+ *
+ * @param db - Database to use
+ */
+export async function ensureFeedVersionIndexTable(db: Queryable = getDatabase()): Promise<void> {
+  if (initialized.has(db)) {
+    return;
+  }
+  await db.query(FEED_VERSION_INDEX_SCHEMA);
+  initialized.add(db);
+}
+
+/**
+ * Runs an index query, converting failures to a StorageError
+ */
+async function runIndexQuery<R>(
+  db: Queryable,
+  code: 'DATABASE_READ_ERROR' | 'DATABASE_WRITE_ERROR',
+  run: () => Promise<R>
+): Promise<R> {
+  try {
+    await ensureFeedVersionIndexTable(db);
+    return await run();
+  } catch (error) {
+    throw new StorageError(
+      `Feed version index ${code === 'DATABASE_READ_ERROR' ? 'read' : 'update'} failed: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+      code,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Read the stored index
+ *
+ * @param db - Database to use (default: POSTGRES_URL pool)
+ * @returns Index, or null if none has been stored in the database yet
+ * @throws StorageError if the database is not configured or the query fails
+ */
+export async function getFeedVersionIndex(
+  db: Queryable = getDatabase()
+): Promise<FeedVersionIndex | null> {
+  return runIndexQuery(db, 'DATABASE_READ_ERROR', async () => {
+    const { rows } = await db.query<{ generation: number; document: FeedVersionIndex }>(
+      'SELECT generation, document FROM feed_version_index WHERE id = 1'
+    );
+    return rows[0] ? { ...rows[0].document, generation: rows[0].generation } : null;
+  });
+}
+
+/**
+ * Store the index if it has not changed since it was loaded
+ * The index is written with its generation increased by one, only while the stored generation is
+ * still index.generation (or no index is stored yet).
+ *
+ * @param index - Index as loaded, with the changes applied
+ * @param db - Database to use (default: POSTGRES_URL pool)
+ * @returns Whether the index was written (false if another request changed it first)
+ * @throws StorageError if the database is not configured or the query fails
+ */
+export async function compareAndSetFeedVersionIndex(
+  index: FeedVersionIndex,
+  db: Queryable = getDatabase()
+): Promise<boolean> {
+  return runIndexQuery(db, 'DATABASE_WRITE_ERROR', async () => {
+    const generation = index.generation + 1;
+    const { rows } = await db.query<{ generation: number }>(
+      `INSERT INTO feed_version_index (id, generation, document, updated_at) VALUES (1, $1, $2, now())
+      ON CONFLICT (id) DO UPDATE SET
+        generation = EXCLUDED.generation, document = EXCLUDED.document, updated_at = EXCLUDED.updated_at
+      WHERE feed_version_index.generation = $3
+      RETURNING generation`,
+      [generation, JSON.stringify({ ...index, generation }), index.generation]
+    );
+    return rows.length > 0;
+  });
+}
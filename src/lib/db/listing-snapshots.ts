@@ -0,0 +1,280 @@
+/**
+ * Listing snapshots
+ * Every recorded sync run also stores a normalized snapshot of each listing it fetched (price,
+ * quantity, state, views, favorers, tags and image count) in the listing_snapshots table, keyed by
+ * listing and sync run, so a listing's history can be read back as a time series.
+ */
+
+import type { EtsyListing } from '@/lib/etsy/types';
+import { StorageError } from '@/lib/utils/errors';
+import { logError } from '@/lib/utils/logger';
+import { getDatabase, type Queryable } from './client';
+import { ensureSyncRunsTable } from './sync-runs';
+import type {
+  ListingSnapshot,
+  ListingSnapshotChange,
+  ListingSnapshotField,
+  ListingSnapshotValues,
+} from './types';
+
+/** Default number of snapshots returned for a listing */
+export const DEFAULT_LISTING_SNAPSHOT_LIMIT = 100;
+
+/** Largest number of snapshots returned for a listing */
+export const MAX_LISTING_SNAPSHOT_LIMIT = 1000;
+
+/**
+ * Schema of the listing_snapshots table
+ * Snapshots are deleted with the sync run that captured them.
+ */
+export const LISTING_SNAPSHOTS_SCHEMA = `
+CREATE TABLE IF NOT EXISTS listing_snapshots (
+  sync_run_id BIGINT NOT NULL REFERENCES sync_runs (id) ON DELETE CASCADE,
+  listing_id BIGINT NOT NULL,
+  captured_at TIMESTAMPTZ NOT NULL,
+  price NUMERIC NOT NULL,
+  currency_code TEXT NOT NULL,
+  quantity INTEGER NOT NULL,
+  state TEXT NOT NULL,
+  views INTEGER NOT NULL,
+  num_favorers INTEGER NOT NULL,
+  tags TEXT[] NOT NULL,
+  image_count INTEGER NOT NULL,
+  PRIMARY KEY (sync_run_id, listing_id)
+);
+CREATE INDEX IF NOT EXISTS listing_snapshots_listing_idx ON listing_snapshots (listing_id, captured_at DESC);
+`;
+
+/**
+ * Row of the listing_snapshots table as returned by the driver
+ */
+interface ListingSnapshotRow {
+  sync_run_id: string | number;
+  listing_id: string | number;
+  captured_at: Date | string;
+  price: string | number;
+  currency_code: string;
+  quantity: number;
+  state: string;
+  views: number;
+  num_favorers: number;
+  tags: string[];
+  image_count: number;
+}
+
+/**
+ * Options for reading a listing's snapshots
+ * @property since - Only snapshots captured at or after this ISO 8601 time
+ * @property limit - Most recent snapshots to return (1 to MAX_LISTING_SNAPSHOT_LIMIT)
+ */
+export interface ListingSnapshotQuery {
+  since?: string;
+  limit?: number;
+}
+
+/** Fields compared by findListingChanges, in report order */
+const TRACKED_FIELDS: ListingSnapshotField[] = ['price', 'quantity', 'state', 'tags', 'imageCount'];
+
+/** Databases whose schema has been created in this instance */
+const initialized = new WeakSet<Queryable>();
+
+/**
+ * Creates the listing_snapshots table (and the sync_runs table it references) if they do not exist
+ *
+ * @param db - Database to use
+ */
+export async function ensureListingSnapshotsTable(db: Queryable = getDatabase()): Promise<void> {
+  if (initialized.has(db)) {
+    return;
+  }
+  await ensureSyncRunsTable(db);
+  await db.query(LISTING_SNAPSHOTS_SCHEMA);
+  initialized.add(db);
+}
+
+/**
+ * Normalizes an Etsy listing to the values stored in a snapshot
+ *
+ * @param listing - Listing as fetched from Etsy
+ * @returns Snapshot values
+ */
+export function toListingSnapshotValues(listing: EtsyListing): ListingSnapshotValues {
+  return {
+    listingId: listing.listing_id,
+    // Same zero-divisor guard as formatPrice, so the NOT NULL price column never receives Infinity
+    price: listing.price.amount / (listing.price.divisor || 1),
+    currencyCode: listing.price.currency_code,
+    quantity: listing.quantity,
+    state: listing.state,
+    views: listing.views ?? 0,
+    numFavorers: listing.num_favorers ?? 0,
+    tags: listing.tags ?? [],
+    imageCount: listing.images?.length ?? 0,
+  };
+}
+
+/**
+ * Converts a row to a listing snapshot
+ */
+function toListingSnapshot(row: ListingSnapshotRow): ListingSnapshot {
+  return {
+    syncRunId: Number(row.sync_run_id),
+    capturedAt: new Date(row.captured_at).toISOString(),
+    listingId: Number(row.listing_id),
+    price: Number(row.price),
+    currencyCode: row.currency_code,
+    quantity: row.quantity,
+    state: row.state,
+    views: row.views,
+    numFavorers: row.num_favorers,
+    tags: row.tags,
+    imageCount: row.image_count,
+  };
+}
+
+/**
+ * Record snapshots of the listings fetched by a sync run
+ * All listings are written in one statement; a listing already recorded for the run is left as is.
+ *
+ * @param syncRunId - Sync run that fetched the listings
+ * @param capturedAt - ISO 8601 start time of the sync run
+ * @param listings - Listings to record
+ * @param db - Database to use (default: POSTGRES_URL pool)
+ * @returns Number of snapshots written
+ * @throws StorageError if the database is not configured or the insert fails
+ */
+export async function insertListingSnapshots(
+  syncRunId: number,
+  capturedAt: string,
+  listings: EtsyListing[],
+  db: Queryable = getDatabase()
+): Promise<number> {
+  if (listings.length === 0) {
+    return 0;
+  }
+
+  const values = listings.map(toListingSnapshotValues).map((snapshot) => ({
+    listing_id: snapshot.listingId,
+    price: snapshot.price,
+    currency_code: snapshot.currencyCode,
+    quantity: snapshot.quantity,
+    state: snapshot.state,
+    views: snapshot.views,
+    num_favorers: snapshot.numFavorers,
+    tags: snapshot.tags,
+    image_count: snapshot.imageCount,
+  }));
+
+  try {
+    await ensureListingSnapshotsTable(db);
+    const { rows } = await db.query<{ listing_id: string | number }>(
+      `INSERT INTO listing_snapshots (
+        sync_run_id, listing_id, captured_at, price, currency_code, quantity, state,
+        views, num_favorers, tags, image_count
+      )
+      SELECT $1, x.listing_id, $2, x.price, x.currency_code, x.quantity, x.state,
+        x.views, x.num_favorers, x.tags, x.image_count
+      FROM jsonb_to_recordset($3::jsonb) AS x(
+        listing_id BIGINT, price NUMERIC, currency_code TEXT, quantity INTEGER, state TEXT,
+        views INTEGER, num_favorers INTEGER, tags TEXT[], image_count INTEGER
+      )
+      ON CONFLICT (sync_run_id, listing_id) DO NOTHING
+      RETURNING listing_id`,
+      [syncRunId, capturedAt, JSON.stringify(values)]
+    );
+    return rows.length;
+  } catch (error) {
+    logError('Failed to record listing snapshots', {
+      syncRunId,
+      listings: listings.length,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError(
+      'Failed to record listing snapshots in the database',
+      'DATABASE_WRITE_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * List the snapshots of one listing, oldest first
+ * With a limit, the most recent snapshots are returned.
+ *
+ * @param listingId - Etsy listing ID
+ * @param options - Start time and limit
+ * @param db - Database to use (default: POSTGRES_URL pool)
+ * @returns Snapshots in capture order
+ * @throws StorageError if the database is not configured or the query fails
+ */
+export async function listListingSnapshots(
+  listingId: number,
+  options: ListingSnapshotQuery = {},
+  db: Queryable = getDatabase()
+): Promise<ListingSnapshot[]> {
+  const { since, limit = DEFAULT_LISTING_SNAPSHOT_LIMIT } = options;
+
+  try {
+    await ensureListingSnapshotsTable(db);
+    const { rows } = await db.query<ListingSnapshotRow>(
+      `SELECT * FROM listing_snapshots
+      WHERE listing_id = $1 AND ($2::timestamptz IS NULL OR captured_at >= $2)
+      ORDER BY captured_at DESC, sync_run_id DESC
+      LIMIT $3`,
+      [listingId, since ?? null, limit]
+    );
+    return rows.map(toListingSnapshot).reverse();
+  } catch (error) {
+    logError('Failed to list listing snapshots', {
+      listingId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError(
+      'Failed to read listing history from the database',
+      'DATABASE_READ_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Compares a tracked field of two snapshots
+ */
+function isSameValue(before: ListingSnapshot, after: ListingSnapshot, field: ListingSnapshotField): boolean {
+  if (field === 'tags') {
+    return before.tags.length === after.tags.length && before.tags.every((tag, index) => tag === after.tags[index]);
+  }
+  if (field === 'price') {
+    return before.price === after.price && before.currencyCode === after.currencyCode;
+  }
+  return before[field] === after[field];
+}
+
+/**
+ * Lists the changes between consecutive snapshots of a listing
+ * Views and favorers grow continuously, so they are read from the series rather than reported as changes.
+ *
+ * @param snapshots - Snapshots of one listing, oldest first
+ * @returns Changes in capture order
+ */
+export function findListingChanges(snapshots: ListingSnapshot[]): ListingSnapshotChange[] {
+  const changes: ListingSnapshotChange[] = [];
+
+  for (let index = 1; index < snapshots.length; index++) {
+    const before = snapshots[index - 1];
+    const after = snapshots[index];
+    for (const field of TRACKED_FIELDS) {
+      if (!isSameValue(before, after, field)) {
+        changes.push({
+          capturedAt: after.capturedAt,
+          syncRunId: after.syncRunId,
+          field,
+          before: before[field],
+          after: after[field],
+        });
+      }
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,111 @@
+/**
+ * Rate limit counters
+ * Postgres implementation of RateLimitCounterStore: each counter is a row of the rate_limit_counters
+ * table, and an increment is a single upsert that only applies while the total stays within the
+ * limit, so concurrent syncs cannot both take the last slot. The table is created on first use.
+ */
+
+import type { RateLimitCounterStore } from '@/lib/etsy/types';
+import { StorageError } from '@/lib/utils/errors';
+import { getDatabase, type Queryable } from './client';
+
+/**
+ * Schema of the rate_limit_counters table
+ */
+export const RATE_LIMIT_COUNTERS_SCHEMA = `
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+  key TEXT PRIMARY KEY,
+  count INTEGER NOT NULL CHECK (count >= 0),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+`;
+
+/** Databases whose schema has been created in this instance */
+const initialized = new WeakSet<Queryable>();
+
+/**
+ * Creates the rate_limit_counters table if it does not exist
+ *
+ * @param db - Database to use
+ */
+export async function ensureRateLimitCountersTable(db: Queryable = getDatabase()): Promise<void> {
+  if (initialized.has(db)) {
+    return;
+  }
+  await db.query(RATE_LIMIT_COUNTERS_SCHEMA);
+  initialized.add(db);
+}
+
+/**
+ * Runs a counter query, converting failures to a StorageError
+ */
+async function runCounterQuery<R>(
+  db: Queryable,
+  code: 'DATABASE_READ_ERROR' | 'DATABASE_WRITE_ERROR',
+  run: () => Promise<R>
+): Promise<R> {
+  try {
+    await ensureRateLimitCountersTable(db);
+    return await run();
+  } catch (error) {
+    throw new StorageError(
+      `Rate limit counter ${code === 'DATABASE_READ_ERROR' ? 'read' : 'update'} failed: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+      code,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Creates a rate limit counter store backed by Postgres
+ *
+ * @param db - Database to use (default: POSTGRES_URL pool)
+ */
+export function createPostgresCounterStore(db: Queryable = getDatabase()): RateLimitCounterStore {
+  return {
+    shared: true,
+
+    async increment(key, amount, limit, expiresAt) {
+      if (amount > limit) {
+        return false;
+      }
+      return runCounterQuery(db, 'DATABASE_WRITE_ERROR', async () => {
+        const { rows } = await db.query<{ count: number }>(
+          `INSERT INTO rate_limit_counters (key, count, expires_at) VALUES ($1, $2, $4)
+          ON CONFLICT (key) DO UPDATE SET count = rate_limit_counters.count + EXCLUDED.count
+          WHERE rate_limit_counters.count + EXCLUDED.count <= $3::bigint
+          RETURNING count`,
+          [key, amount, limit, expiresAt.toISOString()]
+        );
+        return rows.length > 0;
+      });
+    },
+
+    async decrement(key, amount) {
+      await runCounterQuery(db, 'DATABASE_WRITE_ERROR', () =>
+        db.query('UPDATE rate_limit_counters SET count = GREATEST(count - $2, 0) WHERE key = $1', [
+          key,
+          amount,
+        ])
+      );
+    },
+
+    async get(key) {
+      return runCounterQuery(db, 'DATABASE_READ_ERROR', async () => {
+        const { rows } = await db.query<{ count: number }>(
+          'SELECT count FROM rate_limit_counters WHERE key = $1 AND expires_at > now()',
+          [key]
+        );
+        return rows[0]?.count ?? 0;
+      });
+    },
+
+    async prune() {
+      await runCounterQuery(db, 'DATABASE_WRITE_ERROR', () =>
+        db.query('DELETE FROM rate_limit_counters WHERE expires_at <= now()')
+      );
+    },
+  };
+}
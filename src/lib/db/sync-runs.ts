@@ -0,0 +1,207 @@
+/**
+ * Sync run history
+ * Every manual and cron sync is recorded in the sync_runs table, so past runs stay visible after
+ * the last_sync_metadata Edge Config key is overwritten. The table is created on first use.
+ */
+
+import { StorageError } from '@/lib/utils/errors';
+import { logError } from '@/lib/utils/logger';
+import { getDatabase, type Queryable } from './client';
+import type { NewSyncRun, SyncRun, SyncRunPage } from './types';
+
+/** Default runs per page */
+export const DEFAULT_SYNC_RUN_PAGE_SIZE = 20;
+
+/** Largest page size accepted */
+export const MAX_SYNC_RUN_PAGE_SIZE = 100;
+
+/**
+ * Schema of the sync_runs table
+ */
+export const SYNC_RUNS_SCHEMA = `
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id BIGSERIAL PRIMARY KEY,
+  trigger TEXT NOT NULL CHECK (trigger IN ('manual', 'cron')),
+  status TEXT NOT NULL CHECK (status IN ('success', 'failure', 'blocked')),
+  mode TEXT CHECK (mode IN ('full', 'incremental')),
+  started_at TIMESTAMPTZ NOT NULL,
+  finished_at TIMESTAMPTZ NOT NULL,
+  duration_ms INTEGER NOT NULL,
+  listings_count INTEGER,
+  products_count INTEGER,
+  changed_listings INTEGER,
+  reused_listings INTEGER,
+  added_products INTEGER,
+  removed_products INTEGER,
+  changed_products INTEGER,
+  error_code TEXT,
+  error_message TEXT,
+  feed_url TEXT,
+  feed_version_id TEXT,
+  content_hash TEXT
+);
+CREATE INDEX IF NOT EXISTS sync_runs_started_at_idx ON sync_runs (started_at DESC);
+`;
+
+/**
+ * Row of the sync_runs table as returned by the driver
+ */
+interface SyncRunRow {
+  id: string | number;
+  trigger: SyncRun['trigger'];
+  status: SyncRun['status'];
+  mode: SyncRun['mode'];
+  started_at: Date | string;
+  finished_at: Date | string;
+  duration_ms: number;
+  listings_count: number | null;
+  products_count: number | null;
+  changed_listings: number | null;
+  reused_listings: number | null;
+  added_products: number | null;
+  removed_products: number | null;
+  changed_products: number | null;
+  error_code: string | null;
+  error_message: string | null;
+  feed_url: string | null;
+  feed_version_id: string | null;
+  content_hash: string | null;
+}
+
+/** Databases whose schema has been created in this instance */
+const initialized = new WeakSet<Queryable>();
+
+/**
+ * Creates the sync_runs table if it does not exist
+ *
+ * @param db - Database to use
+ */
+export async function ensureSyncRunsTable(db: Queryable = getDatabase()): Promise<void> {
+  if (initialized.has(db)) {
+    return;
+  }
+  await db.query(SYNC_RUNS_SCHEMA);
+  initialized.add(db);
+}
+
+/**
+ * Converts a row to a sync run
+ */
+function toSyncRun(row: SyncRunRow): SyncRun {
+  return {
+    id: Number(row.id),
+    trigger: row.trigger,
+    status: row.status,
+    mode: row.mode,
+    startedAt: new Date(row.started_at).toISOString(),
+    finishedAt: new Date(row.finished_at).toISOString(),
+    durationMs: row.duration_ms,
+    listingsCount: row.listings_count,
+    productsCount: row.products_count,
+    changedListings: row.changed_listings,
+    reusedListings: row.reused_listings,
+    addedProducts: row.added_products,
+    removedProducts: row.removed_products,
+    changedProducts: row.changed_products,
+    errorCode: row.error_code,
+    errorMessage: row.error_message,
+    feedUrl: row.feed_url,
+    feedVersionId: row.feed_version_id,
+    contentHash: row.content_hash,
+  };
+}
+
+/**
+ * Record a sync run
+ *
+ * @param run - Run to record
+ * @param db - Database to use (default: POSTGRES_URL pool)
+ * @returns Recorded run
+ * @throws StorageError if the database is not configured or the insert fails
+ */
+export async function insertSyncRun(run: NewSyncRun, db: Queryable = getDatabase()): Promise<SyncRun> {
+  const durationMs = Math.max(0, Date.parse(run.finishedAt) - Date.parse(run.startedAt));
+
+  try {
+    await ensureSyncRunsTable(db);
+    const { rows } = await db.query<SyncRunRow>(
+      `INSERT INTO sync_runs (
+        trigger, status, mode, started_at, finished_at, duration_ms,
+        listings_count, products_count, changed_listings, reused_listings,
+        added_products, removed_products, changed_products,
+        error_code, error_message, feed_url, feed_version_id, content_hash
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+      RETURNING *`,
+      [
+        run.trigger,
+        run.status,
+        run.mode,
+        run.startedAt,
+        run.finishedAt,
+        durationMs,
+        run.listingsCount,
+        run.productsCount,
+        run.changedListings,
+        run.reusedListings,
+        run.addedProducts,
+        run.removedProducts,
+        run.changedProducts,
+        run.errorCode,
+        run.errorMessage,
+        run.feedUrl,
+        run.feedVersionId,
+        run.contentHash,
+      ]
+    );
+    return toSyncRun(rows[0]);
+  } catch (error) {
+    logError('Failed to record sync run', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError(
+      'Failed to record sync run in the database',
+      'DATABASE_WRITE_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * List recorded sync runs, newest first
+ *
+ * @param page - Page number (1-based)
+ * @param pageSize - Runs per page (1 to MAX_SYNC_RUN_PAGE_SIZE)
+ * @param db - Database to use (default: POSTGRES_URL pool)
+ * @returns Runs on the page and the total number of runs
+ * @throws StorageError if the database is not configured or the query fails
+ */
+export async function listSyncRuns(
+  page: number = 1,
+  pageSize: number = DEFAULT_SYNC_RUN_PAGE_SIZE,
+  db: Queryable = getDatabase()
+): Promise<SyncRunPage> {
+  try {
+    await ensureSyncRunsTable(db);
+    const { rows } = await db.query<SyncRunRow>(
+      'SELECT * FROM sync_runs ORDER BY started_at DESC, id DESC LIMIT $1 OFFSET $2',
+      [pageSize, (page - 1) * pageSize]
+    );
+    const count = await db.query<{ total: string | number }>('SELECT COUNT(*) AS total FROM sync_runs');
+
+    return {
+      runs: rows.map(toSyncRun),
+      page,
+      pageSize,
+      total: Number(count.rows[0]?.total ?? 0),
+    };
+  } catch (error) {
+    logError('Failed to list sync runs', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError(
+      'Failed to read sync history from the database',
+      'DATABASE_READ_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
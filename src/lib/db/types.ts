@@ -0,0 +1,134 @@
+/**
+ * Database type definitions
+ * Rows of the Postgres tables used for history that outlives the single Edge Config keys
+ */
+
+/**
+ * What started a sync
+ */
+export type SyncRunTrigger = 'manual' | 'cron';
+
+/**
+ * Outcome of a sync run
+ */
+export type SyncRunStatus = 'success' | 'failure' | 'blocked';
+
+/**
+ * A sync run to record
+ * Counts are null when the run failed before they were known.
+ * @property trigger - Manual or cron
+ * @property status - Outcome of the run
+ * @property mode - Mode the build ran in (null if the run failed before building)
+ * @property startedAt - ISO 8601 start time
+ * @property finishedAt - ISO 8601 end time
+ * @property listingsCount - Listings synced
+ * @property productsCount - Facebook catalog rows
+ * @property changedListings - Listings re-fetched and re-formatted
+ * @property reusedListings - Listings reused from the previous snapshot
+ * @property addedProducts - Products added to the Facebook feed
+ * @property removedProducts - Products removed from the Facebook feed
+ * @property changedProducts - Products with changed fields
+ * @property errorCode - Error code of a failed or blocked run
+ * @property errorMessage - Error message of a failed or blocked run
+ * @property feedUrl - Public URL of the Facebook CSV feed
+ * @property feedVersionId - Feed version recorded for the Facebook CSV
+ * @property contentHash - SHA-256 hash of the Facebook CSV content
+ */
+export interface NewSyncRun {
+  trigger: SyncRunTrigger;
+  status: SyncRunStatus;
+  mode: 'full' | 'incremental' | null;
+  startedAt: string;
+  finishedAt: string;
+  listingsCount: number | null;
+  productsCount: number | null;
+  changedListings: number | null;
+  reusedListings: number | null;
+  addedProducts: number | null;
+  removedProducts: number | null;
+  changedProducts: number | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+  feedUrl: string | null;
+  feedVersionId: string | null;
+  contentHash: string | null;
+}
+
+/**
+ * A recorded sync run
+ * @property id - Row ID
+ * @property durationMs - Time between start and end in milliseconds
+ */
+export interface SyncRun extends NewSyncRun {
+  id: number;
+  durationMs: number;
+}
+
+/**
+ * One page of the sync history, newest first
+ * @property runs - Runs on the page
+ * @property page - Page number (1-based)
+ * @property pageSize - Runs per page
+ * @property total - Total number of recorded runs
+ */
+export interface SyncRunPage {
+  runs: SyncRun[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+/**
+ * Normalized state of an Etsy listing captured by a sync
+ * @property listingId - Etsy listing ID
+ * @property price - Listing price in currency units (e.g., 12.5)
+ * @property currencyCode - ISO 4217 currency code
+ * @property quantity - Available quantity
+ * @property state - Etsy listing state
+ * @property views - Lifetime views
+ * @property numFavorers - Users who favorited the listing
+ * @property tags - Listing tags
+ * @property imageCount - Number of listing images
+ */
+export interface ListingSnapshotValues {
+  listingId: number;
+  price: number;
+  currencyCode: string;
+  quantity: number;
+  state: string;
+  views: number;
+  numFavorers: number;
+  tags: string[];
+  imageCount: number;
+}
+
+/**
+ * A recorded listing snapshot
+ * @property syncRunId - Sync run that captured the snapshot
+ * @property capturedAt - ISO 8601 start time of that sync run
+ */
+export interface ListingSnapshot extends ListingSnapshotValues {
+  syncRunId: number;
+  capturedAt: string;
+}
+
+/**
+ * Snapshot fields tracked for changes
+ */
+export type ListingSnapshotField = 'price' | 'quantity' | 'state' | 'tags' | 'imageCount';
+
+/**
+ * A change between two consecutive snapshots of a listing
+ * @property capturedAt - Time of the snapshot with the new value
+ * @property syncRunId - Sync run that captured the new value
+ * @property field - Field that changed
+ * @property before - Previous value
+ * @property after - New value
+ */
+export interface ListingSnapshotChange {
+  capturedAt: string;
+  syncRunId: number;
+  field: ListingSnapshotField;
+  before: number | string | string[];
+  after: number | string | string[];
+}
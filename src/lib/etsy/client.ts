@@ -5,36 +5,22 @@
 
 import { TokenError, EtsyApiError, RateLimitError, ConfigError, StorageError } from '@/lib/utils/errors';
 import { logInfo, logError, logWarn } from '@/lib/utils/logger';
-import {
-  getEtsyTokens,
-  isTokenExpired,
-  refreshAccessToken,
-  getRateLimitState,
-  storeRateLimitState,
-} from '@/lib/storage/edge-config';
+import { getEtsyTokens, isTokenExpired, refreshAccessToken } from '@/lib/storage/edge-config';
+import { parseRateLimitHeaders, RateLimiter } from '@/lib/etsy/rate-limiter';
 import type {
   EtsyTokens,
   EtsyListing,
+  EtsyListingState,
+  EtsyListingInventory,
   EtsyShop,
   EtsyListingsResponse,
   EtsyShopsResponse,
+  EtsyTaxonomyNode,
+  EtsyTaxonomyNodesResponse,
+  EtsyRateLimitQuota,
   RateLimitState,
 } from '@/lib/etsy/types';
 
-/**
- * Rate limit configuration
- */
-const RATE_LIMIT = {
-  /** Maximum requests per second */
-  QPS: 5,
-  /** Maximum requests per day */
-  QPD: 5000,
-  /** Time window in milliseconds for QPS tracking */
-  SECOND_WINDOW_MS: 1000,
-  /** Buffer time in milliseconds added when waiting for rate limit window */
-  BUFFER_MS: 10,
-};
-
 /**
  * Retry configuration for transient errors
  */
@@ -47,6 +33,8 @@ const RETRY_CONFIG = {
   MAX_DELAY_MS: 30000,
   /** Maximum jitter factor (percentage of delay to add as randomness) */
   JITTER_FACTOR: 0.3,
+  /** Longest retry-after in milliseconds worth waiting for within a request; longer waits fail instead */
+  MAX_RETRY_AFTER_MS: 60000,
 };
 
 /**
@@ -120,102 +108,6 @@ export async function getValidToken(): Promise<EtsyTokens> {
   }
 }
 
-/**
- * Initialize rate limit state if not present
- * @returns Current or new rate limit state
- */
-async function getOrCreateRateLimitState(): Promise<RateLimitState> {
-  let state = await getRateLimitState();
-
-  const now = new Date();
-  // Calculate next midnight UTC (tomorrow at 00:00:00 UTC) for daily reset
-  const nextMidnightUTC = new Date(
-    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1, 0, 0, 0)
-  );
-
-  // Initialize if not exists
-  if (!state) {
-    state = {
-      daily_count: 0,
-      daily_reset: nextMidnightUTC.toISOString(),
-      second_timestamps: [],
-    };
-    await storeRateLimitState(state);
-    return state;
-  }
-
-  // Reset daily count if we're past midnight UTC
-  const resetTime = new Date(state.daily_reset);
-  if (now >= resetTime) {
-    state = {
-      daily_count: 0,
-      daily_reset: nextMidnightUTC.toISOString(),
-      second_timestamps: [],
-    };
-    await storeRateLimitState(state);
-    logInfo('Daily rate limit counter reset');
-  }
-
-  return state;
-}
-
-/**
- * Clean up old timestamps outside the current second window
- * @param timestamps - Array of request timestamps
- * @returns Filtered timestamps within the current window
- */
-function cleanupTimestamps(timestamps: number[]): number[] {
-  const now = Date.now();
-  return timestamps.filter((ts) => now - ts < RATE_LIMIT.SECOND_WINDOW_MS);
-}
-
-/**
- * Wait for rate limit to allow the next request
- * Implements token bucket algorithm for QPS limiting
- * @throws RateLimitError if daily limit exceeded
- */
-async function waitForRateLimit(): Promise<void> {
-  const state = await getOrCreateRateLimitState();
-
-  // Check daily limit
-  if (state.daily_count >= RATE_LIMIT.QPD) {
-    const resetTime = new Date(state.daily_reset);
-    const hoursUntilReset = Math.ceil((resetTime.getTime() - Date.now()) / (1000 * 60 * 60));
-    throw new RateLimitError(
-      `Daily rate limit exceeded (${RATE_LIMIT.QPD} requests). Resets in ~${hoursUntilReset} hours.`
-    );
-  }
-
-  // Clean up old timestamps
-  const currentTimestamps = cleanupTimestamps(state.second_timestamps);
-
-  // If at QPS limit, wait for the oldest request to expire
-  if (currentTimestamps.length >= RATE_LIMIT.QPS) {
-    const oldestTimestamp = Math.min(...currentTimestamps);
-    const waitTime = RATE_LIMIT.SECOND_WINDOW_MS - (Date.now() - oldestTimestamp);
-
-    if (waitTime > 0) {
-      logInfo('Rate limit: waiting for QPS window', { waitTimeMs: waitTime });
-      await delay(waitTime + RATE_LIMIT.BUFFER_MS);
-    }
-  }
-
-  // Update state with new request timestamp
-  const currentTimestamp = Date.now();
-  const newTimestamps = cleanupTimestamps([...state.second_timestamps, currentTimestamp]);
-
-  await storeRateLimitState({
-    ...state,
-    daily_count: state.daily_count + 1,
-    second_timestamps: newTimestamps,
-  });
-
-  logInfo('Rate limit state updated', {
-    daily_count: state.daily_count + 1,
-    qps_current: newTimestamps.length,
-  });
-}
-
 /**
  * Utility function to delay execution
  * @param ms - Milliseconds to delay
@@ -273,6 +165,24 @@ function validateShopId(shopId: string): string {
   return trimmed;
 }
 
+/**
+ * Validate a listing ID for use in API endpoints
+ * @param listingId - The listing ID to validate
+ * @returns The validated listing ID
+ * @throws EtsyApiError if the listing ID is not a positive integer
+ */
+function validateListingId(listingId: number): number {
+  if (!Number.isInteger(listingId) || listingId <= 0) {
+    throw new EtsyApiError(
+      `Invalid listing ID: "${listingId}". Listing ID must be a positive integer.`,
+      'INVALID_LISTING_ID',
+      400
+    );
+  }
+
+  return listingId;
+}
+
 /**
  * Validate and sanitize a shop name for use in API endpoints
  * @param shopName - The shop name to validate
@@ -302,22 +212,47 @@ function validateShopName(shopName: string): string {
  */
 export class EtsyClient {
   private apiKey: string;
+  private rateLimiter: RateLimiter;
 
   /**
    * Creates a new EtsyClient instance
+   * @param rateLimiter - Rate limiter for this client's requests (default: one backed by the shared counters)
    * @throws ConfigError if ETSY_API_KEY is not set
    */
-  constructor() {
+  constructor(rateLimiter: RateLimiter = new RateLimiter()) {
     const apiKey = process.env.ETSY_API_KEY;
     if (!apiKey) {
       throw new ConfigError('ETSY_API_KEY environment variable is not set');
     }
     this.apiKey = apiKey;
+    this.rateLimiter = rateLimiter;
+  }
+
+  /**
+   * Settle this client's rate limit accounting
+   * Returns unused reserved quota and writes the rate limit state summary; call once a sync is done
+   * with its Etsy requests. The client can still be used afterwards.
+   *
+   * @returns Rate limit state after this client's requests
+   */
+  async flushRateLimit(): Promise<RateLimitState> {
+    return this.rateLimiter.flush();
+  }
+
+  /**
+   * Remaining Etsy API quota as reported by the rate limit headers of this client's responses
+   *
+   * @returns Quota, or null if no response today carried the headers
+   */
+  getRateLimitQuota(): EtsyRateLimitQuota | null {
+    return this.rateLimiter.getQuota();
   }
 
   /**
    * Make a request to the Etsy API with automatic token refresh,
    * rate limiting, and retry logic
+   * Every response's rate limit headers update the limiter; a 429 with retry-after waits exactly that long
+   * (up to MAX_RETRY_AFTER_MS), a 429 without it backs off like a server error.
    *
    * @template T - Expected response type
    * @param endpoint - API endpoint (without base URL)
@@ -333,12 +268,12 @@ export class EtsyClient {
     // Get valid token (refreshes if needed)
     const tokens = await getValidToken();
 
-    // Wait for rate limit
-    await waitForRateLimit();
-
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= RETRY_CONFIG.MAX_RETRIES; attempt++) {
+      // Wait for rate limit (Etsy counts every attempt)
+      await this.rateLimiter.acquire();
+
       try {
         const url = `${ETSY_API_BASE}${endpoint}`;
 
@@ -355,10 +290,15 @@ export class EtsyClient {
           },
         });
 
+        // Etsy's view of the quota replaces the local estimate
+        const rateLimit = parseRateLimitHeaders(response.headers);
+        this.rateLimiter.observe(rateLimit);
+
         // Log response status
         logInfo('Etsy API response received', {
           endpoint,
           status: response.status,
+          remainingToday: rateLimit.remainingToday ?? undefined,
         });
 
         // Handle non-success responses
@@ -377,6 +317,25 @@ export class EtsyClient {
             error: errorBody,
           });
 
+          // Rate limited with a retry-after: wait exactly that long, or give up if it is too long
+          if (response.status === 429 && rateLimit.retryAfterMs !== null) {
+            if (
+              attempt < RETRY_CONFIG.MAX_RETRIES &&
+              rateLimit.retryAfterMs <= RETRY_CONFIG.MAX_RETRY_AFTER_MS
+            ) {
+              logWarn('Rate limited by Etsy, waiting for retry-after', {
+                endpoint,
+                attempt,
+                retryAfterMs: rateLimit.retryAfterMs,
+              });
+              await delay(rateLimit.retryAfterMs);
+              continue;
+            }
+            throw new RateLimitError(
+              `Etsy API rate limit exceeded. Retry after ${Math.ceil(rateLimit.retryAfterMs / 1000)} seconds. Endpoint: ${endpoint}`
+            );
+          }
+
           // Check if retryable
           if (isRetryableError(response.status) && attempt < RETRY_CONFIG.MAX_RETRIES) {
             const backoffDelay = calculateBackoffDelay(attempt);
@@ -462,11 +421,13 @@ export class EtsyClient {
   }
 
   /**
-   * Fetch all active listings for a shop with pagination support
+   * Fetch all listings in a given state for a shop with pagination support
    * Automatically handles pagination for shops with more than 100 listings
+   * Listings in states other than active are only returned to the shop owner's token
    *
    * @param shopId - Etsy shop ID (numeric string)
-   * @returns Array of all active listings
+   * @param state - Listing state to fetch (default: active)
+   * @returns Array of all listings in that state
    * @throws EtsyApiError on API errors or invalid shop ID
    *
    * @example
@@ -474,16 +435,16 @@ export class EtsyClient {
    * const listings = await client.getShopListings('12345');
    * console.log(`Found ${listings.length} listings`);
    */
-  async getShopListings(shopId: string): Promise<EtsyListing[]> {
+  async getShopListings(shopId: string, state: EtsyListingState = 'active'): Promise<EtsyListing[]> {
     const validatedShopId = validateShopId(shopId);
     const allListings: EtsyListing[] = [];
     let offset = 0;
     let hasMore = true;
 
-    logInfo('Fetching shop listings', { shopId: validatedShopId });
+    logInfo('Fetching shop listings', { shopId: validatedShopId, state });
 
     while (hasMore) {
-      const endpoint = `/application/shops/${validatedShopId}/listings?limit=${DEFAULT_LIMIT}&offset=${offset}&includes=images`;
+      const endpoint = `/application/shops/${validatedShopId}/listings?state=${state}&limit=${DEFAULT_LIMIT}&offset=${offset}&includes=images`;
 
       const response = await this.makeRequest<EtsyListingsResponse>(endpoint);
 
@@ -491,6 +452,7 @@ export class EtsyClient {
 
       logInfo('Fetched listings page', {
         shopId: validatedShopId,
+        state,
         offset,
         count: response.results.length,
         total: response.count,
@@ -511,6 +473,7 @@ export class EtsyClient {
 
     logInfo('Finished fetching all listings', {
       shopId: validatedShopId,
+      state,
       totalListings: allListings.length,
     });
     
@@ -518,6 +481,87 @@ export class EtsyClient {
     return allListings;
   }
 
+  /**
+   * Fetch the inventory (products, offerings, and variation properties) for a listing
+   * Each inventory product carries its own price and quantity per offering
+   *
+   * @param listingId - Etsy listing ID
+   * @returns Listing inventory
+   * @throws EtsyApiError on API errors or invalid listing ID
+   *
+   * @example
+   * const client = new EtsyClient();
+   * const inventory = await client.getListingInventory(123456789);
+   * console.log(`Found ${inventory.products.length} variants`);
+   */
+  async getListingInventory(listingId: number): Promise<EtsyListingInventory> {
+    const validatedListingId = validateListingId(listingId);
+
+    logInfo('Fetching listing inventory', { listingId: validatedListingId });
+
+    const endpoint = `/application/listings/${validatedListingId}/inventory`;
+    const response = await this.makeRequest<EtsyListingInventory>(endpoint);
+
+    logInfo('Listing inventory fetched successfully', {
+      listingId: validatedListingId,
+      productCount: response.products?.length ?? 0,
+    });
+
+    return response;
+  }
+
+  /**
+   * Fetch and attach inventory for every listing that has variations
+   * Listings without variations are left untouched to conserve the daily request budget
+   *
+   * @param listings - Listings to populate (mutated in place via the `inventory` property)
+   * @returns Number of listings whose inventory was fetched
+   * @throws EtsyApiError on API errors
+   *
+   * @example
+   * const listings = await client.getShopListings('12345');
+   * await client.attachListingInventories(listings);
+   */
+  async attachListingInventories(listings: EtsyListing[]): Promise<number> {
+    const listingsWithVariations = listings.filter((listing) => listing.has_variations);
+
+    logInfo('Fetching inventory for listings with variations', {
+      total: listings.length,
+      withVariations: listingsWithVariations.length,
+    });
+
+    for (const listing of listingsWithVariations) {
+      listing.inventory = await this.getListingInventory(listing.listing_id);
+    }
+
+    return listingsWithVariations.length;
+  }
+
+  /**
+   * Fetch the full Etsy seller taxonomy tree
+   * The tree changes rarely, so callers should cache the result
+   *
+   * @returns Top-level taxonomy nodes with descendants nested in `children`
+   * @throws EtsyApiError on API errors
+   *
+   * @example
+   * const client = new EtsyClient();
+   * const nodes = await client.getSellerTaxonomyNodes();
+   * console.log(`Found ${nodes.length} top-level categories`);
+   */
+  async getSellerTaxonomyNodes(): Promise<EtsyTaxonomyNode[]> {
+    logInfo('Fetching seller taxonomy');
+
+    const endpoint = '/application/seller-taxonomy/nodes';
+    const response = await this.makeRequest<EtsyTaxonomyNodesResponse>(endpoint);
+
+    logInfo('Seller taxonomy fetched successfully', {
+      topLevelCount: response.results.length,
+    });
+
+    return response.results;
+  }
+
   /**
    * Fetch shop details
    *
@@ -0,0 +1,538 @@
+/**
+ * Etsy API rate limiter
+ * Keeps every sync within Etsy's limits (5 requests per second, 5000 per day, reset at midnight UTC)
+ * using atomic counters shared by all syncs:
+ * - Daily quota is reserved in batches, so a sync touches the daily counter once per batch rather
+ *   than once per request, and hands back what it did not use when it flushes
+ * - Slots of the current second are reserved from the shared counter for the requests waiting now,
+ *   at most SECOND_BATCH_SIZE at a time, so concurrent syncs share each second instead of the first
+ *   one taking all of it
+ *
+ * Counters live in Postgres when POSTGRES_URL is set, otherwise in process memory (seeded from and
+ * summarized to the rate_limit_state key, so the daily count survives between invocations).
+ *
+ * Etsy's own view wins over the local count: the rate limit headers of each response (see
+ * parseRateLimitHeaders) set the daily limit and remaining quota, and pause requests when no
+ * requests are left in the current second.
+ */
+
+import { isDatabaseConfigured } from '@/lib/db/client';
+import { createPostgresCounterStore } from '@/lib/db/rate-limit-counters';
+import { getRateLimitState, storeRateLimitState } from '@/lib/storage/edge-config';
+import { RateLimitError } from '@/lib/utils/errors';
+import { logInfo, logWarn } from '@/lib/utils/logger';
+import type {
+  EtsyRateLimitHeaders,
+  EtsyRateLimitQuota,
+  RateLimitCounterStore,
+  RateLimitState,
+} from './types';
+
+/**
+ * Rate limit configuration
+ */
+export const RATE_LIMIT = {
+  /** Maximum requests per second */
+  QPS: 5,
+  /** Maximum requests per day */
+  QPD: 5000,
+  /** Time window in milliseconds for QPS tracking */
+  SECOND_WINDOW_MS: 1000,
+  /** Buffer time in milliseconds added when waiting for rate limit window */
+  BUFFER_MS: 10,
+  /** Daily quota reserved from the shared counter at a time */
+  DAILY_BATCH_SIZE: 25,
+  /** Most slots of one second a sync reserves from the shared counter at a time */
+  SECOND_BATCH_SIZE: 2,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Daily quota reported by Etsy's response headers
+ */
+interface ServerQuotaView {
+  limitPerDay: number;
+  remainingToday: number;
+  observedAt: Date;
+}
+
+/** Counter store shared by every limiter in this instance */
+let sharedStore: RateLimitCounterStore | null = null;
+
+/**
+ * Next midnight UTC (tomorrow at 00:00:00 UTC), when the daily count resets
+ */
+function getNextMidnightUTC(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1, 0, 0, 0));
+}
+
+/**
+ * Counter key of the UTC day containing a time
+ */
+function getDailyKey(now: Date): string {
+  return `etsy_daily_${now.toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Parses a non-negative integer header
+ */
+function parseCountHeader(value: string | null): number | null {
+  if (value === null || value.trim() === '') {
+    return null;
+  }
+  const count = Number(value);
+  return Number.isInteger(count) && count >= 0 ? count : null;
+}
+
+/**
+ * Parses a retry-after header (seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null, now: number): number | null {
+  if (value === null || value.trim() === '') {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? Math.round(seconds * 1000) : null;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - now, 0);
+}
+
+/**
+ * Read the rate limit headers of an Etsy API response
+ *
+ * @param headers - Response headers
+ * @param now - Current time, for an HTTP-date retry-after (default: now)
+ * @returns Parsed headers (null for each missing or invalid one)
+ *
+ * @example
+ * parseRateLimitHeaders(response.headers);
+ * // { limitPerDay: 5000, remainingToday: 4211, remainingThisSecond: 4, retryAfterMs: null }
+ */
+export function parseRateLimitHeaders(headers: Headers, now: number = Date.now()): EtsyRateLimitHeaders {
+  return {
+    limitPerDay: parseCountHeader(headers.get('x-limit-per-day')),
+    remainingToday: parseCountHeader(headers.get('x-remaining-today')),
+    remainingThisSecond: parseCountHeader(headers.get('x-remaining-this-second')),
+    retryAfterMs: parseRetryAfter(headers.get('retry-after'), now),
+  };
+}
+
+/**
+ * Remaining quota described by a saved rate limit state
+ * Uses the figures Etsy reported when the state has them, otherwise estimates from the local count.
+ * A state from before the last reset means the full daily limit is available.
+ *
+ * @param state - Saved rate limit state (null if none)
+ * @param now - Current time (default: now)
+ * @returns Quota for today
+ */
+export function getRateLimitQuota(state: RateLimitState | null, now: Date = new Date()): EtsyRateLimitQuota {
+  const resetsAt = getNextMidnightUTC(now).toISOString();
+  const limitPerDay = state?.limit_per_day ?? RATE_LIMIT.QPD;
+
+  if (!state || state.daily_reset !== resetsAt) {
+    return { limitPerDay, remainingToday: limitPerDay, resetsAt, updatedAt: null, source: 'estimate' };
+  }
+  if (state.remaining_today !== undefined) {
+    return {
+      limitPerDay,
+      remainingToday: state.remaining_today,
+      resetsAt,
+      updatedAt: state.server_updated_at ?? null,
+      source: 'etsy',
+    };
+  }
+  return {
+    limitPerDay,
+    remainingToday: Math.max(limitPerDay - state.daily_count, 0),
+    resetsAt,
+    updatedAt: null,
+    source: 'estimate',
+  };
+}
+
+/**
+ * Utility function to delay execution
+ * @param ms - Milliseconds to delay
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Creates an in-memory counter store
+ * Stand-in for Postgres when no database is configured: atomic within this instance only.
+ */
+export function createMemoryCounterStore(): RateLimitCounterStore {
+  const counters = new Map<string, { count: number; expiresAt: number }>();
+
+  const read = (key: string): number => {
+    const counter = counters.get(key);
+    return counter && counter.expiresAt > Date.now() ? counter.count : 0;
+  };
+
+  return {
+    shared: false,
+
+    async increment(key, amount, limit, expiresAt) {
+      const count = read(key) + amount;
+      if (count > limit) {
+        return false;
+      }
+      counters.set(key, { count, expiresAt: expiresAt.getTime() });
+      return true;
+    },
+
+    async decrement(key, amount) {
+      const counter = counters.get(key);
+      if (counter) {
+        counter.count = Math.max(counter.count - amount, 0);
+      }
+    },
+
+    async get(key) {
+      return read(key);
+    },
+
+    async prune() {
+      const now = Date.now();
+      for (const [key, counter] of counters) {
+        if (counter.expiresAt <= now) {
+          counters.delete(key);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Get the counter store shared by every sync
+ * Postgres when POSTGRES_URL is set, otherwise the in-memory stand-in
+ */
+export function getRateLimitCounterStore(): RateLimitCounterStore {
+  if (!sharedStore) {
+    sharedStore = isDatabaseConfigured() ? createPostgresCounterStore() : createMemoryCounterStore();
+    logInfo('Rate limit counters initialized', { shared: sharedStore.shared });
+  }
+  return sharedStore;
+}
+
+/**
+ * Rate limiter for one sync
+ *
+ * @example
+ * const limiter = new RateLimiter();
+ * await limiter.acquire(); // before each Etsy request
+ * await limiter.flush(); // once the sync is done
+ */
+export class RateLimiter {
+  private store: RateLimitCounterStore;
+
+  /** Daily quota reserved from the shared counter and not used yet */
+  private reserved = 0;
+
+  /** Daily counter the reservation was taken from */
+  private reservedKey: string | null = null;
+
+  /** Times of this limiter's requests in the current second window */
+  private timestamps: number[] = [];
+
+  /** Slots of the current second reserved from the shared counter and not used yet */
+  private secondReserved = 0;
+
+  /** Second (ms since the epoch / SECOND_WINDOW_MS) the slots were reserved in */
+  private secondReservedWindow = -1;
+
+  /** Requests made since the last flush */
+  private requests = 0;
+
+  /** Acquire calls not resolved yet (including the one running) */
+  private waiting = 0;
+
+  /** Pending acquire calls run one at a time, so concurrent requests share one reservation */
+  private queue: Promise<void> = Promise.resolve();
+
+  /** Daily limit and remaining quota last reported by Etsy */
+  private serverView: ServerQuotaView | null = null;
+
+  /** Etsy reported no requests left in the current second; no request before this time */
+  private secondBlockedUntil = 0;
+
+  private seeded = false;
+
+  /**
+   * Creates a new RateLimiter
+   * @param store - Counter store (default: the shared store of this instance)
+   */
+  constructor(store: RateLimitCounterStore = getRateLimitCounterStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Wait until the next request is allowed and count it
+   * @throws RateLimitError if the daily limit is exhausted
+   */
+  async acquire(): Promise<void> {
+    this.waiting++;
+    const acquired = this.queue
+      .then(async () => {
+        await this.reserveDailyQuota();
+        await this.waitForSecondSlot();
+        this.reserved--;
+        this.requests++;
+      })
+      .finally(() => {
+        this.waiting--;
+      });
+    this.queue = acquired.catch(() => undefined);
+    return acquired;
+  }
+
+  /**
+   * Record the rate limit headers of an Etsy response
+   *
+   * @param headers - Parsed rate limit headers
+   * @param now - Time of the response (default: now)
+   */
+  observe(headers: EtsyRateLimitHeaders, now: Date = new Date()): void {
+    if (headers.limitPerDay !== null && headers.remainingToday !== null) {
+      this.serverView = {
+        limitPerDay: headers.limitPerDay,
+        remainingToday: headers.remainingToday,
+        observedAt: now,
+      };
+    }
+    if (headers.remainingThisSecond === 0) {
+      const second = Math.floor(now.getTime() / RATE_LIMIT.SECOND_WINDOW_MS);
+      this.secondBlockedUntil = (second + 1) * RATE_LIMIT.SECOND_WINDOW_MS;
+    }
+  }
+
+  /**
+   * Remaining quota as last reported by Etsy
+   *
+   * @returns Quota, or null if no response today carried the rate limit headers
+   */
+  getQuota(): EtsyRateLimitQuota | null {
+    const now = new Date();
+    const view = this.getServerView(now);
+    if (!view) {
+      return null;
+    }
+    return {
+      limitPerDay: view.limitPerDay,
+      remainingToday: view.remainingToday,
+      resetsAt: getNextMidnightUTC(now).toISOString(),
+      updatedAt: view.observedAt.toISOString(),
+      source: 'etsy',
+    };
+  }
+
+  /**
+   * Return unused daily quota and write the rate limit state summary
+   * Never throws: a failure is logged and the summary is still returned.
+   *
+   * @returns Rate limit state after this sync
+   */
+  async flush(): Promise<RateLimitState> {
+    const now = new Date();
+    const state: RateLimitState = {
+      daily_count: 0,
+      daily_reset: getNextMidnightUTC(now).toISOString(),
+      second_timestamps: this.timestamps.filter((ts) => now.getTime() - ts < RATE_LIMIT.SECOND_WINDOW_MS),
+    };
+
+    try {
+      await this.release();
+      await this.store.prune();
+
+      const key = getDailyKey(now);
+      state.daily_count = await this.store.get(key);
+
+      // Etsy also counts requests made outside these syncs. The shared count is only ever raised to
+      // Etsy's figure, never lowered, since other syncs may hold reservations.
+      const view = this.getServerView(now);
+      if (view) {
+        const serverCount = view.limitPerDay - view.remainingToday;
+        if (serverCount > state.daily_count) {
+          const expiresAt = new Date(getNextMidnightUTC(now).getTime() + DAY_MS);
+          await this.store.increment(key, serverCount - state.daily_count, Number.MAX_SAFE_INTEGER, expiresAt);
+          state.daily_count = serverCount;
+        }
+        state.limit_per_day = view.limitPerDay;
+        state.remaining_today = view.remainingToday;
+        state.server_updated_at = view.observedAt.toISOString();
+      }
+
+      await storeRateLimitState(state);
+      logInfo('Rate limit accounting flushed', {
+        requests: this.requests,
+        daily_count: state.daily_count,
+      });
+    } catch (error) {
+      logWarn('Rate limit accounting not flushed', {
+        requests: this.requests,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    this.requests = 0;
+    return state;
+  }
+
+  /**
+   * Make sure at least one request of today's quota is reserved
+   */
+  private async reserveDailyQuota(): Promise<void> {
+    const now = new Date();
+    const key = getDailyKey(now);
+    const nextMidnight = getNextMidnightUTC(now);
+    const view = this.getServerView(now);
+    const limit = view?.limitPerDay ?? RATE_LIMIT.QPD;
+
+    if (view?.remainingToday === 0) {
+      throw this.createDailyLimitError(limit, nextMidnight, now);
+    }
+
+    // A reservation from before midnight UTC belongs to the previous day's counter
+    if (this.reservedKey !== key) {
+      await this.release();
+      this.reservedKey = key;
+    }
+    if (this.reserved > 0) {
+      return;
+    }
+
+    const expiresAt = new Date(nextMidnight.getTime() + DAY_MS);
+    if (!this.store.shared && !this.seeded) {
+      await this.seedFromSavedState(key, nextMidnight, expiresAt);
+    }
+
+    // Near the limit a full batch no longer fits; fall back to single requests
+    for (const amount of [RATE_LIMIT.DAILY_BATCH_SIZE, 1]) {
+      if (await this.store.increment(key, amount, limit, expiresAt)) {
+        this.reserved = amount;
+        return;
+      }
+    }
+
+    throw this.createDailyLimitError(limit, nextMidnight, now);
+  }
+
+  /**
+   * Creates the error thrown once the daily limit is used up
+   */
+  private createDailyLimitError(limit: number, nextMidnight: Date, now: Date): RateLimitError {
+    const hoursUntilReset = Math.ceil((nextMidnight.getTime() - now.getTime()) / (1000 * 60 * 60));
+    return new RateLimitError(
+      `Daily rate limit exceeded (${limit} requests). Resets in ~${hoursUntilReset} hours.`
+    );
+  }
+
+  /**
+   * Etsy's last reported quota, if it was reported today (UTC)
+   */
+  private getServerView(now: Date): ServerQuotaView | null {
+    if (!this.serverView || getDailyKey(this.serverView.observedAt) !== getDailyKey(now)) {
+      return null;
+    }
+    return this.serverView;
+  }
+
+  /**
+   * Wait for a free slot in both the local sliding window and the shared counter of the current second
+   */
+  private async waitForSecondSlot(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.timestamps = this.timestamps.filter((ts) => now - ts < RATE_LIMIT.SECOND_WINDOW_MS);
+
+      if (now < this.secondBlockedUntil) {
+        const waitTime = this.secondBlockedUntil - now;
+        logInfo('Rate limit: Etsy reported no requests left this second', { waitTimeMs: waitTime });
+        await delay(waitTime + RATE_LIMIT.BUFFER_MS);
+        continue;
+      }
+
+      // If at QPS limit, wait for the oldest request to expire
+      if (this.timestamps.length >= RATE_LIMIT.QPS) {
+        const waitTime = RATE_LIMIT.SECOND_WINDOW_MS - (now - Math.min(...this.timestamps));
+        logInfo('Rate limit: waiting for QPS window', { waitTimeMs: waitTime });
+        await delay(waitTime + RATE_LIMIT.BUFFER_MS);
+        continue;
+      }
+
+      const second = Math.floor(now / RATE_LIMIT.SECOND_WINDOW_MS);
+      if (this.secondReservedWindow !== second) {
+        this.secondReserved = 0;
+        this.secondReservedWindow = second;
+      }
+      if (this.secondReserved > 0 || (await this.reserveSecondSlots(second))) {
+        this.secondReserved--;
+        this.timestamps.push(Date.now());
+        return;
+      }
+
+      // Other syncs used this second's slots
+      const waitTime = (second + 1) * RATE_LIMIT.SECOND_WINDOW_MS - Date.now();
+      logInfo('Rate limit: second window taken by other requests', { waitTimeMs: waitTime });
+      await delay(Math.max(waitTime, 0) + RATE_LIMIT.BUFFER_MS);
+    }
+  }
+
+  /**
+   * Reserve slots of a second from the shared counter for the requests waiting now, within the room
+   * left in the local window and at most SECOND_BATCH_SIZE; a single one if other syncs took the rest
+   *
+   * @returns Whether any slot was reserved
+   */
+  private async reserveSecondSlots(second: number): Promise<boolean> {
+    const key = `etsy_second_${second}`;
+    const expiresAt = new Date((second + 2) * RATE_LIMIT.SECOND_WINDOW_MS);
+    const wanted = Math.min(this.waiting, RATE_LIMIT.QPS - this.timestamps.length, RATE_LIMIT.SECOND_BATCH_SIZE);
+
+    for (const amount of wanted > 1 ? [wanted, 1] : [1]) {
+      if (await this.store.increment(key, amount, RATE_LIMIT.QPS, expiresAt)) {
+        this.secondReserved = amount;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Hand unused daily quota back to the shared counter
+   */
+  private async release(): Promise<void> {
+    if (this.reserved > 0 && this.reservedKey) {
+      await this.store.decrement(this.reservedKey, this.reserved);
+    }
+    this.reserved = 0;
+  }
+
+  /**
+   * Seeds an empty in-memory daily counter from the last saved rate limit state of the same day
+   */
+  private async seedFromSavedState(key: string, nextMidnight: Date, expiresAt: Date): Promise<void> {
+    this.seeded = true;
+    try {
+      const saved = await getRateLimitState();
+      if (
+        saved &&
+        saved.daily_count > 0 &&
+        saved.daily_reset === nextMidnight.toISOString() &&
+        (await this.store.get(key)) === 0
+      ) {
+        await this.store.increment(key, saved.daily_count, Number.MAX_SAFE_INTEGER, expiresAt);
+        logInfo('Daily rate limit count restored', { daily_count: saved.daily_count });
+      }
+    } catch (error) {
+      logWarn('Saved rate limit state not loaded', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
@@ -61,6 +61,11 @@ export interface EtsyImage {
   alt_text: string | null;
 }
 
+/**
+ * Etsy listing state
+ */
+export type EtsyListingState = 'active' | 'inactive' | 'draft' | 'expired' | 'sold_out' | 'removed';
+
 /**
  * Etsy listing data structure
  * Represents a product listing from the Etsy API
@@ -87,6 +92,9 @@ export interface EtsyImage {
  * @property listing_type - Type of listing
  * @property tags - Array of listing tags
  * @property taxonomy_id - Category taxonomy ID
+ * @property shop_section_id - Shop section the listing belongs to (null if none)
+ * @property has_variations - Whether the listing has variation properties (size, color, etc.)
+ * @property inventory - Listing inventory (only present once fetched via getListingInventory)
  */
 export interface EtsyListing {
   listing_id: number;
@@ -98,7 +106,7 @@ export interface EtsyListing {
   quantity: number;
   url: string;
   images: EtsyImage[];
-  state: 'active' | 'inactive' | 'draft' | 'expired' | 'sold_out' | 'removed';
+  state: EtsyListingState;
   creation_timestamp: number;
   last_modified_timestamp: number;
   state_timestamp: number;
@@ -112,6 +120,73 @@ export interface EtsyListing {
   listing_type: 'physical' | 'download' | 'both';
   tags: string[];
   taxonomy_id: number | null;
+  shop_section_id: number | null;
+  has_variations: boolean;
+  inventory?: EtsyListingInventory;
+}
+
+/**
+ * Property value attached to an inventory product (e.g., Size: Large)
+ * @property property_id - Etsy property identifier
+ * @property property_name - Human-readable property name (e.g., "Primary color")
+ * @property scale_id - Scale identifier for sized properties (nullable)
+ * @property scale_name - Scale name (nullable)
+ * @property value_ids - Identifiers of the selected values
+ * @property values - Selected values as display strings
+ */
+export interface EtsyPropertyValue {
+  property_id: number;
+  property_name: string | null;
+  scale_id: number | null;
+  scale_name: string | null;
+  value_ids: number[];
+  values: string[];
+}
+
+/**
+ * Offering for an inventory product - carries its own price and quantity
+ * @property offering_id - Unique offering identifier
+ * @property quantity - Available quantity for this offering
+ * @property is_enabled - Whether buyers can purchase this offering
+ * @property is_deleted - Whether the offering has been deleted
+ * @property price - Price of this offering
+ */
+export interface EtsyOffering {
+  offering_id: number;
+  quantity: number;
+  is_enabled: boolean;
+  is_deleted: boolean;
+  price: EtsyPrice;
+}
+
+/**
+ * Inventory product - one combination of variation property values
+ * @property product_id - Unique product identifier
+ * @property sku - Seller SKU
+ * @property is_deleted - Whether the product has been deleted
+ * @property offerings - Offerings for this product (typically one)
+ * @property property_values - Variation property values defining this product
+ */
+export interface EtsyInventoryProduct {
+  product_id: number;
+  sku: string;
+  is_deleted: boolean;
+  offerings: EtsyOffering[];
+  property_values: EtsyPropertyValue[];
+}
+
+/**
+ * Listing inventory from the Etsy API (GET /listings/{listing_id}/inventory)
+ * @property products - Inventory products (one per variation combination)
+ * @property price_on_property - Property IDs that affect price
+ * @property quantity_on_property - Property IDs that affect quantity
+ * @property sku_on_property - Property IDs that affect SKU
+ */
+export interface EtsyListingInventory {
+  products: EtsyInventoryProduct[];
+  price_on_property: number[];
+  quantity_on_property: number[];
+  sku_on_property: number[];
 }
 
 /**
@@ -179,6 +254,33 @@ export interface EtsyShopsResponse {
   results: EtsyShop[];
 }
 
+/**
+ * Etsy seller taxonomy node (category)
+ * @property id - Taxonomy ID (matches EtsyListing.taxonomy_id)
+ * @property level - Depth in the taxonomy tree (0 for top-level categories)
+ * @property name - Category name (e.g., "Crochet")
+ * @property parent_id - Parent taxonomy ID (null for top-level categories)
+ * @property children - Child nodes
+ * @property full_path_taxonomy_ids - Taxonomy IDs from the root down to this node
+ */
+export interface EtsyTaxonomyNode {
+  id: number;
+  level: number;
+  name: string;
+  parent_id: number | null;
+  children: EtsyTaxonomyNode[];
+  full_path_taxonomy_ids: number[];
+}
+
+/**
+ * Etsy API seller taxonomy response structure
+ * Returns the top-level nodes with their descendants nested in `children`
+ */
+export interface EtsyTaxonomyNodesResponse {
+  count: number;
+  results: EtsyTaxonomyNode[];
+}
+
 /**
  * OAuth token data stored in Edge Config
  * @property access_token - Current access token for API calls
@@ -196,13 +298,81 @@ export interface EtsyTokens {
 }
 
 /**
- * Rate limit state stored in Edge Config
+ * Rate limit state, written to the key-value store after each sync
+ * The live counters are kept in a RateLimitCounterStore; this is the summary reported to the dashboard.
  * @property daily_count - Number of requests made today
  * @property daily_reset - ISO 8601 timestamp for daily count reset (midnight UTC)
  * @property second_timestamps - Array of timestamps for requests in current second window
+ * @property limit_per_day - Daily limit reported by Etsy (x-limit-per-day)
+ * @property remaining_today - Requests left today as reported by Etsy (x-remaining-today)
+ * @property server_updated_at - ISO 8601 time of the response that reported limit_per_day and remaining_today
  */
 export interface RateLimitState {
   daily_count: number;
   daily_reset: string;
   second_timestamps: number[];
+  limit_per_day?: number;
+  remaining_today?: number;
+  server_updated_at?: string;
+}
+
+/**
+ * Rate limit headers of an Etsy API response (null when a header is missing or invalid)
+ * @property limitPerDay - x-limit-per-day
+ * @property remainingToday - x-remaining-today
+ * @property remainingThisSecond - x-remaining-this-second
+ * @property retryAfterMs - retry-after, converted to milliseconds
+ */
+export interface EtsyRateLimitHeaders {
+  limitPerDay: number | null;
+  remainingToday: number | null;
+  remainingThisSecond: number | null;
+  retryAfterMs: number | null;
+}
+
+/**
+ * Remaining Etsy API quota for today
+ * @property limitPerDay - Requests allowed per day
+ * @property remainingToday - Requests left until the reset
+ * @property resetsAt - ISO 8601 time of the next reset (midnight UTC)
+ * @property updatedAt - ISO 8601 time the figures were last observed (null before the first request today)
+ * @property source - etsy when reported by Etsy's response headers, estimate when counted locally
+ */
+export interface EtsyRateLimitQuota {
+  limitPerDay: number;
+  remainingToday: number;
+  resetsAt: string;
+  updatedAt: string | null;
+  source: 'etsy' | 'estimate';
+}
+
+/**
+ * Atomic counters shared by every sync that calls the Etsy API
+ * Counters are keyed by time window (e.g., one per UTC day) and expire after their window.
+ */
+export interface RateLimitCounterStore {
+  /** Whether counts survive a restart and are shared between instances (false for the in-memory stand-in) */
+  readonly shared: boolean;
+
+  /**
+   * Atomically add to a counter if the total stays within the limit (all or nothing)
+   * @returns true if the amount was added
+   */
+  increment(key: string, amount: number, limit: number, expiresAt: Date): Promise<boolean>;
+
+  /**
+   * Subtract from a counter (not below zero)
+   */
+  decrement(key: string, amount: number): Promise<void>;
+
+  /**
+   * Read a counter
+   * @returns Current value (0 if missing or expired)
+   */
+  get(key: string): Promise<number>;
+
+  /**
+   * Delete expired counters
+   */
+  prune(): Promise<void>;
 }
@@ -3,23 +3,29 @@
  * Transforms Etsy listings into Facebook Product Catalog CSV format
  */
 
-import type { EtsyListing, EtsyPrice } from '@/lib/etsy/types';
-import type { FacebookProduct, FacebookAvailability, FacebookCondition } from './types';
+import type { EtsyListing, EtsyPrice, EtsyPropertyValue } from '@/lib/etsy/types';
+import type {
+  FacebookProduct,
+  FacebookAvailability,
+  FacebookCondition,
+  ListingVariant,
+} from './types';
+import type { ListingCategory } from '@/lib/taxonomy/types';
 import { logWarn } from '@/lib/utils/logger';
 
 /** Maximum length for Facebook product title */
-const MAX_TITLE_LENGTH = 150;
+export const MAX_TITLE_LENGTH = 150;
 
 /** Maximum length for Facebook product description */
-const MAX_DESCRIPTION_LENGTH = 5000;
+export const MAX_DESCRIPTION_LENGTH = 5000;
 
 const MAX_IMAGES_FOR_ADDITIONAL = 11;
 
 /** Placeholder image URL when listing has no images */
-const PLACEHOLDER_IMAGE_URL = 'https://via.placeholder.com/800x800?text=No+Image';
+export const PLACEHOLDER_IMAGE_URL = 'https://via.placeholder.com/800x800?text=No+Image';
 
 /** CSV column headers in the order required by Facebook */
-const CSV_HEADERS = [
+export const CSV_HEADERS = [
   'id',
   'title',
   'description',
@@ -30,8 +36,29 @@ const CSV_HEADERS = [
   'image_link',
   'additional_image_link',
   'brand',
+  'item_group_id',
+  'quantity_to_sell_on_facebook',
+  'size',
+  'color',
+  'additional_variant_attribute',
+  'google_product_category',
+  'product_type',
+  'custom_label_0',
+  'custom_label_1',
+  'custom_label_2',
+  'custom_label_3',
+  'custom_label_4',
+  'sale_price',
+  'sale_price_effective_date',
+  'status',
 ] as const;
 
+/** Property names treated as the variant size */
+const SIZE_PROPERTY_PATTERN = /size/i;
+
+/** Property names treated as the variant color */
+const COLOR_PROPERTY_PATTERN = /colou?r/i;
+
 /**
  * Converts an Etsy price object to Facebook price format
  * @param price - Etsy price object with amount, divisor, and currency_code
@@ -133,27 +160,37 @@ export function getPrimaryImageUrl(listing: EtsyListing): string {
 }
 
 /**
- * Gets additional image URLs (images 2-9) from an Etsy listing
- * Returns comma-separated URLs for Facebook catalog additional_image_link field
- * Limited to 8 additional images (ranks 2-9)
+ * Gets additional image URLs (images after the primary image) from an Etsy listing
+ * Images are sorted by rank; empty URLs are skipped
  * @param listing - Etsy listing object
- * @returns Comma-separated image URLs string, empty string if no additional images
+ * @param limit - Maximum number of additional images (default: 10)
+ * @returns Image URLs, empty array if no additional images
  */
-export function getAdditionalImageUrls(listing: EtsyListing): string {
+export function getAdditionalImageUrlList(
+  listing: EtsyListing,
+  limit: number = MAX_IMAGES_FOR_ADDITIONAL - 1
+): string[] {
   if (!listing.images || listing.images.length < 2) {
-    return '';
+    return [];
   }
 
-  // Sort images by rank and take images 2 through limit of max additional images
+  // Sort images by rank and take images 2 through the limit
   const sortedImages = [...listing.images].sort((a, b) => a.rank - b.rank);
-  const additionalImages = sortedImages.slice(1, MAX_IMAGES_FOR_ADDITIONAL);
+  const additionalImages = sortedImages.slice(1, limit + 1);
 
-  // Filter for valid URLs and join with commas
-  const urls = additionalImages
+  return additionalImages
     .map((img) => img.url_fullxfull)
     .filter((url): url is string => !!url?.trim());
+}
 
-  return urls.join(',');
+/**
+ * Gets additional image URLs (images 2-11) from an Etsy listing
+ * Returns comma-separated URLs for Facebook catalog additional_image_link field
+ * @param listing - Etsy listing object
+ * @returns Comma-separated image URLs string, empty string if no additional images
+ */
+export function getAdditionalImageUrls(listing: EtsyListing): string {
+  return getAdditionalImageUrlList(listing).join(',');
 }
 
 /**
@@ -170,6 +207,21 @@ export function isValidListing(listing: EtsyListing): boolean {
   );
 }
 
+/**
+ * Logs a listing that was skipped because it is missing required fields
+ * @param listing - Invalid Etsy listing
+ */
+export function logSkippedListing(listing: EtsyListing): void {
+  logWarn('Skipping invalid listing', {
+    listing_id: listing?.listing_id,
+    title: listing?.title?.substring(0, 50),
+    reason: !listing?.listing_id ? 'missing listing_id' :
+            !listing?.title?.trim() ? 'missing title' :
+            !listing?.price ? 'missing price' :
+            !listing?.url ? 'missing url' : 'unknown',
+  });
+}
+
 /**
  * Determines the availability status for a listing
  * Digital products are always in stock when active
@@ -186,38 +238,197 @@ export function getAvailability(listing: EtsyListing): FacebookAvailability {
 }
 
 /**
- * Transforms a single Etsy listing to a Facebook product
+ * Determines the availability status for a single listing variant
+ * A variant is only in stock when the listing is active and the variant has quantity
+ * @param listing - Parent Etsy listing
+ * @param variant - Variant to check
+ * @returns FacebookAvailability status
+ */
+export function getVariantAvailability(
+  listing: EtsyListing,
+  variant: ListingVariant
+): FacebookAvailability {
+  if (listing.state !== 'active' || variant.quantity === 0) {
+    return 'out of stock';
+  }
+  return 'in stock';
+}
+
+/**
+ * Builds the single variant used for listings without inventory variations
+ * @param listing - Etsy listing
+ * @param quantity - Quantity to report (defaults to the listing quantity)
+ * @returns Base variant carrying the listing-level price and quantity
+ */
+function getBaseVariant(listing: EtsyListing, quantity: number = listing.quantity): ListingVariant {
+  return {
+    id: listing.listing_id.toString(),
+    isVariant: false,
+    price: listing.price,
+    quantity,
+    size: '',
+    color: '',
+    attributes: [],
+  };
+}
+
+/**
+ * Joins the display values of an inventory property
+ * @param property - Inventory property value
+ * @returns Display value (multiple values joined with "/")
+ */
+function getPropertyDisplayValue(property: EtsyPropertyValue): string {
+  return property.values.map((value) => value.trim()).filter(Boolean).join('/');
+}
+
+/**
+ * Expands an Etsy listing into its purchasable variants
+ * Each enabled offering of each live inventory product becomes one variant.
+ * Variant IDs are built from the property value IDs rather than the product/offering IDs,
+ * because Etsy regenerates product and offering IDs whenever the inventory is edited.
+ * Listings without fetched inventory or without variations yield a single base variant.
+ * @param listing - Etsy listing (with optional inventory attached)
+ * @returns Array of variants (never empty)
+ */
+export function getListingVariants(listing: EtsyListing): ListingVariant[] {
+  const products = listing.inventory?.products.filter((product) => !product.is_deleted) ?? [];
+  const hasVariations = products.some((product) => product.property_values.length > 0);
+
+  if (!hasVariations) {
+    return [getBaseVariant(listing)];
+  }
+
+  const variants: ListingVariant[] = [];
+  const seenIds = new Set<string>();
+
+  for (const product of products) {
+    const offerings = product.offerings.filter((offering) => !offering.is_deleted && offering.is_enabled);
+
+    for (const offering of offerings) {
+      const valueIds = product.property_values.flatMap((property) => property.value_ids);
+      let id = valueIds.length > 0
+        ? `${listing.listing_id}_${valueIds.join('_')}`
+        : `${listing.listing_id}_${offering.offering_id}`;
+      // Guard against duplicate property combinations (e.g., multiple offerings per product)
+      if (seenIds.has(id)) {
+        id = `${id}_${offering.offering_id}`;
+      }
+      seenIds.add(id);
+
+      let size = '';
+      let color = '';
+      const attributes: ListingVariant['attributes'] = [];
+
+      for (const property of product.property_values) {
+        const name = property.property_name?.trim() || `Property ${property.property_id}`;
+        const value = getPropertyDisplayValue(property);
+        if (!value) {
+          continue;
+        }
+        if (!size && SIZE_PROPERTY_PATTERN.test(name)) {
+          size = value;
+        } else if (!color && COLOR_PROPERTY_PATTERN.test(name)) {
+          color = value;
+        } else {
+          attributes.push({ name, value });
+        }
+      }
+
+      variants.push({
+        id,
+        isVariant: true,
+        price: offering.price,
+        quantity: offering.quantity,
+        size,
+        color,
+        attributes,
+      });
+    }
+  }
+
+  // Every offering is disabled - report the listing itself as unavailable
+  if (variants.length === 0) {
+    return [getBaseVariant(listing, 0)];
+  }
+
+  return variants;
+}
+
+/**
+ * Formats variant attributes for the additional_variant_attribute column
+ * Commas and colons are stripped from names/values as they are used as separators
+ * @param attributes - Variant attributes
+ * @returns Comma-separated "Name:Value" pairs
+ */
+function formatVariantAttributes(attributes: ListingVariant['attributes']): string {
+  const clean = (text: string) => text.replace(/[,:]/g, ' ').replace(/\s+/g, ' ').trim();
+  return attributes.map(({ name, value }) => `${clean(name)}:${clean(value)}`).join(',');
+}
+
+/**
+ * Transforms a single Etsy listing to Facebook products
+ * Listings with inventory variations are expanded into one product per variant,
+ * all sharing the listing ID as item_group_id
  * @param listing - Etsy listing to transform
  * @param shopName - Shop brand name
- * @returns FacebookProduct object or null if listing is invalid
+ * @param category - Resolved category fields (from resolveListingCategory); empty if omitted
+ * @returns Array of FacebookProduct objects (empty if listing is invalid)
  */
-export function formatListing(listing: EtsyListing, shopName: string): FacebookProduct | null {
+export function formatListing(
+  listing: EtsyListing,
+  shopName: string,
+  category?: ListingCategory
+): FacebookProduct[] {
   if (!isValidListing(listing)) {
-    return null;
+    return [];
   }
 
-  const availability = getAvailability(listing);
   const condition: FacebookCondition = 'new'; // All products are new
 
   // Use title as fallback if description is missing or empty
   const descriptionText = listing.description?.trim() || listing.title;
 
-  return {
-    id: listing.listing_id.toString(),
-    title: truncateTitle(listing.title),
-    description: sanitizeDescription(descriptionText),
-    availability,
+  const title = truncateTitle(listing.title);
+  const description = sanitizeDescription(descriptionText);
+  const imageLink = getPrimaryImageUrl(listing);
+  const additionalImageLink = getAdditionalImageUrls(listing);
+
+  const variants = getListingVariants(listing);
+  const itemGroupId = variants.some((variant) => variant.isVariant)
+    ? listing.listing_id.toString()
+    : '';
+
+  return variants.map((variant) => ({
+    id: variant.id,
+    title,
+    description,
+    availability: getVariantAvailability(listing, variant),
     condition,
-    price: formatPrice(listing.price),
+    price: formatPrice(variant.price),
     link: listing.url,
-    image_link: getPrimaryImageUrl(listing),
-    additional_image_link: getAdditionalImageUrls(listing),
+    image_link: imageLink,
+    additional_image_link: additionalImageLink,
     brand: shopName,
-  };
+    item_group_id: itemGroupId,
+    quantity_to_sell_on_facebook: listing.state === 'active' ? variant.quantity.toString() : '0',
+    size: variant.size,
+    color: variant.color,
+    additional_variant_attribute: formatVariantAttributes(variant.attributes),
+    google_product_category: category?.googleProductCategory ?? '',
+    product_type: category?.productType ?? '',
+    custom_label_0: '',
+    custom_label_1: '',
+    custom_label_2: '',
+    custom_label_3: '',
+    custom_label_4: '',
+    sale_price: '',
+    sale_price_effective_date: '',
+    status: listing.state === 'active' ? 'active' : 'archived',
+  }));
 }
 
 /** UTF-8 BOM for Excel compatibility with international characters */
-const UTF8_BOM = '\uFEFF';
+export const UTF8_BOM = '\uFEFF';
 
 /**
  * Generates a CSV string from an array of Facebook products
@@ -251,8 +462,8 @@ export function generateCSV(products: FacebookProduct[]): string {
  * @example
  * const csv = formatListingsToCSV(etsyListings, 'TabascoSunrise');
  * // Returns:
- * // id,title,description,availability,condition,price,link,image_link,brand
- * // 123456,Pattern Title,Description text,in stock,new,12.99 USD,https://...,https://...,TabascoSunrise
+ * // id,title,description,availability,condition,price,link,image_link,additional_image_link,brand,item_group_id,...
+ * // 123456,Pattern Title,Description text,in stock,new,12.99 USD,https://...,https://...,,TabascoSunrise,,...
  */
 export function formatListingsToCSV(listings: EtsyListing[], shopName: string): string {
   if (!Array.isArray(listings)) {
@@ -263,22 +474,14 @@ export function formatListingsToCSV(listings: EtsyListing[], shopName: string):
     throw new Error('Invalid input: shopName must be a non-empty string');
   }
 
-  // Transform listings to Facebook products, filtering out invalid ones
+  // Transform listings to Facebook products (one per variant), filtering out invalid ones
   const products: FacebookProduct[] = [];
   for (const listing of listings) {
-    const product = formatListing(listing, shopName);
-    if (product) {
-      products.push(product);
+    const listingProducts = formatListing(listing, shopName);
+    if (listingProducts.length > 0) {
+      products.push(...listingProducts);
     } else {
-      // Log invalid listings for debugging
-      logWarn('Skipping invalid listing', {
-        listing_id: listing?.listing_id,
-        title: listing?.title?.substring(0, 50),
-        reason: !listing?.listing_id ? 'missing listing_id' :
-                !listing?.title?.trim() ? 'missing title' :
-                !listing?.price ? 'missing price' :
-                !listing?.url ? 'missing url' : 'unknown',
-      });
+      logSkippedListing(listing);
     }
   }
 
@@ -0,0 +1,163 @@
+/**
+ * Facebook Catalog CSV Parser
+ * RFC 4180 parser for reading back stored feeds. It handles the UTF-8 BOM, quoted fields,
+ * doubled quotes and newlines inside quoted fields, so parsing the output of generateCSV
+ * returns the header row and each product's values exactly.
+ */
+
+import { UTF8_BOM } from './catalog';
+
+/**
+ * Parser state between characters (and between chunks)
+ * - fieldStart: at the start of a field
+ * - unquoted: inside an unquoted field
+ * - quoted: inside a quoted field
+ * - quoteInQuoted: after a quote inside a quoted field (closing quote or first half of "")
+ */
+type ParserState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted';
+
+/**
+ * Incremental CSV parser
+ * Content can be written in chunks of any size (a chunk may end mid-field, mid-quote or
+ * between \r and \n); complete records are returned as soon as their line ends.
+ * Blank lines are skipped. Malformed input is parsed leniently: text after a closing quote is
+ * kept in the field, and an unterminated quoted field runs to the end of the content.
+ *
+ * @example
+ * const parser = new CSVParser();
+ * const records = [...parser.write(chunk1), ...parser.write(chunk2), ...parser.end()];
+ * // records[0] is the header row
+ */
+export class CSVParser {
+  private state: ParserState = 'fieldStart';
+  private field = '';
+  private fieldQuoted = false;
+  private record: string[] = [];
+  private pendingCR = false;
+  private started = false;
+
+  /**
+   * Parses a chunk of CSV content
+   * @param chunk - Next piece of content
+   * @returns Records completed by this chunk
+   */
+  write(chunk: string): string[][] {
+    const records: string[][] = [];
+    let text = chunk;
+
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      if (text.startsWith(UTF8_BOM)) {
+        text = text.slice(1);
+      }
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      // \r\n counts as one line break
+      if (this.pendingCR) {
+        this.pendingCR = false;
+        if (char === '\n') {
+          continue;
+        }
+      }
+
+      switch (this.state) {
+        case 'quoted':
+          if (char === '"') {
+            this.state = 'quoteInQuoted';
+          } else {
+            this.field += char;
+          }
+          break;
+
+        case 'quoteInQuoted':
+          if (char === '"') {
+            // Doubled quote inside a quoted field
+            this.field += '"';
+            this.state = 'quoted';
+          } else {
+            this.state = 'unquoted';
+            this.readUnquoted(char, records);
+          }
+          break;
+
+        case 'fieldStart':
+          if (char === '"') {
+            this.state = 'quoted';
+            this.fieldQuoted = true;
+          } else {
+            this.state = 'unquoted';
+            this.readUnquoted(char, records);
+          }
+          break;
+
+        case 'unquoted':
+          this.readUnquoted(char, records);
+          break;
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Finishes parsing
+   * @returns The last record, if the content did not end with a line break
+   */
+  end(): string[][] {
+    const records: string[][] = [];
+    if (this.state !== 'fieldStart' || this.record.length > 0) {
+      this.endRecord(records);
+    }
+    this.state = 'fieldStart';
+    this.pendingCR = false;
+    this.started = false;
+    return records;
+  }
+
+  /**
+   * Handles a character outside quotes
+   */
+  private readUnquoted(char: string, records: string[][]): void {
+    if (char === ',') {
+      this.record.push(this.field);
+      this.field = '';
+      this.fieldQuoted = false;
+      this.state = 'fieldStart';
+    } else if (char === '\n' || char === '\r') {
+      this.pendingCR = char === '\r';
+      this.endRecord(records);
+    } else {
+      this.field += char;
+    }
+  }
+
+  /**
+   * Completes the current record (skipping blank lines)
+   */
+  private endRecord(records: string[][]): void {
+    this.record.push(this.field);
+    if (this.record.length > 1 || this.field !== '' || this.fieldQuoted) {
+      records.push(this.record);
+    }
+    this.record = [];
+    this.field = '';
+    this.fieldQuoted = false;
+    this.state = 'fieldStart';
+  }
+}
+
+/**
+ * Parses complete CSV content
+ * @param content - CSV content (with or without the UTF-8 BOM)
+ * @returns Records, starting with the header row
+ * @example
+ * parseCSV('\uFEFFid,title\n1,"Granny Square, ""Classic"""')
+ * // Returns: [['id', 'title'], ['1', 'Granny Square, "Classic"']]
+ */
+export function parseCSV(content: string): string[][] {
+  const parser = new CSVParser();
+  return [...parser.write(content), ...parser.end()];
+}
@@ -0,0 +1,349 @@
+/**
+ * Feed diagnostics
+ * Imports the errors Meta reports for the feed (a Commerce Manager error report as CSV or JSON,
+ * or the latest feed upload fetched from the Graph API), joins each one to the synced Etsy listing
+ * its product ID belongs to and stores the result in Blob storage for the dashboard.
+ * Recognized messages get a suggested fix.
+ */
+
+import { getJSON, uploadJSON } from '@/lib/storage/blob';
+import { ValidationError } from '@/lib/utils/errors';
+import { logInfo } from '@/lib/utils/logger';
+import type { SyncSnapshot } from '@/lib/sync/snapshot';
+import { MAX_TITLE_LENGTH } from './catalog';
+import { parseCSV } from './csv-parser';
+import type { FacebookCatalogClient, FeedUploadError } from './graph';
+import type {
+  FeedDiagnostic,
+  FeedDiagnosticsDocument,
+  FeedDiagnosticsSource,
+  FeedIssueSeverity,
+} from './types';
+
+/** Blob filename for the imported diagnostics */
+const DIAGNOSTICS_FILENAME = 'feed-diagnostics.json';
+
+/** Maximum number of diagnostics kept from one import */
+const MAX_DIAGNOSTICS = 5000;
+
+/**
+ * Header names accepted for each column of an error report (compared case-insensitively,
+ * ignoring spaces and underscores)
+ */
+const COLUMN_ALIASES = {
+  productId: ['id', 'retailerid', 'productid', 'contentid', 'itemid', 'sku'],
+  message: ['message', 'error', 'errormessage', 'issue', 'description', 'summary'],
+  severity: ['severity', 'type', 'level', 'errortype'],
+  field: ['field', 'attribute', 'column', 'property'],
+} as const;
+
+/**
+ * Suggested fixes, matched against the message in order (first match wins)
+ */
+const SUGGESTIONS: ReadonlyArray<{ pattern: RegExp; suggestion: string }> = [
+  {
+    pattern: /title.*(too long|length|characters)/i,
+    suggestion: `Shorten the title to ${MAX_TITLE_LENGTH} characters or fewer with a title override.`,
+  },
+  {
+    pattern: /image.*(too small|dimension|resolution|pixels)/i,
+    suggestion: 'Upload a larger photo on Etsy (at least 500 x 500 pixels) or move a larger image first with an image order override.',
+  },
+  {
+    pattern: /image.*(download|unreachable|could not|can't|cannot|fetch|invalid|broken)/i,
+    suggestion: 'Check the listing photos on Etsy and re-sync; choose another primary image with an image order override if one is broken.',
+  },
+  {
+    pattern: /sale[ _]price/i,
+    suggestion: 'Check the shop sale configuration: the sale price must be lower than the price and use the same currency.',
+  },
+  {
+    pattern: /price/i,
+    suggestion: 'Check the listing price on Etsy; prices must be an amount above zero with a currency code.',
+  },
+  {
+    pattern: /description/i,
+    suggestion: 'Edit the description on Etsy or set a description override (plain text, 5000 characters or fewer).',
+  },
+  {
+    pattern: /brand/i,
+    suggestion: 'Set a brand override for the listing.',
+  },
+  {
+    pattern: /availability|out of stock|inventory|quantity/i,
+    suggestion: 'Check the listing quantity and state on Etsy, then re-sync.',
+  },
+  {
+    pattern: /link|url|landing page|website/i,
+    suggestion: 'Make sure the listing is active and its Etsy URL opens, then re-sync.',
+  },
+  {
+    pattern: /category|google_product_category/i,
+    suggestion: 'Add a taxonomy override that maps the listing\'s Etsy category to a Google product category.',
+  },
+  {
+    pattern: /duplicate/i,
+    suggestion: 'Remove the other feed or catalog source that uses the same product ID.',
+  },
+  {
+    pattern: /polic(y|ies)|prohibited|restricted|commerce/i,
+    suggestion: 'Review the listing against Meta\'s commerce policies; exclude it with an override if it cannot be sold on Facebook.',
+  },
+];
+
+/**
+ * Diagnostic parsed from a report, before it is joined to a listing
+ */
+export type RawFeedDiagnostic = Pick<FeedDiagnostic, 'productId' | 'severity' | 'message' | 'field'>;
+
+/**
+ * Normalizes a header name for alias matching
+ */
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+/**
+ * Maps a severity reported by Meta to error or warning
+ * Fatal and error severities (and unknown values) are errors; warnings and recommendations are warnings
+ */
+function normalizeSeverity(value: unknown): FeedIssueSeverity {
+  const severity = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return /warn|recommend|suggest|info/.test(severity) ? 'warning' : 'error';
+}
+
+/**
+ * Builds a diagnostic from loosely typed values
+ * @returns Diagnostic, or null if the product ID or message is missing
+ */
+function toRawDiagnostic(
+  productId: unknown,
+  message: unknown,
+  severity: unknown,
+  field: unknown
+): RawFeedDiagnostic | null {
+  const id = typeof productId === 'number' ? productId.toString() : productId;
+  if (typeof id !== 'string' || !id.trim() || typeof message !== 'string' || !message.trim()) {
+    return null;
+  }
+
+  const diagnostic: RawFeedDiagnostic = {
+    productId: id.trim(),
+    severity: normalizeSeverity(severity),
+    message: message.trim(),
+  };
+  if (typeof field === 'string' && field.trim()) {
+    diagnostic.field = field.trim();
+  }
+  return diagnostic;
+}
+
+/**
+ * Parses an error report in CSV format
+ * The header row must contain a product ID column (id, retailer_id, product id, ...) and a
+ * message column (message, error, issue, ...); severity and field columns are optional.
+ *
+ * @param content - CSV content
+ * @returns Diagnostics (rows without a product ID or message are skipped)
+ * @throws ValidationError if a required column is missing
+ */
+export function parseDiagnosticsCSV(content: string): RawFeedDiagnostic[] {
+  const [headers = [], ...rows] = parseCSV(content);
+  const normalized = headers.map(normalizeHeader);
+  const column = (aliases: readonly string[]) =>
+    normalized.findIndex((header) => aliases.includes(header));
+
+  const idColumn = column(COLUMN_ALIASES.productId);
+  const messageColumn = column(COLUMN_ALIASES.message);
+  const severityColumn = column(COLUMN_ALIASES.severity);
+  const fieldColumn = column(COLUMN_ALIASES.field);
+
+  if (idColumn === -1) {
+    throw new ValidationError('Error report must have a product ID column (e.g., id or retailer_id)');
+  }
+  if (messageColumn === -1) {
+    throw new ValidationError('Error report must have a message column (e.g., message or error)');
+  }
+
+  return rows
+    .map((values) =>
+      toRawDiagnostic(
+        values[idColumn],
+        values[messageColumn],
+        severityColumn === -1 ? undefined : values[severityColumn],
+        fieldColumn === -1 ? undefined : values[fieldColumn]
+      )
+    )
+    .filter((diagnostic): diagnostic is RawFeedDiagnostic => diagnostic !== null);
+}
+
+/**
+ * Parses an error report in JSON format
+ * Accepts an array of objects, or an object with a data or diagnostics array. Each object needs a
+ * product ID (id, retailer_id or product_id) and a message (message, error or description).
+ *
+ * @param value - Parsed JSON value
+ * @returns Diagnostics (entries without a product ID or message are skipped)
+ * @throws ValidationError if the value is not a list of diagnostics
+ */
+export function parseDiagnosticsJSON(value: unknown): RawFeedDiagnostic[] {
+  const container = value as { data?: unknown; diagnostics?: unknown } | null;
+  const items = Array.isArray(value) ? value : (container?.diagnostics ?? container?.data);
+  if (!Array.isArray(items)) {
+    throw new ValidationError('Error report must be an array of diagnostics (or { data: [...] })');
+  }
+
+  return items
+    .map((item: Record<string, unknown>) =>
+      item && typeof item === 'object'
+        ? toRawDiagnostic(
+            item.id ?? item.retailer_id ?? item.product_id,
+            item.message ?? item.error ?? item.description,
+            item.severity ?? item.type,
+            item.field ?? item.attribute
+          )
+        : null
+    )
+    .filter((diagnostic): diagnostic is RawFeedDiagnostic => diagnostic !== null);
+}
+
+/**
+ * Converts feed upload errors from the Graph API to diagnostics (one per sample item)
+ * @param errors - Upload errors
+ * @returns Diagnostics
+ */
+export function fromFeedUploadErrors(errors: FeedUploadError[]): RawFeedDiagnostic[] {
+  return errors.flatMap((error) => {
+    const message = [error.summary, error.description].filter(Boolean).join(': ');
+    return error.samples
+      .map((sample) => toRawDiagnostic(sample.retailerId, message, error.severity, undefined))
+      .filter((diagnostic): diagnostic is RawFeedDiagnostic => diagnostic !== null);
+  });
+}
+
+/**
+ * Suggests a fix for a diagnostic
+ * @param message - Message from Meta
+ * @param field - Feed field, when reported
+ * @returns Suggested fix, or undefined if the message is not recognized
+ * @example
+ * suggestFix('Title is too long');
+ * // Returns: 'Shorten the title to 150 characters or fewer with a title override.'
+ */
+export function suggestFix(message: string, field?: string): string | undefined {
+  const text = field ? `${field} ${message}` : message;
+  return SUGGESTIONS.find(({ pattern }) => pattern.test(text))?.suggestion;
+}
+
+/**
+ * Joins diagnostics to the synced listings
+ * Product IDs are matched against the products in the snapshot; variant IDs of listings no
+ * longer in the snapshot fall back to the listing ID before the first underscore.
+ *
+ * @param diagnostics - Parsed diagnostics
+ * @param snapshot - Last sync snapshot (null if no sync has run)
+ * @returns Diagnostics with listing and suggested fix
+ */
+export function matchDiagnostics(
+  diagnostics: RawFeedDiagnostic[],
+  snapshot: SyncSnapshot | null
+): FeedDiagnostic[] {
+  const listingsByProduct = new Map<string, { listingId: number; title: string }>();
+  for (const { listing, products } of Object.values(snapshot?.entries ?? {})) {
+    const match = { listingId: listing.listing_id, title: listing.title };
+    listingsByProduct.set(listing.listing_id.toString(), match);
+    products.forEach((product) => listingsByProduct.set(product.id, match));
+  }
+
+  return diagnostics.map((diagnostic) => {
+    const match =
+      listingsByProduct.get(diagnostic.productId) ??
+      listingsByProduct.get(diagnostic.productId.split('_')[0]);
+    const suggestion = suggestFix(diagnostic.message, diagnostic.field);
+
+    return {
+      ...diagnostic,
+      listingId: match?.listingId ?? null,
+      ...(match ? { listingTitle: match.title } : {}),
+      ...(suggestion ? { suggestion } : {}),
+    };
+  });
+}
+
+/**
+ * Load the imported diagnostics
+ *
+ * @returns Diagnostics document, or null if nothing has been imported
+ * @throws StorageError if the document cannot be fetched or parsed
+ */
+export async function loadFeedDiagnostics(): Promise<FeedDiagnosticsDocument | null> {
+  const result = await getJSON<FeedDiagnosticsDocument>(DIAGNOSTICS_FILENAME);
+  return result?.data ?? null;
+}
+
+/**
+ * Joins diagnostics to listings and stores them, replacing the previous import
+ *
+ * @param diagnostics - Parsed diagnostics
+ * @param source - Where the diagnostics came from
+ * @param snapshot - Last sync snapshot used to match product IDs
+ * @returns Stored document
+ * @throws StorageError if the upload fails
+ */
+export async function importFeedDiagnostics(
+  diagnostics: RawFeedDiagnostic[],
+  source: FeedDiagnosticsSource,
+  snapshot: SyncSnapshot | null
+): Promise<FeedDiagnosticsDocument> {
+  const matched = matchDiagnostics(diagnostics.slice(0, MAX_DIAGNOSTICS), snapshot);
+  const document: FeedDiagnosticsDocument = {
+    importedAt: new Date().toISOString(),
+    source,
+    total: matched.length,
+    unmatched: matched.filter((diagnostic) => diagnostic.listingId === null).length,
+    diagnostics: matched,
+  };
+
+  await uploadJSON(DIAGNOSTICS_FILENAME, document);
+  logInfo('Feed diagnostics imported', {
+    source,
+    total: document.total,
+    unmatched: document.unmatched,
+    truncated: diagnostics.length > MAX_DIAGNOSTICS,
+  });
+
+  return document;
+}
+
+/**
+ * Fetches the errors of the latest feed upload from the Graph API
+ *
+ * @param client - Graph API client
+ * @param feedId - Product feed ID (defaults to FACEBOOK_PRODUCT_FEED_ID, then the catalog's first feed)
+ * @returns Diagnostics
+ * @throws FacebookApiError if a request fails
+ */
+export async function fetchFeedDiagnostics(
+  client: FacebookCatalogClient,
+  feedId: string | undefined = process.env.FACEBOOK_PRODUCT_FEED_ID?.trim() || undefined
+): Promise<RawFeedDiagnostic[]> {
+  const errors = await client.getFeedUploadErrors(feedId);
+  return fromFeedUploadErrors(errors);
+}
+
+/**
+ * Groups diagnostics by listing ID (unmatched diagnostics are left out)
+ * @param document - Diagnostics document
+ * @returns Diagnostics keyed by listing ID
+ */
+export function groupDiagnosticsByListing(
+  document: FeedDiagnosticsDocument | null
+): Record<string, FeedDiagnostic[]> {
+  const grouped: Record<string, FeedDiagnostic[]> = {};
+  for (const diagnostic of document?.diagnostics ?? []) {
+    if (diagnostic.listingId !== null) {
+      (grouped[diagnostic.listingId] ??= []).push(diagnostic);
+    }
+  }
+  return grouped;
+}
@@ -0,0 +1,106 @@
+/**
+ * Feed diff
+ * Compares two Facebook feeds by product ID: products only in the later feed are added, products only
+ * in the earlier feed are removed, and products in both are compared column by column. Field changes
+ * are categorized (price, availability, title) so a sync can report what changed on Facebook.
+ */
+
+import { CSV_HEADERS } from './catalog';
+import type {
+  FacebookProduct,
+  FeedChangeCategory,
+  FeedDiff,
+  FeedDiffSummary,
+  FeedFieldChange,
+  FeedProductChange,
+} from './types';
+
+/**
+ * Category of each field whose changes are counted separately (other fields are 'other')
+ */
+const FIELD_CATEGORIES: Partial<Record<keyof FacebookProduct, FeedChangeCategory>> = {
+  price: 'price',
+  sale_price: 'price',
+  sale_price_effective_date: 'price',
+  availability: 'availability',
+  title: 'title',
+};
+
+/**
+ * Lists the columns whose values differ between two versions of a product
+ * @param before - Product in the earlier feed
+ * @param after - Product in the later feed
+ * @returns Changed fields, in feed column order
+ */
+export function diffProduct(before: FacebookProduct, after: FacebookProduct): FeedFieldChange[] {
+  return CSV_HEADERS.filter((field) => (before[field] ?? '') !== (after[field] ?? '')).map((field) => ({
+    field,
+    category: FIELD_CATEGORIES[field] ?? 'other',
+    before: before[field] ?? '',
+    after: after[field] ?? '',
+  }));
+}
+
+/**
+ * Compares two feeds
+ * If an ID appears more than once in a feed, its last row wins.
+ *
+ * @param before - Products of the earlier feed (e.g., the live feed)
+ * @param after - Products of the later feed (e.g., a freshly built catalog)
+ * @returns Added, removed and changed products
+ * @example
+ * diffFeeds([{ id: '1', price: '10.00 USD', ... }], [{ id: '1', price: '12.00 USD', ... }, { id: '2', ... }]);
+ * // Returns: { added: ['2'], removed: [], changed: [{ id: '1', changes: [{ field: 'price', ... }] }], ... }
+ */
+export function diffFeeds(before: FacebookProduct[], after: FacebookProduct[]): FeedDiff {
+  const previous = new Map(before.map((product) => [product.id, product]));
+  const current = new Map(after.map((product) => [product.id, product]));
+
+  const added: string[] = [];
+  const changed: FeedProductChange[] = [];
+  let unchangedCount = 0;
+
+  for (const [id, product] of current) {
+    const earlier = previous.get(id);
+    if (!earlier) {
+      added.push(id);
+      continue;
+    }
+
+    const changes = diffProduct(earlier, product);
+    if (changes.length > 0) {
+      changed.push({ id, title: product.title, changes });
+    } else {
+      unchangedCount++;
+    }
+  }
+
+  return {
+    beforeCount: before.length,
+    afterCount: after.length,
+    added,
+    removed: [...previous.keys()].filter((id) => !current.has(id)),
+    changed,
+    unchangedCount,
+  };
+}
+
+/**
+ * Counts the changes in a feed diff
+ * @param diff - Result of diffFeeds
+ * @returns Added, removed, changed and unchanged products, and products per kind of change
+ */
+export function summarizeFeedDiff(diff: FeedDiff): FeedDiffSummary {
+  const countCategory = (category: FeedChangeCategory) =>
+    diff.changed.filter((product) => product.changes.some((change) => change.category === category)).length;
+
+  return {
+    added: diff.added.length,
+    removed: diff.removed.length,
+    changed: diff.changed.length,
+    unchanged: diff.unchangedCount,
+    priceChanges: countCategory('price'),
+    availabilityChanges: countCategory('availability'),
+    titleChanges: countCategory('title'),
+  };
+}
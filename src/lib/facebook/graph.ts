@@ -0,0 +1,318 @@
+/**
+ * Facebook Graph API client for the Catalog Batch API and feed upload diagnostics
+ * Sends items_batch requests to a product catalog, reads batch status with
+ * check_batch_request_status and reads the errors of the latest feed upload.
+ * The fetch implementation and base URL are injectable,
+ * so the client can run against a local mock Graph API server.
+ */
+
+import { ConfigError, FacebookApiError } from '@/lib/utils/errors';
+import { logInfo, logWarn } from '@/lib/utils/logger';
+import type { CatalogBatchItemIssue, CatalogBatchRequest, CatalogBatchStatus } from './types';
+
+/** Default Graph API base URL (with version) */
+const DEFAULT_GRAPH_API_URL = 'https://graph.facebook.com/v21.0';
+
+/** Maximum number of requests Meta accepts in one items_batch call */
+export const MAX_BATCH_REQUESTS = 5000;
+
+/** Maximum number of upload error types read per request */
+const MAX_UPLOAD_ERRORS = 100;
+
+/** Batch statuses that mean Meta is still processing the batch */
+const PENDING_BATCH_STATUSES = ['dispatched', 'started', 'in_progress'];
+
+/**
+ * Graph API connection settings
+ * @property catalogId - Commerce Manager catalog ID
+ * @property accessToken - System user access token with catalog_management permission
+ * @property baseUrl - Graph API base URL including the version
+ */
+export interface GraphApiConfig {
+  catalogId: string;
+  accessToken: string;
+  baseUrl: string;
+}
+
+/**
+ * Options for polling a batch
+ * @property intervalMs - Delay between status checks
+ * @property maxAttempts - Maximum number of status checks
+ * @property sleep - Delay implementation (injectable for tests)
+ */
+export interface BatchPollOptions {
+  intervalMs?: number;
+  maxAttempts?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Error reported for the latest upload of a product feed
+ * @property summary - Short error title (e.g., "Image too small")
+ * @property description - Longer explanation from Meta
+ * @property severity - Meta severity ("fatal" or "warning")
+ * @property samples - Affected items (Meta reports a sample, not necessarily every item)
+ */
+export interface FeedUploadError {
+  summary: string;
+  description: string;
+  severity: string;
+  samples: Array<{ retailerId: string; rowNumber?: number }>;
+}
+
+/**
+ * Checks whether push mode is enabled (FACEBOOK_PUSH_ENABLED=true)
+ */
+export function isPushEnabled(): boolean {
+  return process.env.FACEBOOK_PUSH_ENABLED === 'true';
+}
+
+/**
+ * Reads the Graph API configuration from environment variables
+ * FACEBOOK_CATALOG_ID and FACEBOOK_ACCESS_TOKEN are required;
+ * FACEBOOK_GRAPH_API_URL overrides the Graph API base URL.
+ *
+ * @returns Configuration
+ * @throws ConfigError if the catalog ID or access token is not set
+ */
+export function getGraphApiConfig(): GraphApiConfig {
+  const catalogId = process.env.FACEBOOK_CATALOG_ID?.trim();
+  const accessToken = process.env.FACEBOOK_ACCESS_TOKEN?.trim();
+  if (!catalogId) {
+    throw new ConfigError('FACEBOOK_CATALOG_ID environment variable is not set');
+  }
+  if (!accessToken) {
+    throw new ConfigError('FACEBOOK_ACCESS_TOKEN environment variable is not set');
+  }
+
+  return {
+    catalogId,
+    accessToken,
+    baseUrl: (process.env.FACEBOOK_GRAPH_API_URL?.trim() || DEFAULT_GRAPH_API_URL).replace(/\/+$/, ''),
+  };
+}
+
+/**
+ * Normalizes per-item errors or warnings from a batch status response
+ */
+function toItemIssues(value: unknown): CatalogBatchItemIssue[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.map((item: Record<string, unknown>) => {
+    const issue: CatalogBatchItemIssue = {
+      message: typeof item?.message === 'string' ? item.message : 'Unknown error',
+    };
+    if (item?.id !== undefined && item.id !== null) {
+      issue.id = String(item.id);
+    }
+    if (typeof item?.line === 'number') {
+      issue.line = item.line;
+    }
+    return issue;
+  });
+}
+
+/**
+ * Catalog Batch API client
+ *
+ * @example
+ * const client = new FacebookCatalogClient(config);
+ * const handle = await client.sendItemsBatch([{ method: 'DELETE', data: { id: '123' } }]);
+ * const status = await client.waitForBatch(handle);
+ */
+export class FacebookCatalogClient {
+  /**
+   * Creates a new FacebookCatalogClient
+   * @param config - Graph API connection settings
+   * @param fetchFn - fetch implementation (defaults to the global fetch)
+   */
+  constructor(
+    private readonly config: GraphApiConfig,
+    private readonly fetchFn: typeof fetch = fetch
+  ) {}
+
+  /**
+   * Makes a Graph API request and parses the JSON response
+   * @param path - Path relative to the base URL (e.g., "<catalog_id>/items_batch")
+   * @throws FacebookApiError on network errors and error responses
+   */
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const url = `${this.config.baseUrl}/${path}`;
+
+    let response: Response;
+    try {
+      response = await this.fetchFn(url, {
+        ...init,
+        headers: {
+          ...init.headers,
+          Authorization: `Bearer ${this.config.accessToken}`,
+        },
+      });
+    } catch (error) {
+      throw new FacebookApiError(
+        `Network error calling the Graph API: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'FACEBOOK_NETWORK_ERROR',
+        502,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const text = await response.text();
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : {};
+    } catch {
+      body = { error: { message: text } };
+    }
+
+    if (!response.ok) {
+      const message =
+        (body as { error?: { message?: string } }).error?.message ?? response.statusText;
+      throw new FacebookApiError(
+        `Graph API request failed (${response.status}): ${message}`,
+        response.status === 401 || response.status === 403 ? 'FACEBOOK_AUTH_ERROR' : 'FACEBOOK_API_ERROR',
+        response.status >= 500 ? 502 : response.status
+      );
+    }
+
+    return body as T;
+  }
+
+  /**
+   * Sends item requests to the catalog with items_batch
+   *
+   * @param requests - CREATE/UPDATE/DELETE requests (at most MAX_BATCH_REQUESTS)
+   * @returns Batch handle
+   * @throws FacebookApiError if the call fails or the batch is too large
+   */
+  async sendItemsBatch(requests: CatalogBatchRequest[]): Promise<string> {
+    if (requests.length > MAX_BATCH_REQUESTS) {
+      throw new FacebookApiError(
+        `items_batch accepts at most ${MAX_BATCH_REQUESTS} requests (got ${requests.length})`,
+        'FACEBOOK_BATCH_TOO_LARGE',
+        400
+      );
+    }
+
+    const result = await this.request<{ handles?: string[] }>(`${this.config.catalogId}/items_batch`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ item_type: 'PRODUCT_ITEM', requests }),
+    });
+
+    const handle = result.handles?.[0];
+    if (!handle) {
+      throw new FacebookApiError('items_batch response did not include a batch handle', 'FACEBOOK_BATCH_ERROR');
+    }
+
+    logInfo('Catalog batch sent', { requests: requests.length, handle });
+    return handle;
+  }
+
+  /**
+   * Reads the status of a batch with check_batch_request_status
+   *
+   * @param handle - Batch handle from sendItemsBatch
+   * @returns Batch status with per-item errors and warnings
+   * @throws FacebookApiError if the request fails
+   */
+  async getBatchStatus(handle: string): Promise<CatalogBatchStatus> {
+    const result = await this.request<{ data?: Array<Record<string, unknown>> }>(
+      `${this.config.catalogId}/check_batch_request_status?handle=${encodeURIComponent(handle)}`
+    );
+    const batch = result.data?.[0] ?? {};
+
+    return {
+      handle,
+      status: typeof batch.status === 'string' ? batch.status : 'unknown',
+      errors: toItemIssues(batch.errors),
+      warnings: toItemIssues(batch.warnings),
+    };
+  }
+
+  /**
+   * Reads the errors Meta reported for the latest upload of a product feed
+   *
+   * @param feedId - Product feed ID (defaults to the catalog's first feed)
+   * @returns Upload errors with sample items (empty if the feed has no uploads)
+   * @throws FacebookApiError if a request fails or the catalog has no feeds
+   */
+  async getFeedUploadErrors(feedId?: string): Promise<FeedUploadError[]> {
+    let productFeedId = feedId;
+    if (!productFeedId) {
+      const feeds = await this.request<{ data?: Array<{ id: string }> }>(
+        `${this.config.catalogId}/product_feeds?fields=id`
+      );
+      productFeedId = feeds.data?.[0]?.id;
+      if (!productFeedId) {
+        throw new FacebookApiError('The catalog has no product feeds', 'FACEBOOK_NO_FEED', 404);
+      }
+    }
+
+    const uploads = await this.request<{ data?: Array<{ id: string }> }>(
+      `${productFeedId}/uploads?fields=id&limit=1`
+    );
+    const uploadId = uploads.data?.[0]?.id;
+    if (!uploadId) {
+      return [];
+    }
+
+    const errors = await this.request<{ data?: Array<Record<string, unknown>> }>(
+      `${uploadId}/errors?fields=summary,description,severity,samples{retailer_id,row_number}&limit=${MAX_UPLOAD_ERRORS}`
+    );
+
+    logInfo('Feed upload errors fetched', { feedId: productFeedId, uploadId, errors: errors.data?.length ?? 0 });
+
+    return (errors.data ?? []).map((error) => {
+      const samples = (error.samples as { data?: Array<Record<string, unknown>> } | undefined)?.data ?? [];
+      return {
+        summary: typeof error.summary === 'string' ? error.summary : '',
+        description: typeof error.description === 'string' ? error.description : '',
+        severity: typeof error.severity === 'string' ? error.severity : 'fatal',
+        samples: samples
+          .filter((sample) => sample.retailer_id !== undefined && sample.retailer_id !== null)
+          .map((sample) => ({
+            retailerId: String(sample.retailer_id),
+            ...(typeof sample.row_number === 'number' ? { rowNumber: sample.row_number } : {}),
+          })),
+      };
+    });
+  }
+
+  /**
+   * Polls a batch until Meta finishes processing it
+   *
+   * @param handle - Batch handle from sendItemsBatch
+   * @param options - Polling interval and attempts
+   * @returns Last batch status (still pending if polling ran out of attempts)
+   * @throws FacebookApiError if a status request fails
+   */
+  async waitForBatch(handle: string, options: BatchPollOptions = {}): Promise<CatalogBatchStatus> {
+    const {
+      intervalMs = 2000,
+      maxAttempts = 15,
+      sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)),
+    } = options;
+
+    let status = await this.getBatchStatus(handle);
+    for (let attempt = 1; attempt < maxAttempts && isBatchPending(status); attempt++) {
+      await sleep(intervalMs);
+      status = await this.getBatchStatus(handle);
+    }
+
+    if (isBatchPending(status)) {
+      logWarn('Catalog batch still processing after polling', { handle, status: status.status });
+    }
+
+    return status;
+  }
+}
+
+/**
+ * Checks whether Meta is still processing a batch
+ * @param status - Batch status
+ */
+export function isBatchPending(status: CatalogBatchStatus): boolean {
+  return PENDING_BATCH_STATUSES.includes(status.status);
+}
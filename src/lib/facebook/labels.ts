@@ -0,0 +1,268 @@
+/**
+ * Facebook Custom Labels
+ * Derives custom_label_0..3 from listing data so ad campaigns can segment product sets:
+ * price band, popularity tier, new arrival and skill level.
+ * Labels depend on values that change without a listing edit (views, favorers, listing age),
+ * so they are derived on every sync rather than stored with the formatted products.
+ */
+
+import { ValidationError } from '@/lib/utils/errors';
+import type { EtsyListing } from '@/lib/etsy/types';
+import type {
+  CustomLabelConfig,
+  FacebookProduct,
+  PopularityTier,
+  PriceBand,
+  SkillLevel,
+} from './types';
+
+/** Maximum length of a custom label value accepted by Facebook */
+const MAX_LABEL_LENGTH = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Default label configuration used until one is stored in Edge Config
+ */
+export const DEFAULT_CUSTOM_LABEL_CONFIG: CustomLabelConfig = {
+  priceBands: [
+    { label: 'Under 5', maxPrice: 5 },
+    { label: '5 to 10', maxPrice: 10 },
+    { label: '10 to 25', maxPrice: 25 },
+    { label: '25 and up' },
+  ],
+  popularityTiers: [
+    { label: 'Bestseller', minViews: 1000, minFavorers: 100 },
+    { label: 'Popular', minViews: 250, minFavorers: 25 },
+    { label: 'Standard' },
+  ],
+  newArrivalDays: 30,
+  newArrivalLabel: 'New Arrival',
+  skillLevels: [
+    { label: 'Beginner', tags: ['beginner', 'easy'] },
+    { label: 'Intermediate', tags: ['intermediate'] },
+    { label: 'Advanced', tags: ['advanced', 'expert'] },
+  ],
+};
+
+/**
+ * Gets the price band for a price
+ * @param price - Price in currency units
+ * @param bands - Bands in ascending maxPrice order
+ * @returns Band label (empty if no band matches)
+ * @example
+ * getPriceBand(7.5, DEFAULT_CUSTOM_LABEL_CONFIG.priceBands)
+ * // Returns: "5 to 10"
+ */
+export function getPriceBand(price: number, bands: PriceBand[]): string {
+  if (Number.isNaN(price)) {
+    return '';
+  }
+  const band = bands.find((candidate) => candidate.maxPrice === undefined || price < candidate.maxPrice);
+  return band?.label ?? '';
+}
+
+/**
+ * Gets the popularity tier for a listing
+ * @param listing - Etsy listing
+ * @param tiers - Tiers in priority order
+ * @returns Tier label (empty if no tier matches)
+ */
+export function getPopularityTier(listing: EtsyListing, tiers: PopularityTier[]): string {
+  const views = listing.views ?? 0;
+  const favorers = listing.num_favorers ?? 0;
+  const tier = tiers.find(
+    (candidate) =>
+      (candidate.minViews === undefined || views >= candidate.minViews) &&
+      (candidate.minFavorers === undefined || favorers >= candidate.minFavorers)
+  );
+  return tier?.label ?? '';
+}
+
+/**
+ * Checks whether a listing was created within the new arrival window
+ * @param listing - Etsy listing
+ * @param days - Window length in days (0 disables new arrivals)
+ * @param now - Current time
+ */
+export function isNewArrival(listing: EtsyListing, days: number, now: Date): boolean {
+  if (days <= 0 || !listing.creation_timestamp) {
+    return false;
+  }
+  return now.getTime() - listing.creation_timestamp * 1000 < days * DAY_MS;
+}
+
+/**
+ * Gets the skill level for a listing from its tags
+ * @param listing - Etsy listing
+ * @param levels - Levels in priority order
+ * @returns Level label (empty if no tag matches)
+ * @example
+ * getSkillLevel({ tags: ['Easy Crochet Pattern'] }, DEFAULT_CUSTOM_LABEL_CONFIG.skillLevels)
+ * // Returns: "Beginner"
+ */
+export function getSkillLevel(listing: EtsyListing, levels: SkillLevel[]): string {
+  const tags = (listing.tags ?? []).map((tag) => tag.toLowerCase());
+  const level = levels.find((candidate) =>
+    candidate.tags.some((keyword) => tags.some((tag) => tag.includes(keyword.toLowerCase())))
+  );
+  return level?.label ?? '';
+}
+
+/**
+ * Sets the derived custom labels on a listing's products
+ * The price band uses each product's own (variant) price
+ * @param listing - Etsy listing the products were formatted from
+ * @param products - Products from formatListing (not modified)
+ * @param config - Label configuration
+ * @param now - Current time (for the new arrival window)
+ * @returns Products with custom_label_0..3 set (new objects)
+ */
+export function applyCustomLabels(
+  listing: EtsyListing,
+  products: FacebookProduct[],
+  config: CustomLabelConfig,
+  now: Date = new Date()
+): FacebookProduct[] {
+  const popularity = getPopularityTier(listing, config.popularityTiers);
+  const newArrival = isNewArrival(listing, config.newArrivalDays, now) ? config.newArrivalLabel : '';
+  const skillLevel = getSkillLevel(listing, config.skillLevels);
+
+  return products.map((product) => ({
+    ...product,
+    custom_label_0: getPriceBand(parseFloat(product.price), config.priceBands),
+    custom_label_1: popularity,
+    custom_label_2: newArrival,
+    custom_label_3: skillLevel,
+  }));
+}
+
+/**
+ * Validates a label value
+ */
+function validateLabel(value: unknown, path: string): string {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new ValidationError(`${path} must be a non-empty string`);
+  }
+  if (value.trim().length > MAX_LABEL_LENGTH) {
+    throw new ValidationError(`${path} must be at most ${MAX_LABEL_LENGTH} characters`);
+  }
+  return value.trim();
+}
+
+/**
+ * Validates an optional non-negative number
+ */
+function validateThreshold(value: unknown, path: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new ValidationError(`${path} must be a non-negative number`);
+  }
+  return value;
+}
+
+/**
+ * Validates a list of objects
+ */
+function validateList(value: unknown, path: string): Record<string, unknown>[] {
+  if (!Array.isArray(value)) {
+    throw new ValidationError(`${path} must be an array`);
+  }
+  value.forEach((item, index) => {
+    if (!item || typeof item !== 'object') {
+      throw new ValidationError(`${path}[${index}] must be an object`);
+    }
+  });
+  return value as Record<string, unknown>[];
+}
+
+function validatePriceBands(value: unknown): PriceBand[] {
+  const bands = validateList(value, 'priceBands').map((item, index) => {
+    const band: PriceBand = { label: validateLabel(item.label, `priceBands[${index}].label`) };
+    const maxPrice = validateThreshold(item.maxPrice, `priceBands[${index}].maxPrice`);
+    if (maxPrice !== undefined) {
+      band.maxPrice = maxPrice;
+    }
+    return band;
+  });
+
+  bands.forEach((band, index) => {
+    const previous = bands[index - 1];
+    if (band.maxPrice === undefined && index < bands.length - 1) {
+      throw new ValidationError('Only the last price band may omit maxPrice');
+    }
+    if (previous?.maxPrice !== undefined && band.maxPrice !== undefined && band.maxPrice <= previous.maxPrice) {
+      throw new ValidationError('priceBands must be in ascending maxPrice order');
+    }
+  });
+
+  return bands;
+}
+
+function validatePopularityTiers(value: unknown): PopularityTier[] {
+  return validateList(value, 'popularityTiers').map((item, index) => {
+    const path = `popularityTiers[${index}]`;
+    const tier: PopularityTier = { label: validateLabel(item.label, `${path}.label`) };
+    const minViews = validateThreshold(item.minViews, `${path}.minViews`);
+    const minFavorers = validateThreshold(item.minFavorers, `${path}.minFavorers`);
+    if (minViews !== undefined) {
+      tier.minViews = minViews;
+    }
+    if (minFavorers !== undefined) {
+      tier.minFavorers = minFavorers;
+    }
+    return tier;
+  });
+}
+
+function validateSkillLevels(value: unknown): SkillLevel[] {
+  return validateList(value, 'skillLevels').map((item, index) => {
+    const path = `skillLevels[${index}]`;
+    if (!Array.isArray(item.tags) || item.tags.length === 0) {
+      throw new ValidationError(`${path}.tags must be a non-empty array`);
+    }
+    return {
+      label: validateLabel(item.label, `${path}.label`),
+      tags: item.tags.map((tag, tagIndex) => validateLabel(tag, `${path}.tags[${tagIndex}]`)),
+    };
+  });
+}
+
+/**
+ * Validates a label configuration submitted through the API
+ * Omitted settings keep their default values
+ * @param value - Parsed request body value
+ * @returns Complete label configuration
+ * @throws ValidationError if a setting is invalid
+ */
+export function validateCustomLabelConfig(value: unknown): CustomLabelConfig {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError('config must be an object');
+  }
+
+  const input = value as Record<string, unknown>;
+  const defaults = DEFAULT_CUSTOM_LABEL_CONFIG;
+
+  const newArrivalDays = input.newArrivalDays ?? defaults.newArrivalDays;
+  if (typeof newArrivalDays !== 'number' || !Number.isInteger(newArrivalDays) || newArrivalDays < 0) {
+    throw new ValidationError('newArrivalDays must be a non-negative integer');
+  }
+
+  return {
+    priceBands:
+      input.priceBands === undefined ? defaults.priceBands : validatePriceBands(input.priceBands),
+    popularityTiers:
+      input.popularityTiers === undefined
+        ? defaults.popularityTiers
+        : validatePopularityTiers(input.popularityTiers),
+    newArrivalDays,
+    newArrivalLabel:
+      input.newArrivalLabel === undefined
+        ? defaults.newArrivalLabel
+        : validateLabel(input.newArrivalLabel, 'newArrivalLabel'),
+    skillLevels:
+      input.skillLevels === undefined ? defaults.skillLevels : validateSkillLevels(input.skillLevels),
+  };
+}
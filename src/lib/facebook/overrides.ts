@@ -0,0 +1,294 @@
+/**
+ * Per-listing overrides
+ * Manual corrections (title, description, brand, image order, custom labels, exclusion) keyed by
+ * listing ID, stored in Blob storage and applied to the Facebook products on every sync after
+ * formatting, custom labels, sale prices and feed rules - so an override always has the last word.
+ * The Google Merchant and Pinterest feeds apply the same overrides to the listings they format.
+ *
+ * Each listing's override is its own file under listing-overrides/, so saving one listing never
+ * rewrites another and two editors working on different listings cannot undo each other's changes.
+ */
+
+import { deleteBlob, getJSON, listBlobs, uploadJSON } from '@/lib/storage/blob';
+import { ValidationError } from '@/lib/utils/errors';
+import { logInfo } from '@/lib/utils/logger';
+import type { EtsyListing } from '@/lib/etsy/types';
+import {
+  getAdditionalImageUrls,
+  getPrimaryImageUrl,
+  sanitizeDescription,
+  truncateTitle,
+} from './catalog';
+import type { CustomLabelField, FacebookProduct, ListingOverride } from './types';
+
+/** Blob path prefix for stored overrides */
+const OVERRIDES_PREFIX = 'listing-overrides/';
+
+/** Matches an override file and captures its listing ID */
+const OVERRIDE_PATHNAME_PATTERN = /^listing-overrides\/(\d+)\.json$/;
+
+/** Maximum length of a custom label value accepted by Facebook */
+const MAX_LABEL_LENGTH = 100;
+
+const CUSTOM_LABEL_FIELDS: readonly CustomLabelField[] = [
+  'custom_label_0',
+  'custom_label_1',
+  'custom_label_2',
+  'custom_label_3',
+  'custom_label_4',
+];
+
+/**
+ * Blob pathname of a listing's override
+ */
+function getOverridePathname(listingId: string): string {
+  return `${OVERRIDES_PREFIX}${listingId}.json`;
+}
+
+/**
+ * Load all listing overrides
+ *
+ * @returns Overrides keyed by listing ID (empty if none are stored)
+ * @throws StorageError if the store cannot be listed, fetched or parsed
+ */
+export async function loadListingOverrides(): Promise<Record<string, ListingOverride>> {
+  const overrides: Record<string, ListingOverride> = {};
+
+  for (const pathname of await listBlobs(OVERRIDES_PREFIX)) {
+    const listingId = OVERRIDE_PATHNAME_PATTERN.exec(pathname)?.[1];
+    if (!listingId) {
+      continue;
+    }
+    // A file deleted between the listing and the read is skipped
+    const result = await getJSON<ListingOverride>(pathname);
+    if (result) {
+      overrides[listingId] = result.data;
+    }
+  }
+
+  return overrides;
+}
+
+/**
+ * Store the override of one listing, replacing any previous one
+ *
+ * @param listingId - Etsy listing ID
+ * @param override - Validated, non-empty override
+ * @throws StorageError if the upload fails
+ */
+export async function storeListingOverride(listingId: string, override: ListingOverride): Promise<void> {
+  await uploadJSON(getOverridePathname(listingId), override);
+  logInfo('Listing override stored', { listingId });
+}
+
+/**
+ * Remove the override of one listing
+ *
+ * @param listingId - Etsy listing ID
+ * @returns Whether the listing had an override
+ * @throws StorageError if the override cannot be fetched or deleted
+ */
+export async function deleteListingOverride(listingId: string): Promise<boolean> {
+  const result = await getJSON<ListingOverride>(getOverridePathname(listingId));
+  if (!result) {
+    return false;
+  }
+  await deleteBlob(result.url);
+  logInfo('Listing override deleted', { listingId });
+  return true;
+}
+
+/**
+ * Reorders a listing's images so the override order comes first
+ * @param listing - Etsy listing
+ * @param imageOrder - listing_image_id values in the desired order
+ * @returns Listing copy with image ranks reassigned
+ */
+function reorderImages(listing: EtsyListing, imageOrder: number[]): EtsyListing {
+  const images = [...(listing.images ?? [])].sort((a, b) => a.rank - b.rank);
+  const position = (id: number) => {
+    const index = imageOrder.indexOf(id);
+    return index === -1 ? imageOrder.length : index;
+  };
+  const ordered = images
+    .map((image, index) => ({ image, index }))
+    .sort((a, b) => position(a.image.listing_image_id) - position(b.image.listing_image_id) || a.index - b.index)
+    .map(({ image }, index) => ({ ...image, rank: index + 1 }));
+
+  return { ...listing, images: ordered };
+}
+
+/**
+ * Applies a listing override to the listing's products
+ * @param listing - Etsy listing the products were formatted from
+ * @param products - Products (not modified)
+ * @param override - Override for the listing, if any
+ * @returns Products with the override applied (new objects); empty if the listing is excluded
+ */
+export function applyListingOverride(
+  listing: EtsyListing,
+  products: FacebookProduct[],
+  override: ListingOverride | undefined
+): FacebookProduct[] {
+  if (!override) {
+    return products.map((product) => ({ ...product }));
+  }
+  if (override.excluded) {
+    return [];
+  }
+
+  const reordered = override.imageOrder?.length
+    ? reorderImages(listing, override.imageOrder)
+    : null;
+
+  return products.map((product) => {
+    const result = { ...product };
+    if (override.title) {
+      result.title = truncateTitle(override.title);
+    }
+    if (override.description) {
+      result.description = sanitizeDescription(override.description);
+    }
+    if (override.brand) {
+      result.brand = override.brand;
+    }
+    if (reordered) {
+      result.image_link = getPrimaryImageUrl(reordered);
+      result.additional_image_link = getAdditionalImageUrls(reordered);
+    }
+    for (const field of CUSTOM_LABEL_FIELDS) {
+      const label = override.customLabels?.[field];
+      if (label !== undefined) {
+        result[field] = label;
+      }
+    }
+    return result;
+  });
+}
+
+/**
+ * Applies a listing override to the listing itself, for channels formatted straight from listings
+ * (Google Merchant Center, Pinterest) so each channel keeps its own length limits
+ * @param listing - Etsy listing (not modified)
+ * @param override - Override for the listing, if any
+ * @returns Listing copy with the title, description and image order overridden; null if the listing is excluded
+ */
+export function applyListingOverrideToListing(
+  listing: EtsyListing,
+  override: ListingOverride | undefined
+): EtsyListing | null {
+  if (!override) {
+    return listing;
+  }
+  if (override.excluded) {
+    return null;
+  }
+
+  const result = override.imageOrder?.length
+    ? reorderImages(listing, override.imageOrder)
+    : { ...listing };
+  if (override.title) {
+    result.title = override.title;
+  }
+  if (override.description) {
+    result.description = override.description;
+  }
+  return result;
+}
+
+/**
+ * Validates an optional non-empty text field (empty strings clear the override)
+ */
+function validateText(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new ValidationError(`${name} must be a string`);
+  }
+  return value.trim() || undefined;
+}
+
+/**
+ * Validates a listing override submitted through the API
+ * Empty values are dropped so they fall back to the formatted values
+ * @param value - Parsed request body value
+ * @returns Normalized override (with updatedAt set to now)
+ * @throws ValidationError if a field is invalid
+ */
+export function validateListingOverride(value: unknown): ListingOverride {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError('override must be an object');
+  }
+
+  const input = value as Record<string, unknown>;
+  const override: ListingOverride = { updatedAt: new Date().toISOString() };
+
+  const title = validateText(input.title, 'title');
+  const description = validateText(input.description, 'description');
+  const brand = validateText(input.brand, 'brand');
+  if (title) {
+    override.title = title;
+  }
+  if (description) {
+    override.description = description;
+  }
+  if (brand) {
+    override.brand = brand;
+  }
+
+  if (input.imageOrder !== undefined && input.imageOrder !== null) {
+    if (
+      !Array.isArray(input.imageOrder) ||
+      !input.imageOrder.every((id) => Number.isInteger(id) && id > 0)
+    ) {
+      throw new ValidationError('imageOrder must be an array of listing image IDs');
+    }
+    if (input.imageOrder.length > 0) {
+      override.imageOrder = input.imageOrder as number[];
+    }
+  }
+
+  if (input.excluded !== undefined && typeof input.excluded !== 'boolean') {
+    throw new ValidationError('excluded must be a boolean');
+  }
+  if (input.excluded) {
+    override.excluded = true;
+  }
+
+  if (input.customLabels !== undefined && input.customLabels !== null) {
+    if (typeof input.customLabels !== 'object' || Array.isArray(input.customLabels)) {
+      throw new ValidationError('customLabels must be an object');
+    }
+    const customLabels: Partial<Record<CustomLabelField, string>> = {};
+    for (const [field, label] of Object.entries(input.customLabels)) {
+      if (!CUSTOM_LABEL_FIELDS.includes(field as CustomLabelField)) {
+        throw new ValidationError(
+          `customLabels keys must be one of: ${CUSTOM_LABEL_FIELDS.join(', ')}`
+        );
+      }
+      const text = validateText(label, `customLabels.${field}`);
+      if (text && text.length > MAX_LABEL_LENGTH) {
+        throw new ValidationError(
+          `customLabels.${field} must be at most ${MAX_LABEL_LENGTH} characters`
+        );
+      }
+      if (text) {
+        customLabels[field as CustomLabelField] = text;
+      }
+    }
+    if (Object.keys(customLabels).length > 0) {
+      override.customLabels = customLabels;
+    }
+  }
+
+  return override;
+}
+
+/**
+ * Checks whether an override changes anything
+ * @param override - Validated override
+ */
+export function isEmptyOverride(override: ListingOverride): boolean {
+  return Object.keys(override).every((key) => key === 'updatedAt');
+}
@@ -0,0 +1,366 @@
+/**
+ * Facebook catalog push
+ * Optional push mode: after a sync, products that changed since they were last pushed are sent to
+ * the Catalog Batch API (CREATE for new items, UPDATE for changed items, DELETE for items no longer in
+ * the feed), so price and stock changes reach Meta without waiting for the daily feed fetch. A feed
+ * version promoted or approved outside a sync is pushed the same way, so Meta follows the live feed.
+ *
+ * The version of each item Meta accepted is recorded (as a hash) in Blob storage. Items with
+ * per-item errors, or in batches still processing when polling stops, are not recorded and are
+ * re-sent on the next sync.
+ */
+
+import { createHash } from 'crypto';
+import { getJSON, uploadJSON } from '@/lib/storage/blob';
+import { logInfo, logError, logWarn } from '@/lib/utils/logger';
+import { CSV_HEADERS } from './catalog';
+import {
+  FacebookCatalogClient,
+  getGraphApiConfig,
+  isBatchPending,
+  isPushEnabled,
+  MAX_BATCH_REQUESTS,
+  type BatchPollOptions,
+} from './graph';
+import { loadFeedVersionProducts } from './versions';
+import type {
+  CatalogBatchItemIssue,
+  CatalogBatchMethod,
+  CatalogBatchRequest,
+  FacebookProduct,
+  FacebookPushResult,
+  FacebookPushSummary,
+  FeedVersion,
+} from './types';
+
+/** Blob filename for the push state */
+const PUSH_STATE_FILENAME = 'facebook-push-state.json';
+
+/** Maximum number of item errors kept in a push result */
+const MAX_REPORTED_ERRORS = 50;
+
+/** Optional fields sent empty on UPDATE so a removed value (e.g., an ended sale) is cleared */
+const CLEARABLE_FIELDS: readonly string[] = [
+  'sale_price',
+  'sale_price_effective_date',
+  'custom_label_0',
+  'custom_label_1',
+  'custom_label_2',
+  'custom_label_3',
+  'custom_label_4',
+];
+
+/**
+ * Stored push state
+ * @property catalogId - Catalog the items were pushed to (a different catalog starts from scratch)
+ * @property updatedAt - ISO 8601 timestamp of the last push
+ * @property items - Hash of the last accepted version of each item, keyed by product ID
+ * @property lastResult - Result of the last push
+ */
+export interface FacebookPushState {
+  catalogId: string;
+  updatedAt: string;
+  items: Record<string, string>;
+  lastResult?: FacebookPushResult;
+}
+
+/**
+ * Requests needed to bring the catalog up to date
+ * @property requests - Batch requests in send order
+ * @property hashes - Hash of each created or updated product, keyed by product ID
+ * @property unchanged - Number of products that match their last pushed version
+ */
+export interface CatalogPushPlan {
+  requests: CatalogBatchRequest[];
+  hashes: Record<string, string>;
+  unchanged: number;
+}
+
+/**
+ * Options for pushing the catalog
+ * @property fetchFn - fetch implementation for the Graph API client (defaults to the global fetch)
+ * @property poll - Batch polling options
+ */
+export interface CatalogPushOptions {
+  fetchFn?: typeof fetch;
+  poll?: BatchPollOptions;
+}
+
+/**
+ * Hashes the feed values of a product
+ * @param product - Facebook product
+ * @returns Hex digest that changes whenever any feed column changes
+ */
+export function hashProduct(product: FacebookProduct): string {
+  return createHash('sha256')
+    .update(JSON.stringify(CSV_HEADERS.map((header) => product[header])))
+    .digest('hex');
+}
+
+/**
+ * Converts a product to Catalog Batch API item data
+ * @param product - Facebook product
+ * @param method - CREATE or UPDATE
+ * @returns Item fields (empty values omitted, except clearable fields on UPDATE)
+ */
+export function toCatalogItem(
+  product: FacebookProduct,
+  method: Exclude<CatalogBatchMethod, 'DELETE'>
+): CatalogBatchRequest['data'] {
+  const data: CatalogBatchRequest['data'] = {};
+
+  for (const header of CSV_HEADERS) {
+    const value = product[header];
+    if (!value && !(method === 'UPDATE' && CLEARABLE_FIELDS.includes(header))) {
+      continue;
+    }
+
+    if (header === 'additional_image_link') {
+      data[header] = value.split(',').filter(Boolean);
+    } else if (header === 'quantity_to_sell_on_facebook') {
+      data[header] = parseInt(value, 10);
+    } else {
+      data[header] = value;
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Plans the batch requests for a push
+ * @param products - Products in the current feed
+ * @param pushedItems - Hashes of the last accepted version of each item
+ * @returns Requests (CREATE, UPDATE, then DELETE) and the new hashes
+ */
+export function planCatalogPush(
+  products: FacebookProduct[],
+  pushedItems: Record<string, string>
+): CatalogPushPlan {
+  const requests: CatalogBatchRequest[] = [];
+  const deletes: CatalogBatchRequest[] = [];
+  const hashes: Record<string, string> = {};
+  const currentIds = new Set<string>();
+  let unchanged = 0;
+
+  for (const product of products) {
+    currentIds.add(product.id);
+    const hash = hashProduct(product);
+    const previous = pushedItems[product.id];
+
+    if (previous === hash) {
+      unchanged++;
+      continue;
+    }
+
+    const method = previous === undefined ? 'CREATE' : 'UPDATE';
+    requests.push({ method, data: toCatalogItem(product, method) });
+    hashes[product.id] = hash;
+  }
+
+  for (const id of Object.keys(pushedItems)) {
+    if (!currentIds.has(id)) {
+      deletes.push({ method: 'DELETE', data: { id } });
+    }
+  }
+
+  return { requests: [...requests, ...deletes], hashes, unchanged };
+}
+
+/**
+ * Sends a plan to Meta and polls each batch
+ * @param client - Catalog Batch API client
+ * @param plan - Planned requests
+ * @param pushedItems - Hashes of the last accepted version of each item
+ * @param pollOptions - Batch polling options
+ * @returns Push result and the updated item hashes
+ * @throws FacebookApiError if a request fails
+ */
+export async function executeCatalogPush(
+  client: FacebookCatalogClient,
+  plan: CatalogPushPlan,
+  pushedItems: Record<string, string>,
+  pollOptions?: BatchPollOptions
+): Promise<{ result: FacebookPushResult; items: Record<string, string> }> {
+  const count = (method: CatalogBatchMethod) =>
+    plan.requests.filter((request) => request.method === method).length;
+  const result: FacebookPushResult = {
+    status: 'success',
+    timestamp: new Date().toISOString(),
+    created: count('CREATE'),
+    updated: count('UPDATE'),
+    deleted: count('DELETE'),
+    unchanged: plan.unchanged,
+    handles: [],
+    pendingBatches: 0,
+    errorCount: 0,
+    errors: [],
+  };
+  const items = { ...pushedItems };
+
+  if (plan.requests.length === 0) {
+    return { result, items };
+  }
+
+  for (let start = 0; start < plan.requests.length; start += MAX_BATCH_REQUESTS) {
+    const batchRequests = plan.requests.slice(start, start + MAX_BATCH_REQUESTS);
+    const handle = await client.sendItemsBatch(batchRequests);
+    result.handles.push(handle);
+
+    const status = await client.waitForBatch(handle, pollOptions);
+    if (isBatchPending(status)) {
+      result.pendingBatches++;
+      continue;
+    }
+
+    // Errors report the product ID, or the line (request index) within the batch
+    const errors: CatalogBatchItemIssue[] = status.errors.map((error) => {
+      const id = error.id ?? (error.line !== undefined ? batchRequests[error.line]?.data.id : undefined);
+      return id === undefined ? error : { ...error, id: String(id) };
+    });
+    const failedIds = new Set(errors.map((error) => error.id));
+    result.errorCount += errors.length;
+    result.errors.push(...errors.slice(0, MAX_REPORTED_ERRORS - result.errors.length));
+
+    if (status.warnings.length > 0) {
+      logWarn('Catalog batch reported item warnings', { handle, warnings: status.warnings.length });
+    }
+
+    for (const request of batchRequests) {
+      const id = String(request.data.id);
+      if (failedIds.has(id)) {
+        continue;
+      }
+      if (request.method === 'DELETE') {
+        delete items[id];
+      } else {
+        items[id] = plan.hashes[id];
+      }
+    }
+  }
+
+  if (result.errorCount > 0 || result.pendingBatches > 0) {
+    result.status = 'partial';
+  }
+
+  return { result, items };
+}
+
+/**
+ * Summarizes a push result for the sync metadata
+ * @param result - Push result
+ * @returns Result without item errors and batch handles
+ */
+export function summarizePushResult(result: FacebookPushResult): FacebookPushSummary {
+  return {
+    status: result.status,
+    timestamp: result.timestamp,
+    created: result.created,
+    updated: result.updated,
+    deleted: result.deleted,
+    unchanged: result.unchanged,
+    pendingBatches: result.pendingBatches,
+    errorCount: result.errorCount,
+    ...(result.error ? { error: result.error } : {}),
+  };
+}
+
+/**
+ * Pushes changed products to Meta if push mode is enabled
+ * Never throws: a failed push is logged and reported, and the feed Meta fetches is unaffected
+ *
+ * @param products - Products in the published feed
+ * @param options - Graph API fetch implementation and batch polling options
+ * @returns Push result, or null if push mode is disabled
+ */
+export async function pushFacebookCatalog(
+  products: FacebookProduct[],
+  options: CatalogPushOptions = {}
+): Promise<FacebookPushResult | null> {
+  try {
+    if (!isPushEnabled()) {
+      return null;
+    }
+    const config = getGraphApiConfig();
+
+    const stored = await getJSON<FacebookPushState>(PUSH_STATE_FILENAME);
+    const pushedItems =
+      stored?.data.catalogId === config.catalogId ? stored.data.items : {};
+
+    const plan = planCatalogPush(products, pushedItems);
+    logInfo('Pushing catalog changes to Meta', {
+      requests: plan.requests.length,
+      unchanged: plan.unchanged,
+    });
+
+    const client = new FacebookCatalogClient(config, options.fetchFn);
+    const { result, items } = await executeCatalogPush(client, plan, pushedItems, options.poll);
+
+    const state: FacebookPushState = {
+      catalogId: config.catalogId,
+      updatedAt: result.timestamp,
+      items,
+      lastResult: result,
+    };
+    await uploadJSON(PUSH_STATE_FILENAME, state);
+
+    logInfo('Catalog push completed', {
+      status: result.status,
+      created: result.created,
+      updated: result.updated,
+      deleted: result.deleted,
+      errors: result.errorCount,
+      pendingBatches: result.pendingBatches,
+    });
+
+    return result;
+  } catch (error) {
+    return createFailedPushResult(error);
+  }
+}
+
+/**
+ * Pushes a feed version made live outside a sync (promoted or approved) if push mode is enabled
+ * Never throws, like pushFacebookCatalog
+ *
+ * @param version - Version now live
+ * @param options - Graph API fetch implementation and batch polling options
+ * @returns Push result, or null if push mode is disabled
+ */
+export async function pushFeedVersion(
+  version: FeedVersion,
+  options: CatalogPushOptions = {}
+): Promise<FacebookPushResult | null> {
+  if (!isPushEnabled()) {
+    return null;
+  }
+  try {
+    const products = await loadFeedVersionProducts(version);
+    logInfo('Pushing live feed version to Meta', { versionId: version.id, products: products.length });
+    return await pushFacebookCatalog(products, options);
+  } catch (error) {
+    return createFailedPushResult(error);
+  }
+}
+
+/**
+ * Logs a failed push and builds its result
+ */
+function createFailedPushResult(error: unknown): FacebookPushResult {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  logError('Catalog push failed - Meta will pick up changes from the feed', { error: message });
+
+  return {
+    status: 'failed',
+    timestamp: new Date().toISOString(),
+    created: 0,
+    updated: 0,
+    deleted: 0,
+    unchanged: 0,
+    handles: [],
+    pendingBatches: 0,
+    errorCount: 0,
+    errors: [],
+    error: message,
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * Facebook Sale Prices
+ * Fills sale_price and sale_price_effective_date from shop sales.
+ *
+ * The Etsy Open API v3 exposes neither shop sales nor coupons, and listing prices are always the
+ * undiscounted price, so sales cannot be read during sync. Instead, each Etsy sale is mirrored as a
+ * ShopSale (percentage, window and optional listings) stored in Edge Config, and applied to the
+ * formatted products on every sync. Coupons are not mirrored: they need a code at checkout, while
+ * sale_price must be the price any buyer pays.
+ */
+
+import { ValidationError } from '@/lib/utils/errors';
+import type { EtsyListing } from '@/lib/etsy/types';
+import type { FacebookProduct, ShopSale } from './types';
+
+/**
+ * Sale status relative to the current time
+ */
+export type ShopSaleStatus = 'scheduled' | 'active' | 'ended';
+
+/**
+ * Gets the status of a sale
+ * @param sale - Shop sale
+ * @param now - Current time
+ */
+export function getSaleStatus(sale: ShopSale, now: Date): ShopSaleStatus {
+  if (now.getTime() < Date.parse(sale.startDate)) {
+    return 'scheduled';
+  }
+  return now.getTime() < Date.parse(sale.endDate) ? 'active' : 'ended';
+}
+
+/**
+ * Finds the sale to advertise for a listing
+ * An active sale wins over a scheduled one (the largest discount among active sales);
+ * otherwise the next scheduled sale is used so the feed is ready when it starts
+ * @param listing - Etsy listing
+ * @param sales - Shop sales
+ * @param now - Current time
+ * @returns Sale to apply, or null if none applies
+ */
+export function findListingSale(listing: EtsyListing, sales: ShopSale[], now: Date): ShopSale | null {
+  const applicable = sales.filter(
+    (sale) =>
+      (!sale.listingIds || sale.listingIds.includes(listing.listing_id)) &&
+      getSaleStatus(sale, now) !== 'ended'
+  );
+
+  const active = applicable
+    .filter((sale) => getSaleStatus(sale, now) === 'active')
+    .sort((a, b) => b.percentOff - a.percentOff);
+  if (active.length > 0) {
+    return active[0];
+  }
+
+  const scheduled = applicable.sort((a, b) => Date.parse(a.startDate) - Date.parse(b.startDate));
+  return scheduled[0] ?? null;
+}
+
+/**
+ * Formats a date for sale_price_effective_date (ISO 8601 without milliseconds)
+ */
+function formatSaleDate(date: string): string {
+  return new Date(date).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Calculates a discounted price from a formatted product price
+ * @param price - Formatted price (e.g., "12.99 USD")
+ * @param percentOff - Discount percentage
+ * @returns Formatted sale price (e.g., "10.39 USD"), or empty if the price cannot be parsed
+ * @example
+ * calculateSalePrice('12.99 USD', 20)
+ * // Returns: "10.39 USD"
+ */
+export function calculateSalePrice(price: string, percentOff: number): string {
+  const [amountText, currency] = price.split(' ');
+  const amount = parseFloat(amountText);
+  if (Number.isNaN(amount) || !currency) {
+    return '';
+  }
+  const discounted = Math.round(amount * (100 - percentOff)) / 100;
+  return `${discounted.toFixed(2)} ${currency}`;
+}
+
+/**
+ * Sets sale_price and sale_price_effective_date on a listing's products
+ * @param listing - Etsy listing the products were formatted from
+ * @param products - Products (not modified)
+ * @param sales - Shop sales
+ * @param now - Current time
+ * @returns Products with sale fields set (new objects); unchanged copies if no sale applies
+ */
+export function applySalePrices(
+  listing: EtsyListing,
+  products: FacebookProduct[],
+  sales: ShopSale[],
+  now: Date = new Date()
+): FacebookProduct[] {
+  const sale = findListingSale(listing, sales, now);
+  if (!sale) {
+    return products.map((product) => ({ ...product }));
+  }
+
+  const effectiveDate = `${formatSaleDate(sale.startDate)}/${formatSaleDate(sale.endDate)}`;
+  return products.map((product) => {
+    const salePrice = calculateSalePrice(product.price, sale.percentOff);
+    return {
+      ...product,
+      sale_price: salePrice,
+      sale_price_effective_date: salePrice ? effectiveDate : '',
+    };
+  });
+}
+
+/**
+ * Validates shop sales submitted through the API
+ * @param value - Parsed request body value
+ * @returns Normalized sales (missing IDs generated, dates normalized to ISO 8601)
+ * @throws ValidationError if the value is not a list of valid sales
+ */
+export function validateShopSales(value: unknown): ShopSale[] {
+  if (!Array.isArray(value)) {
+    throw new ValidationError('sales must be an array');
+  }
+
+  const ids = new Set<string>();
+
+  return value.map((item, index) => {
+    const path = `sales[${index}]`;
+    if (!item || typeof item !== 'object') {
+      throw new ValidationError(`${path} must be an object`);
+    }
+
+    const { id, name, percentOff, startDate, endDate, listingIds } = item as Record<string, unknown>;
+
+    const saleId = typeof id === 'string' && id.trim() ? id.trim() : `sale-${index + 1}`;
+    if (ids.has(saleId)) {
+      throw new ValidationError(`${path}.id "${saleId}" is used by more than one sale`);
+    }
+    ids.add(saleId);
+
+    if (name !== undefined && typeof name !== 'string') {
+      throw new ValidationError(`${path}.name must be a string`);
+    }
+    if (typeof percentOff !== 'number' || !(percentOff > 0 && percentOff < 100)) {
+      throw new ValidationError(`${path}.percentOff must be a number between 0 and 100`);
+    }
+
+    const start = typeof startDate === 'string' ? Date.parse(startDate) : NaN;
+    const end = typeof endDate === 'string' ? Date.parse(endDate) : NaN;
+    if (Number.isNaN(start)) {
+      throw new ValidationError(`${path}.startDate must be an ISO 8601 date`);
+    }
+    if (Number.isNaN(end)) {
+      throw new ValidationError(`${path}.endDate must be an ISO 8601 date`);
+    }
+    if (end <= start) {
+      throw new ValidationError(`${path}.endDate must be after startDate`);
+    }
+
+    if (
+      listingIds !== undefined &&
+      (!Array.isArray(listingIds) ||
+        listingIds.length === 0 ||
+        !listingIds.every((listingId) => Number.isInteger(listingId) && listingId > 0))
+    ) {
+      throw new ValidationError(`${path}.listingIds must be a non-empty array of listing IDs`);
+    }
+
+    const sale: ShopSale = {
+      id: saleId,
+      percentOff,
+      startDate: new Date(start).toISOString(),
+      endDate: new Date(end).toISOString(),
+    };
+    if (typeof name === 'string' && name.trim()) {
+      sale.name = name.trim();
+    }
+    if (listingIds !== undefined) {
+      sale.listingIds = listingIds as number[];
+    }
+
+    return sale;
+  });
+}
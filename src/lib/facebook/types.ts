@@ -3,6 +3,8 @@
  * Based on Facebook Commerce Manager CSV specification
  */
 
+import type { EtsyPrice } from '@/lib/etsy/types';
+
 /**
  * Facebook product availability status
  */
@@ -13,6 +15,12 @@ export type FacebookAvailability = 'in stock' | 'out of stock';
  */
 export type FacebookCondition = 'new' | 'refurbished' | 'used';
 
+/**
+ * Facebook product status
+ * Archived items stay in the catalog (keeping their ad history) but are not shown in ads or shops
+ */
+export type FacebookProductStatus = 'active' | 'archived';
+
 /**
  * Facebook product for catalog CSV
  * All fields required by Facebook Commerce Manager
@@ -26,6 +34,21 @@ export type FacebookCondition = 'new' | 'refurbished' | 'used';
  * @property image_link - URL to main product image
  * @property additional_image_link - Comma-separated URLs for additional images (up to 8)
  * @property brand - Brand name
+ * @property item_group_id - Shared ID for all variants of one listing (empty for single products)
+ * @property quantity_to_sell_on_facebook - Available quantity for this product/variant
+ * @property size - Variant size (empty if not applicable)
+ * @property color - Variant color (empty if not applicable)
+ * @property additional_variant_attribute - Other variant properties as "Name:Value" pairs, comma-separated
+ * @property google_product_category - Google product taxonomy path (empty if unmapped)
+ * @property product_type - Etsy category path (e.g., "Craft Supplies & Tools > Patterns & How To > Crochet")
+ * @property custom_label_0 - Custom label for catalog filtering and ad sets (empty unless set by a feed rule)
+ * @property custom_label_1 - Custom label (see custom_label_0)
+ * @property custom_label_2 - Custom label (see custom_label_0)
+ * @property custom_label_3 - Custom label (see custom_label_0)
+ * @property custom_label_4 - Custom label (see custom_label_0)
+ * @property sale_price - Discounted price with currency (empty when no sale applies)
+ * @property sale_price_effective_date - Sale window as an ISO 8601 "start/end" interval (empty when no sale applies)
+ * @property status - "archived" for listings that are no longer active on Etsy, otherwise "active"
  */
 export interface FacebookProduct {
   id: string;
@@ -38,4 +61,452 @@ export interface FacebookProduct {
   image_link: string;
   additional_image_link: string;
   brand: string;
+  item_group_id: string;
+  quantity_to_sell_on_facebook: string;
+  size: string;
+  color: string;
+  additional_variant_attribute: string;
+  google_product_category: string;
+  product_type: string;
+  custom_label_0: string;
+  custom_label_1: string;
+  custom_label_2: string;
+  custom_label_3: string;
+  custom_label_4: string;
+  sale_price: string;
+  sale_price_effective_date: string;
+  status: FacebookProductStatus;
+}
+
+/**
+ * A single purchasable variant of an Etsy listing
+ * Listings without variations yield exactly one variant using the listing-level price and quantity
+ * @property id - Catalog ID for the variant (listing ID, or listing ID + property value IDs)
+ * @property isVariant - Whether this variant comes from listing inventory variations
+ * @property price - Price of the variant
+ * @property quantity - Available quantity of the variant
+ * @property size - Size property value (empty if none)
+ * @property color - Color property value (empty if none)
+ * @property attributes - Remaining variation properties (e.g., Format: PDF)
+ */
+export interface ListingVariant {
+  id: string;
+  isVariant: boolean;
+  price: EtsyPrice;
+  quantity: number;
+  size: string;
+  color: string;
+  attributes: Array<{ name: string; value: string }>;
+}
+
+/**
+ * Price band for custom_label_0
+ * @property label - Label value (e.g., "Under 5")
+ * @property maxPrice - Exclusive upper bound in currency units; omit for the last, open-ended band
+ */
+export interface PriceBand {
+  label: string;
+  maxPrice?: number;
+}
+
+/**
+ * Popularity tier for custom_label_1
+ * A tier applies when every threshold it specifies is met; a tier without thresholds matches everything
+ * @property label - Label value (e.g., "Bestseller")
+ * @property minViews - Minimum listing views
+ * @property minFavorers - Minimum number of favorers
+ */
+export interface PopularityTier {
+  label: string;
+  minViews?: number;
+  minFavorers?: number;
+}
+
+/**
+ * Skill level for custom_label_3
+ * @property label - Label value (e.g., "Beginner")
+ * @property tags - Keywords matched case-insensitively within listing tags
+ */
+export interface SkillLevel {
+  label: string;
+  tags: string[];
+}
+
+/**
+ * Configuration for deriving custom labels from listing data
+ * Slots: custom_label_0 = price band, custom_label_1 = popularity tier,
+ * custom_label_2 = new arrival, custom_label_3 = skill level (custom_label_4 is left to feed rules)
+ * @property priceBands - Bands in ascending maxPrice order; the first band the price falls under wins
+ * @property popularityTiers - Tiers in priority order; the first matching tier wins
+ * @property newArrivalDays - Listings created within this many days are new arrivals (0 disables the label)
+ * @property newArrivalLabel - Label value for new arrivals
+ * @property skillLevels - Levels in priority order; the first level with a matching tag wins
+ */
+export interface CustomLabelConfig {
+  priceBands: PriceBand[];
+  popularityTiers: PopularityTier[];
+  newArrivalDays: number;
+  newArrivalLabel: string;
+  skillLevels: SkillLevel[];
+}
+
+/**
+ * Shop sale mirrored from an Etsy sale
+ * @property id - Stable sale identifier
+ * @property name - Optional name (e.g., the Etsy sale name "SUMMER25")
+ * @property percentOff - Discount percentage (greater than 0, less than 100)
+ * @property startDate - ISO 8601 start of the sale
+ * @property endDate - ISO 8601 end of the sale
+ * @property listingIds - Listings on sale; omit to apply the sale to the whole shop
+ */
+export interface ShopSale {
+  id: string;
+  name?: string;
+  percentOff: number;
+  startDate: string;
+  endDate: string;
+  listingIds?: number[];
+}
+
+/**
+ * Custom label column names
+ */
+export type CustomLabelField =
+  | 'custom_label_0'
+  | 'custom_label_1'
+  | 'custom_label_2'
+  | 'custom_label_3'
+  | 'custom_label_4';
+
+/**
+ * Manual override for one listing, applied to its Facebook products on every sync
+ * Omitted fields keep the formatted (or rule-derived) values
+ * @property title - Replacement title (truncated to 150 characters)
+ * @property description - Replacement description (sanitized like Etsy descriptions)
+ * @property brand - Replacement brand
+ * @property imageOrder - Etsy listing_image_id values in the desired order; the first becomes image_link
+ * (images not listed keep their Etsy order after the listed ones)
+ * @property excluded - Hide the listing from the Facebook catalog
+ * @property customLabels - Replacement custom label values
+ * @property updatedAt - ISO 8601 timestamp of the last change
+ */
+export interface ListingOverride {
+  title?: string;
+  description?: string;
+  brand?: string;
+  imageOrder?: number[];
+  excluded?: boolean;
+  customLabels?: Partial<Record<CustomLabelField, string>>;
+  updatedAt: string;
+}
+
+/**
+ * Severity of a feed validation issue
+ * Errors make Facebook reject the product; warnings are accepted but worth fixing
+ */
+export type FeedIssueSeverity = 'error' | 'warning';
+
+/**
+ * A problem found while validating a stored feed
+ * @property row - CSV record number (1 is the header row, 2 the first product)
+ * @property field - Column the issue relates to
+ * @property severity - Error or warning
+ * @property message - Human-readable description
+ */
+export interface FeedValidationIssue {
+  row: number;
+  field: string;
+  severity: FeedIssueSeverity;
+  message: string;
+}
+
+/**
+ * Validation issues for the products of one listing
+ * @property listingId - Etsy listing ID (item_group_id for variants, otherwise the product ID)
+ * @property rows - CSV record numbers of the listing's products
+ * @property errors - Error issues
+ * @property warnings - Warning issues
+ */
+export interface FeedListingValidation {
+  listingId: string;
+  rows: number[];
+  errors: FeedValidationIssue[];
+  warnings: FeedValidationIssue[];
+}
+
+/**
+ * Result of validating a stored Facebook feed
+ * @property valid - Whether the feed has no errors
+ * @property productCount - Number of product rows
+ * @property errorCount - Total errors (header and rows)
+ * @property warningCount - Total warnings (header and rows)
+ * @property headers - Header row of the feed
+ * @property headerIssues - Issues with the header row
+ * @property listings - Listings with at least one issue, in feed order
+ */
+export interface FeedValidationReport {
+  valid: boolean;
+  productCount: number;
+  errorCount: number;
+  warningCount: number;
+  headers: string[];
+  headerIssues: FeedValidationIssue[];
+  listings: FeedListingValidation[];
+}
+
+/**
+ * Catalog Batch API request method
+ */
+export type CatalogBatchMethod = 'CREATE' | 'UPDATE' | 'DELETE';
+
+/**
+ * One request in a Catalog Batch API items_batch call
+ * @property method - CREATE, UPDATE or DELETE
+ * @property data - Item fields (just the id for DELETE)
+ */
+export interface CatalogBatchRequest {
+  method: CatalogBatchMethod;
+  data: Record<string, string | number | string[]>;
+}
+
+/**
+ * Status of a Catalog Batch API batch, from check_batch_request_status
+ * @property handle - Batch handle returned by items_batch
+ * @property status - Batch status reported by Meta (e.g., "in_progress", "finished")
+ * @property errors - Per-item errors
+ * @property warnings - Per-item warnings
+ */
+export interface CatalogBatchStatus {
+  handle: string;
+  status: string;
+  errors: CatalogBatchItemIssue[];
+  warnings: CatalogBatchItemIssue[];
+}
+
+/**
+ * Per-item error or warning reported for a batch
+ * @property id - Product ID (retailer ID), when Meta reports it
+ * @property line - Index of the request in the batch, when Meta reports it
+ * @property message - Message from Meta
+ */
+export interface CatalogBatchItemIssue {
+  id?: string;
+  line?: number;
+  message: string;
+}
+
+/**
+ * Result of pushing the catalog to Meta after a sync
+ * @property status - success (all items accepted), partial (some item errors or unfinished batches)
+ * or failed (the push could not be completed)
+ * @property timestamp - ISO 8601 timestamp when the push finished
+ * @property created - Items sent as CREATE
+ * @property updated - Items sent as UPDATE
+ * @property deleted - Items sent as DELETE
+ * @property unchanged - Items skipped because they match the last pushed version
+ * @property handles - Batch handles returned by Meta
+ * @property pendingBatches - Batches still in progress when polling stopped (their items are re-sent next sync)
+ * @property errorCount - Number of per-item errors (the items are re-sent next sync)
+ * @property errors - First per-item errors (at most 50)
+ * @property error - Failure message when status is failed
+ */
+export interface FacebookPushResult {
+  status: 'success' | 'partial' | 'failed';
+  timestamp: string;
+  created: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  handles: string[];
+  pendingBatches: number;
+  errorCount: number;
+  errors: CatalogBatchItemIssue[];
+  error?: string;
+}
+
+/**
+ * Push result summary kept with the sync metadata (item errors and handles stay in the push state)
+ */
+export type FacebookPushSummary = Omit<FacebookPushResult, 'errors' | 'handles'>;
+
+/**
+ * Where imported feed diagnostics came from
+ * - csv: Error report downloaded from Commerce Manager
+ * - json: Diagnostics exported as JSON
+ * - graph_api: Errors of the latest feed upload, fetched from the Graph API
+ */
+export type FeedDiagnosticsSource = 'csv' | 'json' | 'graph_api';
+
+/**
+ * A problem Meta reported for one product of the feed
+ * @property productId - Product ID (retailer ID) the problem was reported for
+ * @property listingId - Etsy listing the product belongs to, or null if no synced listing matches
+ * @property listingTitle - Etsy listing title, when matched
+ * @property severity - Error (product rejected) or warning
+ * @property message - Message from Meta
+ * @property field - Feed field the problem relates to, when reported
+ * @property suggestion - Suggested fix, when the message is recognized
+ */
+export interface FeedDiagnostic {
+  productId: string;
+  listingId: number | null;
+  listingTitle?: string;
+  severity: FeedIssueSeverity;
+  message: string;
+  field?: string;
+  suggestion?: string;
+}
+
+/**
+ * Stored feed diagnostics (the last import replaces the previous one)
+ * @property importedAt - ISO 8601 timestamp of the import
+ * @property source - Where the diagnostics came from
+ * @property total - Number of diagnostics
+ * @property unmatched - Diagnostics whose product ID matches no synced listing
+ * @property diagnostics - Diagnostics in report order
+ */
+export interface FeedDiagnosticsDocument {
+  importedAt: string;
+  source: FeedDiagnosticsSource;
+  total: number;
+  unmatched: number;
+  diagnostics: FeedDiagnostic[];
+}
+
+/**
+ * A stored copy of a published Facebook catalog CSV
+ * @property id - Version ID (UTC timestamp and content hash prefix, e.g., "20250101T120000Z-3f2a9c1b7d4e")
+ * @property createdAt - ISO 8601 timestamp when the version was recorded
+ * @property contentHash - SHA-256 hash of the CSV content
+ * @property filename - Blob pathname of the stored copy
+ * @property url - Public URL of the stored copy
+ * @property productCount - Number of product rows
+ * @property sizeBytes - CSV content length
+ */
+export interface FeedVersion {
+  id: string;
+  createdAt: string;
+  contentHash: string;
+  filename: string;
+  url: string;
+  productCount: number;
+  sizeBytes: number;
+}
+
+/**
+ * Result of comparing a new feed with the live feed before publishing
+ * @property allowed - Whether the feed may be published
+ * @property thresholdPercent - Maximum shrink allowed (PUBLISH_SHRINK_THRESHOLD)
+ * @property previousCount - Products in the live feed
+ * @property newCount - Products in the new feed
+ * @property removedCount - Live product IDs missing from the new feed
+ * @property shrinkPercent - Drop in product count, as a percentage of the live feed
+ * @property removedPercent - Removed product IDs, as a percentage of the live feed
+ * @property reason - Why the feed was blocked
+ */
+export interface PublishGuardResult {
+  allowed: boolean;
+  thresholdPercent: number;
+  previousCount: number;
+  newCount: number;
+  removedCount: number;
+  shrinkPercent: number;
+  removedPercent: number;
+  reason?: string;
+}
+
+/**
+ * A feed blocked by the publish guard, waiting to be approved or discarded
+ * @property guard - Guard result that blocked the feed
+ */
+export interface PendingFeedVersion extends FeedVersion {
+  guard: PublishGuardResult;
+}
+
+/**
+ * Index of stored feed versions
+ * @property updatedAt - ISO 8601 timestamp of the last change
+ * @property generation - Incremented on every write, so a writer can detect a concurrent change
+ * @property liveVersionId - Version currently served as the live feed (null if unknown)
+ * @property versions - Versions, newest first
+ * @property pending - Feed blocked by the publish guard (null if none)
+ */
+export interface FeedVersionIndex {
+  updatedAt: string;
+  generation: number;
+  liveVersionId: string | null;
+  versions: FeedVersion[];
+  pending?: PendingFeedVersion | null;
+}
+
+/**
+ * Kind of field change reported by the feed diff
+ * price covers price and sale fields, availability the in stock/out of stock flag, title the title;
+ * everything else is other
+ */
+export type FeedChangeCategory = 'price' | 'availability' | 'title' | 'other';
+
+/**
+ * A field whose value differs between two feeds
+ * @property field - Feed column
+ * @property category - Kind of change
+ * @property before - Value in the earlier feed
+ * @property after - Value in the later feed
+ */
+export interface FeedFieldChange {
+  field: keyof FacebookProduct;
+  category: FeedChangeCategory;
+  before: string;
+  after: string;
+}
+
+/**
+ * A product present in both feeds with at least one changed field
+ * @property id - Product ID
+ * @property title - Title in the later feed
+ * @property changes - Changed fields, in feed column order
+ */
+export interface FeedProductChange {
+  id: string;
+  title: string;
+  changes: FeedFieldChange[];
+}
+
+/**
+ * Differences between two Facebook feeds, matched by product ID
+ * @property beforeCount - Products in the earlier feed
+ * @property afterCount - Products in the later feed
+ * @property added - IDs only in the later feed, in feed order
+ * @property removed - IDs only in the earlier feed, in feed order
+ * @property changed - Products with changed fields, in feed order
+ * @property unchangedCount - Products identical in both feeds
+ */
+export interface FeedDiff {
+  beforeCount: number;
+  afterCount: number;
+  added: string[];
+  removed: string[];
+  changed: FeedProductChange[];
+  unchangedCount: number;
+}
+
+/**
+ * Counts of a feed diff, recorded with each sync
+ * A product with several kinds of change counts toward each of them.
+ * @property added - Products only in the later feed
+ * @property removed - Products only in the earlier feed
+ * @property changed - Products with at least one changed field
+ * @property unchanged - Products identical in both feeds
+ * @property priceChanges - Products whose price or sale fields changed
+ * @property availabilityChanges - Products whose availability flipped
+ * @property titleChanges - Products whose title changed
+ */
+export interface FeedDiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  priceChanges: number;
+  availabilityChanges: number;
+  titleChanges: number;
 }
@@ -0,0 +1,311 @@
+/**
+ * Facebook Catalog Feed Validator
+ * Checks every row of a stored catalog CSV against the Facebook product catalog spec
+ * (required fields, length limits, price format, URLs, enums, image count) and reports
+ * errors and warnings per listing with CSV row numbers.
+ */
+
+import {
+  CSV_HEADERS,
+  MAX_DESCRIPTION_LENGTH,
+  MAX_TITLE_LENGTH,
+  PLACEHOLDER_IMAGE_URL,
+} from './catalog';
+import { parseCSV } from './csv-parser';
+import type {
+  FacebookAvailability,
+  FacebookCondition,
+  FacebookProductStatus,
+  FeedIssueSeverity,
+  FeedListingValidation,
+  FeedValidationIssue,
+  FeedValidationReport,
+} from './types';
+
+/** Maximum length of id and item_group_id */
+const MAX_ID_LENGTH = 100;
+
+/** Maximum length of brand and custom labels */
+const MAX_SHORT_TEXT_LENGTH = 100;
+
+/** Maximum length of size and color */
+const MAX_VARIANT_VALUE_LENGTH = 200;
+
+/** Maximum length of product_type */
+const MAX_PRODUCT_TYPE_LENGTH = 750;
+
+/** Maximum number of additional_image_link URLs */
+const MAX_ADDITIONAL_IMAGES = 20;
+
+/** Price with two decimals and an ISO 4217 currency code (e.g., "12.99 USD") */
+const PRICE_PATTERN = /^\d+(\.\d{1,2})? [A-Z]{3}$/;
+
+const AVAILABILITY_VALUES: readonly FacebookAvailability[] = ['in stock', 'out of stock'];
+const CONDITION_VALUES: readonly FacebookCondition[] = ['new', 'refurbished', 'used'];
+const STATUS_VALUES: readonly FacebookProductStatus[] = ['active', 'archived'];
+
+/** Columns that must be present in the header row */
+const REQUIRED_HEADERS = [
+  'id',
+  'title',
+  'description',
+  'availability',
+  'condition',
+  'price',
+  'link',
+  'image_link',
+  'brand',
+] as const;
+
+/** Columns limited to MAX_SHORT_TEXT_LENGTH characters */
+const SHORT_TEXT_FIELDS = [
+  'brand',
+  'custom_label_0',
+  'custom_label_1',
+  'custom_label_2',
+  'custom_label_3',
+  'custom_label_4',
+] as const;
+
+/**
+ * Checks whether a value is an absolute http(s) URL
+ */
+function isValidUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parses a formatted price into amount and currency
+ */
+function parsePrice(value: string): { amount: number; currency: string } | null {
+  if (!PRICE_PATTERN.test(value)) {
+    return null;
+  }
+  const [amount, currency] = value.split(' ');
+  return { amount: parseFloat(amount), currency };
+}
+
+/**
+ * Validates the product fields of one row
+ * @param product - Row values keyed by column
+ * @param report - Callback for each issue found
+ */
+function validateProduct(
+  product: Record<string, string>,
+  report: (field: string, severity: FeedIssueSeverity, message: string) => void
+): void {
+  const checkRequired = (field: string): boolean => {
+    if (!product[field]?.trim()) {
+      report(field, 'error', `${field} is required`);
+      return false;
+    }
+    return true;
+  };
+  const checkLength = (field: string, max: number) => {
+    const value = product[field] ?? '';
+    if (value.length > max) {
+      report(field, 'error', `${field} is ${value.length} characters (maximum ${max})`);
+    }
+  };
+
+  // Identifiers
+  if (checkRequired('id')) {
+    checkLength('id', MAX_ID_LENGTH);
+  }
+  checkLength('item_group_id', MAX_ID_LENGTH);
+
+  // Text
+  if (checkRequired('title')) {
+    checkLength('title', MAX_TITLE_LENGTH);
+  }
+  if (checkRequired('description')) {
+    checkLength('description', MAX_DESCRIPTION_LENGTH);
+  }
+  checkRequired('brand');
+  SHORT_TEXT_FIELDS.forEach((field) => checkLength(field, MAX_SHORT_TEXT_LENGTH));
+  checkLength('size', MAX_VARIANT_VALUE_LENGTH);
+  checkLength('color', MAX_VARIANT_VALUE_LENGTH);
+  checkLength('product_type', MAX_PRODUCT_TYPE_LENGTH);
+
+  // Enums
+  if (checkRequired('availability') && !AVAILABILITY_VALUES.includes(product.availability as FacebookAvailability)) {
+    report('availability', 'error', `availability must be one of: ${AVAILABILITY_VALUES.join(', ')}`);
+  }
+  if (checkRequired('condition') && !CONDITION_VALUES.includes(product.condition as FacebookCondition)) {
+    report('condition', 'error', `condition must be one of: ${CONDITION_VALUES.join(', ')}`);
+  }
+  if (product.status && !STATUS_VALUES.includes(product.status as FacebookProductStatus)) {
+    report('status', 'error', `status must be one of: ${STATUS_VALUES.join(', ')}`);
+  }
+
+  // Quantity
+  const quantity = product.quantity_to_sell_on_facebook;
+  if (quantity && !/^\d+$/.test(quantity)) {
+    report('quantity_to_sell_on_facebook', 'error', 'quantity_to_sell_on_facebook must be a whole number');
+  } else if (quantity === '0' && product.availability === 'in stock') {
+    report('availability', 'warning', 'Product is "in stock" with a quantity of 0');
+  }
+
+  // Prices
+  let price: ReturnType<typeof parsePrice> = null;
+  if (checkRequired('price')) {
+    price = parsePrice(product.price);
+    if (!price) {
+      report('price', 'error', 'price must be an amount and currency code (e.g., "12.99 USD")');
+    } else if (price.amount === 0) {
+      report('price', 'warning', 'Product is priced at 0');
+    }
+  }
+
+  if (product.sale_price) {
+    const salePrice = parsePrice(product.sale_price);
+    if (!salePrice) {
+      report('sale_price', 'error', 'sale_price must be an amount and currency code (e.g., "9.99 USD")');
+    } else if (price && salePrice.currency !== price.currency) {
+      report('sale_price', 'error', 'sale_price must use the same currency as price');
+    } else if (price && salePrice.amount >= price.amount) {
+      report('sale_price', 'error', 'sale_price must be lower than price');
+    }
+  }
+
+  if (product.sale_price_effective_date) {
+    const [start, end, extra] = product.sale_price_effective_date.split('/');
+    if (
+      extra !== undefined ||
+      Number.isNaN(Date.parse(start)) ||
+      Number.isNaN(Date.parse(end ?? ''))
+    ) {
+      report('sale_price_effective_date', 'error', 'sale_price_effective_date must be an ISO 8601 "start/end" interval');
+    } else if (Date.parse(end) <= Date.parse(start)) {
+      report('sale_price_effective_date', 'error', 'sale_price_effective_date must end after it starts');
+    }
+    if (!product.sale_price) {
+      report('sale_price_effective_date', 'warning', 'sale_price_effective_date is set without a sale_price');
+    }
+  }
+
+  // URLs and images
+  if (checkRequired('link') && !isValidUrl(product.link)) {
+    report('link', 'error', 'link must be a valid http(s) URL');
+  }
+  if (checkRequired('image_link')) {
+    if (!isValidUrl(product.image_link)) {
+      report('image_link', 'error', 'image_link must be a valid http(s) URL');
+    } else if (product.image_link === PLACEHOLDER_IMAGE_URL) {
+      report('image_link', 'warning', 'Listing has no images; a placeholder image is used');
+    }
+  }
+
+  const additionalImages = (product.additional_image_link ?? '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+  if (additionalImages.length > MAX_ADDITIONAL_IMAGES) {
+    report(
+      'additional_image_link',
+      'error',
+      `additional_image_link has ${additionalImages.length} images (maximum ${MAX_ADDITIONAL_IMAGES})`
+    );
+  }
+  if (additionalImages.some((url) => !isValidUrl(url))) {
+    report('additional_image_link', 'error', 'additional_image_link must contain valid http(s) URLs');
+  }
+
+  // Categories
+  if ('google_product_category' in product && !product.google_product_category) {
+    report('google_product_category', 'warning', 'google_product_category is empty');
+  }
+}
+
+/**
+ * Validates a stored Facebook catalog CSV
+ * @param content - CSV content (with or without the UTF-8 BOM)
+ * @returns Validation report; rows are numbered like a spreadsheet (header = 1)
+ */
+export function validateFeed(content: string): FeedValidationReport {
+  const [headers = [], ...rows] = parseCSV(content);
+  const headerIssues: FeedValidationIssue[] = [];
+
+  for (const header of REQUIRED_HEADERS) {
+    if (!headers.includes(header)) {
+      headerIssues.push({
+        row: 1,
+        field: header,
+        severity: 'error',
+        message: `Required column ${header} is missing`,
+      });
+    }
+  }
+  for (const header of headers) {
+    if (!(CSV_HEADERS as readonly string[]).includes(header)) {
+      headerIssues.push({
+        row: 1,
+        field: header,
+        severity: 'warning',
+        message: `Unknown column ${header}`,
+      });
+    }
+  }
+
+  const listings = new Map<string, FeedListingValidation>();
+  const seenIds = new Map<string, number>();
+
+  rows.forEach((values, index) => {
+    const row = index + 2;
+    const product = Object.fromEntries(headers.map((header, column) => [header, values[column] ?? '']));
+    const listingId = product.item_group_id || product.id || `row-${row}`;
+
+    let listing = listings.get(listingId);
+    if (!listing) {
+      listing = { listingId, rows: [], errors: [], warnings: [] };
+      listings.set(listingId, listing);
+    }
+    listing.rows.push(row);
+
+    const report = (field: string, severity: FeedIssueSeverity, message: string) => {
+      const issue: FeedValidationIssue = { row, field, severity, message };
+      (severity === 'error' ? listing.errors : listing.warnings).push(issue);
+    };
+
+    if (values.length !== headers.length) {
+      report('*', 'error', `Row has ${values.length} columns, header has ${headers.length}`);
+      return;
+    }
+
+    if (product.id) {
+      const firstRow = seenIds.get(product.id);
+      if (firstRow !== undefined) {
+        report('id', 'error', `id ${product.id} is already used by row ${firstRow}`);
+      } else {
+        seenIds.set(product.id, row);
+      }
+    }
+
+    validateProduct(product, report);
+  });
+
+  const withIssues = [...listings.values()].filter(
+    (listing) => listing.errors.length > 0 || listing.warnings.length > 0
+  );
+  const errorCount =
+    headerIssues.filter((issue) => issue.severity === 'error').length +
+    withIssues.reduce((sum, listing) => sum + listing.errors.length, 0);
+  const warningCount =
+    headerIssues.filter((issue) => issue.severity === 'warning').length +
+    withIssues.reduce((sum, listing) => sum + listing.warnings.length, 0);
+
+  return {
+    valid: errorCount === 0,
+    productCount: rows.length,
+    errorCount,
+    warningCount,
+    headers,
+    headerIssues,
+    listings: withIssues,
+  };
+}
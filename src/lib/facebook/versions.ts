@@ -0,0 +1,472 @@
+/**
+ * Feed version history
+ * Every sync that publishes a new Facebook catalog CSV also stores a copy under feed-versions/
+ * (named by timestamp and content hash) and records it in a version index, so a bad sync can be
+ * rolled back by promoting an earlier version to the live feed. A feed blocked by the publish
+ * guard is kept as the pending version until it is approved or discarded.
+ *
+ * The index carries a generation number, and a writer fails instead of overwriting a change made since
+ * it loaded the index. With a database configured the index lives in Postgres and each write is an
+ * atomic compare-and-set on the generation (an index still in Blob is carried over by the first
+ * write). Without one it stays in Blob, which has no transactions: the writer re-reads the stored
+ * index just before writing, which narrows the race to that gap but cannot close it. Changes to the
+ * live feed are written before the index, and rolled back if a later write fails.
+ */
+
+import { createHash } from 'crypto';
+import { isDatabaseConfigured } from '@/lib/db/client';
+import { compareAndSetFeedVersionIndex, getFeedVersionIndex } from '@/lib/db/feed-version-index';
+import {
+  deleteBlob,
+  getCSV,
+  getJSON,
+  uploadCSV,
+  uploadFeedFile,
+  uploadJSON,
+} from '@/lib/storage/blob';
+import { StorageError, ValidationError } from '@/lib/utils/errors';
+import { logInfo, logWarn, logError } from '@/lib/utils/logger';
+import { XML_CONTENT_TYPE } from '@/lib/utils/xml';
+import { CSV_HEADERS, UTF8_BOM } from './catalog';
+import { parseCSV } from './csv-parser';
+import { FACEBOOK_XML_FILENAME, generateXML } from './xml';
+import type {
+  FacebookAvailability,
+  FacebookCondition,
+  FacebookProduct,
+  FacebookProductStatus,
+  FeedVersion,
+  FeedVersionIndex,
+  PendingFeedVersion,
+  PublishGuardResult,
+} from './types';
+
+/** Blob filename for the version index */
+const VERSION_INDEX_FILENAME = 'feed-versions.json';
+
+/** Blob path prefix for stored versions */
+const VERSION_PREFIX = 'feed-versions/';
+
+/** Default number of versions kept */
+const DEFAULT_FEED_VERSION_LIMIT = 30;
+
+/**
+ * Reads the number of versions to keep from the FEED_VERSION_LIMIT environment variable
+ *
+ * @returns Version limit (at least 1)
+ */
+export function getFeedVersionLimit(): number {
+  const value = process.env.FEED_VERSION_LIMIT;
+  if (value === undefined || value.trim() === '') {
+    return DEFAULT_FEED_VERSION_LIMIT;
+  }
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    logWarn('Invalid FEED_VERSION_LIMIT, using default', {
+      value,
+      default: DEFAULT_FEED_VERSION_LIMIT,
+    });
+    return DEFAULT_FEED_VERSION_LIMIT;
+  }
+  return limit;
+}
+
+/**
+ * Hashes feed content
+ * The UTF-8 BOM is ignored: it is dropped when a stored copy is read back as text
+ *
+ * @param content - CSV content
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function computeFeedHash(content: string): string {
+  const text = content.startsWith(UTF8_BOM) ? content.substring(UTF8_BOM.length) : content;
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Builds a version ID from its timestamp and content hash
+ * @example
+ * createVersionId('2025-01-01T12:00:00.000Z', '3f2a9c1b7d4e...');
+ * // Returns: '20250101T120000Z-3f2a9c1b7d4e'
+ */
+function createVersionId(createdAt: string, contentHash: string): string {
+  const timestamp = createdAt.replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  return `${timestamp}-${contentHash.substring(0, 12)}`;
+}
+
+/**
+ * Reads the products back from a stored catalog CSV
+ * Values are kept as stored; availability, condition and status hold what generateCSV wrote
+ * (the feed validator reports anything else)
+ *
+ * @param content - CSV content generated by generateCSV
+ * @returns Products (columns missing from the CSV are empty)
+ */
+export function parseFeedProducts(content: string): FacebookProduct[] {
+  const [headers = [], ...rows] = parseCSV(content);
+  const columns = CSV_HEADERS.map((header) => [header, headers.indexOf(header)] as const);
+
+  return rows.map((values) => {
+    const row = Object.fromEntries(
+      columns.map(([header, column]) => [header, values[column] ?? ''])
+    ) as Record<(typeof CSV_HEADERS)[number], string>;
+
+    return {
+      ...row,
+      availability: row.availability as FacebookAvailability,
+      condition: row.condition as FacebookCondition,
+      status: row.status as FacebookProductStatus,
+    };
+  });
+}
+
+/**
+ * Load the version index
+ * From Postgres when a database is configured and holds the index, from Blob otherwise
+ *
+ * @returns Version index (empty if no version has been recorded)
+ * @throws StorageError if the index cannot be fetched or parsed
+ */
+export async function loadFeedVersionIndex(): Promise<FeedVersionIndex> {
+  if (isDatabaseConfigured()) {
+    const stored = await getFeedVersionIndex();
+    if (stored) {
+      return stored;
+    }
+  }
+
+  const result = await getJSON<FeedVersionIndex>(VERSION_INDEX_FILENAME);
+  if (!result) {
+    return { updatedAt: '', generation: 0, liveVersionId: null, versions: [], pending: null };
+  }
+  // Indexes written before generations were introduced start at 0
+  return { ...result.data, generation: result.data.generation ?? 0 };
+}
+
+/**
+ * Store the version index
+ * If another request changed it since `index` was loaded, nothing is written. In Postgres the check
+ * and the write are one statement; in Blob the stored index is re-read just before writing.
+ *
+ * @param index - Index loaded with loadFeedVersionIndex, with the changes applied
+ * @throws StorageError if the index changed in the meantime (code FEED_VERSION_INDEX_CONFLICT) or cannot be stored
+ */
+async function storeFeedVersionIndex(index: FeedVersionIndex): Promise<void> {
+  const updated = { ...index, updatedAt: new Date().toISOString() };
+
+  if (isDatabaseConfigured()) {
+    if (!(await compareAndSetFeedVersionIndex(updated))) {
+      throw createIndexConflictError();
+    }
+    return;
+  }
+
+  const current = await loadFeedVersionIndex();
+  if (current.generation !== index.generation) {
+    throw createIndexConflictError();
+  }
+
+  await uploadJSON(VERSION_INDEX_FILENAME, { ...updated, generation: index.generation + 1 });
+}
+
+/**
+ * Error thrown when the index changed since it was loaded
+ */
+function createIndexConflictError(): StorageError {
+  return new StorageError(
+    'The feed version index was changed by another request; reload and try again',
+    'FEED_VERSION_INDEX_CONFLICT'
+  );
+}
+
+/**
+ * Stores a copy of feed content under feed-versions/
+ * @returns Version record (not yet in the index)
+ */
+async function storeVersionCopy(content: string, productCount: number): Promise<FeedVersion> {
+  const createdAt = new Date().toISOString();
+  const contentHash = computeFeedHash(content);
+  const id = createVersionId(createdAt, contentHash);
+  const filename = `${VERSION_PREFIX}${id}.csv`;
+  const url = await uploadCSV(content, filename);
+
+  return {
+    id,
+    createdAt,
+    contentHash,
+    filename,
+    url,
+    productCount,
+    sizeBytes: Buffer.byteLength(content, 'utf8'),
+  };
+}
+
+/**
+ * Deletes the stored copies of versions dropped from the index
+ * Failures are logged (an orphaned copy only costs storage)
+ */
+async function deleteVersions(versions: FeedVersion[]): Promise<void> {
+  for (const version of versions) {
+    try {
+      await deleteBlob(version.url);
+    } catch (error) {
+      logWarn('Failed to delete old feed version', {
+        versionId: version.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+/**
+ * Adds a version to the index as the live version
+ * Versions beyond FEED_VERSION_LIMIT are removed, oldest first, and so is a pending version
+ * (it is outdated once a newer feed is live).
+ */
+async function addLiveVersion(index: FeedVersionIndex, version: FeedVersion): Promise<void> {
+  const versions = [version, ...index.versions.filter((candidate) => candidate.id !== version.id)];
+  const limit = getFeedVersionLimit();
+  await storeFeedVersionIndex({
+    ...index,
+    liveVersionId: version.id,
+    versions: versions.slice(0, limit),
+    pending: null,
+  });
+
+  const dropped = versions.slice(limit);
+  if (index.pending && index.pending.id !== version.id) {
+    dropped.push(index.pending);
+  }
+  await deleteVersions(dropped);
+}
+
+/**
+ * Records a newly published feed as a version and marks it live
+ * Content identical to the live version is not stored again. Versions beyond
+ * FEED_VERSION_LIMIT are removed, oldest first.
+ *
+ * @param content - CSV content that was uploaded as the live feed
+ * @param productCount - Number of products in the feed
+ * @returns Live version
+ * @throws StorageError if the copy or the index cannot be stored
+ */
+export async function recordFeedVersion(content: string, productCount: number): Promise<FeedVersion> {
+  const index = await loadFeedVersionIndex();
+
+  const live = index.versions.find((version) => version.id === index.liveVersionId);
+  if (live?.contentHash === computeFeedHash(content)) {
+    logInfo('Feed unchanged since the live version', { versionId: live.id });
+    if (index.pending) {
+      await storeFeedVersionIndex({ ...index, pending: null });
+      await deleteVersions([index.pending]);
+    }
+    return live;
+  }
+
+  const version = await storeVersionCopy(content, productCount);
+  await addLiveVersion(index, version);
+
+  logInfo('Feed version recorded', { versionId: version.id, productCount });
+  return version;
+}
+
+/**
+ * Stores a feed blocked by the publish guard as the pending version
+ * Replaces any previous pending version.
+ *
+ * @param content - CSV content that was not published
+ * @param productCount - Number of products in the feed
+ * @param guard - Guard result that blocked the feed
+ * @returns Pending version
+ * @throws StorageError if the copy or the index cannot be stored
+ */
+export async function storePendingFeedVersion(
+  content: string,
+  productCount: number,
+  guard: PublishGuardResult
+): Promise<PendingFeedVersion> {
+  const index = await loadFeedVersionIndex();
+  const pending: PendingFeedVersion = { ...(await storeVersionCopy(content, productCount)), guard };
+
+  await storeFeedVersionIndex({ ...index, pending });
+  if (index.pending) {
+    await deleteVersions([index.pending]);
+  }
+
+  logWarn('Blocked feed stored as pending version', { versionId: pending.id, reason: guard.reason });
+  return pending;
+}
+
+/**
+ * Publishes the pending version as the live feed and adds it to the version history
+ *
+ * @returns Published version
+ * @throws ValidationError if there is no pending version (code NO_PENDING_VERSION)
+ * @throws StorageError if the stored copy is missing or corrupt, or an upload fails
+ */
+export async function approvePendingFeedVersion(): Promise<FeedVersion> {
+  const index = await loadFeedVersionIndex();
+  if (!index.pending) {
+    throw new ValidationError('There is no pending feed version', 'NO_PENDING_VERSION');
+  }
+
+  // The guard result belongs to the blocked sync; the history only keeps the version itself
+  const { id, createdAt, contentHash, filename, url, productCount, sizeBytes } = index.pending;
+  const version: FeedVersion = { id, createdAt, contentHash, filename, url, productCount, sizeBytes };
+
+  await publishVersionCopy(version, () => addLiveVersion(index, version));
+
+  logInfo('Pending feed version approved', { versionId: id, productCount });
+  return version;
+}
+
+/**
+ * Discards the pending version (the live feed stays as it is)
+ *
+ * @throws ValidationError if there is no pending version (code NO_PENDING_VERSION)
+ * @throws StorageError if the index cannot be stored
+ */
+export async function discardPendingFeedVersion(): Promise<void> {
+  const index = await loadFeedVersionIndex();
+  if (!index.pending) {
+    throw new ValidationError('There is no pending feed version', 'NO_PENDING_VERSION');
+  }
+
+  await storeFeedVersionIndex({ ...index, pending: null });
+  await deleteVersions([index.pending]);
+  logInfo('Pending feed version discarded', { versionId: index.pending.id });
+}
+
+/**
+ * Finds the version that was live before the current live version
+ * @param index - Version index
+ * @returns Previous version (null if the live version is the oldest or unknown)
+ */
+export function getPreviousFeedVersion(index: FeedVersionIndex): FeedVersion | null {
+  const position = index.versions.findIndex((version) => version.id === index.liveVersionId);
+  return position === -1 ? null : index.versions[position + 1] ?? null;
+}
+
+/**
+ * Reads the products of a stored version
+ *
+ * @param version - Version to read
+ * @returns Products of the stored copy
+ * @throws StorageError if the stored copy is missing
+ */
+export async function loadFeedVersionProducts(version: FeedVersion): Promise<FacebookProduct[]> {
+  const stored = await getCSV(version.filename);
+  if (!stored) {
+    throw new StorageError(`Stored copy of feed version ${version.id} is missing`, 'FEED_VERSION_MISSING');
+  }
+  return parseFeedProducts(stored.content);
+}
+
+/**
+ * Adds the UTF-8 BOM to CSV content read back without it
+ */
+function withBOM(content: string): string {
+  return content.startsWith(UTF8_BOM) ? content : UTF8_BOM + content;
+}
+
+/**
+ * Puts the previous live Facebook feeds back after a failed publish
+ * Failures are logged; the caller reports the error that caused the rollback
+ *
+ * @param previousContent - Live CSV before the publish (null if there was none)
+ * @param publishedUrl - URL of the live CSV written by the publish
+ * @param versionId - Version whose publish failed
+ */
+async function restoreLiveFeeds(
+  previousContent: string | null,
+  publishedUrl: string,
+  versionId: string
+): Promise<void> {
+  try {
+    if (previousContent === null) {
+      await deleteBlob(publishedUrl);
+    } else {
+      await uploadCSV(withBOM(previousContent));
+      await uploadFeedFile(
+        FACEBOOK_XML_FILENAME,
+        generateXML(parseFeedProducts(previousContent)),
+        XML_CONTENT_TYPE
+      );
+    }
+    logWarn('Live feed restored after a failed feed version publish', { versionId });
+  } catch (error) {
+    logError('Failed to restore the live feed; it may not match the feed version index', {
+      versionId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Replaces the live Facebook feeds with a stored copy, then updates the version index
+ * The copy is checked against its content hash, then replaces the live CSV in a single write and
+ * the Facebook XML feed is regenerated from it. The index is written last; if the XML upload or the
+ * index update fails (including a concurrent index change), the previous live feeds are restored so
+ * the live CSV keeps matching the index.
+ *
+ * @param version - Version to publish
+ * @param updateIndex - Records the version as live in the index
+ * @throws StorageError if the stored copy is missing or does not match its hash, an upload fails
+ * or the index changed in the meantime
+ */
+async function publishVersionCopy(
+  version: FeedVersion,
+  updateIndex: () => Promise<void>
+): Promise<void> {
+  const stored = await getCSV(version.filename);
+  if (!stored) {
+    throw new StorageError(`Stored copy of feed version ${version.id} is missing`, 'FEED_VERSION_MISSING');
+  }
+  if (computeFeedHash(stored.content) !== version.contentHash) {
+    logError('Feed version content does not match its hash', { versionId: version.id });
+    throw new StorageError(
+      `Stored copy of feed version ${version.id} does not match its content hash`,
+      'FEED_VERSION_CORRUPT'
+    );
+  }
+
+  const previous = await getCSV();
+  const url = await uploadCSV(withBOM(stored.content));
+  try {
+    await uploadFeedFile(
+      FACEBOOK_XML_FILENAME,
+      generateXML(parseFeedProducts(stored.content)),
+      XML_CONTENT_TYPE
+    );
+    await updateIndex();
+  } catch (error) {
+    await restoreLiveFeeds(previous?.content ?? null, url, version.id);
+    throw error;
+  }
+}
+
+/**
+ * Promotes a stored version to the live feed
+ * The Google Merchant and Pinterest feeds are not versioned and stay as they are.
+ *
+ * @param versionId - Version to promote
+ * @returns Promoted version
+ * @throws ValidationError if the version does not exist (code FEED_VERSION_NOT_FOUND)
+ * @throws StorageError if the stored copy is missing or does not match its hash, an upload fails or
+ * the index was changed by another request (code FEED_VERSION_INDEX_CONFLICT; the live feed is restored)
+ */
+export async function promoteFeedVersion(versionId: string): Promise<FeedVersion> {
+  const index = await loadFeedVersionIndex();
+  const version = index.versions.find((candidate) => candidate.id === versionId);
+  if (!version) {
+    throw new ValidationError(`Feed version ${versionId} does not exist`, 'FEED_VERSION_NOT_FOUND');
+  }
+
+  await publishVersionCopy(version, () =>
+    storeFeedVersionIndex({ ...index, liveVersionId: version.id })
+  );
+
+  logInfo('Feed version promoted', { versionId, productCount: version.productCount });
+  return version;
+}
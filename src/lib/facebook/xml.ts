@@ -0,0 +1,116 @@
+/**
+ * Facebook Product Catalog XML Formatter
+ * Serializes Facebook products as an RSS 2.0 feed (g: namespace), the XML format accepted by
+ * Facebook Commerce Manager. Works from the same FacebookProduct[] as generateCSV.
+ */
+
+import { escapeXML, formatXMLElement, GOOGLE_NAMESPACE } from '@/lib/utils/xml';
+import type { FacebookProduct } from './types';
+
+/** Blob filename for the Facebook catalog XML */
+export const FACEBOOK_XML_FILENAME = 'facebook-catalog.xml';
+
+/** Channel title used when the products carry no brand */
+const DEFAULT_CHANNEL_TITLE = 'Product Catalog';
+
+/**
+ * Splits a comma-joined CSV list column back into values
+ * @param value - Comma-separated values (e.g., additional_image_link)
+ * @returns Trimmed, non-empty values
+ */
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Formats additional_variant_attribute "Name:Value" pairs as nested label/value elements
+ * @param value - Comma-separated "Name:Value" pairs
+ * @returns Element strings (one per attribute)
+ */
+function formatVariantAttributes(value: string): string[] {
+  return splitList(value).map((pair) => {
+    const separator = pair.indexOf(':');
+    const label = separator >= 0 ? pair.substring(0, separator) : pair;
+    const attributeValue = separator >= 0 ? pair.substring(separator + 1) : '';
+    return [
+      '      <g:additional_variant_attribute>',
+      formatXMLElement('label', label, 8),
+      formatXMLElement('value', attributeValue, 8),
+      '      </g:additional_variant_attribute>',
+    ]
+      .filter((line) => line.length > 0)
+      .join('\n');
+  });
+}
+
+/**
+ * Formats a single <item> element
+ * Multi-value columns become repeated elements instead of comma-joined text
+ */
+function formatItem(product: FacebookProduct): string {
+  const element = (name: keyof FacebookProduct) => formatXMLElement(`g:${name}`, product[name]);
+
+  const elements = [
+    element('id'),
+    element('title'),
+    element('description'),
+    element('availability'),
+    element('condition'),
+    element('price'),
+    element('sale_price'),
+    element('sale_price_effective_date'),
+    element('status'),
+    element('link'),
+    element('image_link'),
+    ...splitList(product.additional_image_link).map((url) =>
+      formatXMLElement('g:additional_image_link', url)
+    ),
+    element('brand'),
+    element('item_group_id'),
+    element('quantity_to_sell_on_facebook'),
+    element('size'),
+    element('color'),
+    ...formatVariantAttributes(product.additional_variant_attribute),
+    element('google_product_category'),
+    element('product_type'),
+    element('custom_label_0'),
+    element('custom_label_1'),
+    element('custom_label_2'),
+    element('custom_label_3'),
+    element('custom_label_4'),
+  ].filter((line) => line.length > 0);
+
+  return ['    <item>', ...elements, '    </item>'].join('\n');
+}
+
+/**
+ * Generates an RSS 2.0 XML feed from an array of Facebook products
+ * The channel title and link are derived from the products' brand
+ * @param products - Array of FacebookProduct objects
+ * @returns XML document string
+ * @example
+ * const xml = generateXML(products);
+ * // <?xml version="1.0" encoding="UTF-8"?>
+ * // <rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">...
+ */
+export function generateXML(products: FacebookProduct[]): string {
+  const brand = products.find((product) => product.brand)?.brand;
+  const title = brand || DEFAULT_CHANNEL_TITLE;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<rss version="2.0" xmlns:g="${GOOGLE_NAMESPACE}">`,
+    '  <channel>',
+    `    <title>${escapeXML(title)}</title>`,
+    brand ? `    <link>${escapeXML(`https://www.etsy.com/shop/${brand}`)}</link>` : '',
+    `    <description>${escapeXML(`${title} product feed`)}</description>`,
+    ...products.map(formatItem),
+    '  </channel>',
+    '</rss>',
+  ].filter((line) => line.length > 0);
+
+  return lines.join('\n') + '\n';
+}
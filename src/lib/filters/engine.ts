@@ -0,0 +1,392 @@
+/**
+ * Listing filters
+ * Removes listings from the Facebook catalog before they are formatted (e.g., free patterns,
+ * bundles, test listings). isValidListing still applies to the listings that pass.
+ */
+
+import { ValidationError } from '@/lib/utils/errors';
+import type { EtsyListing } from '@/lib/etsy/types';
+import type { ListingFilter, ListingFilterCondition, ListingFilterStats } from './types';
+
+/** Maximum length of a title pattern (keeps regular expressions cheap to evaluate) */
+const MAX_PATTERN_LENGTH = 100;
+
+const LISTING_TYPES = ['physical', 'download', 'both'] as const;
+
+/**
+ * Gets the listing price in currency units
+ */
+function getListingPrice(listing: EtsyListing): number {
+  return listing.price.amount / (listing.price.divisor || 1);
+}
+
+/**
+ * Listing filter with its condition compiled to a predicate
+ */
+interface CompiledListingFilter {
+  filter: ListingFilter;
+  matches: (listing: EtsyListing) => boolean;
+}
+
+/**
+ * Reads the quantifier at a position of a regular expression
+ * @returns Length of the quantifier (0 if there is none) and whether it can repeat more than once
+ */
+function readQuantifier(pattern: string, index: number): { length: number; repeats: boolean } {
+  const char = pattern[index];
+  if (char === '*' || char === '+' || char === '?') {
+    const length = pattern[index + 1] === '?' ? 2 : 1;
+    return { length, repeats: char !== '?' };
+  }
+  const brace = /^\{(\d+)(,(\d*))?\}\??/.exec(pattern.slice(index));
+  if (!brace) {
+    return { length: 0, repeats: false };
+  }
+  const max = brace[2] === undefined ? Number(brace[1]) : brace[3] === '' ? Infinity : Number(brace[3]);
+  return { length: brace[0].length, repeats: max > 1 };
+}
+
+/**
+ * Finds a construct in a title pattern that could make matching backtrack catastrophically:
+ * a backreference, or a repeated group that itself contains a repetition or an alternation
+ * (e.g., (a+)+ or (a|ab)*). A heuristic, but it rejects every classic exponential pattern.
+ * @param pattern - Regular expression source
+ * @returns Description of the unsafe construct, or null if none is found
+ */
+export function findUnsafePatternConstruct(pattern: string): string | null {
+  // One frame per open group: whether it contains a repetition or an alternation so far
+  const groups: Array<{ repeats: boolean; alternates: boolean }> = [{ repeats: false, alternates: false }];
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    const group = groups[groups.length - 1];
+    let atomEnd = index;
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[index + 1] ?? '')) {
+        return 'a backreference';
+      }
+      atomEnd = index + 1;
+    } else if (char === '[') {
+      atomEnd = index + 1;
+      while (atomEnd < pattern.length && pattern[atomEnd] !== ']') {
+        atomEnd += pattern[atomEnd] === '\\' ? 2 : 1;
+      }
+    } else if (char === '(') {
+      groups.push({ repeats: false, alternates: false });
+      continue;
+    } else if (char === '|') {
+      group.alternates = true;
+      continue;
+    } else if (char === ')') {
+      const closed = groups.pop();
+      const parent = groups[groups.length - 1];
+      if (!closed || !parent) {
+        continue;
+      }
+      const quantifier = readQuantifier(pattern, index + 1);
+      if (quantifier.repeats && (closed.repeats || closed.alternates)) {
+        return `the repeated group ending at position ${index + 1}`;
+      }
+      parent.repeats ||= closed.repeats || quantifier.repeats;
+      index += quantifier.length;
+      continue;
+    }
+
+    const quantifier = readQuantifier(pattern, atomEnd + 1);
+    group.repeats ||= quantifier.repeats;
+    index = atomEnd + quantifier.length;
+  }
+
+  return null;
+}
+
+/**
+ * Compiles a filter condition to a predicate, so a title pattern is compiled once per filter set
+ * @param condition - Filter condition
+ * @throws ValidationError if a title pattern is unsafe or invalid
+ */
+function compileCondition(condition: ListingFilterCondition): (listing: EtsyListing) => boolean {
+  if (condition.field === 'title') {
+    const unsafe = findUnsafePatternConstruct(condition.pattern);
+    if (unsafe) {
+      throw new ValidationError(
+        `Title pattern /${condition.pattern}/ is not allowed: ${unsafe} can make matching too slow`,
+        'UNSAFE_FILTER_PATTERN'
+      );
+    }
+    const regex = new RegExp(condition.pattern, 'i');
+    return (listing) => regex.test(listing.title ?? '');
+  }
+  return (listing) => matchesFilterCondition(listing, condition);
+}
+
+/**
+ * Checks whether a listing matches a filter condition
+ * A title pattern is compiled on every call; applyListingFilters compiles each one once.
+ * @param listing - Etsy listing
+ * @param condition - Filter condition
+ * @returns true if the listing matches
+ */
+export function matchesFilterCondition(
+  listing: EtsyListing,
+  condition: ListingFilterCondition
+): boolean {
+  switch (condition.field) {
+    case 'tags': {
+      const tags = (listing.tags ?? []).map((tag) => tag.toLowerCase());
+      return condition.values.some((value) => tags.includes(value.toLowerCase()));
+    }
+    case 'shop_section_id':
+      return listing.shop_section_id !== null && condition.values.includes(listing.shop_section_id);
+    case 'is_digital':
+      return listing.is_digital === condition.value;
+    case 'listing_type':
+      return condition.values.includes(listing.listing_type);
+    case 'price': {
+      const price = getListingPrice(listing);
+      return (
+        (condition.min === undefined || price >= condition.min) &&
+        (condition.max === undefined || price <= condition.max)
+      );
+    }
+    case 'title':
+      return new RegExp(condition.pattern, 'i').test(listing.title ?? '');
+    case 'title_contains': {
+      const title = (listing.title ?? '').toLowerCase();
+      return condition.values.some((value) => title.includes(value.toLowerCase()));
+    }
+  }
+}
+
+/**
+ * Checks whether a filter removes a listing
+ */
+function removesListing(listing: EtsyListing, compiled: CompiledListingFilter): boolean {
+  const matches = compiled.matches(listing);
+  return compiled.filter.mode === 'include' ? !matches : matches;
+}
+
+/**
+ * Applies listing filters
+ * A listing is kept when it matches every include filter and no exclude filter
+ * @param listings - Listings to filter
+ * @param filters - Listing filters
+ * @returns Kept listings (in order) and per-filter removal counts
+ * @throws ValidationError if an enabled filter has an unsafe title pattern (stored before patterns were checked)
+ */
+export function applyListingFilters(
+  listings: EtsyListing[],
+  filters: ListingFilter[]
+): { listings: EtsyListing[]; stats: ListingFilterStats } {
+  const activeFilters: CompiledListingFilter[] = filters
+    .filter((filter) => filter.enabled !== false)
+    .map((filter) => ({ filter, matches: compileCondition(filter.condition) }));
+  const removedByFilter: Record<string, number> = Object.fromEntries(
+    filters.map((filter) => [filter.id, 0])
+  );
+
+  const kept = listings.filter((listing) => {
+    let removed = false;
+    for (const compiled of activeFilters) {
+      if (removesListing(listing, compiled)) {
+        removedByFilter[compiled.filter.id]++;
+        removed = true;
+      }
+    }
+    return !removed;
+  });
+
+  return {
+    listings: kept,
+    stats: {
+      evaluated: listings.length,
+      removed: listings.length - kept.length,
+      removedByFilter,
+    },
+  };
+}
+
+/**
+ * Validates a list of values
+ */
+function validateValues<T>(
+  value: unknown,
+  path: string,
+  isValid: (item: unknown) => item is T,
+  description: string
+): T[] {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(isValid)) {
+    throw new ValidationError(`${path} must be a non-empty array of ${description}`);
+  }
+  return value;
+}
+
+/**
+ * Validates an optional price bound
+ */
+function validateBound(value: unknown, path: string): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new ValidationError(`${path} must be a non-negative number`);
+  }
+  return value;
+}
+
+/**
+ * Validates a filter condition
+ */
+function validateCondition(value: unknown, path: string): ListingFilterCondition {
+  if (!value || typeof value !== 'object') {
+    throw new ValidationError(`${path} must be an object`);
+  }
+
+  const input = value as Record<string, unknown>;
+  switch (input.field) {
+    case 'tags':
+      return {
+        field: 'tags',
+        values: validateValues(
+          input.values,
+          `${path}.values`,
+          (item): item is string => typeof item === 'string' && item.trim().length > 0,
+          'tags'
+        ).map((tag) => tag.trim()),
+      };
+    case 'shop_section_id':
+      return {
+        field: 'shop_section_id',
+        values: validateValues(
+          input.values,
+          `${path}.values`,
+          (item): item is number => Number.isInteger(item) && (item as number) > 0,
+          'shop section IDs'
+        ),
+      };
+    case 'is_digital':
+      if (typeof input.value !== 'boolean') {
+        throw new ValidationError(`${path}.value must be a boolean`);
+      }
+      return { field: 'is_digital', value: input.value };
+    case 'listing_type':
+      return {
+        field: 'listing_type',
+        values: validateValues(
+          input.values,
+          `${path}.values`,
+          (item): item is (typeof LISTING_TYPES)[number] =>
+            LISTING_TYPES.includes(item as (typeof LISTING_TYPES)[number]),
+          `listing types (${LISTING_TYPES.join(', ')})`
+        ),
+      };
+    case 'price': {
+      const min = validateBound(input.min, `${path}.min`);
+      const max = validateBound(input.max, `${path}.max`);
+      if (min === undefined && max === undefined) {
+        throw new ValidationError(`${path} must set min, max or both`);
+      }
+      if (min !== undefined && max !== undefined && min > max) {
+        throw new ValidationError(`${path}.min must not be greater than max`);
+      }
+      const condition: ListingFilterCondition = { field: 'price' };
+      if (min !== undefined) {
+        condition.min = min;
+      }
+      if (max !== undefined) {
+        condition.max = max;
+      }
+      return condition;
+    }
+    case 'title': {
+      const pattern = input.pattern;
+      if (typeof pattern !== 'string' || !pattern.trim()) {
+        throw new ValidationError(`${path}.pattern must be a non-empty string`);
+      }
+      if (pattern.length > MAX_PATTERN_LENGTH) {
+        throw new ValidationError(`${path}.pattern must be at most ${MAX_PATTERN_LENGTH} characters`);
+      }
+      try {
+        new RegExp(pattern, 'i');
+      } catch {
+        throw new ValidationError(`${path}.pattern is not a valid regular expression`);
+      }
+      const unsafe = findUnsafePatternConstruct(pattern);
+      if (unsafe) {
+        throw new ValidationError(
+          `${path}.pattern is not allowed: ${unsafe} can make matching too slow (use title_contains for plain words)`,
+          'UNSAFE_FILTER_PATTERN'
+        );
+      }
+      return { field: 'title', pattern };
+    }
+    case 'title_contains':
+      return {
+        field: 'title_contains',
+        values: validateValues(
+          input.values,
+          `${path}.values`,
+          (item): item is string => typeof item === 'string' && item.trim().length > 0,
+          'non-empty strings'
+        ).map((value) => value.trim()),
+      };
+    default:
+      throw new ValidationError(
+        `${path}.field must be one of: tags, shop_section_id, is_digital, listing_type, price, title, title_contains`
+      );
+  }
+}
+
+/**
+ * Validates listing filters submitted through the API
+ * @param value - Parsed request body value
+ * @returns Normalized filters (missing IDs generated, unknown properties dropped)
+ * @throws ValidationError if the value is not a list of valid filters
+ */
+export function validateListingFilters(value: unknown): ListingFilter[] {
+  if (!Array.isArray(value)) {
+    throw new ValidationError('filters must be an array');
+  }
+
+  const ids = new Set<string>();
+
+  return value.map((item, index) => {
+    const path = `filters[${index}]`;
+    if (!item || typeof item !== 'object') {
+      throw new ValidationError(`${path} must be an object`);
+    }
+
+    const { id, name, mode, enabled, condition } = item as Record<string, unknown>;
+
+    const filterId = typeof id === 'string' && id.trim() ? id.trim() : `filter-${index + 1}`;
+    if (ids.has(filterId)) {
+      throw new ValidationError(`${path}.id "${filterId}" is used by more than one filter`);
+    }
+    ids.add(filterId);
+
+    if (mode !== 'include' && mode !== 'exclude') {
+      throw new ValidationError(`${path}.mode must be "include" or "exclude"`);
+    }
+    if (name !== undefined && typeof name !== 'string') {
+      throw new ValidationError(`${path}.name must be a string`);
+    }
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      throw new ValidationError(`${path}.enabled must be a boolean`);
+    }
+
+    const filter: ListingFilter = {
+      id: filterId,
+      mode,
+      condition: validateCondition(condition, `${path}.condition`),
+    };
+    if (typeof name === 'string' && name.trim()) {
+      filter.name = name.trim();
+    }
+    if (enabled === false) {
+      filter.enabled = false;
+    }
+
+    return filter;
+  });
+}
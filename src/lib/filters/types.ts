@@ -0,0 +1,54 @@
+/**
+ * Listing filter type definitions
+ * Include/exclude filters that keep listings out of the Facebook catalog
+ */
+
+/**
+ * Listing condition a filter tests
+ * - tags: Listing has any of the tags (whole tag, case-insensitive)
+ * - shop_section_id: Listing is in any of the shop sections
+ * - is_digital: Listing is (or is not) a digital download
+ * - listing_type: Listing type is any of the values
+ * - price: Listing price is within [min, max] (currency units, either bound optional)
+ * - title: Listing title matches the regular expression (case-insensitive; patterns that could
+ *   backtrack catastrophically are rejected)
+ * - title_contains: Listing title contains any of the values (case-insensitive)
+ */
+export type ListingFilterCondition =
+  | { field: 'tags'; values: string[] }
+  | { field: 'shop_section_id'; values: number[] }
+  | { field: 'is_digital'; value: boolean }
+  | { field: 'listing_type'; values: Array<'physical' | 'download' | 'both'> }
+  | { field: 'price'; min?: number; max?: number }
+  | { field: 'title'; pattern: string }
+  | { field: 'title_contains'; values: string[] };
+
+/**
+ * Listing filter stored in Edge Config
+ * A listing stays in the catalog when it matches every include filter and no exclude filter
+ * @property id - Stable filter identifier
+ * @property name - Optional human-readable name
+ * @property mode - "include" keeps only matching listings; "exclude" removes matching listings
+ * @property enabled - Disabled filters are skipped (default: true)
+ * @property condition - Condition tested against each listing
+ */
+export interface ListingFilter {
+  id: string;
+  name?: string;
+  mode: 'include' | 'exclude';
+  enabled?: boolean;
+  condition: ListingFilterCondition;
+}
+
+/**
+ * Result of filtering listings in a sync
+ * @property evaluated - Listings the filters ran against
+ * @property removed - Listings removed by at least one filter
+ * @property removedByFilter - Listings removed by each filter, keyed by filter ID
+ * (a listing removed by several filters counts once for each)
+ */
+export interface ListingFilterStats {
+  evaluated: number;
+  removed: number;
+  removedByFilter: Record<string, number>;
+}
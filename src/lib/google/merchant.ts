@@ -0,0 +1,141 @@
+/**
+ * Google Merchant Center Feed Formatter
+ * Transforms Etsy listings into a Google Merchant Center RSS 2.0 feed (g: namespace)
+ * Reuses the Facebook catalog sanitizers so both channels describe products identically
+ */
+
+import {
+  formatPrice,
+  getAdditionalImageUrlList,
+  getListingVariants,
+  getPrimaryImageUrl,
+  getVariantAvailability,
+  isValidListing,
+  sanitizeDescription,
+  truncateTitle,
+} from '@/lib/facebook/catalog';
+import { escapeXML, formatXMLElement, GOOGLE_NAMESPACE } from '@/lib/utils/xml';
+import type { EtsyListing, EtsyShop } from '@/lib/etsy/types';
+import type { ListingCategory } from '@/lib/taxonomy/types';
+import type { GoogleAvailability, GoogleMerchantItem } from './types';
+
+/** Blob filename for the Google Merchant feed */
+export const GOOGLE_MERCHANT_FILENAME = 'google-merchant.xml';
+
+/** Maximum additional images accepted by Google Merchant Center */
+const MAX_ADDITIONAL_IMAGES = 10;
+
+/**
+ * Transforms a single Etsy listing to Google Merchant Center items
+ * Listings with inventory variations are expanded into one item per variant,
+ * using the same IDs and item_group_id as the Facebook catalog
+ * @param listing - Etsy listing to transform
+ * @param shopName - Shop brand name
+ * @param category - Resolved category fields (from resolveListingCategory); empty if omitted
+ * @returns Array of GoogleMerchantItem objects (empty if listing is invalid)
+ */
+export function formatGoogleItems(
+  listing: EtsyListing,
+  shopName: string,
+  category?: ListingCategory
+): GoogleMerchantItem[] {
+  if (!isValidListing(listing)) {
+    return [];
+  }
+
+  const descriptionText = listing.description?.trim() || listing.title;
+
+  const title = truncateTitle(listing.title);
+  const description = sanitizeDescription(descriptionText);
+  const imageLink = getPrimaryImageUrl(listing);
+  const additionalImageLinks = getAdditionalImageUrlList(listing, MAX_ADDITIONAL_IMAGES);
+
+  const variants = getListingVariants(listing);
+  const itemGroupId = variants.some((variant) => variant.isVariant)
+    ? listing.listing_id.toString()
+    : '';
+
+  return variants.map((variant) => {
+    const availability: GoogleAvailability =
+      getVariantAvailability(listing, variant) === 'in stock' ? 'in_stock' : 'out_of_stock';
+
+    return {
+      id: variant.id,
+      title,
+      description,
+      link: listing.url,
+      image_link: imageLink,
+      additional_image_links: additionalImageLinks,
+      availability,
+      condition: 'new',
+      price: formatPrice(variant.price),
+      brand: shopName,
+      // Handmade goods have no GTIN/MPN
+      identifier_exists: 'no',
+      item_group_id: itemGroupId,
+      google_product_category: category?.googleProductCategory ?? '',
+      product_type: category?.productType ?? '',
+      size: variant.size,
+      color: variant.color,
+    };
+  });
+}
+
+/**
+ * Formats a g: element, omitting it when the value is empty
+ */
+function formatElement(name: string, value: string): string {
+  return formatXMLElement(`g:${name}`, value);
+}
+
+/**
+ * Formats a single <item> element
+ */
+function formatItem(item: GoogleMerchantItem): string {
+  const elements = [
+    formatElement('id', item.id),
+    formatElement('title', item.title),
+    formatElement('description', item.description),
+    formatElement('link', item.link),
+    formatElement('image_link', item.image_link),
+    ...item.additional_image_links.map((url) => formatElement('additional_image_link', url)),
+    formatElement('availability', item.availability),
+    formatElement('condition', item.condition),
+    formatElement('price', item.price),
+    formatElement('brand', item.brand),
+    formatElement('identifier_exists', item.identifier_exists),
+    formatElement('item_group_id', item.item_group_id),
+    formatElement('google_product_category', item.google_product_category),
+    formatElement('product_type', item.product_type),
+    formatElement('size', item.size),
+    formatElement('color', item.color),
+  ].filter((element) => element.length > 0);
+
+  return ['    <item>', ...elements, '    </item>'].join('\n');
+}
+
+/**
+ * Generates a Google Merchant Center RSS 2.0 feed
+ * @param items - Google Merchant items
+ * @param shop - Shop the feed belongs to (used for the channel metadata)
+ * @returns XML document string
+ * @example
+ * const xml = generateGoogleMerchantXML(items, shop);
+ * // <?xml version="1.0" encoding="UTF-8"?>
+ * // <rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">...
+ */
+export function generateGoogleMerchantXML(items: GoogleMerchantItem[], shop: EtsyShop): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<rss version="2.0" xmlns:g="${GOOGLE_NAMESPACE}">`,
+    '  <channel>',
+    `    <title>${escapeXML(shop.title || shop.shop_name)}</title>`,
+    `    <link>${escapeXML(shop.url)}</link>`,
+    `    <description>${escapeXML(`${shop.shop_name} product feed`)}</description>`,
+    ...items.map(formatItem),
+    '  </channel>',
+    '</rss>',
+  ];
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,52 @@
+/**
+ * Google Merchant Center type definitions
+ * Based on the Google Merchant Center product data specification (RSS 2.0 with the g: namespace)
+ */
+
+/**
+ * Google product availability status
+ */
+export type GoogleAvailability = 'in_stock' | 'out_of_stock';
+
+/**
+ * Google product condition
+ */
+export type GoogleCondition = 'new' | 'refurbished' | 'used';
+
+/**
+ * Google Merchant Center product item
+ * @property id - Unique product identifier (same IDs as the Facebook catalog)
+ * @property title - Product title (max 150 characters)
+ * @property description - Product description (max 5000 characters)
+ * @property link - URL to product page
+ * @property image_link - URL to main product image
+ * @property additional_image_links - Additional image URLs (up to 10)
+ * @property availability - Stock status
+ * @property condition - Product condition
+ * @property price - Formatted price with currency (e.g., "12.99 USD")
+ * @property brand - Brand name
+ * @property identifier_exists - Always "no": handmade goods have no GTIN or MPN
+ * @property item_group_id - Shared ID for all variants of one listing (empty for single products)
+ * @property google_product_category - Google product taxonomy path (empty if unmapped)
+ * @property product_type - Etsy category path
+ * @property size - Variant size (empty if not applicable)
+ * @property color - Variant color (empty if not applicable)
+ */
+export interface GoogleMerchantItem {
+  id: string;
+  title: string;
+  description: string;
+  link: string;
+  image_link: string;
+  additional_image_links: string[];
+  availability: GoogleAvailability;
+  condition: GoogleCondition;
+  price: string;
+  brand: string;
+  identifier_exists: 'no';
+  item_group_id: string;
+  google_product_category: string;
+  product_type: string;
+  size: string;
+  color: string;
+}
@@ -0,0 +1,165 @@
+/**
+ * Pinterest Catalog CSV Formatter
+ * Transforms Etsy listings into Pinterest catalog CSV format
+ * Reuses the Facebook catalog sanitizers; only Pinterest's field rules differ
+ */
+
+import {
+  escapeCSV,
+  formatPrice,
+  getAdditionalImageUrlList,
+  getListingVariants,
+  getPrimaryImageUrl,
+  getVariantAvailability,
+  isValidListing,
+  sanitizeDescription,
+  truncateTitle,
+} from '@/lib/facebook/catalog';
+import { isGoogleProductCategory, splitTaxonomyPath } from '@/lib/taxonomy/mapper';
+import { logWarn } from '@/lib/utils/logger';
+import type { EtsyListing } from '@/lib/etsy/types';
+import type { ListingCategory } from '@/lib/taxonomy/types';
+import type { PinterestProduct } from './types';
+
+/** Blob filename for the Pinterest catalog */
+export const PINTEREST_CATALOG_FILENAME = 'pinterest-catalog.csv';
+
+/** Maximum length for Pinterest product title */
+const MAX_TITLE_LENGTH = 500;
+
+/** Maximum length for Pinterest product description */
+const MAX_DESCRIPTION_LENGTH = 10000;
+
+/** Maximum additional images accepted by Pinterest */
+const MAX_ADDITIONAL_IMAGES = 10;
+
+/** Maximum number of levels Pinterest accepts in product_type */
+const MAX_PRODUCT_TYPE_LEVELS = 5;
+
+/** product_type used when a listing has no category (product_type is required) */
+const DEFAULT_PRODUCT_TYPE = 'Handmade';
+
+/** CSV column headers for the Pinterest catalog */
+const CSV_HEADERS = [
+  'id',
+  'item_group_id',
+  'title',
+  'description',
+  'link',
+  'image_link',
+  'additional_image_link',
+  'price',
+  'availability',
+  'condition',
+  'brand',
+  'product_type',
+  'google_product_category',
+  'size',
+  'color',
+] as const;
+
+/**
+ * Builds the Pinterest product_type
+ * Pinterest requires a value and accepts at most 5 levels, so deeper paths keep
+ * their first 5 levels and missing categories fall back to the Google category
+ * @param category - Resolved category fields
+ * @returns product_type value (never empty)
+ * @example
+ * formatPinterestProductType({ productType: 'Craft Supplies & Tools > Patterns & How To > Crochet', googleProductCategory: '' })
+ * // Returns: "Craft Supplies & Tools > Patterns & How To > Crochet"
+ */
+export function formatPinterestProductType(category?: ListingCategory): string {
+  const source = category?.productType || category?.googleProductCategory || DEFAULT_PRODUCT_TYPE;
+  return splitTaxonomyPath(source).slice(0, MAX_PRODUCT_TYPE_LEVELS).join(' > ');
+}
+
+/**
+ * Builds the Pinterest google_product_category
+ * Pinterest rejects items whose google_product_category is not from the Google taxonomy,
+ * so free-text values (e.g., from a shop override) are dropped
+ * @param listing - Etsy listing (for logging)
+ * @param category - Resolved category fields
+ * @returns Google product category, or an empty string if unmapped or invalid
+ */
+function formatPinterestGoogleCategory(listing: EtsyListing, category?: ListingCategory): string {
+  const value = category?.googleProductCategory ?? '';
+  if (!value) {
+    return '';
+  }
+
+  if (!isGoogleProductCategory(value)) {
+    logWarn('Dropping invalid google_product_category for Pinterest', {
+      listing_id: listing.listing_id,
+      google_product_category: value,
+    });
+    return '';
+  }
+
+  return value;
+}
+
+/**
+ * Transforms a single Etsy listing to Pinterest products
+ * Listings with inventory variations are expanded into one product per variant,
+ * using the same IDs and item_group_id as the Facebook catalog
+ * @param listing - Etsy listing to transform
+ * @param shopName - Shop brand name
+ * @param category - Resolved category fields (from resolveListingCategory)
+ * @returns Array of PinterestProduct objects (empty if listing is invalid)
+ */
+export function formatPinterestProducts(
+  listing: EtsyListing,
+  shopName: string,
+  category?: ListingCategory
+): PinterestProduct[] {
+  if (!isValidListing(listing)) {
+    return [];
+  }
+
+  const descriptionText = listing.description?.trim() || listing.title;
+
+  const title = truncateTitle(listing.title, MAX_TITLE_LENGTH);
+  const description = sanitizeDescription(descriptionText, MAX_DESCRIPTION_LENGTH);
+  const imageLink = getPrimaryImageUrl(listing);
+  const additionalImageLink = getAdditionalImageUrlList(listing, MAX_ADDITIONAL_IMAGES).join(',');
+  const productType = formatPinterestProductType(category);
+  const googleProductCategory = formatPinterestGoogleCategory(listing, category);
+
+  const variants = getListingVariants(listing);
+  const itemGroupId = variants.some((variant) => variant.isVariant)
+    ? listing.listing_id.toString()
+    : '';
+
+  return variants.map((variant) => ({
+    id: variant.id,
+    item_group_id: itemGroupId,
+    title,
+    description,
+    link: listing.url,
+    image_link: imageLink,
+    additional_image_link: additionalImageLink,
+    price: formatPrice(variant.price),
+    availability: getVariantAvailability(listing, variant),
+    condition: 'new',
+    brand: shopName,
+    product_type: productType,
+    google_product_category: googleProductCategory,
+    size: variant.size,
+    color: variant.color,
+  }));
+}
+
+/**
+ * Generates a Pinterest catalog CSV string
+ * @param products - Array of PinterestProduct objects
+ * @returns CSV string with headers and product rows
+ */
+export function generatePinterestCSV(products: PinterestProduct[]): string {
+  const rows: string[] = [CSV_HEADERS.join(',')];
+
+  for (const product of products) {
+    rows.push(CSV_HEADERS.map((header) => escapeCSV(product[header])).join(','));
+  }
+
+  return rows.join('\n');
+}
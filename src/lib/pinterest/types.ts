@@ -0,0 +1,45 @@
+/**
+ * Pinterest Catalog type definitions
+ * Based on the Pinterest catalog data source specification (CSV)
+ */
+
+/**
+ * Pinterest product availability status
+ */
+export type PinterestAvailability = 'in stock' | 'out of stock';
+
+/**
+ * Pinterest product for catalog CSV
+ * @property id - Unique product identifier (same IDs as the Facebook catalog)
+ * @property item_group_id - Shared ID for all variants of one listing (empty for single products)
+ * @property title - Product title (max 500 characters)
+ * @property description - Product description (max 10000 characters)
+ * @property link - URL to product page
+ * @property image_link - URL to main product image
+ * @property additional_image_link - Comma-separated URLs for additional images (up to 10)
+ * @property price - Formatted price with currency (e.g., "12.99 USD")
+ * @property availability - Stock status
+ * @property condition - Product condition
+ * @property brand - Brand name
+ * @property product_type - Category path (required by Pinterest, max 5 levels)
+ * @property google_product_category - Google product taxonomy path (empty if unmapped)
+ * @property size - Variant size (empty if not applicable)
+ * @property color - Variant color (empty if not applicable)
+ */
+export interface PinterestProduct {
+  id: string;
+  item_group_id: string;
+  title: string;
+  description: string;
+  link: string;
+  image_link: string;
+  additional_image_link: string;
+  price: string;
+  availability: PinterestAvailability;
+  condition: 'new';
+  brand: string;
+  product_type: string;
+  google_product_category: string;
+  size: string;
+  color: string;
+}
@@ -0,0 +1,481 @@
+/**
+ * Feed rules engine
+ * Evaluates declarative rules against each listing's products before the catalog is serialized.
+ * Rules are applied on every sync to the base products (as formatted by formatListing),
+ * so changing rules never requires re-fetching listings from Etsy.
+ */
+
+import { sanitizeDescription, truncateTitle } from '@/lib/facebook/catalog';
+import { ValidationError } from '@/lib/utils/errors';
+import { logWarn } from '@/lib/utils/logger';
+import type { EtsyListing } from '@/lib/etsy/types';
+import type { FacebookCondition, FacebookProduct } from '@/lib/facebook/types';
+import type {
+  FeedRule,
+  RuleAction,
+  RuleCondition,
+  RuleConditionField,
+  RuleFieldChange,
+  RuleOperator,
+  RulePreviewItem,
+  RuleTargetField,
+} from './types';
+
+/** Fields a condition can test */
+const CONDITION_FIELDS: readonly RuleConditionField[] = [
+  'tags',
+  'title',
+  'description',
+  'price',
+  'quantity',
+  'views',
+  'num_favorers',
+  'product_type',
+  'listing_type',
+  'is_digital',
+];
+
+/** Condition fields compared numerically */
+const NUMERIC_FIELDS: readonly RuleConditionField[] = ['price', 'quantity', 'views', 'num_favorers'];
+
+/** Supported operators */
+const OPERATORS: readonly RuleOperator[] = [
+  'contains',
+  'not_contains',
+  'equals',
+  'not_equals',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+];
+
+/** Operators that only apply to numeric fields */
+const NUMERIC_OPERATORS: readonly RuleOperator[] = ['gt', 'gte', 'lt', 'lte'];
+
+/** Fields an action can set */
+const TARGET_FIELDS: readonly RuleTargetField[] = [
+  'title',
+  'description',
+  'brand',
+  'condition',
+  'product_type',
+  'google_product_category',
+  'custom_label_0',
+  'custom_label_1',
+  'custom_label_2',
+  'custom_label_3',
+  'custom_label_4',
+];
+
+/** Valid values for the condition field */
+const CONDITIONS: readonly FacebookCondition[] = ['new', 'refurbished', 'used'];
+
+/** Placeholders available in action templates */
+const TEMPLATE_PLACEHOLDERS = [
+  'id',
+  'listing_id',
+  'title',
+  'description',
+  'brand',
+  'shop_name',
+  'price',
+  'size',
+  'color',
+  'product_type',
+  'google_product_category',
+  'custom_label_0',
+  'custom_label_1',
+  'custom_label_2',
+  'custom_label_3',
+  'custom_label_4',
+] as const;
+
+type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+
+/** Matches {placeholder} tokens in action templates */
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Parses the numeric amount from a formatted price (e.g., "12.99 USD" → 12.99)
+ */
+function parsePriceAmount(price: string): number {
+  return parseFloat(price);
+}
+
+/**
+ * Gets the value a condition tests
+ * @param field - Condition field
+ * @param listing - Etsy listing
+ * @param product - Product being evaluated (variant-level price and quantity)
+ */
+function getConditionValue(
+  field: RuleConditionField,
+  listing: EtsyListing,
+  product: FacebookProduct
+): string | string[] | number {
+  switch (field) {
+    case 'tags':
+      return listing.tags ?? [];
+    case 'title':
+      return listing.title ?? '';
+    case 'description':
+      return listing.description ?? '';
+    case 'price':
+      return parsePriceAmount(product.price);
+    case 'quantity':
+      return parseInt(product.quantity_to_sell_on_facebook, 10);
+    case 'views':
+      return listing.views ?? 0;
+    case 'num_favorers':
+      return listing.num_favorers ?? 0;
+    case 'product_type':
+      return product.product_type;
+    case 'listing_type':
+      return listing.listing_type ?? '';
+    case 'is_digital':
+      return listing.is_digital ? 'true' : 'false';
+  }
+}
+
+/**
+ * Checks whether a condition matches a product
+ * Text comparisons are case-insensitive; for tags, "contains"/"equals" match a whole tag
+ * @param condition - Condition to test
+ * @param listing - Etsy listing
+ * @param product - Product being evaluated
+ * @returns true if the condition matches
+ */
+export function matchesCondition(
+  condition: RuleCondition,
+  listing: EtsyListing,
+  product: FacebookProduct
+): boolean {
+  const actual = getConditionValue(condition.field, listing, product);
+
+  if (typeof actual === 'number') {
+    const expected = Number(condition.value);
+    if (Number.isNaN(actual) || Number.isNaN(expected)) {
+      return false;
+    }
+    switch (condition.operator) {
+      case 'equals':
+        return actual === expected;
+      case 'not_equals':
+        return actual !== expected;
+      case 'gt':
+        return actual > expected;
+      case 'gte':
+        return actual >= expected;
+      case 'lt':
+        return actual < expected;
+      case 'lte':
+        return actual <= expected;
+      default:
+        return false;
+    }
+  }
+
+  const expected = String(condition.value).toLowerCase();
+
+  if (Array.isArray(actual)) {
+    const hasTag = actual.some((tag) => tag.toLowerCase() === expected);
+    switch (condition.operator) {
+      case 'contains':
+      case 'equals':
+        return hasTag;
+      case 'not_contains':
+      case 'not_equals':
+        return !hasTag;
+      default:
+        return false;
+    }
+  }
+
+  const text = actual.toLowerCase();
+  switch (condition.operator) {
+    case 'contains':
+      return text.includes(expected);
+    case 'not_contains':
+      return !text.includes(expected);
+    case 'equals':
+      return text === expected;
+    case 'not_equals':
+      return text !== expected;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Renders an action template with the product's current values
+ * @param template - Template (e.g., "{title} | Crochet Pattern")
+ * @param product - Product being updated
+ * @param shopName - Shop name (the brand before any rule changed it)
+ * @returns Rendered value
+ * @example
+ * renderTemplate('{title} | Crochet Pattern', product, 'TabascoSunrise')
+ * // Returns: "Granny Square Blanket | Crochet Pattern"
+ */
+export function renderTemplate(template: string, product: FacebookProduct, shopName: string): string {
+  return template.replace(PLACEHOLDER_PATTERN, (token, name: string) => {
+    switch (name as TemplatePlaceholder) {
+      case 'shop_name':
+        return shopName;
+      case 'listing_id':
+        return product.item_group_id || product.id;
+      case 'id':
+      case 'title':
+      case 'description':
+      case 'brand':
+      case 'price':
+      case 'size':
+      case 'color':
+      case 'product_type':
+      case 'google_product_category':
+      case 'custom_label_0':
+      case 'custom_label_1':
+      case 'custom_label_2':
+      case 'custom_label_3':
+      case 'custom_label_4':
+        return product[name as keyof FacebookProduct];
+      default:
+        return token;
+    }
+  });
+}
+
+/**
+ * Applies a single action to a product (mutates the product)
+ * Rendered values are normalized with the same rules as formatListing
+ */
+function applyAction(product: FacebookProduct, action: RuleAction, shopName: string): void {
+  const value = renderTemplate(action.value, product, shopName);
+
+  switch (action.field) {
+    case 'title':
+      product.title = truncateTitle(value);
+      break;
+    case 'description':
+      product.description = sanitizeDescription(value);
+      break;
+    case 'condition':
+      if (CONDITIONS.includes(value as FacebookCondition)) {
+        product.condition = value as FacebookCondition;
+      } else {
+        logWarn('Ignoring invalid condition from feed rule', { id: product.id, value });
+      }
+      break;
+    default:
+      product[action.field] = value.trim();
+  }
+}
+
+/**
+ * Applies feed rules to the products of one listing
+ * Rules run in order, so later rules see (and may override) earlier rules' changes
+ * @param listing - Etsy listing the products were formatted from
+ * @param products - Base products from formatListing (not modified)
+ * @param rules - Feed rules
+ * @returns Products with rules applied (new objects)
+ */
+export function applyFeedRules(
+  listing: EtsyListing,
+  products: FacebookProduct[],
+  rules: FeedRule[]
+): FacebookProduct[] {
+  return evaluateFeedRules(listing, products, rules).map(({ product }) => product);
+}
+
+/**
+ * Applies rules to each product and records which rules matched
+ */
+function evaluateFeedRules(
+  listing: EtsyListing,
+  products: FacebookProduct[],
+  rules: FeedRule[]
+): Array<{ product: FacebookProduct; ruleIds: string[] }> {
+  const activeRules = rules.filter((rule) => rule.enabled !== false);
+
+  return products.map((base) => {
+    const product = { ...base };
+    const ruleIds: string[] = [];
+
+    for (const rule of activeRules) {
+      const matches = rule.conditions.every((condition) =>
+        matchesCondition(condition, listing, product)
+      );
+      if (!matches) {
+        continue;
+      }
+
+      ruleIds.push(rule.id);
+      for (const action of rule.actions) {
+        applyAction(product, action, base.brand);
+      }
+    }
+
+    return { product, ruleIds };
+  });
+}
+
+/**
+ * Previews the effect of rules on a set of listings without publishing anything
+ * @param entries - Listings with their base products (e.g., from the sync snapshot)
+ * @param rules - Rules to preview
+ * @returns One item per product matched by at least one rule
+ */
+export function previewFeedRules(
+  entries: Array<{ listing: EtsyListing; products: FacebookProduct[] }>,
+  rules: FeedRule[]
+): RulePreviewItem[] {
+  const items: RulePreviewItem[] = [];
+
+  for (const { listing, products } of entries) {
+    const results = evaluateFeedRules(listing, products, rules);
+
+    results.forEach(({ product, ruleIds }, index) => {
+      if (ruleIds.length === 0) {
+        return;
+      }
+
+      const base = products[index];
+      const changes: RuleFieldChange[] = TARGET_FIELDS
+        .filter((field) => base[field] !== product[field])
+        .map((field) => ({ field, before: base[field], after: product[field] }));
+
+      items.push({ id: base.id, title: base.title, ruleIds, changes });
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Validates a single condition
+ */
+function validateCondition(value: unknown, path: string): RuleCondition {
+  if (!value || typeof value !== 'object') {
+    throw new ValidationError(`${path} must be an object`);
+  }
+
+  const { field, operator, value: expected } = value as Record<string, unknown>;
+
+  if (!CONDITION_FIELDS.includes(field as RuleConditionField)) {
+    throw new ValidationError(`${path}.field must be one of: ${CONDITION_FIELDS.join(', ')}`);
+  }
+  if (!OPERATORS.includes(operator as RuleOperator)) {
+    throw new ValidationError(`${path}.operator must be one of: ${OPERATORS.join(', ')}`);
+  }
+
+  const isNumeric = NUMERIC_FIELDS.includes(field as RuleConditionField);
+  if (NUMERIC_OPERATORS.includes(operator as RuleOperator) && !isNumeric) {
+    throw new ValidationError(`${path}.operator "${operator}" only applies to numeric fields`);
+  }
+  if (typeof expected !== 'string' && typeof expected !== 'number') {
+    throw new ValidationError(`${path}.value must be a string or number`);
+  }
+  if (isNumeric && Number.isNaN(Number(expected))) {
+    throw new ValidationError(`${path}.value must be a number for field "${field}"`);
+  }
+
+  return {
+    field: field as RuleConditionField,
+    operator: operator as RuleOperator,
+    value: expected,
+  };
+}
+
+/**
+ * Validates a single action
+ */
+function validateAction(value: unknown, path: string): RuleAction {
+  if (!value || typeof value !== 'object') {
+    throw new ValidationError(`${path} must be an object`);
+  }
+
+  const { field, value: template } = value as Record<string, unknown>;
+
+  if (!TARGET_FIELDS.includes(field as RuleTargetField)) {
+    throw new ValidationError(`${path}.field must be one of: ${TARGET_FIELDS.join(', ')}`);
+  }
+  if (typeof template !== 'string') {
+    throw new ValidationError(`${path}.value must be a string`);
+  }
+
+  for (const [, name] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!TEMPLATE_PLACEHOLDERS.includes(name as TemplatePlaceholder)) {
+      throw new ValidationError(
+        `${path}.value uses unknown placeholder {${name}}; available: ${TEMPLATE_PLACEHOLDERS.map((p) => `{${p}}`).join(', ')}`
+      );
+    }
+  }
+
+  if (field === 'condition' && !CONDITIONS.includes(template as FacebookCondition)) {
+    throw new ValidationError(`${path}.value must be one of: ${CONDITIONS.join(', ')}`);
+  }
+
+  if ((field === 'title' || field === 'brand') && template.trim().length === 0) {
+    throw new ValidationError(`${path}.value must not be empty for field "${field}"`);
+  }
+
+  return { field: field as RuleTargetField, value: template };
+}
+
+/**
+ * Validates feed rules submitted through the API
+ * @param value - Parsed request body value
+ * @returns Normalized rules (missing IDs generated, unknown properties dropped)
+ * @throws ValidationError if the value is not a list of valid rules
+ */
+export function validateFeedRules(value: unknown): FeedRule[] {
+  if (!Array.isArray(value)) {
+    throw new ValidationError('rules must be an array');
+  }
+
+  const ids = new Set<string>();
+
+  return value.map((item, index) => {
+    const path = `rules[${index}]`;
+    if (!item || typeof item !== 'object') {
+      throw new ValidationError(`${path} must be an object`);
+    }
+
+    const { id, name, enabled, conditions = [], actions } = item as Record<string, unknown>;
+
+    const ruleId = typeof id === 'string' && id.trim() ? id.trim() : `rule-${index + 1}`;
+    if (ids.has(ruleId)) {
+      throw new ValidationError(`${path}.id "${ruleId}" is used by more than one rule`);
+    }
+    ids.add(ruleId);
+
+    if (name !== undefined && typeof name !== 'string') {
+      throw new ValidationError(`${path}.name must be a string`);
+    }
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      throw new ValidationError(`${path}.enabled must be a boolean`);
+    }
+    if (!Array.isArray(conditions)) {
+      throw new ValidationError(`${path}.conditions must be an array`);
+    }
+    if (!Array.isArray(actions) || actions.length === 0) {
+      throw new ValidationError(`${path}.actions must be a non-empty array`);
+    }
+
+    const rule: FeedRule = {
+      id: ruleId,
+      conditions: conditions.map((condition, i) =>
+        validateCondition(condition, `${path}.conditions[${i}]`)
+      ),
+      actions: actions.map((action, i) => validateAction(action, `${path}.actions[${i}]`)),
+    };
+    if (typeof name === 'string' && name.trim()) {
+      rule.name = name.trim();
+    }
+    if (enabled === false) {
+      rule.enabled = false;
+    }
+
+    return rule;
+  });
+}
@@ -0,0 +1,124 @@
+/**
+ * Feed rules type definitions
+ * Declarative rules that adjust Facebook catalog fields per listing
+ */
+
+/**
+ * Listing/product fields a rule condition can test
+ * - tags: Etsy listing tags (matches a whole tag, case-insensitive)
+ * - title, description: Etsy listing text (case-insensitive)
+ * - price: Variant price in currency units (e.g., 12.99)
+ * - quantity: Variant quantity
+ * - views, num_favorers: Etsy listing popularity counters
+ * - product_type: Resolved category path
+ * - listing_type: "physical", "download" or "both"
+ * - is_digital: "true" or "false"
+ */
+export type RuleConditionField =
+  | 'tags'
+  | 'title'
+  | 'description'
+  | 'price'
+  | 'quantity'
+  | 'views'
+  | 'num_favorers'
+  | 'product_type'
+  | 'listing_type'
+  | 'is_digital';
+
+/**
+ * Comparison operators for rule conditions
+ * gt/gte/lt/lte only apply to numeric fields
+ */
+export type RuleOperator =
+  | 'contains'
+  | 'not_contains'
+  | 'equals'
+  | 'not_equals'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte';
+
+/**
+ * Catalog fields a rule action can set
+ */
+export type RuleTargetField =
+  | 'title'
+  | 'description'
+  | 'brand'
+  | 'condition'
+  | 'product_type'
+  | 'google_product_category'
+  | 'custom_label_0'
+  | 'custom_label_1'
+  | 'custom_label_2'
+  | 'custom_label_3'
+  | 'custom_label_4';
+
+/**
+ * Condition tested against a listing and one of its products
+ * @property field - Field to test
+ * @property operator - Comparison operator
+ * @property value - Value to compare against
+ */
+export interface RuleCondition {
+  field: RuleConditionField;
+  operator: RuleOperator;
+  value: string | number;
+}
+
+/**
+ * Action that sets a catalog field
+ * @property field - Field to set
+ * @property value - Template for the new value; placeholders such as {title}, {brand} or
+ * {shop_name} are replaced with the product's current values
+ */
+export interface RuleAction {
+  field: RuleTargetField;
+  value: string;
+}
+
+/**
+ * Feed rule stored in Edge Config
+ * Rules run in order; a rule applies when all of its conditions match
+ * (a rule without conditions applies to every product)
+ * @property id - Stable rule identifier
+ * @property name - Optional human-readable name
+ * @property enabled - Disabled rules are skipped (default: true)
+ * @property conditions - Conditions that must all match
+ * @property actions - Field updates applied when the rule matches
+ */
+export interface FeedRule {
+  id: string;
+  name?: string;
+  enabled?: boolean;
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+}
+
+/**
+ * A single field changed by the rules
+ * @property field - Changed field
+ * @property before - Value before the rules ran
+ * @property after - Value after the rules ran
+ */
+export interface RuleFieldChange {
+  field: RuleTargetField;
+  before: string;
+  after: string;
+}
+
+/**
+ * Preview of the rules' effect on one product
+ * @property id - Product ID
+ * @property title - Product title before the rules ran
+ * @property ruleIds - IDs of the rules that matched
+ * @property changes - Fields changed by the rules
+ */
+export interface RulePreviewItem {
+  id: string;
+  title: string;
+  ruleIds: string[];
+  changes: RuleFieldChange[];
+}
@@ -0,0 +1,102 @@
+/**
+ * Storage backend selection
+ * Picks the blob and key-value stores from STORAGE_BACKEND (vercel, filesystem or memory; default
+ * vercel). The filesystem backend keeps its data under STORAGE_DIR (default .storage).
+ */
+
+import { ConfigError } from '@/lib/utils/errors';
+import { logInfo } from '@/lib/utils/logger';
+import { createFilesystemBlobStore, createFilesystemKeyValueStore } from './filesystem';
+import { createMemoryBlobStore, createMemoryKeyValueStore } from './memory';
+import type { BlobStore, KeyValueStore, StorageBackend } from './types';
+import { createVercelBlobStore, createVercelKeyValueStore } from './vercel';
+
+/** Backend used when STORAGE_BACKEND is not set */
+const DEFAULT_STORAGE_BACKEND: StorageBackend = 'vercel';
+
+/** Directory used by the filesystem backend when STORAGE_DIR is not set */
+const DEFAULT_STORAGE_DIR = '.storage';
+
+const STORAGE_BACKENDS: StorageBackend[] = ['vercel', 'filesystem', 'memory'];
+
+/**
+ * Stores of one backend
+ */
+interface StorageStores {
+  blob: BlobStore;
+  keyValue: KeyValueStore;
+}
+
+/** Stores created in this instance, so in-memory data lives as long as the process */
+const stores = new Map<StorageBackend, StorageStores>();
+
+/**
+ * Reads the storage backend from the STORAGE_BACKEND environment variable
+ *
+ * @returns Selected backend
+ * @throws ConfigError if STORAGE_BACKEND names an unknown backend
+ */
+export function getStorageBackend(): StorageBackend {
+  const value = process.env.STORAGE_BACKEND?.trim().toLowerCase();
+  if (!value) {
+    return DEFAULT_STORAGE_BACKEND;
+  }
+  if (!STORAGE_BACKENDS.includes(value as StorageBackend)) {
+    throw new ConfigError(
+      `Unknown STORAGE_BACKEND "${process.env.STORAGE_BACKEND}". Use one of: ${STORAGE_BACKENDS.join(', ')}.`
+    );
+  }
+  return value as StorageBackend;
+}
+
+/**
+ * Creates the stores of a backend
+ */
+function createStores(backend: StorageBackend): StorageStores {
+  switch (backend) {
+    case 'filesystem': {
+      const dir = process.env.STORAGE_DIR || DEFAULT_STORAGE_DIR;
+      logInfo('Using local filesystem storage', { dir });
+      return {
+        blob: createFilesystemBlobStore(`${dir}/blobs`),
+        keyValue: createFilesystemKeyValueStore(`${dir}/kv`),
+      };
+    }
+    case 'memory':
+      logInfo('Using in-memory storage');
+      return { blob: createMemoryBlobStore(), keyValue: createMemoryKeyValueStore() };
+    case 'vercel':
+      return { blob: createVercelBlobStore(), keyValue: createVercelKeyValueStore() };
+  }
+}
+
+/**
+ * Get the stores of the configured backend
+ */
+function getStores(): StorageStores {
+  const backend = getStorageBackend();
+  let backendStores = stores.get(backend);
+  if (!backendStores) {
+    backendStores = createStores(backend);
+    stores.set(backend, backendStores);
+  }
+  return backendStores;
+}
+
+/**
+ * Get the blob store for feed files and JSON state
+ *
+ * @throws ConfigError if STORAGE_BACKEND names an unknown backend
+ */
+export function getBlobStore(): BlobStore {
+  return getStores().blob;
+}
+
+/**
+ * Get the key-value store for tokens, OAuth state, settings and sync metadata
+ *
+ * @throws ConfigError if STORAGE_BACKEND names an unknown backend
+ */
+export function getKeyValueStore(): KeyValueStore {
+  return getStores().keyValue;
+}
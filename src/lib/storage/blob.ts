@@ -1,17 +1,20 @@
 /**
- * Vercel Blob storage operations
- * Handles uploading and managing CSV files for Facebook catalog
+ * Blob storage operations
+ * Handles uploading and managing feed files (Facebook catalog CSV, Google Merchant XML),
+ * plus JSON state files used between syncs
+ *
+ * Files go through the configured BlobStore (Vercel Blob by default; see backend.ts)
  */
 
-import { put, del, list } from '@vercel/blob';
 import { StorageError } from '@/lib/utils/errors';
 import { logInfo, logError } from '@/lib/utils/logger';
+import { getBlobStore } from './backend';
 
 /**
- * Result of fetching the CSV from Blob storage
+ * Result of fetching a feed file (CSV, XML) from Blob storage
  */
 export interface CSVFetchResult {
-  /** The CSV content */
+  /** The file content */
   content: string;
   /** The blob URL */
   url: string;
@@ -19,13 +22,43 @@ export interface CSVFetchResult {
   uploadedAt: Date;
 }
 
+/**
+ * Result of fetching a JSON document from Blob storage
+ * @template T - Type of the parsed document
+ */
+export interface JSONFetchResult<T> {
+  /** The parsed JSON document */
+  data: T;
+  /** The blob URL */
+  url: string;
+  /** When the blob was uploaded */
+  uploadedAt: Date;
+}
+
 /**
  * Default filename for the Facebook catalog CSV
  */
 const CATALOG_FILENAME = 'facebook-catalog.csv';
 
 /**
- * Upload CSV content to Vercel Blob storage
+ * Content type for CSV feed files
+ */
+const CSV_CONTENT_TYPE = 'text/csv; charset=utf-8';
+
+/**
+ * Cache max-age (seconds) for feed files
+ */
+const FEED_CACHE_MAX_AGE = 3600;
+
+/**
+ * Cache max-age (seconds) for JSON state files
+ * Kept at the Blob minimum for anything reading the public URL; reads through the blob store itself
+ * always see the latest upload
+ */
+const JSON_CACHE_MAX_AGE = 60;
+
+/**
+ * Upload CSV content to Blob storage
  * Replaces any existing file with the same name
  *
  * @param csvContent - The CSV string content to upload
@@ -45,34 +78,58 @@ export async function uploadCSV(
     throw new StorageError('CSV content must be a non-empty string', 'INVALID_CSV_CONTENT');
   }
 
-  logInfo('Uploading CSV to Blob storage', { filename, contentLength: csvContent.length });
+  return uploadFeedFile(filename, csvContent, CSV_CONTENT_TYPE);
+}
+
+/**
+ * Upload a feed file to Blob storage
+ * Replaces any existing file with the same name and keeps a consistent public URL
+ *
+ * @param filename - Blob pathname (e.g., google-merchant.xml)
+ * @param content - File content
+ * @param contentType - MIME type served with the file (e.g., application/xml; charset=utf-8)
+ * @returns The public URL of the uploaded file
+ * @throws StorageError if the upload fails
+ *
+ * @example
+ * const url = await uploadFeedFile('google-merchant.xml', xml, 'application/xml; charset=utf-8');
+ */
+export async function uploadFeedFile(
+  filename: string,
+  content: string,
+  contentType: string
+): Promise<string> {
+  if (!content || typeof content !== 'string') {
+    throw new StorageError('Feed content must be a non-empty string', 'INVALID_FEED_CONTENT');
+  }
+
+  logInfo('Uploading feed file to Blob storage', {
+    filename,
+    contentType,
+    contentLength: content.length,
+  });
 
   try {
-    // Upload to Blob storage with public access
-    // Using 'addRandomSuffix: false' to keep a consistent URL
-    // allowOverwrite: true to replace existing file, the behavior needed for a single updated catalog
-    const blob = await put(filename, csvContent, {
-      contentType: 'text/csv; charset=utf-8',
-      access: 'public',
-      addRandomSuffix: false,
-      cacheControlMaxAge: 3600,
-      allowOverwrite: true,
+    // Replaces any existing file and keeps a consistent URL, the behavior needed for a single updated feed
+    const url = await getBlobStore().put(filename, content, {
+      contentType,
+      cacheControlMaxAge: FEED_CACHE_MAX_AGE,
     });
 
-    logInfo('CSV uploaded successfully', {
-      url: blob.url,
-      size: csvContent.length,
+    logInfo('Feed file uploaded successfully', {
+      url,
+      size: content.length,
     });
 
-    return blob.url;
+    return url;
   } catch (error) {
-    logError('Failed to upload CSV to Blob storage', {
+    logError('Failed to upload feed file to Blob storage', {
       error: error instanceof Error ? error.message : 'Unknown error',
       filename,
     });
 
     throw new StorageError(
-      `Failed to upload CSV to Blob storage: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      `Failed to upload ${filename} to Blob storage: ${error instanceof Error ? error.message : 'Unknown error'}`,
       'BLOB_UPLOAD_ERROR',
       error instanceof Error ? error : undefined
     );
@@ -80,7 +137,7 @@ export async function uploadCSV(
 }
 
 /**
- * Delete a file from Vercel Blob storage
+ * Delete a file from Blob storage
  *
  * @param url - The URL of the blob to delete
  * @throws StorageError if the deletion fails
@@ -96,7 +153,7 @@ export async function deleteBlob(url: string): Promise<void> {
   logInfo('Deleting blob from storage', { url });
 
   try {
-    await del(url);
+    await getBlobStore().delete(url);
     logInfo('Blob deleted successfully', { url });
   } catch (error) {
     logError('Failed to delete blob from storage', {
@@ -113,8 +170,35 @@ export async function deleteBlob(url: string): Promise<void> {
 }
 
 /**
- * Fetch the CSV content from Vercel Blob storage
- * Uses the list function to find the catalog file and then fetches its content
+ * List the files under a prefix in Blob storage
+ *
+ * @param prefix - Pathname prefix (e.g., listing-overrides/)
+ * @returns Pathnames in ascending order
+ * @throws StorageError if the listing fails
+ *
+ * @example
+ * const pathnames = await listBlobs('listing-overrides/');
+ * // Returns: ['listing-overrides/1234567890.json', ...]
+ */
+export async function listBlobs(prefix: string): Promise<string[]> {
+  try {
+    return await getBlobStore().list(prefix);
+  } catch (error) {
+    logError('Failed to list blobs in storage', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      prefix,
+    });
+
+    throw new StorageError(
+      `Failed to list blobs under ${prefix}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'BLOB_LIST_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Fetch the CSV content from Blob storage
  *
  * @param filename - Optional filename (default: facebook-catalog.csv)
  * @returns CSV content, URL, and upload timestamp, or null if not found
@@ -130,83 +214,149 @@ export async function deleteBlob(url: string): Promise<void> {
 export async function getCSV(
   filename: string = CATALOG_FILENAME
 ): Promise<CSVFetchResult | null> {
-  logInfo('Fetching CSV from Blob storage', { filename });
+  return getFeedFile(filename);
+}
+
+/**
+ * Fetch a feed file from Blob storage
+ *
+ * @param filename - Blob pathname (e.g., google-merchant.xml)
+ * @returns File content, URL, and upload timestamp, or null if not found
+ * @throws StorageError if the fetch fails (but not if file doesn't exist)
+ *
+ * @example
+ * const result = await getFeedFile('google-merchant.xml');
+ */
+export async function getFeedFile(filename: string): Promise<CSVFetchResult | null> {
+  logInfo('Fetching feed file from Blob storage', { filename });
 
   try {
-    // List blobs to find the catalog file
-    const { blobs } = await list({
-      prefix: filename,
-      limit: 1,
-    });
+    const result = await getBlobStore().get(filename);
 
-    // Check if the file exists
-    if (blobs.length === 0) {
-      logInfo('CSV not found in Blob storage', { filename });
-      return null;
+    if (result) {
+      logInfo('Feed file fetched successfully', {
+        url: result.url,
+        size: result.content.length,
+        uploadedAt: result.uploadedAt.toISOString(),
+      });
+    }
+
+    return result;
+  } catch (error) {
+    // Re-throw StorageErrors as-is (already properly formatted)
+    if (error instanceof StorageError) {
+      throw error;
     }
 
-    const blob = blobs[0];
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logError('Failed to fetch feed file from Blob storage', {
+      error: errorMessage,
+      filename,
+    });
 
-    // Verify we have an exact match (prefix might match partial names)
-    if (blob.pathname !== filename) {
-      logInfo('CSV not found in Blob storage (partial match only)', {
-        filename,
-        foundPathname: blob.pathname,
-      });
+    throw new StorageError(
+      `Failed to fetch ${filename} from Blob storage: ${errorMessage}`,
+      'BLOB_FETCH_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Upload a JSON document to Blob storage
+ * Replaces any existing file with the same name
+ * Used for state that must survive between syncs (e.g., the listing snapshot)
+ *
+ * @param filename - Blob pathname (e.g., sync-snapshot.json)
+ * @param data - Serializable data to store
+ * @returns The public URL of the uploaded file
+ * @throws StorageError if the upload fails
+ *
+ * @example
+ * await uploadJSON('sync-snapshot.json', snapshot);
+ */
+export async function uploadJSON(filename: string, data: unknown): Promise<string> {
+  const content = JSON.stringify(data);
+
+  logInfo('Uploading JSON to Blob storage', { filename, contentLength: content.length });
+
+  try {
+    const url = await getBlobStore().put(filename, content, {
+      contentType: 'application/json; charset=utf-8',
+      cacheControlMaxAge: JSON_CACHE_MAX_AGE,
+    });
+
+    logInfo('JSON uploaded successfully', { url, size: content.length });
+
+    return url;
+  } catch (error) {
+    logError('Failed to upload JSON to Blob storage', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      filename,
+    });
+
+    throw new StorageError(
+      `Failed to upload JSON to Blob storage: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'BLOB_UPLOAD_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Fetch and parse a JSON document from Blob storage
+ *
+ * @template T - Expected document type
+ * @param filename - Blob pathname (e.g., sync-snapshot.json)
+ * @returns Parsed document, URL, and upload timestamp, or null if not found
+ * @throws StorageError if the fetch fails or the content is not valid JSON
+ *
+ * @example
+ * const result = await getJSON<SyncSnapshot>('sync-snapshot.json');
+ * if (result) {
+ *   console.log(result.data.createdAt);
+ * }
+ */
+export async function getJSON<T>(filename: string): Promise<JSONFetchResult<T> | null> {
+  logInfo('Fetching JSON from Blob storage', { filename });
+
+  try {
+    const result = await getBlobStore().get(filename);
+    if (!result) {
       return null;
     }
 
-    // Fetch the actual CSV content from the blob URL
-    let response: Response;
+    let data: T;
     try {
-      response = await fetch(blob.url);
-    } catch (fetchError) {
-      const errorMessage = fetchError instanceof Error ? fetchError.message : 'Unknown network error';
-      logError('Network error fetching blob content', {
-        error: errorMessage,
-        url: blob.url,
-      });
+      data = JSON.parse(result.content) as T;
+    } catch (parseError) {
       throw new StorageError(
-        `Network error fetching blob content: ${errorMessage}`,
-        'BLOB_NETWORK_ERROR',
-        fetchError instanceof Error ? fetchError : undefined
+        `Blob content is not valid JSON: ${filename}`,
+        'BLOB_INVALID_JSON',
+        parseError instanceof Error ? parseError : undefined
       );
     }
 
-    if (!response.ok) {
-      throw new StorageError(
-        `Failed to fetch blob content: ${response.status} ${response.statusText}`,
-        'BLOB_FETCH_ERROR'
-      );
-    }
-
-    const content = await response.text();
-
-    logInfo('CSV fetched successfully', {
-      url: blob.url,
-      size: content.length,
-      uploadedAt: blob.uploadedAt.toISOString(),
+    logInfo('JSON fetched successfully', {
+      url: result.url,
+      size: result.content.length,
+      uploadedAt: result.uploadedAt.toISOString(),
     });
 
-    return {
-      content,
-      url: blob.url,
-      uploadedAt: blob.uploadedAt,
-    };
+    return { data, url: result.url, uploadedAt: result.uploadedAt };
   } catch (error) {
-    // Re-throw StorageErrors as-is (already properly formatted)
     if (error instanceof StorageError) {
       throw error;
     }
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    logError('Failed to fetch CSV from Blob storage', {
+    logError('Failed to fetch JSON from Blob storage', {
       error: errorMessage,
       filename,
     });
 
     throw new StorageError(
-      `Failed to fetch CSV from Blob storage: ${errorMessage}`,
+      `Failed to fetch JSON from Blob storage: ${errorMessage}`,
       'BLOB_FETCH_ERROR',
       error instanceof Error ? error : undefined
     );
@@ -1,34 +1,22 @@
 /**
- * Edge Config storage operations
- * Centralizes all Edge Config read/write operations for the application
+ * Key-value storage operations
+ * Centralizes all reads and writes of small application state (tokens, OAuth state, settings,
+ * sync metadata)
  *
- * Uses @vercel/edge-config SDK with the EDGE_CONFIG environment variable
- * (automatically set by Vercel when Edge Config is connected to the project)
+ * Values go through the configured KeyValueStore: Edge Config by default (EDGE_CONFIG for reads,
+ * EDGE_CONFIG_ID and EDGE_CONFIG_TOKEN for writes), or local files / memory (see backend.ts)
  */
 
-import { createClient } from '@vercel/edge-config';
 import { StorageError } from '@/lib/utils/errors';
 import { logInfo, logError } from '@/lib/utils/logger';
 import type { OAuthStateData } from '@/lib/etsy/oauth';
 import type { EtsyTokens, RateLimitState } from '@/lib/etsy/types';
+import type { CustomLabelConfig, ShopSale } from '@/lib/facebook/types';
+import type { ListingFilter } from '@/lib/filters/types';
+import type { FeedRule } from '@/lib/rules/types';
+import type { TaxonomyOverride } from '@/lib/taxonomy/types';
 import type { SyncMetadata } from '@/types';
-
-/**
- * Get the Edge Config client
- * Uses the EDGE_CONFIG environment variable which is automatically set by Vercel
- */
-function getEdgeConfigClient() {
-  const connectionString = process.env.EDGE_CONFIG;
-
-  if (!connectionString) {
-    throw new StorageError(
-      'Edge Config is not configured. Ensure EDGE_CONFIG environment variable is set.',
-      'EDGE_CONFIG_NOT_CONFIGURED'
-    );
-  }
-
-  return createClient(connectionString);
-}
+import { getKeyValueStore } from './backend';
 
 /**
  * Store OAuth state data for the authorization flow
@@ -42,10 +30,8 @@ export async function storeOAuthState(state: string, data: OAuthStateData): Prom
   const key = `oauth_state_${state}`;
 
   try {
-    // Note: @vercel/edge-config client is read-only
-    // For write operations, we use the Vercel API directly
-    await writeToEdgeConfig(key, data);
-    logInfo('OAuth state stored in Edge Config', { key });
+    await getKeyValueStore().set(key, data);
+    logInfo('OAuth state stored', { key });
   } catch (error) {
     if (error instanceof StorageError) {
       throw error;
@@ -54,7 +40,7 @@ export async function storeOAuthState(state: string, data: OAuthStateData): Prom
       error: error instanceof Error ? error.message : 'Unknown error',
     });
     throw new StorageError(
-      'Failed to store OAuth state in Edge Config',
+      'Failed to store OAuth state',
       'EDGE_CONFIG_WRITE_ERROR',
       error instanceof Error ? error : undefined
     );
@@ -71,15 +57,14 @@ export async function getOAuthState(state: string): Promise<OAuthStateData | nul
   const key = `oauth_state_${state}`;
 
   try {
-    const client = getEdgeConfigClient();
-    const data = await client.get<OAuthStateData>(key);
+    const data = await getKeyValueStore().get<OAuthStateData>(key);
     return data ?? null;
   } catch (error) {
     logError('Failed to retrieve OAuth state', {
       error: error instanceof Error ? error.message : 'Unknown error',
     });
     throw new StorageError(
-      'Failed to retrieve OAuth state from Edge Config',
+      'Failed to retrieve OAuth state',
       'EDGE_CONFIG_READ_ERROR',
       error instanceof Error ? error : undefined
     );
@@ -95,8 +80,8 @@ export async function deleteOAuthState(state: string): Promise<void> {
   const key = `oauth_state_${state}`;
 
   try {
-    await deleteFromEdgeConfig(key);
-    logInfo('OAuth state deleted from Edge Config', { key });
+    await getKeyValueStore().delete(key);
+    logInfo('OAuth state deleted', { key });
   } catch (error) {
     // Log but don't throw - cleanup failure shouldn't break the flow
     logError('Failed to delete OAuth state', {
@@ -112,14 +97,14 @@ export async function deleteOAuthState(state: string): Promise<void> {
  */
 export async function storeEtsyTokens(tokens: EtsyTokens): Promise<void> {
   try {
-    await writeToEdgeConfig('etsy_tokens', tokens);
-    logInfo('Etsy tokens stored in Edge Config');
+    await getKeyValueStore().set('etsy_tokens', tokens);
+    logInfo('Etsy tokens stored');
   } catch (error) {
     logError('Failed to store Etsy tokens', {
       error: error instanceof Error ? error.message : 'Unknown error',
     });
     throw new StorageError(
-      'Failed to store Etsy tokens in Edge Config',
+      'Failed to store Etsy tokens',
       'EDGE_CONFIG_WRITE_ERROR',
       error instanceof Error ? error : undefined
     );
@@ -133,15 +118,14 @@ export async function storeEtsyTokens(tokens: EtsyTokens): Promise<void> {
  */
 export async function getEtsyTokens(): Promise<EtsyTokens | null> {
   try {
-    const client = getEdgeConfigClient();
-    const data = await client.get<EtsyTokens>('etsy_tokens');
+    const data = await getKeyValueStore().get<EtsyTokens>('etsy_tokens');
     return data ?? null;
   } catch (error) {
     logError('Failed to retrieve Etsy tokens', {
       error: error instanceof Error ? error.message : 'Unknown error',
     });
     throw new StorageError(
-      'Failed to retrieve Etsy tokens from Edge Config',
+      'Failed to retrieve Etsy tokens',
       'EDGE_CONFIG_READ_ERROR',
       error instanceof Error ? error : undefined
     );
@@ -185,7 +169,7 @@ interface EtsyRefreshTokenResponse {
 /**
  * Refresh the Etsy access token using the refresh token
  * Sends a POST request to the Etsy OAuth token endpoint
- * and updates the stored tokens in Edge Config
+ * and updates the stored tokens
  *
  * @param currentTokens - Current Etsy tokens including refresh_token
  * @returns Updated Etsy tokens with new access_token and expires_at
@@ -255,7 +239,7 @@ export async function refreshAccessToken(currentTokens: EtsyTokens): Promise<Ets
       expires_at: expiresAt,
     };
 
-    // Store updated tokens in Edge Config
+    // Store updated tokens
     await storeEtsyTokens(updatedTokens);
 
     logInfo('Successfully refreshed Etsy access token', {
@@ -279,108 +263,20 @@ export async function refreshAccessToken(currentTokens: EtsyTokens): Promise<Ets
 }
 
 /**
- * Internal helper to write data to Edge Config
- * Uses the Vercel API since the SDK is read-only
- */
-async function writeToEdgeConfig(key: string, value: unknown): Promise<void> {
-  const edgeConfigId = process.env.EDGE_CONFIG_ID;
-  const edgeConfigToken = process.env.EDGE_CONFIG_TOKEN;
-
-  if (!edgeConfigId || !edgeConfigToken) {
-    throw new StorageError(
-      'Edge Config write credentials not configured. Set EDGE_CONFIG_ID and EDGE_CONFIG_TOKEN.',
-      'EDGE_CONFIG_WRITE_NOT_CONFIGURED'
-    );
-  }
-
-  const response = await fetch(
-    `https://api.vercel.com/v1/edge-config/${edgeConfigId}/items`,
-    {
-      method: 'PATCH',
-      headers: {
-        Authorization: `Bearer ${edgeConfigToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        items: [
-          {
-            operation: 'upsert',
-            key,
-            value,
-          },
-        ],
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new StorageError(
-      `Edge Config write failed: ${errorText}`,
-      'EDGE_CONFIG_WRITE_ERROR'
-    );
-  }
-}
-
-/**
- * Internal helper to delete data from Edge Config
- * Uses the Vercel API since the SDK is read-only
- */
-async function deleteFromEdgeConfig(key: string): Promise<void> {
-  const edgeConfigId = process.env.EDGE_CONFIG_ID;
-  const edgeConfigToken = process.env.EDGE_CONFIG_TOKEN;
-
-  if (!edgeConfigId || !edgeConfigToken) {
-    throw new StorageError(
-      'Edge Config write credentials not configured. Set EDGE_CONFIG_ID and EDGE_CONFIG_TOKEN.',
-      'EDGE_CONFIG_WRITE_NOT_CONFIGURED'
-    );
-  }
-
-  const response = await fetch(
-    `https://api.vercel.com/v1/edge-config/${edgeConfigId}/items`,
-    {
-      method: 'PATCH',
-      headers: {
-        Authorization: `Bearer ${edgeConfigToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        items: [
-          {
-            operation: 'delete',
-            key,
-          },
-        ],
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new StorageError(
-      `Edge Config delete failed: ${errorText}`,
-      'EDGE_CONFIG_DELETE_ERROR'
-    );
-  }
-}
-
-/**
- * Get rate limit state from Edge Config
+ * Get rate limit state
  *
  * @returns Rate limit state or null if not found
  */
 export async function getRateLimitState(): Promise<RateLimitState | null> {
   try {
-    const client = getEdgeConfigClient();
-    const data = await client.get<RateLimitState>('rate_limit_state');
+    const data = await getKeyValueStore().get<RateLimitState>('rate_limit_state');
     return data ?? null;
   } catch (error) {
     logError('Failed to retrieve rate limit state', {
       error: error instanceof Error ? error.message : 'Unknown error',
     });
     throw new StorageError(
-      'Failed to retrieve rate limit state from Edge Config',
+      'Failed to retrieve rate limit state',
       'EDGE_CONFIG_READ_ERROR',
       error instanceof Error ? error : undefined
     );
@@ -388,20 +284,20 @@ export async function getRateLimitState(): Promise<RateLimitState | null> {
 }
 
 /**
- * Store rate limit state in Edge Config
+ * Store rate limit state
  *
  * @param state - Rate limit state to store
  */
 export async function storeRateLimitState(state: RateLimitState): Promise<void> {
   try {
-    await writeToEdgeConfig('rate_limit_state', state);
-    logInfo('Rate limit state stored in Edge Config');
+    await getKeyValueStore().set('rate_limit_state', state);
+    logInfo('Rate limit state stored');
   } catch (error) {
     logError('Failed to store rate limit state', {
       error: error instanceof Error ? error.message : 'Unknown error',
     });
     throw new StorageError(
-      'Failed to store rate limit state in Edge Config',
+      'Failed to store rate limit state',
       'EDGE_CONFIG_WRITE_ERROR',
       error instanceof Error ? error : undefined
     );
@@ -425,8 +321,8 @@ export async function storeRateLimitState(state: RateLimitState): Promise<void>
  */
 export async function storeSyncMetadata(metadata: SyncMetadata): Promise<void> {
   try {
-    await writeToEdgeConfig('last_sync_metadata', metadata);
-    logInfo('Sync metadata stored in Edge Config', {
+    await getKeyValueStore().set('last_sync_metadata', metadata);
+    logInfo('Sync metadata stored', {
       timestamp: metadata.timestamp,
       status: metadata.status,
       listingsCount: metadata.listingsCount,
@@ -436,7 +332,7 @@ export async function storeSyncMetadata(metadata: SyncMetadata): Promise<void> {
       error: error instanceof Error ? error.message : 'Unknown error',
     });
     throw new StorageError(
-      'Failed to store sync metadata in Edge Config',
+      'Failed to store sync metadata',
       'EDGE_CONFIG_WRITE_ERROR',
       error instanceof Error ? error : undefined
     );
@@ -450,15 +346,233 @@ export async function storeSyncMetadata(metadata: SyncMetadata): Promise<void> {
  */
 export async function getSyncMetadata(): Promise<SyncMetadata | null> {
   try {
-    const client = getEdgeConfigClient();
-    const data = await client.get<SyncMetadata>('last_sync_metadata');
+    const data = await getKeyValueStore().get<SyncMetadata>('last_sync_metadata');
     return data ?? null;
   } catch (error) {
     logError('Failed to retrieve sync metadata', {
       error: error instanceof Error ? error.message : 'Unknown error',
     });
     throw new StorageError(
-      'Failed to retrieve sync metadata from Edge Config',
+      'Failed to retrieve sync metadata',
+      'EDGE_CONFIG_READ_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Store shop-level taxonomy overrides
+ * Replaces the full list of overrides
+ *
+ * @param overrides - Category overrides keyed by taxonomy ID or category path prefix
+ * @throws StorageError if the operation fails
+ */
+export async function storeTaxonomyOverrides(overrides: TaxonomyOverride[]): Promise<void> {
+  try {
+    await getKeyValueStore().set('taxonomy_overrides', overrides);
+    logInfo('Taxonomy overrides stored', { count: overrides.length });
+  } catch (error) {
+    logError('Failed to store taxonomy overrides', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError(
+      'Failed to store taxonomy overrides',
+      'EDGE_CONFIG_WRITE_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Retrieve shop-level taxonomy overrides
+ *
+ * @returns Category overrides (empty array if none are stored)
+ */
+export async function getTaxonomyOverrides(): Promise<TaxonomyOverride[]> {
+  try {
+    const data = await getKeyValueStore().get<TaxonomyOverride[]>('taxonomy_overrides');
+    return data ?? [];
+  } catch (error) {
+    logError('Failed to retrieve taxonomy overrides', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError(
+      'Failed to retrieve taxonomy overrides',
+      'EDGE_CONFIG_READ_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Store feed rules
+ * Replaces the full list of rules
+ *
+ * @param rules - Validated feed rules (evaluated in order)
+ * @throws StorageError if the operation fails
+ */
+export async function storeFeedRules(rules: FeedRule[]): Promise<void> {
+  try {
+    await getKeyValueStore().set('feed_rules', rules);
+    logInfo('Feed rules stored', { count: rules.length });
+  } catch (error) {
+    logError('Failed to store feed rules', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError(
+      'Failed to store feed rules',
+      'EDGE_CONFIG_WRITE_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Retrieve feed rules
+ *
+ * @returns Feed rules (empty array if none are stored)
+ */
+export async function getFeedRules(): Promise<FeedRule[]> {
+  try {
+    const data = await getKeyValueStore().get<FeedRule[]>('feed_rules');
+    return data ?? [];
+  } catch (error) {
+    logError('Failed to retrieve feed rules', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError(
+      'Failed to retrieve feed rules',
+      'EDGE_CONFIG_READ_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Store the custom label configuration
+ *
+ * @param config - Validated label configuration
+ * @throws StorageError if the operation fails
+ */
+export async function storeCustomLabelConfig(config: CustomLabelConfig): Promise<void> {
+  try {
+    await getKeyValueStore().set('custom_label_config', config);
+    logInfo('Custom label config stored');
+  } catch (error) {
+    logError('Failed to store custom label config', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError(
+      'Failed to store custom label config',
+      'EDGE_CONFIG_WRITE_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Retrieve the custom label configuration
+ *
+ * @returns Stored label configuration or null if the defaults are in use
+ */
+export async function getCustomLabelConfig(): Promise<CustomLabelConfig | null> {
+  try {
+    const data = await getKeyValueStore().get<CustomLabelConfig>('custom_label_config');
+    return data ?? null;
+  } catch (error) {
+    logError('Failed to retrieve custom label config', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError(
+      'Failed to retrieve custom label config',
+      'EDGE_CONFIG_READ_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Store shop sales
+ * Replaces the full list of sales
+ *
+ * @param sales - Validated shop sales
+ * @throws StorageError if the operation fails
+ */
+export async function storeShopSales(sales: ShopSale[]): Promise<void> {
+  try {
+    await getKeyValueStore().set('shop_sales', sales);
+    logInfo('Shop sales stored', { count: sales.length });
+  } catch (error) {
+    logError('Failed to store shop sales', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError(
+      'Failed to store shop sales',
+      'EDGE_CONFIG_WRITE_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Retrieve shop sales
+ *
+ * @returns Shop sales (empty array if none are stored)
+ */
+export async function getShopSales(): Promise<ShopSale[]> {
+  try {
+    const data = await getKeyValueStore().get<ShopSale[]>('shop_sales');
+    return data ?? [];
+  } catch (error) {
+    logError('Failed to retrieve shop sales', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError(
+      'Failed to retrieve shop sales',
+      'EDGE_CONFIG_READ_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Store listing filters
+ * Replaces the full list of filters
+ *
+ * @param filters - Validated listing filters
+ * @throws StorageError if the operation fails
+ */
+export async function storeListingFilters(filters: ListingFilter[]): Promise<void> {
+  try {
+    await getKeyValueStore().set('listing_filters', filters);
+    logInfo('Listing filters stored', { count: filters.length });
+  } catch (error) {
+    logError('Failed to store listing filters', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError(
+      'Failed to store listing filters',
+      'EDGE_CONFIG_WRITE_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Retrieve listing filters
+ *
+ * @returns Listing filters (empty array if none are stored)
+ */
+export async function getListingFilters(): Promise<ListingFilter[]> {
+  try {
+    const data = await getKeyValueStore().get<ListingFilter[]>('listing_filters');
+    return data ?? [];
+  } catch (error) {
+    logError('Failed to retrieve listing filters', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw new StorageError(
+      'Failed to retrieve listing filters',
       'EDGE_CONFIG_READ_ERROR',
       error instanceof Error ? error : undefined
     );
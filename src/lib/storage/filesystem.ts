@@ -0,0 +1,140 @@
+/**
+ * Local filesystem storage backend
+ * Keeps files under <dir>/blobs and key-value state as one JSON file per key under <dir>/kv, so the
+ * app can run locally without Vercel credentials. Blob URLs are file:// URLs; the feed endpoints
+ * read through the store, so they serve these files like Blob-hosted ones.
+ */
+
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { StorageError } from '@/lib/utils/errors';
+import type { BlobStore, KeyValueStore } from './types';
+
+/** Valid key-value store keys (the Edge Config key format) */
+const KEY_PATTERN = /^[\w-]+$/;
+
+/**
+ * Checks whether an error is a missing-file error
+ */
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+/**
+ * Resolves a path under a root directory
+ * @throws StorageError if the path would leave the root
+ */
+function resolveInside(root: string, relativePath: string): string {
+  const resolved = path.resolve(root, relativePath);
+  if (!resolved.startsWith(root + path.sep)) {
+    throw new StorageError(`Storage path is outside the storage directory: ${relativePath}`, 'INVALID_STORAGE_PATH');
+  }
+  return resolved;
+}
+
+/**
+ * Writes a file through a temporary file, so readers never see partial content
+ */
+async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await writeFile(tempPath, content, 'utf8');
+  await rename(tempPath, filePath);
+}
+
+/**
+ * Creates a blob store in a local directory
+ *
+ * @param dir - Directory holding the blobs (created on first write)
+ */
+export function createFilesystemBlobStore(dir: string): BlobStore {
+  const root = path.resolve(dir);
+
+  return {
+    async put(pathname, content) {
+      const filePath = resolveInside(root, pathname);
+      await writeFileAtomic(filePath, content);
+      return pathToFileURL(filePath).href;
+    },
+
+    async get(pathname) {
+      const filePath = resolveInside(root, pathname);
+      try {
+        const [content, stats] = await Promise.all([readFile(filePath, 'utf8'), stat(filePath)]);
+        return { content, url: pathToFileURL(filePath).href, uploadedAt: stats.mtime };
+      } catch (error) {
+        if (isNotFound(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async list(prefix) {
+      let entries: string[];
+      try {
+        entries = await readdir(root, { recursive: true });
+      } catch (error) {
+        if (isNotFound(error)) {
+          return [];
+        }
+        throw error;
+      }
+      // Pathnames use forward slashes on every platform; files still being written are skipped
+      return entries
+        .map((entry) => entry.split(path.sep).join('/'))
+        .filter((pathname) => pathname.startsWith(prefix) && !pathname.endsWith('.tmp'))
+        .sort();
+    },
+
+    async delete(url) {
+      if (!url.startsWith('file:')) {
+        throw new StorageError(`Not a local blob URL: ${url}`, 'INVALID_BLOB_URL');
+      }
+      const filePath = resolveInside(root, path.relative(root, fileURLToPath(url)));
+      await rm(filePath, { force: true });
+    },
+  };
+}
+
+/**
+ * Creates a key-value store in a local directory
+ *
+ * @param dir - Directory holding one <key>.json file per key (created on first write)
+ */
+export function createFilesystemKeyValueStore(dir: string): KeyValueStore {
+  const root = path.resolve(dir);
+
+  /**
+   * Path of the file holding a key
+   * @throws StorageError if the key is not a valid key
+   */
+  function keyPath(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new StorageError(`Invalid storage key: ${key}`, 'INVALID_STORAGE_KEY');
+    }
+    return path.join(root, `${key}.json`);
+  }
+
+  return {
+    async get<T>(key: string) {
+      try {
+        return JSON.parse(await readFile(keyPath(key), 'utf8')) as T;
+      } catch (error) {
+        if (isNotFound(error)) {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+
+    async set(key, value) {
+      await writeFileAtomic(keyPath(key), JSON.stringify(value, null, 2));
+    },
+
+    async delete(key) {
+      await rm(keyPath(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * In-memory storage backend
+ * Keeps files and key-value state in process memory, for tests and throwaway local runs. Values are
+ * stored serialized, so callers never share object references with the store.
+ */
+
+import { StorageError } from '@/lib/utils/errors';
+import type { BlobStore, KeyValueStore } from './types';
+
+/** URL prefix of in-memory blobs */
+const MEMORY_BLOB_URL_PREFIX = 'memory://blobs/';
+
+/**
+ * Creates an empty in-memory blob store
+ */
+export function createMemoryBlobStore(): BlobStore {
+  const blobs = new Map<string, { content: string; uploadedAt: Date }>();
+
+  return {
+    async put(pathname, content) {
+      blobs.set(pathname, { content, uploadedAt: new Date() });
+      return `${MEMORY_BLOB_URL_PREFIX}${pathname}`;
+    },
+
+    async get(pathname) {
+      const blob = blobs.get(pathname);
+      return blob ? { ...blob, url: `${MEMORY_BLOB_URL_PREFIX}${pathname}` } : null;
+    },
+
+    async list(prefix) {
+      return [...blobs.keys()].filter((pathname) => pathname.startsWith(prefix)).sort();
+    },
+
+    async delete(url) {
+      if (!url.startsWith(MEMORY_BLOB_URL_PREFIX)) {
+        throw new StorageError(`Not an in-memory blob URL: ${url}`, 'INVALID_BLOB_URL');
+      }
+      blobs.delete(url.slice(MEMORY_BLOB_URL_PREFIX.length));
+    },
+  };
+}
+
+/**
+ * Creates an empty in-memory key-value store
+ */
+export function createMemoryKeyValueStore(): KeyValueStore {
+  const values = new Map<string, string>();
+
+  return {
+    async get<T>(key: string) {
+      const value = values.get(key);
+      return value === undefined ? undefined : (JSON.parse(value) as T);
+    },
+
+    async set(key, value) {
+      values.set(key, JSON.stringify(value));
+    },
+
+    async delete(key) {
+      values.delete(key);
+    },
+  };
+}
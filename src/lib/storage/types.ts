@@ -0,0 +1,86 @@
+/**
+ * Storage type definitions
+ * Interfaces implemented by each storage backend (Vercel, local filesystem, in-memory)
+ */
+
+/**
+ * Storage backend selected by the STORAGE_BACKEND environment variable
+ * - vercel: Vercel Blob for files, Edge Config for key-value state (default)
+ * - filesystem: Files and key-value state under STORAGE_DIR, for local development
+ * - memory: Process memory, for tests (nothing survives a restart)
+ */
+export type StorageBackend = 'vercel' | 'filesystem' | 'memory';
+
+/**
+ * Options for writing a blob
+ * @property contentType - MIME type served with the file
+ * @property cacheControlMaxAge - Cache max-age in seconds (backends without a CDN ignore it)
+ */
+export interface BlobPutOptions {
+  contentType: string;
+  cacheControlMaxAge: number;
+}
+
+/**
+ * A blob read back from storage
+ * @property content - Text content
+ * @property url - URL of the blob (public URL on Vercel, file:// or memory:// URL otherwise)
+ * @property uploadedAt - When the blob was last written
+ */
+export interface StoredBlob {
+  content: string;
+  url: string;
+  uploadedAt: Date;
+}
+
+/**
+ * File storage for feeds and JSON state
+ * Pathnames are relative (e.g., feed-versions/20250101T060000Z-3f2a9c1b7d4e.csv); writing a pathname
+ * replaces its content and keeps its URL.
+ */
+export interface BlobStore {
+  /**
+   * Write a blob, replacing any existing content
+   * @returns URL of the blob
+   */
+  put(pathname: string, content: string, options: BlobPutOptions): Promise<string>;
+
+  /**
+   * Read a blob by exact pathname
+   * @returns The blob, or null if it does not exist
+   */
+  get(pathname: string): Promise<StoredBlob | null>;
+
+  /**
+   * List the pathnames starting with a prefix (e.g., listing-overrides/)
+   * @returns Pathnames in ascending order
+   */
+  list(prefix: string): Promise<string[]>;
+
+  /**
+   * Delete a blob by the URL returned from put
+   */
+  delete(url: string): Promise<void>;
+}
+
+/**
+ * Key-value storage for small JSON state (tokens, OAuth state, settings, sync metadata)
+ * Keys use letters, digits, underscores and hyphens.
+ */
+export interface KeyValueStore {
+  /**
+   * Read a value
+   * @returns The value, or undefined if the key does not exist
+   */
+  get<T>(key: string): Promise<T | undefined>;
+
+  /**
+   * Write a value, replacing any existing value
+   */
+  set(key: string, value: unknown): Promise<void>;
+
+  /**
+   * Delete a key (no-op if it does not exist)
+   */
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,176 @@
+/**
+ * Vercel storage backend
+ * Files in Vercel Blob (BLOB_READ_WRITE_TOKEN) and key-value state in Edge Config: reads use the
+ * @vercel/edge-config SDK (EDGE_CONFIG), writes use the Vercel API (EDGE_CONFIG_ID, EDGE_CONFIG_TOKEN)
+ * since the SDK is read-only
+ */
+
+import { put, del, list } from '@vercel/blob';
+import { createClient } from '@vercel/edge-config';
+import { StorageError } from '@/lib/utils/errors';
+import { logError, logInfo } from '@/lib/utils/logger';
+import type { BlobStore, KeyValueStore } from './types';
+
+/**
+ * Get the Edge Config client
+ * Uses the EDGE_CONFIG environment variable which is automatically set by Vercel
+ */
+function getEdgeConfigClient() {
+  const connectionString = process.env.EDGE_CONFIG;
+
+  if (!connectionString) {
+    throw new StorageError(
+      'Edge Config is not configured. Ensure EDGE_CONFIG environment variable is set.',
+      'EDGE_CONFIG_NOT_CONFIGURED'
+    );
+  }
+
+  return createClient(connectionString);
+}
+
+/**
+ * Applies one item operation to Edge Config through the Vercel API
+ */
+async function patchEdgeConfig(
+  item: { operation: 'upsert'; key: string; value: unknown } | { operation: 'delete'; key: string }
+): Promise<void> {
+  const edgeConfigId = process.env.EDGE_CONFIG_ID;
+  const edgeConfigToken = process.env.EDGE_CONFIG_TOKEN;
+
+  if (!edgeConfigId || !edgeConfigToken) {
+    throw new StorageError(
+      'Edge Config write credentials not configured. Set EDGE_CONFIG_ID and EDGE_CONFIG_TOKEN.',
+      'EDGE_CONFIG_WRITE_NOT_CONFIGURED'
+    );
+  }
+
+  const response = await fetch(
+    `https://api.vercel.com/v1/edge-config/${edgeConfigId}/items`,
+    {
+      method: 'PATCH',
+      headers: {
+        Authorization: `Bearer ${edgeConfigToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ items: [item] }),
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw item.operation === 'delete'
+      ? new StorageError(`Edge Config delete failed: ${errorText}`, 'EDGE_CONFIG_DELETE_ERROR')
+      : new StorageError(`Edge Config write failed: ${errorText}`, 'EDGE_CONFIG_WRITE_ERROR');
+  }
+}
+
+/**
+ * Creates a blob store backed by Vercel Blob
+ * Blobs are public and written without a random suffix, so a pathname keeps its URL.
+ */
+export function createVercelBlobStore(): BlobStore {
+  return {
+    async put(pathname, content, { contentType, cacheControlMaxAge }) {
+      const blob = await put(pathname, content, {
+        contentType,
+        access: 'public',
+        addRandomSuffix: false,
+        cacheControlMaxAge,
+        allowOverwrite: true,
+      });
+      return blob.url;
+    },
+
+    async get(pathname) {
+      // List blobs to find the file
+      const { blobs } = await list({
+        prefix: pathname,
+        limit: 1,
+      });
+
+      // Check if the file exists
+      if (blobs.length === 0) {
+        logInfo('Blob not found in storage', { filename: pathname });
+        return null;
+      }
+
+      const blob = blobs[0];
+
+      // Verify we have an exact match (prefix might match partial names)
+      if (blob.pathname !== pathname) {
+        logInfo('Blob not found in storage (partial match only)', {
+          filename: pathname,
+          foundPathname: blob.pathname,
+        });
+        return null;
+      }
+
+      // Fetch the actual content from the blob URL. The list API reports the latest upload, and a URL
+      // tied to that upload time misses any CDN copy of earlier content, which could otherwise be
+      // served for up to the blob's cache max-age after it was overwritten in place.
+      let response: Response;
+      try {
+        response = await fetch(`${blob.url}?uploaded=${blob.uploadedAt.getTime()}`, { cache: 'no-store' });
+      } catch (fetchError) {
+        const errorMessage = fetchError instanceof Error ? fetchError.message : 'Unknown network error';
+        logError('Network error fetching blob content', {
+          error: errorMessage,
+          url: blob.url,
+        });
+        throw new StorageError(
+          `Network error fetching blob content: ${errorMessage}`,
+          'BLOB_NETWORK_ERROR',
+          fetchError instanceof Error ? fetchError : undefined
+        );
+      }
+
+      if (!response.ok) {
+        throw new StorageError(
+          `Failed to fetch blob content: ${response.status} ${response.statusText}`,
+          'BLOB_FETCH_ERROR'
+        );
+      }
+
+      return {
+        content: await response.text(),
+        url: blob.url,
+        uploadedAt: blob.uploadedAt,
+      };
+    },
+
+    async list(prefix) {
+      const pathnames: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await list({ prefix, cursor });
+        pathnames.push(...page.blobs.map((blob) => blob.pathname));
+        cursor = page.hasMore ? page.cursor : undefined;
+      } while (cursor);
+      return pathnames.sort();
+    },
+
+    async delete(url) {
+      await del(url);
+    },
+  };
+}
+
+/**
+ * Creates a key-value store backed by Edge Config
+ */
+export function createVercelKeyValueStore(): KeyValueStore {
+  return {
+    async get<T>(key: string) {
+      const value = await getEdgeConfigClient().get<T>(key);
+      return value ?? undefined;
+    },
+
+    async set(key, value) {
+      await patchEdgeConfig({ operation: 'upsert', key, value });
+    },
+
+    async delete(key) {
+      await patchEdgeConfig({ operation: 'delete', key });
+    },
+  };
+}
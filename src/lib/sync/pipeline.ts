@@ -0,0 +1,843 @@
+/**
+ * Catalog sync pipeline
+ * Shared by the manual and cron sync routes:
+ * resolve shop → load taxonomy mapping → fetch listings (plus recently archived ones) → apply listing filters →
+ * reuse unchanged listings from the snapshot →
+ * fetch inventory and format changed listings → derive custom labels and sale prices → apply feed rules and listing overrides → publish feeds (Facebook CSV/XML, Google, Pinterest) and snapshot
+ */
+
+import { isDatabaseConfigured } from '@/lib/db/client';
+import { insertListingSnapshots } from '@/lib/db/listing-snapshots';
+import { insertSyncRun } from '@/lib/db/sync-runs';
+import { EtsyClient } from '@/lib/etsy/client';
+import { formatListing, generateCSV, logSkippedListing } from '@/lib/facebook/catalog';
+import { diffFeeds, summarizeFeedDiff } from '@/lib/facebook/diff';
+import { applyCustomLabels, DEFAULT_CUSTOM_LABEL_CONFIG } from '@/lib/facebook/labels';
+import {
+  applyListingOverride,
+  applyListingOverrideToListing,
+  loadListingOverrides,
+} from '@/lib/facebook/overrides';
+import { applySalePrices } from '@/lib/facebook/sales';
+import { validateFeed } from '@/lib/facebook/validator';
+import {
+  computeFeedHash,
+  loadFeedVersionIndex,
+  parseFeedProducts,
+  recordFeedVersion,
+  storePendingFeedVersion,
+} from '@/lib/facebook/versions';
+import { FACEBOOK_XML_FILENAME, generateXML } from '@/lib/facebook/xml';
+import {
+  formatGoogleItems,
+  generateGoogleMerchantXML,
+  GOOGLE_MERCHANT_FILENAME,
+} from '@/lib/google/merchant';
+import {
+  formatPinterestProducts,
+  generatePinterestCSV,
+  PINTEREST_CATALOG_FILENAME,
+} from '@/lib/pinterest/catalog';
+import { applyListingFilters } from '@/lib/filters/engine';
+import { applyFeedRules } from '@/lib/rules/engine';
+import { getCSV, uploadCSV, uploadFeedFile } from '@/lib/storage/blob';
+import {
+  getCustomLabelConfig,
+  getFeedRules,
+  getListingFilters,
+  getShopSales,
+  getSyncMetadata,
+  getTaxonomyOverrides,
+  storeSyncMetadata,
+} from '@/lib/storage/edge-config';
+import { evaluatePublishGuard, getPublishShrinkThreshold } from '@/lib/sync/publish-guard';
+import {
+  computeFormatFingerprint,
+  getSnapshotIncompatibility,
+  hasListingChanged,
+  loadSyncSnapshot,
+  storeSyncSnapshot,
+  SNAPSHOT_FORMAT_VERSION,
+  type SnapshotEntry,
+  type SyncSnapshot,
+} from '@/lib/sync/snapshot';
+import { loadEtsyTaxonomy } from '@/lib/taxonomy/etsy-taxonomy';
+import { GOOGLE_CATEGORY_MAPPING_VERSION } from '@/lib/taxonomy/google-categories';
+import { resolveListingCategory } from '@/lib/taxonomy/mapper';
+import { AppError, ConfigError, PublishBlockedError } from '@/lib/utils/errors';
+import { logInfo, logError, logWarn } from '@/lib/utils/logger';
+import { XML_CONTENT_TYPE } from '@/lib/utils/xml';
+import type { SyncRun, SyncRunTrigger } from '@/lib/db/types';
+import type { EtsyListing, EtsyListingState, EtsyShop, EtsyTokens } from '@/lib/etsy/types';
+import type {
+  CustomLabelConfig,
+  FacebookProduct,
+  FeedDiffSummary,
+  ListingOverride,
+  ShopSale,
+} from '@/lib/facebook/types';
+import type { ListingFilterStats } from '@/lib/filters/types';
+import type { EtsyTaxonomyCache, ListingCategory } from '@/lib/taxonomy/types';
+import type { SyncMode, SyncPreview } from '@/types';
+
+/**
+ * Options for building the catalog
+ * @property mode - Requested sync mode
+ */
+export interface CatalogBuildOptions {
+  mode: SyncMode;
+}
+
+/**
+ * Result of building the catalog (everything needed to publish it)
+ * @property shop - Shop that was synced
+ * @property mode - Mode the build actually ran in
+ * @property listings - Current active listings (with inventory attached where applicable)
+ * @property feedListings - Listings published to the feeds: active and archived listings left after
+ * listing filters, in feed order (archived listings keep their non-active state)
+ * @property products - Facebook products in listing order (custom labels, sale prices, feed rules and
+ * listing overrides applied; excluded listings omitted)
+ * @property categories - Resolved category fields keyed by listing ID
+ * @property listingOverrides - Listing overrides keyed by listing ID, for the Google and Pinterest feeds
+ * @property snapshot - Snapshot to store once the feed is published
+ * @property changedListings - Number of listings re-fetched and re-formatted
+ * @property reusedListings - Number of listings reused from the previous snapshot
+ * @property archivedListings - Number of no-longer-active listings kept in the Facebook feed as archived
+ * @property removedListings - Number of snapshot listings dropped (deleted, or past the archive grace period)
+ * @property excludedListings - Number of listings hidden from the Facebook feed by a listing override
+ * @property filterStats - Listings removed from the Facebook feed by listing filters
+ */
+export interface CatalogBuild {
+  shop: EtsyShop;
+  mode: SyncMode;
+  listings: EtsyListing[];
+  feedListings: EtsyListing[];
+  products: FacebookProduct[];
+  categories: Record<string, ListingCategory>;
+  listingOverrides: Record<string, ListingOverride>;
+  snapshot: SyncSnapshot;
+  changedListings: number;
+  reusedListings: number;
+  archivedListings: number;
+  removedListings: number;
+  excludedListings: number;
+  filterStats: ListingFilterStats;
+}
+
+/**
+ * Public URLs of the feeds published by a sync
+ * @property feedUrl - Facebook catalog CSV
+ * @property xmlFeedUrl - Facebook catalog RSS XML
+ * @property googleFeedUrl - Google Merchant Center XML
+ * @property pinterestFeedUrl - Pinterest catalog CSV
+ * @property feedVersionId - Feed version recorded for the Facebook CSV (null if recording failed)
+ * @property contentHash - SHA-256 hash of the Facebook CSV content
+ * @property feedDiff - Changes from the previously live Facebook feed
+ */
+export interface PublishedFeeds {
+  feedUrl: string;
+  xmlFeedUrl: string;
+  googleFeedUrl: string;
+  pinterestFeedUrl: string;
+  feedVersionId: string | null;
+  contentHash: string;
+  feedDiff: FeedDiffSummary;
+}
+
+/**
+ * How a sync run ended, for the sync history
+ * @property build - Catalog build (null if the run failed before building)
+ * @property published - Published feeds (null unless the run succeeded)
+ * @property error - Error that ended the run
+ */
+export interface SyncRunOutcome {
+  build: CatalogBuild | null;
+  published: PublishedFeeds | null;
+  error?: unknown;
+}
+
+/**
+ * Options for publishing a catalog
+ * @property force - Skip the publish guard (publish even if the feed shrinks past the threshold)
+ */
+export interface PublishOptions {
+  force?: boolean;
+}
+
+/** Listing states kept in the feed as archived after a listing stops being active */
+const ARCHIVED_LISTING_STATES: EtsyListingState[] = ['sold_out', 'inactive', 'expired'];
+
+/** Default number of days an archived listing stays in the feed */
+const DEFAULT_ARCHIVE_GRACE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads the archive grace period from the ARCHIVE_GRACE_DAYS environment variable
+ * 0 drops listings as soon as they stop being active
+ *
+ * @returns Grace period in days
+ */
+export function getArchiveGraceDays(): number {
+  const value = process.env.ARCHIVE_GRACE_DAYS;
+  if (value === undefined || value.trim() === '') {
+    return DEFAULT_ARCHIVE_GRACE_DAYS;
+  }
+
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 0) {
+    logWarn('Invalid ARCHIVE_GRACE_DAYS, using default', {
+      value,
+      default: DEFAULT_ARCHIVE_GRACE_DAYS,
+    });
+    return DEFAULT_ARCHIVE_GRACE_DAYS;
+  }
+  return days;
+}
+
+/**
+ * Parses a sync mode from a query parameter or request body value
+ * Defaults to incremental; anything other than "full" is treated as incremental
+ *
+ * @param value - Raw mode value
+ * @returns Sync mode
+ */
+export function parseSyncMode(value: string | null | undefined): SyncMode {
+  return value?.trim().toLowerCase() === 'full' ? 'full' : 'incremental';
+}
+
+/**
+ * Get the shop to sync using the stored shop_id or the ETSY_SHOP_NAME environment variable
+ *
+ * @param client - Etsy API client
+ * @param tokens - Valid Etsy tokens
+ * @returns Shop details
+ * @throws ConfigError if no shop_id is stored and ETSY_SHOP_NAME is not set
+ */
+export async function resolveShop(client: EtsyClient, tokens: EtsyTokens): Promise<EtsyShop> {
+  if (tokens.shop_id) {
+    logInfo('Using stored shop_id', { shopId: tokens.shop_id });
+    return client.getShopDetails(tokens.shop_id);
+  }
+
+  const shopName = process.env.ETSY_SHOP_NAME;
+  if (!shopName) {
+    logError('ETSY_SHOP_NAME environment variable is not set');
+    throw new ConfigError(
+      'ETSY_SHOP_NAME environment variable is required when shop_id is not stored'
+    );
+  }
+
+  logInfo('No shop_id stored, fetching shop by name', { shopName });
+  return client.getShopByName(shopName);
+}
+
+/**
+ * Loads the snapshot written by the previous sync
+ * Any problem loading it is treated as no snapshot (full sync, no archived listings) rather than failing the sync
+ */
+async function loadPreviousSnapshot(): Promise<SyncSnapshot | null> {
+  try {
+    return await loadSyncSnapshot();
+  } catch (error) {
+    logWarn('Failed to load sync snapshot, falling back to full sync', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+/**
+ * Returns the previous snapshot if it can be used for an incremental sync
+ */
+function getUsableSnapshot(
+  snapshot: SyncSnapshot | null,
+  shopId: number,
+  formatFingerprint: string
+): SyncSnapshot | null {
+  if (!snapshot) {
+    logInfo('No sync snapshot found, falling back to full sync');
+    return null;
+  }
+
+  const incompatibility = getSnapshotIncompatibility(snapshot, shopId, formatFingerprint);
+  if (incompatibility) {
+    logInfo('Sync snapshot not usable, falling back to full sync', { reason: incompatibility });
+    return null;
+  }
+
+  return snapshot;
+}
+
+/**
+ * Fetches previously published listings that are no longer active
+ * A listing is kept (as archived) while it is sold out, inactive or expired and its grace period
+ * has not elapsed; deleted listings and listings past the grace period are dropped.
+ *
+ * @param client - Etsy API client
+ * @param shop - Shop being synced
+ * @param previous - Snapshot from the previous sync (any format version)
+ * @param activeIds - IDs of the currently active listings
+ * @param now - Current time
+ * @returns Archived listings with the time each was first seen no longer active
+ * @throws EtsyApiError on API errors (rather than silently dropping the listings)
+ */
+async function loadArchivedListings(
+  client: EtsyClient,
+  shop: EtsyShop,
+  previous: SyncSnapshot | null,
+  activeIds: Set<string>,
+  now: Date
+): Promise<Array<{ listing: EtsyListing; archivedSince: string }>> {
+  if (!previous || previous.shopId !== shop.shop_id) {
+    return [];
+  }
+
+  const missing = new Set(Object.keys(previous.entries).filter((id) => !activeIds.has(id)));
+  const graceDays = getArchiveGraceDays();
+  if (missing.size === 0 || graceDays === 0) {
+    return [];
+  }
+
+  const archived: Array<{ listing: EtsyListing; archivedSince: string }> = [];
+  for (const state of ARCHIVED_LISTING_STATES) {
+    const stateListings = await client.getShopListings(shop.shop_id.toString(), state);
+
+    for (const listing of stateListings) {
+      const id = listing.listing_id.toString();
+      if (!missing.has(id)) {
+        continue;
+      }
+      missing.delete(id);
+
+      const archivedSince = previous.entries[id].archivedSince ?? now.toISOString();
+      if (now.getTime() - Date.parse(archivedSince) >= graceDays * DAY_MS) {
+        logInfo('Archived listing past grace period, dropping from feed', {
+          listingId: listing.listing_id,
+          state: listing.state,
+          archivedSince,
+        });
+        continue;
+      }
+
+      archived.push({ listing, archivedSince });
+    }
+  }
+
+  if (missing.size > 0) {
+    logInfo('Listings no longer on Etsy, dropping from feed', { listingIds: [...missing] });
+  }
+
+  return archived;
+}
+
+/**
+ * Checks whether feed rules left a product unchanged
+ */
+function isSameProduct(a: FacebookProduct, b: FacebookProduct): boolean {
+  return (Object.keys(a) as Array<keyof FacebookProduct>).every((key) => a[key] === b[key]);
+}
+
+/**
+ * Derives a listing's custom labels, then applies sale prices: the steps a sync runs before feed rules,
+ * shared with the rules preview so rules are evaluated against the same products
+ * @returns Products with custom labels and sale fields set (new objects)
+ */
+export function enrichListingProducts(
+  listing: EtsyListing,
+  products: FacebookProduct[],
+  labelConfig: CustomLabelConfig,
+  shopSales: ShopSale[],
+  now: Date
+): FacebookProduct[] {
+  return applySalePrices(listing, applyCustomLabels(listing, products, labelConfig, now), shopSales, now);
+}
+
+/**
+ * Loads the Etsy taxonomy for category mapping
+ * A taxonomy failure leaves product_type/google_product_category empty rather than failing the sync
+ */
+async function loadTaxonomyForSync(client: EtsyClient): Promise<EtsyTaxonomyCache | null> {
+  try {
+    return await loadEtsyTaxonomy(client);
+  } catch (error) {
+    logWarn('Etsy taxonomy unavailable, category fields will be empty', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+/**
+ * Fetch listings and build the Facebook catalog
+ * In incremental mode, listings whose last_modified_timestamp and state_timestamp are unchanged
+ * reuse the inventory and products from the previous snapshot; only changed listings have their
+ * inventory fetched and are re-formatted. Listing filters run before anything is fetched or formatted,
+ * so filtered listings cost no inventory requests. Previously published listings that are no longer active
+ * stay in the Facebook feed as archived and out of stock for ARCHIVE_GRACE_DAYS, then are dropped.
+ * Changes to the taxonomy, mapping table or shop overrides change the format fingerprint
+ * and force every listing to be re-formatted. Custom labels, sale prices, feed rules and listing
+ * overrides are applied to every listing's products on each sync; the snapshot keeps the products as formatted.
+ *
+ * @param client - Etsy API client
+ * @param shop - Shop to sync
+ * @param options - Build options
+ * @returns Catalog build ready to publish
+ * @throws EtsyApiError on API errors
+ * @throws StorageError if taxonomy overrides, listing filters, the label configuration, shop sales,
+ * feed rules or listing overrides cannot be read
+ */
+export async function buildCatalog(
+  client: EtsyClient,
+  shop: EtsyShop,
+  options: CatalogBuildOptions
+): Promise<CatalogBuild> {
+  const taxonomy = await loadTaxonomyForSync(client);
+  const taxonomyOverrides = await getTaxonomyOverrides();
+  const listingFilters = await getListingFilters();
+  const labelConfig = (await getCustomLabelConfig()) ?? DEFAULT_CUSTOM_LABEL_CONFIG;
+  const shopSales = await getShopSales();
+  const feedRules = await getFeedRules();
+  const listingOverrides = await loadListingOverrides();
+
+  const formatFingerprint = computeFormatFingerprint({
+    shopName: shop.shop_name,
+    taxonomy: {
+      mappingVersion: GOOGLE_CATEGORY_MAPPING_VERSION,
+      checksum: taxonomy?.checksum ?? null,
+      overrides: taxonomyOverrides,
+    },
+  });
+
+  // The previous snapshot is always loaded to remember published listings;
+  // its products are only reused in incremental mode
+  const previousSnapshot = await loadPreviousSnapshot();
+  const previous = options.mode === 'incremental'
+    ? getUsableSnapshot(previousSnapshot, shop.shop_id, formatFingerprint)
+    : null;
+  const mode: SyncMode = previous ? 'incremental' : 'full';
+  const now = new Date();
+
+  const listings = await client.getShopListings(shop.shop_id.toString());
+
+  const currentIds = new Set(listings.map((listing) => listing.listing_id.toString()));
+  const archived = await loadArchivedListings(client, shop, previousSnapshot, currentIds, now);
+  const archivedSince = new Map(
+    archived.map((entry) => [entry.listing.listing_id, entry.archivedSince])
+  );
+  const { listings: feedListings, stats: filterStats } = applyListingFilters(
+    [...listings, ...archived.map((entry) => entry.listing)],
+    listingFilters
+  );
+  if (listingFilters.length > 0) {
+    logInfo('Listing filters applied', { ...filterStats });
+  }
+
+  // Split listings into changed and reusable
+  const reusable = new Map<number, SnapshotEntry>();
+  const changed: EtsyListing[] = [];
+  for (const listing of feedListings) {
+    const previousEntry = previous?.entries[listing.listing_id];
+    if (previousEntry && !hasListingChanged(listing, previousEntry.listing)) {
+      // Keep fresh listing data (views, favorers) but reuse the fetched inventory
+      listing.inventory = previousEntry.listing.inventory;
+      reusable.set(listing.listing_id, previousEntry);
+    } else {
+      changed.push(listing);
+    }
+  }
+
+  const removedListings = previousSnapshot?.shopId === shop.shop_id
+    ? Object.keys(previousSnapshot.entries).filter(
+        (id) => !currentIds.has(id) && !archivedSince.has(Number(id))
+      ).length
+    : 0;
+
+  logInfo('Listings compared against snapshot', {
+    mode,
+    total: listings.length,
+    changed: changed.length,
+    reused: reusable.size,
+    archived: archived.length,
+    removed: removedListings,
+  });
+
+  // Only changed listings cost inventory requests
+  await client.attachListingInventories(changed);
+
+  // Assemble products in listing order, formatting only changed listings
+  const products: FacebookProduct[] = [];
+  const categories: Record<string, ListingCategory> = {};
+  const entries: Record<string, SnapshotEntry> = {};
+  let ruledProducts = 0;
+  let saleProducts = 0;
+  let excludedListings = 0;
+  for (const listing of feedListings) {
+    const category = resolveListingCategory(listing, taxonomy, taxonomyOverrides);
+    categories[listing.listing_id] = category;
+
+    const reusedEntry = reusable.get(listing.listing_id);
+    const listingProducts = reusedEntry
+      ? reusedEntry.products
+      : formatListing(listing, shop.shop_name, category);
+
+    if (listingProducts.length === 0) {
+      logSkippedListing(listing);
+      continue;
+    }
+
+    const enrichedProducts = enrichListingProducts(listing, listingProducts, labelConfig, shopSales, now);
+    const ruledListingProducts = applyFeedRules(listing, enrichedProducts, feedRules);
+    ruledProducts += ruledListingProducts.filter(
+      (product, index) => !isSameProduct(product, enrichedProducts[index])
+    ).length;
+    saleProducts += enrichedProducts.filter((product) => product.sale_price).length;
+
+    const finalProducts = applyListingOverride(
+      listing,
+      ruledListingProducts,
+      listingOverrides[listing.listing_id]
+    );
+    if (finalProducts.length === 0) {
+      excludedListings++;
+    }
+
+    products.push(...finalProducts);
+    entries[listing.listing_id] = { listing, products: listingProducts };
+    const listingArchivedSince = archivedSince.get(listing.listing_id);
+    if (listingArchivedSince) {
+      entries[listing.listing_id].archivedSince = listingArchivedSince;
+    }
+  }
+
+  if (shopSales.length > 0) {
+    logInfo('Shop sales applied', { sales: shopSales.length, saleProducts });
+  }
+
+  if (feedRules.length > 0) {
+    logInfo('Feed rules applied', { rules: feedRules.length, changedProducts: ruledProducts });
+  }
+
+  if (Object.keys(listingOverrides).length > 0) {
+    logInfo('Listing overrides applied', {
+      overrides: Object.keys(listingOverrides).length,
+      excludedListings,
+    });
+  }
+
+  return {
+    shop,
+    mode,
+    listings,
+    feedListings,
+    products,
+    categories,
+    listingOverrides,
+    snapshot: {
+      version: SNAPSHOT_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      shopId: shop.shop_id,
+      formatFingerprint,
+      entries,
+    },
+    changedListings: changed.length,
+    reusedListings: reusable.size,
+    archivedListings: archived.length,
+    removedListings,
+    excludedListings,
+    filterStats,
+  };
+}
+
+/**
+ * Formats the listings of a built catalog for a channel other than Facebook
+ * Uses the same filtered listings as the Facebook feed (archived listings come out as out of stock);
+ * listing overrides are applied to each listing first and excluded listings are skipped
+ *
+ * @param build - Catalog build from buildCatalog
+ * @param format - Channel formatter (listing, brand, category)
+ * @returns Formatted items in listing order
+ */
+function formatChannelItems<T>(
+  build: CatalogBuild,
+  format: (listing: EtsyListing, brand: string, category: ListingCategory) => T[]
+): T[] {
+  return build.feedListings.flatMap((listing) => {
+    const override = build.listingOverrides[listing.listing_id];
+    const overridden = applyListingOverrideToListing(listing, override);
+    if (!overridden) {
+      return [];
+    }
+    return format(
+      overridden,
+      override?.brand ?? build.shop.shop_name,
+      build.categories[listing.listing_id]
+    );
+  });
+}
+
+/**
+ * Generates the Google Merchant Center feed for a built catalog
+ * Google items are formatted from the listings on every sync (no Etsy requests involved),
+ * with listing overrides applied
+ *
+ * @param build - Catalog build from buildCatalog
+ * @returns XML document string
+ */
+export function generateGoogleFeed(build: CatalogBuild): string {
+  return generateGoogleMerchantXML(formatChannelItems(build, formatGoogleItems), build.shop);
+}
+
+/**
+ * Generates the Pinterest catalog for a built catalog
+ * Pinterest products are formatted from the listings on every sync (no Etsy requests involved),
+ * with listing overrides applied
+ *
+ * @param build - Catalog build from buildCatalog
+ * @returns CSV string
+ */
+export function generatePinterestFeed(build: CatalogBuild): string {
+  return generatePinterestCSV(formatChannelItems(build, formatPinterestProducts));
+}
+
+/**
+ * Reads the products of the live Facebook feed
+ * @returns Live products (null if no feed is published)
+ * @throws StorageError if the live feed cannot be read
+ */
+async function loadLiveProducts(): Promise<FacebookProduct[] | null> {
+  const live = await getCSV();
+  return live ? parseFeedProducts(live.content) : null;
+}
+
+/**
+ * Runs the publish guard against the live Facebook feed
+ * A blocked feed is stored as the pending feed version
+ *
+ * @throws PublishBlockedError if the feed shrinks past the threshold
+ */
+async function checkPublishGuard(
+  build: CatalogBuild,
+  csvContent: string,
+  liveProducts: FacebookProduct[] | null
+): Promise<void> {
+  const guard = evaluatePublishGuard(
+    build.products.map((product) => product.id),
+    liveProducts?.map((product) => product.id) ?? null,
+    getPublishShrinkThreshold()
+  );
+
+  if (guard.allowed) {
+    return;
+  }
+
+  const pending = await storePendingFeedVersion(csvContent, build.products.length, guard);
+  throw new PublishBlockedError(
+    `Publish blocked: ${guard.reason}. The new feed is stored as pending version ${pending.id}; ` +
+      'approve it or force-publish from the dashboard.',
+    pending.id
+  );
+}
+
+/**
+ * Preview a built catalog without publishing it
+ * Generates and validates the Facebook CSV and compares it with the live feed; nothing is uploaded
+ * and no pending version is stored.
+ *
+ * @param build - Catalog build from buildCatalog
+ * @returns Products, validation report, diff and publish guard result
+ * @throws StorageError if the live feed cannot be read
+ */
+export async function previewCatalog(build: CatalogBuild): Promise<SyncPreview> {
+  const csvContent = generateCSV(build.products);
+  const validation = validateFeed(csvContent);
+
+  const liveProducts = await loadLiveProducts();
+  const diff = diffFeeds(liveProducts ?? [], build.products);
+  const publishGuard = evaluatePublishGuard(
+    build.products.map((product) => product.id),
+    liveProducts?.map((product) => product.id) ?? null,
+    getPublishShrinkThreshold()
+  );
+
+  logInfo('Sync preview generated', {
+    productsCount: build.products.length,
+    errorCount: validation.errorCount,
+    warningCount: validation.warningCount,
+    added: diff.added.length,
+    removed: diff.removed.length,
+    changed: diff.changed.length,
+    publishAllowed: publishGuard.allowed,
+  });
+
+  return {
+    products: build.products,
+    validation,
+    diff,
+    diffSummary: summarizeFeedDiff(diff),
+    publishGuard,
+  };
+}
+
+/**
+ * Publish a built catalog: upload the Facebook (CSV and XML), Google Merchant and Pinterest feeds,
+ * then store the snapshot for the next sync
+ * The publish guard runs first: if the Facebook feed would shrink past PUBLISH_SHRINK_THRESHOLD,
+ * nothing is uploaded (the snapshot included) and the feed is kept as a pending version.
+ * A snapshot write failure is logged but does not fail the sync - the next sync
+ * simply falls back to full mode
+ *
+ * @param build - Catalog build from buildCatalog
+ * @param options - Publish options (force skips the publish guard)
+ * @returns Public URLs of the uploaded feeds and the changes from the previously live Facebook feed
+ * @throws PublishBlockedError if the publish guard blocks the feed
+ * @throws StorageError if a feed upload fails
+ */
+export async function publishCatalog(
+  build: CatalogBuild,
+  options: PublishOptions = {}
+): Promise<PublishedFeeds> {
+  const csvContent = generateCSV(build.products);
+  logInfo('CSV generated', {
+    contentLength: csvContent.length,
+    productsCount: build.products.length,
+  });
+
+  const liveProducts = await loadLiveProducts();
+  if (options.force) {
+    logWarn('Publish guard skipped (forced publish)', { productsCount: build.products.length });
+  } else {
+    await checkPublishGuard(build, csvContent, liveProducts);
+  }
+
+  const feedDiff = summarizeFeedDiff(diffFeeds(liveProducts ?? [], build.products));
+
+  const feedUrl = await uploadCSV(csvContent);
+
+  let feedVersionId: string | null = null;
+  try {
+    feedVersionId = (await recordFeedVersion(csvContent, build.products.length)).id;
+  } catch (error) {
+    logError('Failed to record feed version - the feed is published without a rollback copy', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  const xmlContent = generateXML(build.products);
+  logInfo('Facebook XML generated', { contentLength: xmlContent.length });
+
+  const xmlFeedUrl = await uploadFeedFile(FACEBOOK_XML_FILENAME, xmlContent, XML_CONTENT_TYPE);
+
+  const googleXml = generateGoogleFeed(build);
+  logInfo('Google Merchant XML generated', { contentLength: googleXml.length });
+
+  const googleFeedUrl = await uploadFeedFile(
+    GOOGLE_MERCHANT_FILENAME,
+    googleXml,
+    XML_CONTENT_TYPE
+  );
+
+  const pinterestCsv = generatePinterestFeed(build);
+  logInfo('Pinterest CSV generated', { contentLength: pinterestCsv.length });
+
+  const pinterestFeedUrl = await uploadCSV(pinterestCsv, PINTEREST_CATALOG_FILENAME);
+
+  try {
+    await storeSyncSnapshot(build.snapshot);
+  } catch (error) {
+    logError('Failed to store sync snapshot - next sync will run in full mode', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  return {
+    feedUrl,
+    xmlFeedUrl,
+    googleFeedUrl,
+    pinterestFeedUrl,
+    feedVersionId,
+    contentHash: computeFeedHash(csvContent),
+    feedDiff,
+  };
+}
+
+/**
+ * Stores the sync metadata for a sync blocked by the publish guard
+ * The feed URLs of the previous sync are kept: the live feeds did not change
+ *
+ * @param error - Publish guard error
+ * @throws StorageError if the metadata cannot be read or stored
+ */
+export async function storeBlockedSyncMetadata(error: PublishBlockedError): Promise<void> {
+  const previous = await getSyncMetadata();
+  const { pending } = await loadFeedVersionIndex();
+
+  await storeSyncMetadata({
+    timestamp: new Date().toISOString(),
+    status: 'blocked',
+    listingsCount: previous?.listingsCount ?? 0,
+    feedUrl: previous?.feedUrl,
+    googleFeedUrl: previous?.googleFeedUrl,
+    pinterestFeedUrl: previous?.pinterestFeedUrl,
+    publishGuard: pending?.id === error.pendingVersionId ? pending.guard : undefined,
+  });
+}
+
+/**
+ * Records a sync run in the sync history, with a snapshot of every listing the run fetched
+ * Skipped when no database is configured (POSTGRES_URL); a failure is logged but does not fail the sync
+ *
+ * @param trigger - Manual or cron
+ * @param startTime - Start of the run (milliseconds since the epoch)
+ * @param outcome - Build, published feeds or error of the run
+ */
+export async function recordSyncRun(
+  trigger: SyncRunTrigger,
+  startTime: number,
+  outcome: SyncRunOutcome
+): Promise<void> {
+  if (!isDatabaseConfigured()) {
+    return;
+  }
+
+  const { build, published, error } = outcome;
+  let run: SyncRun;
+  try {
+    run = await insertSyncRun({
+      trigger,
+      status: error === undefined ? 'success' : error instanceof PublishBlockedError ? 'blocked' : 'failure',
+      mode: build?.mode ?? null,
+      startedAt: new Date(startTime).toISOString(),
+      finishedAt: new Date().toISOString(),
+      listingsCount: build?.listings.length ?? null,
+      productsCount: build?.products.length ?? null,
+      changedListings: build?.changedListings ?? null,
+      reusedListings: build?.reusedListings ?? null,
+      addedProducts: published?.feedDiff.added ?? null,
+      removedProducts: published?.feedDiff.removed ?? null,
+      changedProducts: published?.feedDiff.changed ?? null,
+      errorCode: error === undefined ? null : error instanceof AppError ? error.code : 'UNKNOWN_ERROR',
+      errorMessage: error === undefined ? null : error instanceof Error ? error.message : 'Unknown error',
+      feedUrl: published?.feedUrl ?? null,
+      feedVersionId: published?.feedVersionId ?? null,
+      contentHash: published?.contentHash ?? null,
+    });
+  } catch (recordError) {
+    logWarn('Sync run not recorded in the sync history', {
+      error: recordError instanceof Error ? recordError.message : 'Unknown error',
+    });
+    return;
+  }
+
+  if (!build) {
+    return;
+  }
+  try {
+    await insertListingSnapshots(run.id, run.startedAt, build.listings);
+  } catch (recordError) {
+    logWarn('Listing snapshots not recorded', {
+      syncRunId: run.id,
+      error: recordError instanceof Error ? recordError.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Publish guard
+ * Compares a new Facebook feed with the live feed before it is published. Facebook deletes every
+ * item missing from the feed, so a sync that would drop more than PUBLISH_SHRINK_THRESHOLD percent
+ * of the live products (e.g., after Etsy returned a partial page) is blocked.
+ */
+
+import { logWarn } from '@/lib/utils/logger';
+import type { PublishGuardResult } from '@/lib/facebook/types';
+
+/** Default maximum shrink, as a percentage of the live feed */
+const DEFAULT_SHRINK_THRESHOLD = 20;
+
+/**
+ * Reads the maximum shrink from the PUBLISH_SHRINK_THRESHOLD environment variable
+ * 100 effectively disables the guard
+ *
+ * @returns Threshold percentage (0-100)
+ */
+export function getPublishShrinkThreshold(): number {
+  const value = process.env.PUBLISH_SHRINK_THRESHOLD;
+  if (value === undefined || value.trim() === '') {
+    return DEFAULT_SHRINK_THRESHOLD;
+  }
+
+  const threshold = Number(value);
+  if (!Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
+    logWarn('Invalid PUBLISH_SHRINK_THRESHOLD, using default', {
+      value,
+      default: DEFAULT_SHRINK_THRESHOLD,
+    });
+    return DEFAULT_SHRINK_THRESHOLD;
+  }
+  return threshold;
+}
+
+/**
+ * Rounds a percentage to one decimal
+ */
+function roundPercent(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Checks whether a new feed may replace the live feed
+ * The feed is blocked when the product count drops, or live product IDs disappear, by more than
+ * the threshold. There is nothing to protect when no feed is live yet.
+ *
+ * @param newIds - Product IDs in the new feed
+ * @param liveIds - Product IDs in the live feed (null if no feed is published)
+ * @param thresholdPercent - Maximum shrink allowed
+ * @returns Guard result
+ * @example
+ * evaluatePublishGuard(['1'], ['1', '2', '3', '4'], 20);
+ * // Returns: { allowed: false, shrinkPercent: 75, removedPercent: 75, ... }
+ */
+export function evaluatePublishGuard(
+  newIds: string[],
+  liveIds: string[] | null,
+  thresholdPercent: number
+): PublishGuardResult {
+  const previousCount = liveIds?.length ?? 0;
+  const newCount = newIds.length;
+  const current = new Set(newIds);
+  const removedCount = (liveIds ?? []).filter((id) => !current.has(id)).length;
+
+  const result: PublishGuardResult = {
+    allowed: true,
+    thresholdPercent,
+    previousCount,
+    newCount,
+    removedCount,
+    shrinkPercent: previousCount > 0 ? roundPercent(Math.max(0, (previousCount - newCount) / previousCount) * 100) : 0,
+    removedPercent: previousCount > 0 ? roundPercent((removedCount / previousCount) * 100) : 0,
+  };
+
+  if (result.shrinkPercent > thresholdPercent) {
+    result.allowed = false;
+    result.reason = `The feed would shrink from ${previousCount} to ${newCount} products (${result.shrinkPercent}% fewer, threshold ${thresholdPercent}%)`;
+  } else if (result.removedPercent > thresholdPercent) {
+    result.allowed = false;
+    result.reason = `${removedCount} of ${previousCount} live products would be removed (${result.removedPercent}%, threshold ${thresholdPercent}%)`;
+  }
+
+  return result;
+}
@@ -0,0 +1,152 @@
+/**
+ * Sync snapshot storage
+ * Persists the listings (with inventory) and formatted products from the previous sync
+ * so that incremental syncs only re-fetch and re-format listings that changed
+ */
+
+import { createHash } from 'crypto';
+import { getJSON, uploadJSON } from '@/lib/storage/blob';
+import { logInfo } from '@/lib/utils/logger';
+import type { EtsyListing } from '@/lib/etsy/types';
+import type { FacebookProduct } from '@/lib/facebook/types';
+
+/**
+ * Blob filename for the sync snapshot
+ */
+const SNAPSHOT_FILENAME = 'sync-snapshot.json';
+
+/**
+ * Snapshot format version
+ * Bump whenever the snapshot shape or the formatter output changes
+ * so that stale snapshots trigger a full sync instead of being reused
+ */
+export const SNAPSHOT_FORMAT_VERSION = 5;
+
+/**
+ * Maximum snapshot age before an incremental sync falls back to a full sync
+ * Acts as a safety net for changes Etsy does not reflect in listing timestamps
+ */
+export const MAX_SNAPSHOT_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Snapshot entry for a single listing
+ * @property listing - Listing as fetched in the sync that produced it (with inventory if any)
+ * @property products - Facebook products formatted from the listing
+ * @property archivedSince - ISO 8601 timestamp when the listing was first seen no longer active
+ * (only set for archived listings kept in the feed during the grace period)
+ */
+export interface SnapshotEntry {
+  listing: EtsyListing;
+  products: FacebookProduct[];
+  archivedSince?: string;
+}
+
+/**
+ * Snapshot of a completed sync
+ * @property version - Snapshot format version
+ * @property createdAt - ISO 8601 timestamp when the snapshot was created
+ * @property shopId - Shop the snapshot belongs to
+ * @property formatFingerprint - Hash of the formatter inputs (shop name, configuration)
+ * @property entries - Snapshot entries keyed by listing ID
+ */
+export interface SyncSnapshot {
+  version: number;
+  createdAt: string;
+  shopId: number;
+  formatFingerprint: string;
+  entries: Record<string, SnapshotEntry>;
+}
+
+/**
+ * Computes a stable fingerprint of everything (besides the listing itself) that affects
+ * formatted output. A changed fingerprint forces every listing to be re-formatted.
+ *
+ * @param inputs - Formatter inputs (e.g., shop name, mapping configuration)
+ * @returns Hex-encoded SHA-256 hash
+ * @example
+ * const fingerprint = computeFormatFingerprint({ shopName: 'TabascoSunrise' });
+ */
+export function computeFormatFingerprint(inputs: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ version: SNAPSHOT_FORMAT_VERSION, inputs }))
+    .digest('hex');
+}
+
+/**
+ * Checks whether a listing changed since it was captured in the snapshot
+ * Etsy bumps last_modified_timestamp on edits (including inventory) and
+ * state_timestamp on state changes (active, sold_out, etc.)
+ *
+ * @param listing - Freshly fetched listing
+ * @param previous - Listing from the previous snapshot
+ * @returns true if the listing must be re-fetched and re-formatted
+ */
+export function hasListingChanged(listing: EtsyListing, previous: EtsyListing): boolean {
+  return (
+    listing.last_modified_timestamp !== previous.last_modified_timestamp ||
+    listing.state_timestamp !== previous.state_timestamp
+  );
+}
+
+/**
+ * Determines why a snapshot cannot be used for an incremental sync
+ *
+ * @param snapshot - Previous snapshot
+ * @param shopId - Shop being synced
+ * @param formatFingerprint - Fingerprint of the current formatter inputs
+ * @returns Reason string, or null if the snapshot is usable
+ */
+export function getSnapshotIncompatibility(
+  snapshot: SyncSnapshot,
+  shopId: number,
+  formatFingerprint: string
+): string | null {
+  if (snapshot.version !== SNAPSHOT_FORMAT_VERSION) {
+    return 'snapshot version changed';
+  }
+  if (snapshot.shopId !== shopId) {
+    return 'shop changed';
+  }
+  if (snapshot.formatFingerprint !== formatFingerprint) {
+    return 'formatter configuration changed';
+  }
+  const age = Date.now() - new Date(snapshot.createdAt).getTime();
+  if (!(age < MAX_SNAPSHOT_AGE_MS)) {
+    return 'snapshot too old';
+  }
+  return null;
+}
+
+/**
+ * Load the snapshot written by the previous sync
+ *
+ * @returns Snapshot or null if no sync has stored one yet
+ * @throws StorageError if the snapshot cannot be fetched or parsed
+ */
+export async function loadSyncSnapshot(): Promise<SyncSnapshot | null> {
+  const result = await getJSON<SyncSnapshot>(SNAPSHOT_FILENAME);
+  if (!result) {
+    return null;
+  }
+
+  logInfo('Sync snapshot loaded', {
+    createdAt: result.data.createdAt,
+    entries: Object.keys(result.data.entries ?? {}).length,
+  });
+
+  return result.data;
+}
+
+/**
+ * Store the snapshot for the next incremental sync
+ *
+ * @param snapshot - Snapshot to store
+ * @throws StorageError if the upload fails
+ */
+export async function storeSyncSnapshot(snapshot: SyncSnapshot): Promise<void> {
+  await uploadJSON(SNAPSHOT_FILENAME, snapshot);
+  logInfo('Sync snapshot stored', {
+    createdAt: snapshot.createdAt,
+    entries: Object.keys(snapshot.entries).length,
+  });
+}
@@ -0,0 +1,106 @@
+/**
+ * Etsy seller taxonomy cache
+ * The taxonomy tree rarely changes, so it is fetched at most once per TAXONOMY_CACHE_MAX_AGE_MS
+ * and stored in Blob storage as a flat map of taxonomy ID → category path
+ */
+
+import { createHash } from 'crypto';
+import { getJSON, uploadJSON } from '@/lib/storage/blob';
+import { logInfo, logWarn } from '@/lib/utils/logger';
+import type { EtsyClient } from '@/lib/etsy/client';
+import type { EtsyTaxonomyNode } from '@/lib/etsy/types';
+import type { EtsyTaxonomyCache } from './types';
+
+/**
+ * Blob filename for the cached taxonomy
+ */
+const TAXONOMY_FILENAME = 'etsy-taxonomy.json';
+
+/**
+ * Maximum cache age before the taxonomy is re-fetched from Etsy
+ */
+export const TAXONOMY_CACHE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Flattens the nested taxonomy tree into category paths keyed by taxonomy ID
+ * @param nodes - Top-level taxonomy nodes with nested children
+ * @returns Category names from the root down to each node, keyed by taxonomy ID
+ * @example
+ * flattenTaxonomy(nodes)['1234']
+ * // Returns: ['Craft Supplies & Tools', 'Patterns & How To', 'Crochet']
+ */
+export function flattenTaxonomy(nodes: EtsyTaxonomyNode[]): Record<string, string[]> {
+  const paths: Record<string, string[]> = {};
+
+  const visit = (node: EtsyTaxonomyNode, parentPath: string[]) => {
+    const path = [...parentPath, node.name];
+    paths[node.id] = path;
+    for (const child of node.children ?? []) {
+      visit(child, path);
+    }
+  };
+
+  for (const node of nodes) {
+    visit(node, []);
+  }
+
+  return paths;
+}
+
+/**
+ * Checks whether a cached taxonomy is older than TAXONOMY_CACHE_MAX_AGE_MS
+ */
+function isCacheStale(cache: EtsyTaxonomyCache): boolean {
+  const age = Date.now() - new Date(cache.fetchedAt).getTime();
+  return !(age < TAXONOMY_CACHE_MAX_AGE_MS);
+}
+
+/**
+ * Load the Etsy taxonomy, fetching it from Etsy when the cache is missing or stale
+ * If Etsy cannot be reached but a stale cache exists, the stale cache is used
+ *
+ * @param client - Etsy API client
+ * @returns Cached taxonomy
+ * @throws EtsyApiError if the taxonomy cannot be fetched and no cache exists
+ * @throws StorageError if the cache cannot be read
+ */
+export async function loadEtsyTaxonomy(client: EtsyClient): Promise<EtsyTaxonomyCache> {
+  const cached = await getJSON<EtsyTaxonomyCache>(TAXONOMY_FILENAME);
+  if (cached && !isCacheStale(cached.data)) {
+    return cached.data;
+  }
+
+  let nodes: EtsyTaxonomyNode[];
+  try {
+    nodes = await client.getSellerTaxonomyNodes();
+  } catch (error) {
+    if (cached) {
+      logWarn('Failed to refresh Etsy taxonomy, using stale cache', {
+        fetchedAt: cached.data.fetchedAt,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return cached.data;
+    }
+    throw error;
+  }
+
+  const paths = flattenTaxonomy(nodes);
+  const taxonomy: EtsyTaxonomyCache = {
+    fetchedAt: new Date().toISOString(),
+    checksum: createHash('sha256').update(JSON.stringify(paths)).digest('hex'),
+    paths,
+  };
+
+  try {
+    await uploadJSON(TAXONOMY_FILENAME, taxonomy);
+  } catch (error) {
+    // The taxonomy is still usable for this sync; the next sync simply fetches it again
+    logWarn('Failed to cache Etsy taxonomy', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  logInfo('Etsy taxonomy refreshed', { nodes: Object.keys(paths).length });
+
+  return taxonomy;
+}
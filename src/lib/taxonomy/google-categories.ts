@@ -0,0 +1,87 @@
+/**
+ * Bundled Etsy taxonomy → Google product category mapping table
+ * Keys are Etsy category path prefixes; the longest matching prefix wins,
+ * so deeper entries refine their parent category.
+ *
+ * Google categories use the full-path text form of the Google product taxonomy
+ * (accepted by Facebook, Google Merchant Center and Pinterest).
+ */
+
+import type { GoogleCategoryMapping } from './types';
+
+/**
+ * Mapping table version
+ * Bump whenever GOOGLE_CATEGORY_MAPPINGS changes so that cached products are re-formatted
+ */
+export const GOOGLE_CATEGORY_MAPPING_VERSION = 1;
+
+/**
+ * Top-level categories of the Google product taxonomy
+ * Used to sanity-check category values (e.g., shop overrides) before sending them to
+ * channels that reject items with an unknown google_product_category
+ */
+export const GOOGLE_TOP_LEVEL_CATEGORIES: readonly string[] = [
+  'Animals & Pet Supplies',
+  'Apparel & Accessories',
+  'Arts & Entertainment',
+  'Baby & Toddler',
+  'Business & Industrial',
+  'Cameras & Optics',
+  'Electronics',
+  'Food, Beverages & Tobacco',
+  'Furniture',
+  'Hardware',
+  'Health & Beauty',
+  'Home & Garden',
+  'Luggage & Bags',
+  'Mature',
+  'Media',
+  'Office Supplies',
+  'Religious & Ceremonial',
+  'Software',
+  'Sporting Goods',
+  'Toys & Games',
+  'Vehicles & Parts',
+];
+
+const ARTS_AND_CRAFTS = 'Arts & Entertainment > Hobbies & Creative Arts > Arts & Crafts';
+const CRAFTING_PATTERNS = `${ARTS_AND_CRAFTS} > Crafting Patterns & Molds`;
+const PARTY_SUPPLIES = 'Arts & Entertainment > Party & Celebration > Party Supplies';
+
+/**
+ * Etsy category path prefix → Google product category
+ */
+export const GOOGLE_CATEGORY_MAPPINGS: readonly GoogleCategoryMapping[] = [
+  // Craft supplies (the shop's primary category)
+  { etsyPath: 'Craft Supplies & Tools', googleProductCategory: `${ARTS_AND_CRAFTS} > Art & Crafting Materials` },
+  { etsyPath: 'Craft Supplies & Tools > Patterns & How To', googleProductCategory: CRAFTING_PATTERNS },
+  { etsyPath: 'Craft Supplies & Tools > Patterns & How To > Crochet', googleProductCategory: `${CRAFTING_PATTERNS} > Needlecraft Patterns` },
+  { etsyPath: 'Craft Supplies & Tools > Patterns & How To > Knitting', googleProductCategory: `${CRAFTING_PATTERNS} > Needlecraft Patterns` },
+  { etsyPath: 'Craft Supplies & Tools > Patterns & How To > Sewing & Needlecraft', googleProductCategory: `${CRAFTING_PATTERNS} > Sewing Patterns` },
+  { etsyPath: 'Craft Supplies & Tools > Patterns & How To > Beading & Jewelry Making', googleProductCategory: `${CRAFTING_PATTERNS} > Beading Patterns` },
+  { etsyPath: 'Craft Supplies & Tools > Yarn & Fiber', googleProductCategory: `${ARTS_AND_CRAFTS} > Art & Crafting Materials > Yarn` },
+  { etsyPath: 'Craft Supplies & Tools > Tools & Equipment', googleProductCategory: `${ARTS_AND_CRAFTS} > Art & Crafting Tools` },
+
+  // Finished goods
+  { etsyPath: 'Accessories', googleProductCategory: 'Apparel & Accessories > Clothing Accessories' },
+  { etsyPath: 'Art & Collectibles', googleProductCategory: 'Home & Garden > Decor > Artwork' },
+  { etsyPath: 'Art & Collectibles > Collectibles', googleProductCategory: 'Arts & Entertainment > Hobbies & Creative Arts > Collectibles' },
+  { etsyPath: 'Bags & Purses', googleProductCategory: 'Apparel & Accessories > Handbags, Wallets & Cases' },
+  { etsyPath: 'Bath & Beauty', googleProductCategory: 'Health & Beauty > Personal Care' },
+  { etsyPath: 'Books, Movies & Music', googleProductCategory: 'Media' },
+  { etsyPath: 'Books, Movies & Music > Books', googleProductCategory: 'Media > Books' },
+  { etsyPath: 'Clothing', googleProductCategory: 'Apparel & Accessories > Clothing' },
+  { etsyPath: 'Electronics & Accessories', googleProductCategory: 'Electronics' },
+  { etsyPath: 'Home & Living', googleProductCategory: 'Home & Garden' },
+  { etsyPath: 'Home & Living > Home Decor', googleProductCategory: 'Home & Garden > Decor' },
+  { etsyPath: 'Home & Living > Kitchen & Dining', googleProductCategory: 'Home & Garden > Kitchen & Dining' },
+  { etsyPath: 'Home & Living > Bedding > Blankets & Throws', googleProductCategory: 'Home & Garden > Linens & Bedding > Bedding > Blankets' },
+  { etsyPath: 'Jewelry', googleProductCategory: 'Apparel & Accessories > Jewelry' },
+  { etsyPath: 'Paper & Party Supplies', googleProductCategory: PARTY_SUPPLIES },
+  { etsyPath: 'Paper & Party Supplies > Paper', googleProductCategory: 'Office Supplies' },
+  { etsyPath: 'Pet Supplies', googleProductCategory: 'Animals & Pet Supplies > Pet Supplies' },
+  { etsyPath: 'Shoes', googleProductCategory: 'Apparel & Accessories > Shoes' },
+  { etsyPath: 'Toys & Games', googleProductCategory: 'Toys & Games' },
+  { etsyPath: 'Toys & Games > Toys', googleProductCategory: 'Toys & Games > Toys' },
+  { etsyPath: 'Weddings', googleProductCategory: PARTY_SUPPLIES },
+];
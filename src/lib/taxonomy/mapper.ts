@@ -0,0 +1,208 @@
+/**
+ * Taxonomy lookup
+ * Resolves product_type and google_product_category for a listing from its Etsy taxonomy_id:
+ * shop overrides (Edge Config) → bundled mapping table → empty
+ */
+
+import { GOOGLE_CATEGORY_MAPPINGS, GOOGLE_TOP_LEVEL_CATEGORIES } from './google-categories';
+import { ValidationError } from '@/lib/utils/errors';
+import type { EtsyListing } from '@/lib/etsy/types';
+import type { EtsyTaxonomyCache, ListingCategory, TaxonomyOverride } from './types';
+
+/** Separator between category names in a taxonomy path */
+const PATH_SEPARATOR = ' > ';
+
+/** Override `match` values consisting only of digits are treated as taxonomy IDs */
+const TAXONOMY_ID_PATTERN = /^\d+$/;
+
+/**
+ * Splits a taxonomy path string into category names
+ * @param path - Path string (e.g., "Craft Supplies & Tools > Patterns & How To")
+ * @returns Category names with surrounding whitespace removed
+ * @example
+ * splitTaxonomyPath('Craft Supplies & Tools > Patterns & How To')
+ * // Returns: ['Craft Supplies & Tools', 'Patterns & How To']
+ */
+export function splitTaxonomyPath(path: string): string[] {
+  return path
+    .split('>')
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0);
+}
+
+/**
+ * Checks whether a taxonomy path starts with a prefix (case-insensitive, whole segments only)
+ * @param path - Category names of the listing's taxonomy path
+ * @param prefix - Category names of the prefix
+ * @returns true if every prefix segment matches the corresponding path segment
+ */
+function pathStartsWith(path: string[], prefix: string[]): boolean {
+  if (prefix.length === 0 || prefix.length > path.length) {
+    return false;
+  }
+  return prefix.every((segment, index) => segment.toLowerCase() === path[index].toLowerCase());
+}
+
+/**
+ * Gets the category names from the root down to a taxonomy node
+ * @param taxonomyId - Etsy taxonomy ID
+ * @param taxonomy - Cached Etsy taxonomy (null if unavailable)
+ * @returns Category names, or an empty array if the ID is unknown
+ */
+export function getTaxonomyPath(
+  taxonomyId: number | null,
+  taxonomy: EtsyTaxonomyCache | null
+): string[] {
+  if (taxonomyId === null || !taxonomy) {
+    return [];
+  }
+  return taxonomy.paths[taxonomyId] ?? [];
+}
+
+/**
+ * Maps an Etsy taxonomy path to a Google product category using the bundled table
+ * The longest matching prefix wins
+ * @param path - Category names of the Etsy taxonomy path
+ * @returns Google product category, or an empty string if no entry matches
+ * @example
+ * mapGoogleProductCategory(['Craft Supplies & Tools', 'Patterns & How To', 'Crochet'])
+ * // Returns: "Arts & Entertainment > ... > Crafting Patterns & Molds > Needlecraft Patterns"
+ */
+export function mapGoogleProductCategory(path: string[]): string {
+  let best: { length: number; category: string } | null = null;
+
+  for (const mapping of GOOGLE_CATEGORY_MAPPINGS) {
+    const prefix = splitTaxonomyPath(mapping.etsyPath);
+    if (pathStartsWith(path, prefix) && (!best || prefix.length > best.length)) {
+      best = { length: prefix.length, category: mapping.googleProductCategory };
+    }
+  }
+
+  return best?.category ?? '';
+}
+
+/**
+ * Checks whether a value looks like a Google product category
+ * Accepts numeric category IDs and full paths starting with a Google top-level category
+ * @param value - Category value (e.g., from a shop override)
+ * @returns true if the value is plausibly a Google product category
+ * @example
+ * isGoogleProductCategory('Media > Books') // true
+ * isGoogleProductCategory('Crochet stuff') // false
+ */
+export function isGoogleProductCategory(value: string): boolean {
+  const trimmed = value.trim();
+  if (TAXONOMY_ID_PATTERN.test(trimmed)) {
+    return true;
+  }
+  const [topLevel] = splitTaxonomyPath(trimmed);
+  return !!topLevel && GOOGLE_TOP_LEVEL_CATEGORIES.some(
+    (category) => category.toLowerCase() === topLevel.toLowerCase()
+  );
+}
+
+/**
+ * Finds the shop override that applies to a taxonomy node
+ * An override matching the exact taxonomy ID wins over path-prefix overrides;
+ * among path-prefix overrides the longest prefix wins
+ * @param taxonomyId - Etsy taxonomy ID
+ * @param path - Category names of the Etsy taxonomy path
+ * @param overrides - Shop overrides
+ * @returns Matching override, or undefined if none applies
+ */
+export function findTaxonomyOverride(
+  taxonomyId: number | null,
+  path: string[],
+  overrides: TaxonomyOverride[]
+): TaxonomyOverride | undefined {
+  let best: { length: number; override: TaxonomyOverride } | undefined;
+
+  for (const override of overrides) {
+    const match = override.match.trim();
+    if (TAXONOMY_ID_PATTERN.test(match)) {
+      if (taxonomyId !== null && Number(match) === taxonomyId) {
+        return override;
+      }
+      continue;
+    }
+
+    const prefix = splitTaxonomyPath(match);
+    if (pathStartsWith(path, prefix) && (!best || prefix.length > best.length)) {
+      best = { length: prefix.length, override };
+    }
+  }
+
+  return best?.override;
+}
+
+/**
+ * Resolves the category fields for a listing
+ * Fields not set by the matching override fall back to the Etsy path (product_type)
+ * and the bundled mapping table (google_product_category)
+ * @param listing - Etsy listing
+ * @param taxonomy - Cached Etsy taxonomy (null if unavailable)
+ * @param overrides - Shop overrides
+ * @returns Category fields for the listing's products
+ * @example
+ * resolveListingCategory(listing, taxonomy, [])
+ * // Returns: { productType: 'Craft Supplies & Tools > Patterns & How To > Crochet', googleProductCategory: '...' }
+ */
+export function resolveListingCategory(
+  listing: EtsyListing,
+  taxonomy: EtsyTaxonomyCache | null,
+  overrides: TaxonomyOverride[]
+): ListingCategory {
+  const path = getTaxonomyPath(listing.taxonomy_id, taxonomy);
+  const override = findTaxonomyOverride(listing.taxonomy_id, path, overrides);
+
+  return {
+    productType: override?.productType ?? path.join(PATH_SEPARATOR),
+    googleProductCategory: override?.googleProductCategory ?? mapGoogleProductCategory(path),
+  };
+}
+
+/**
+ * Validates taxonomy overrides submitted through the API
+ * @param value - Parsed request body value
+ * @returns Normalized overrides (trimmed strings, empty fields removed)
+ * @throws ValidationError if the value is not a list of valid overrides
+ */
+export function validateTaxonomyOverrides(value: unknown): TaxonomyOverride[] {
+  if (!Array.isArray(value)) {
+    throw new ValidationError('overrides must be an array');
+  }
+
+  return value.map((item, index) => {
+    if (!item || typeof item !== 'object') {
+      throw new ValidationError(`overrides[${index}] must be an object`);
+    }
+
+    const { match, googleProductCategory, productType } = item as Record<string, unknown>;
+
+    if (typeof match !== 'string' || match.trim().length === 0) {
+      throw new ValidationError(`overrides[${index}].match must be a taxonomy ID or category path`);
+    }
+
+    for (const [field, fieldValue] of Object.entries({ googleProductCategory, productType })) {
+      if (fieldValue !== undefined && typeof fieldValue !== 'string') {
+        throw new ValidationError(`overrides[${index}].${field} must be a string`);
+      }
+    }
+
+    const override: TaxonomyOverride = { match: match.trim() };
+    if (typeof googleProductCategory === 'string' && googleProductCategory.trim()) {
+      override.googleProductCategory = googleProductCategory.trim();
+    }
+    if (typeof productType === 'string' && productType.trim()) {
+      override.productType = productType.trim();
+    }
+
+    if (!override.googleProductCategory && !override.productType) {
+      throw new ValidationError(
+        `overrides[${index}] must set googleProductCategory or productType`
+      );
+    }
+
+    return override;
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * Taxonomy mapping type definitions
+ * Maps Etsy seller taxonomy categories to feed category fields
+ */
+
+/**
+ * Cached Etsy seller taxonomy stored in Blob storage
+ * @property fetchedAt - ISO 8601 timestamp when the taxonomy was fetched from Etsy
+ * @property checksum - Hash of `paths`, used to detect taxonomy changes between syncs
+ * @property paths - Category names from the root down to each node, keyed by taxonomy ID
+ */
+export interface EtsyTaxonomyCache {
+  fetchedAt: string;
+  checksum: string;
+  paths: Record<string, string[]>;
+}
+
+/**
+ * Bundled mapping from an Etsy taxonomy path prefix to a Google product category
+ * @property etsyPath - Etsy category path prefix (e.g., "Craft Supplies & Tools > Patterns & How To")
+ * @property googleProductCategory - Google product taxonomy path
+ */
+export interface GoogleCategoryMapping {
+  etsyPath: string;
+  googleProductCategory: string;
+}
+
+/**
+ * Shop-level category override stored in Edge Config
+ * Overrides take precedence over the bundled mapping table
+ * @property match - Etsy taxonomy ID (e.g., "1234") or Etsy category path prefix
+ * @property googleProductCategory - Google product category to use instead of the mapped one
+ * @property productType - product_type to use instead of the Etsy category path
+ */
+export interface TaxonomyOverride {
+  match: string;
+  googleProductCategory?: string;
+  productType?: string;
+}
+
+/**
+ * Category fields resolved for a listing
+ * @property productType - Etsy category path (e.g., "Craft Supplies & Tools > Patterns & How To > Crochet")
+ * @property googleProductCategory - Google product category path (empty if unmapped)
+ */
+export interface ListingCategory {
+  productType: string;
+  googleProductCategory: string;
+}
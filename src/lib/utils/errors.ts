@@ -114,6 +114,32 @@ export class RateLimitError extends EtsyApiError {
   }
 }
 
+/**
+ * Facebook Graph API errors
+ * Used for failures calling the Graph API (catalog push, feed upload diagnostics)
+ * @example
+ * throw new FacebookApiError('Catalog batch request failed', 'FACEBOOK_BATCH_ERROR', 502);
+ */
+export class FacebookApiError extends AppError {
+  /**
+   * Creates a new FacebookApiError
+   * @param message - Human-readable error message
+   * @param code - Machine-readable error code (default: 'FACEBOOK_API_ERROR')
+   * @param statusCode - HTTP status code (default: 502)
+   * @param cause - Optional underlying error
+   */
+  constructor(
+    message: string,
+    code: string = 'FACEBOOK_API_ERROR',
+    statusCode: number = 502,
+    cause?: Error
+  ) {
+    super(message, code, statusCode, cause);
+    this.name = 'FacebookApiError';
+    Object.setPrototypeOf(this, FacebookApiError.prototype);
+  }
+}
+
 /**
  * Configuration errors (missing env vars, etc.)
  * Used when required configuration is missing or invalid
@@ -153,6 +179,48 @@ export class StorageError extends AppError {
   }
 }
 
+/**
+ * Request validation errors
+ * Used when an API request body or query parameter is invalid
+ * @example
+ * throw new ValidationError('overrides must be an array');
+ */
+export class ValidationError extends AppError {
+  /**
+   * Creates a new ValidationError
+   * @param message - Human-readable error message
+   * @param code - Machine-readable error code (default: 'VALIDATION_ERROR')
+   */
+  constructor(message: string, code: string = 'VALIDATION_ERROR') {
+    super(message, code, 400);
+    this.name = 'ValidationError';
+    Object.setPrototypeOf(this, ValidationError.prototype);
+  }
+}
+
+/**
+ * Publish blocked by the publish guard
+ * Used when a sync would shrink the live Facebook feed by more than the configured threshold;
+ * the new feed is kept as a pending version instead of being published
+ * @example
+ * throw new PublishBlockedError('The feed would shrink from 120 to 3 products', '20250101T060000Z-3f2a9c1b7d4e');
+ */
+export class PublishBlockedError extends AppError {
+  /**
+   * Creates a new PublishBlockedError
+   * @param message - Human-readable error message
+   * @param pendingVersionId - ID of the pending feed version holding the blocked feed
+   */
+  constructor(
+    message: string,
+    public readonly pendingVersionId: string
+  ) {
+    super(message, 'PUBLISH_BLOCKED', 409);
+    this.name = 'PublishBlockedError';
+    Object.setPrototypeOf(this, PublishBlockedError.prototype);
+  }
+}
+
 /**
  * Check if an error indicates Edge Config is not configured
  * Checks direct code, cause code, and message for configuration errors
@@ -0,0 +1,168 @@
+/**
+ * Shared HTTP responses for public feed routes
+ * Handles CORS, ETag/If-None-Match conditional requests, Last-Modified,
+ * Content-Length and gzip compression for feed files served from Blob storage
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash } from 'crypto';
+import { gzip } from 'zlib';
+import { promisify } from 'util';
+import { logInfo } from '@/lib/utils/logger';
+import { toPublicError } from '@/lib/utils/errors';
+import type { CSVFetchResult } from '@/lib/storage/blob';
+
+const gzipAsync = promisify(gzip);
+
+/**
+ * Minimum content size (in bytes) to enable gzip compression
+ * Only compress if content is larger than 1KB to avoid overhead
+ */
+const GZIP_THRESHOLD = 1024;
+
+/**
+ * Cache-Control header for feed files
+ */
+const FEED_CACHE_CONTROL = 'public, max-age=3600';
+
+/**
+ * Common CORS headers for cross-origin access
+ *
+ * Using '*' for Access-Control-Allow-Origin is intentional for feed endpoints:
+ * - Catalog fetch services (Facebook, Google) may request from various domains
+ * - The endpoints only serve public product catalog data (no sensitive information)
+ * - The endpoints are read-only (GET only) with no authentication required
+ *
+ * Security note: If stricter CORS is needed in the future, the platforms' known
+ * domains can be added here, but this would require ongoing maintenance as
+ * their infrastructure changes.
+ */
+export const feedCorsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+/**
+ * Response for CORS preflight requests on feed routes
+ */
+export function createFeedOptionsResponse(): Response {
+  return new Response(null, {
+    status: 204,
+    headers: feedCorsHeaders,
+  });
+}
+
+/**
+ * Response returned when a feed file has not been generated yet
+ * @param message - Human-readable message (e.g., "No catalog feed available. Please run a sync first.")
+ */
+export function createFeedNotFoundResponse(message: string): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        message,
+        code: 'FEED_NOT_FOUND',
+      },
+    },
+    {
+      status: 404,
+      headers: feedCorsHeaders,
+    }
+  );
+}
+
+/**
+ * Response returned when a feed file cannot be fetched
+ * @param error - Error thrown while fetching the feed
+ */
+export function createFeedErrorResponse(error: unknown): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: toPublicError(error),
+    },
+    {
+      status: 500,
+      headers: feedCorsHeaders,
+    }
+  );
+}
+
+/**
+ * Serve a feed file with caching headers
+ * Returns 304 Not Modified when If-None-Match matches the content hash,
+ * and gzips content above GZIP_THRESHOLD when the client accepts it
+ *
+ * @param request - Incoming request
+ * @param result - Feed file fetched from Blob storage
+ * @param contentType - Content-Type header (e.g., "text/csv; charset=utf-8")
+ * @returns Feed response
+ *
+ * @example
+ * const result = await getFeedFile('google-merchant.xml');
+ * return createFeedResponse(request, result, 'application/xml; charset=utf-8');
+ */
+export async function createFeedResponse(
+  request: NextRequest,
+  result: CSVFetchResult,
+  contentType: string
+): Promise<Response> {
+  // Generate ETag from content hash for conditional requests
+  const etag = `"${createHash('sha256').update(result.content).digest('hex')}"`;
+  const lastModified = result.uploadedAt.toUTCString();
+
+  // Check If-None-Match header for conditional request
+  const requestEtag = request.headers.get('if-none-match');
+  if (requestEtag === etag) {
+    logInfo('Feed not modified - returning 304', { etag });
+    return new Response(null, {
+      status: 304,
+      headers: {
+        'ETag': etag,
+        'Last-Modified': lastModified,
+        'Cache-Control': FEED_CACHE_CONTROL,
+        ...feedCorsHeaders,
+      },
+    });
+  }
+
+  // Check Accept-Encoding for gzip support
+  const acceptEncoding = request.headers.get('accept-encoding') || '';
+  const supportsGzip = acceptEncoding.includes('gzip');
+  const shouldCompress = supportsGzip && result.content.length > GZIP_THRESHOLD;
+
+  // Prepare response body and headers
+  const responseHeaders: Record<string, string> = {
+    'Content-Type': contentType,
+    'Cache-Control': FEED_CACHE_CONTROL,
+    'ETag': etag,
+    'Last-Modified': lastModified,
+    ...feedCorsHeaders,
+  };
+
+  let responseBody: BodyInit;
+  if (shouldCompress) {
+    const compressed = await gzipAsync(Buffer.from(result.content));
+    responseBody = new Uint8Array(compressed);
+    responseHeaders['Content-Encoding'] = 'gzip';
+    responseHeaders['Content-Length'] = compressed.length.toString();
+  } else {
+    responseBody = result.content;
+    responseHeaders['Content-Length'] = Buffer.byteLength(result.content, 'utf-8').toString();
+  }
+
+  logInfo('Feed served successfully', {
+    size: result.content.length,
+    compressedSize: shouldCompress ? responseHeaders['Content-Length'] : undefined,
+    uploadedAt: result.uploadedAt.toISOString(),
+    etag,
+    compressed: shouldCompress,
+  });
+
+  return new Response(responseBody, {
+    status: 200,
+    headers: responseHeaders,
+  });
+}
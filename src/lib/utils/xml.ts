@@ -0,0 +1,46 @@
+/**
+ * XML helpers shared by the XML feed serializers (Google Merchant, Facebook RSS)
+ */
+
+/** Google namespace used by RSS 2.0 product feeds (Google Merchant Center and Facebook) */
+export const GOOGLE_NAMESPACE = 'http://base.google.com/ns/1.0';
+
+/** Content type for XML feed files */
+export const XML_CONTENT_TYPE = 'application/xml; charset=utf-8';
+
+/** Control characters not allowed in XML 1.0 (tab, newline and carriage return are allowed) */
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+/**
+ * Escapes a value for use as XML text content
+ * Removes characters that are invalid in XML 1.0 and escapes markup characters
+ * @param value - Raw text
+ * @returns XML-safe text
+ * @example
+ * escapeXML('Hats & "Scarves"')
+ * // Returns: "Hats &amp; &quot;Scarves&quot;"
+ */
+export function escapeXML(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Formats a single-line XML element with escaped text content
+ * Empty values produce an empty string so optional fields can be filtered out
+ * @param tag - Element name including any namespace prefix (e.g., "g:price")
+ * @param value - Raw text content
+ * @param indent - Number of spaces to indent the element (default: 6, inside <item>)
+ * @returns Element string, or an empty string if value is empty
+ * @example
+ * formatXMLElement('g:price', '12.99 USD')
+ * // Returns: "      <g:price>12.99 USD</g:price>"
+ */
+export function formatXMLElement(tag: string, value: string, indent: number = 6): string {
+  return value ? `${' '.repeat(indent)}<${tag}>${escapeXML(value)}</${tag}>` : '';
+}
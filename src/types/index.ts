@@ -3,23 +3,117 @@
  * Domain-specific types are located in their respective lib directories:
  * - Etsy types: @/lib/etsy/types
  * - Facebook types: @/lib/facebook/types
+ * - Google types: @/lib/google/types
+ * - Pinterest types: @/lib/pinterest/types
+ * - Taxonomy types: @/lib/taxonomy/types
+ * - Rule types: @/lib/rules/types
+ * - Filter types: @/lib/filters/types
  */
 
+import type { EtsyRateLimitQuota } from '@/lib/etsy/types';
+import type {
+  FacebookProduct,
+  FacebookPushResult,
+  FacebookPushSummary,
+  FeedDiff,
+  FeedDiffSummary,
+  FeedValidationReport,
+  PublishGuardResult,
+} from '@/lib/facebook/types';
+import type { ListingFilterStats } from '@/lib/filters/types';
+
 // Re-export domain-specific types for convenience
 export type {
   EtsyPrice,
   EtsyImage,
   EtsyListing,
+  EtsyListingState,
   EtsyShop,
   EtsyListingsResponse,
+  EtsyListingInventory,
+  EtsyInventoryProduct,
+  EtsyOffering,
+  EtsyPropertyValue,
+  EtsyRateLimitHeaders,
+  EtsyRateLimitQuota,
+  EtsyTaxonomyNode,
   EtsyTokens,
+  RateLimitCounterStore,
   RateLimitState,
 } from '@/lib/etsy/types';
 export type {
   FacebookProduct,
   FacebookAvailability,
   FacebookCondition,
+  FacebookProductStatus,
+  ListingVariant,
+  CustomLabelConfig,
+  PriceBand,
+  PopularityTier,
+  SkillLevel,
+  ShopSale,
+  CustomLabelField,
+  ListingOverride,
+  FeedIssueSeverity,
+  FeedValidationIssue,
+  FeedListingValidation,
+  FeedValidationReport,
+  CatalogBatchMethod,
+  CatalogBatchRequest,
+  CatalogBatchStatus,
+  CatalogBatchItemIssue,
+  FacebookPushResult,
+  FacebookPushSummary,
+  FeedDiagnosticsSource,
+  FeedDiagnostic,
+  FeedDiagnosticsDocument,
+  FeedVersion,
+  FeedVersionIndex,
+  PublishGuardResult,
+  PendingFeedVersion,
+  FeedChangeCategory,
+  FeedFieldChange,
+  FeedProductChange,
+  FeedDiff,
+  FeedDiffSummary,
 } from '@/lib/facebook/types';
+export type {
+  GoogleMerchantItem,
+  GoogleAvailability,
+  GoogleCondition,
+} from '@/lib/google/types';
+export type { PinterestProduct, PinterestAvailability } from '@/lib/pinterest/types';
+export type {
+  EtsyTaxonomyCache,
+  GoogleCategoryMapping,
+  ListingCategory,
+  TaxonomyOverride,
+} from '@/lib/taxonomy/types';
+export type {
+  FeedRule,
+  RuleAction,
+  RuleCondition,
+  RuleConditionField,
+  RuleOperator,
+  RulePreviewItem,
+  RuleTargetField,
+} from '@/lib/rules/types';
+export type {
+  ListingFilter,
+  ListingFilterCondition,
+  ListingFilterStats,
+} from '@/lib/filters/types';
+export type {
+  ListingSnapshot,
+  ListingSnapshotChange,
+  ListingSnapshotField,
+  ListingSnapshotValues,
+  NewSyncRun,
+  SyncRun,
+  SyncRunPage,
+  SyncRunStatus,
+  SyncRunTrigger,
+} from '@/lib/db/types';
 
 /**
  * Sync status type definitions
@@ -30,6 +124,13 @@ export type {
  */
 export type SyncStatus = 'idle' | 'syncing' | 'success' | 'error';
 
+/**
+ * Sync mode
+ * - full: every listing is re-fetched and re-formatted
+ * - incremental: only listings changed since the previous sync are re-fetched and re-formatted
+ */
+export type SyncMode = 'full' | 'incremental';
+
 /**
  * Result of a sync operation
  * @property status - Current sync status
@@ -48,15 +149,27 @@ export interface SyncResult {
  * Sync metadata stored in Edge Config
  * Tracks the last sync operation status
  * @property timestamp - ISO 8601 timestamp when sync was performed
- * @property status - Whether the sync succeeded or failed
- * @property listingsCount - Number of listings synced
+ * @property status - Whether the sync succeeded, failed or was blocked by the publish guard
+ * @property listingsCount - Number of listings synced (a blocked sync keeps the previous values)
  * @property feedUrl - Public URL of the uploaded CSV feed
+ * @property googleFeedUrl - Public URL of the uploaded Google Merchant XML feed
+ * @property pinterestFeedUrl - Public URL of the uploaded Pinterest catalog CSV
+ * @property filterStats - Listings removed by listing filters in the sync
+ * @property facebookPush - Catalog Batch API push summary (push mode only)
+ * @property publishGuard - Publish guard result that blocked the sync (blocked only)
+ * @property feedDiff - Changes from the previously live Facebook feed (success only)
  */
 export interface SyncMetadata {
   timestamp: string;
-  status: 'success' | 'failure';
+  status: 'success' | 'failure' | 'blocked';
   listingsCount: number;
   feedUrl?: string;
+  googleFeedUrl?: string;
+  pinterestFeedUrl?: string;
+  filterStats?: ListingFilterStats;
+  facebookPush?: FacebookPushSummary;
+  publishGuard?: PublishGuardResult;
+  feedDiff?: FeedDiffSummary;
 }
 
 /**
@@ -64,23 +177,77 @@ export interface SyncMetadata {
  * @property listingsCount - Number of listings synced
  * @property timestamp - ISO 8601 timestamp when sync completed
  * @property duration - Time taken for sync in milliseconds
+ * @property mode - Mode the sync actually ran in (incremental falls back to full without a usable snapshot)
+ * @property productsCount - Number of catalog rows (variants count individually)
+ * @property changedListings - Listings re-fetched and re-formatted in this sync
+ * @property reusedListings - Listings reused unchanged from the previous snapshot
+ * @property archivedListings - No-longer-active listings kept in the Facebook feed as archived
+ * @property removedListings - Listings dropped since the previous snapshot (deleted or past the archive grace period)
+ * @property excludedListings - Listings hidden from the Facebook feed by a listing override
+ * @property facebookPush - Catalog Batch API push result (push mode only)
+ * @property feedDiff - Changes from the previously live Facebook feed (not set by dry runs, which return the full diff)
+ * @property rateLimit - Etsy API quota left after the sync, as last reported by Etsy (unset if no response carried the headers)
  */
 export interface SyncStats {
   listingsCount: number;
   timestamp: string;
   duration: number;
+  mode?: SyncMode;
+  productsCount?: number;
+  changedListings?: number;
+  reusedListings?: number;
+  archivedListings?: number;
+  removedListings?: number;
+  excludedListings?: number;
+  facebookPush?: FacebookPushResult;
+  feedDiff?: FeedDiffSummary;
+  rateLimit?: EtsyRateLimitQuota;
 }
 
 /**
  * Success response from the manual sync endpoint
  * @property success - Always true for success responses
  * @property feedUrl - Public URL of the uploaded CSV feed
+ * @property googleFeedUrl - Public URL of the uploaded Google Merchant XML feed
+ * @property pinterestFeedUrl - Public URL of the uploaded Pinterest catalog CSV
  * @property stats - Sync statistics
  */
 export interface ManualSyncResponse {
   success: true;
   feedUrl: string;
+  googleFeedUrl: string;
+  pinterestFeedUrl: string;
+  stats: SyncStats;
+}
+
+/**
+ * What a sync would publish, returned by a dry run
+ * @property products - Facebook products that would be published
+ * @property validation - Validation report of the Facebook CSV that would be published
+ * @property diff - Differences from the live Facebook feed (everything is added if no feed is live)
+ * @property diffSummary - Counts of the diff
+ * @property publishGuard - Whether the publish guard would let the feed through
+ */
+export interface SyncPreview {
+  products: FacebookProduct[];
+  validation: FeedValidationReport;
+  diff: FeedDiff;
+  diffSummary: FeedDiffSummary;
+  publishGuard: PublishGuardResult;
+}
+
+/**
+ * Dry-run response from the manual sync endpoint (nothing was uploaded or stored)
+ * @property success - Always true for success responses
+ * @property dryRun - Always true for dry runs
+ * @property stats - Sync statistics of the build
+ * @property preview - Products, validation report and diff against the live feed
+ */
+export interface ManualSyncPreviewResponse {
+  success: true;
+  dryRun: true;
   stats: SyncStats;
+  preview: SyncPreview;
 }
 
 /**
@@ -0,0 +1,173 @@
+import { test, expect } from '@playwright/test';
+
+const diagnostics = {
+  importedAt: '2025-01-02T00:00:00.000Z',
+  source: 'csv',
+  total: 2,
+  unmatched: 1,
+  diagnostics: [
+    {
+      productId: '1234567890',
+      listingId: 1234567890,
+      listingTitle: 'Granny Square Blanket Crochet Pattern PDF',
+      severity: 'error',
+      message: 'Image too small',
+      suggestion:
+        'Upload a larger photo on Etsy (at least 500 x 500 pixels) or move a larger image first with an image order override.',
+    },
+    {
+      productId: '999_1',
+      listingId: null,
+      severity: 'warning',
+      message: 'Missing google_product_category',
+    },
+  ],
+};
+
+test.describe('Feed Diagnostics', () => {
+  test.beforeEach(async ({ page }) => {
+    // Mock a completed sync so the diagnostics panel is rendered
+    await page.route('/api/status', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: {
+            authenticated: true,
+            tokenExpired: false,
+            shopId: '12345678',
+            sync: {
+              lastSyncTime: '2025-01-01T00:00:00.000Z',
+              status: 'success',
+              listingsCount: 1,
+              feedUrl: 'https://example.com/facebook-catalog.csv',
+            },
+          },
+        }),
+      });
+    });
+  });
+
+  test('should import an error report and show fixes', async ({ page }) => {
+    let importedBody: string | null = null;
+    await page.route('/api/feed/diagnostics', async (route) => {
+      if (route.request().method() === 'POST') {
+        importedBody = route.request().postData();
+        await route.fulfill({
+          status: 200,
+          contentType: 'application/json',
+          body: JSON.stringify({ success: true, data: diagnostics }),
+        });
+        return;
+      }
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({ success: true, data: null }),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    const panel = page.getByTestId('diagnostics-panel');
+    await expect(panel).toContainText('No diagnostics imported yet');
+
+    await panel.getByLabel('Error report file').setInputFiles({
+      name: 'errors.csv',
+      mimeType: 'text/csv',
+      buffer: Buffer.from('id,message,severity\n1234567890,Image too small,fatal\n'),
+    });
+
+    const results = page.getByTestId('diagnostics-results');
+    await expect(results).toContainText('2 issues from CSV report');
+    await expect(results).toContainText('1 not matched to a synced listing');
+    await expect(results.getByRole('row', { name: /Image too small/ })).toContainText('Upload a larger photo');
+    await expect(results.getByRole('row', { name: /999_1/ })).toContainText('Not found');
+    expect(importedBody).toContain('Image too small');
+
+    await page.screenshot({
+      path: 'tests/screenshots/feed-diagnostics.png',
+      fullPage: true,
+    });
+  });
+
+  test('should show issues next to the listing in the overrides editor', async ({ page }) => {
+    await page.route('/api/feed/diagnostics', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({ success: true, data: diagnostics }),
+      });
+    });
+    await page.route(/\/api\/listings/, async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: {
+            total: 1,
+            offset: 0,
+            limit: 50,
+            listings: [
+              {
+                listingId: 1234567890,
+                title: 'Granny Square Blanket Crochet Pattern PDF',
+                description: 'A cozy blanket pattern.',
+                brand: 'TabascoSunrise',
+                state: 'active',
+                url: 'https://www.etsy.com/listing/1234567890',
+                variants: 1,
+                images: [],
+                override: null,
+                diagnostics: [diagnostics.diagnostics[0]],
+              },
+            ],
+          },
+        }),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    const editor = page.getByTestId('overrides-editor');
+    await expect(editor.getByTestId('listing-issues-badge')).toHaveText('1 issue');
+    await editor.getByRole('button', { name: /Granny Square Blanket/ }).click();
+
+    const issues = page.getByTestId('listing-diagnostics');
+    await expect(issues).toContainText('Image too small');
+    await expect(issues).toContainText('Fix: Upload a larger photo');
+  });
+
+  test('should show Graph API errors', async ({ page }) => {
+    await page.route(/\/api\/feed\/diagnostics/, async (route) => {
+      if (route.request().method() === 'POST') {
+        await route.fulfill({
+          status: 500,
+          contentType: 'application/json',
+          body: JSON.stringify({
+            success: false,
+            error: { message: 'FACEBOOK_CATALOG_ID environment variable is not set', code: 'CONFIG_ERROR' },
+          }),
+        });
+        return;
+      }
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({ success: true, data: null }),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    const panel = page.getByTestId('diagnostics-panel');
+    await panel.getByRole('button', { name: 'Fetch from Meta' }).click();
+
+    await expect(panel).toContainText('FACEBOOK_CATALOG_ID environment variable is not set');
+  });
+});
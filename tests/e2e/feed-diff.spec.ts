@@ -0,0 +1,158 @@
+import { test, expect } from '@playwright/test';
+
+const versions = [
+  {
+    id: '20250102T060000Z-9b1e2c3d4f5a',
+    createdAt: '2025-01-02T06:00:00.000Z',
+    contentHash: '9b1e2c3d4f5a',
+    filename: 'feed-versions/20250102T060000Z-9b1e2c3d4f5a.csv',
+    url: 'https://example.com/feed-versions/20250102T060000Z-9b1e2c3d4f5a.csv',
+    productCount: 3,
+    sizeBytes: 2048,
+  },
+  {
+    id: '20250101T060000Z-3f2a9c1b7d4e',
+    createdAt: '2025-01-01T06:00:00.000Z',
+    contentHash: '3f2a9c1b7d4e',
+    filename: 'feed-versions/20250101T060000Z-3f2a9c1b7d4e.csv',
+    url: 'https://example.com/feed-versions/20250101T060000Z-3f2a9c1b7d4e.csv',
+    productCount: 3,
+    sizeBytes: 2040,
+  },
+];
+
+const diffResponse = {
+  from: { ref: 'previous', versionId: versions[1].id, createdAt: versions[1].createdAt, productCount: 3 },
+  to: { ref: 'live', versionId: versions[0].id, createdAt: versions[0].createdAt, productCount: 3 },
+  summary: {
+    added: 1,
+    removed: 1,
+    changed: 2,
+    unchanged: 0,
+    priceChanges: 1,
+    availabilityChanges: 1,
+    titleChanges: 0,
+  },
+  diff: {
+    beforeCount: 3,
+    afterCount: 3,
+    added: ['1004'],
+    removed: ['1003'],
+    changed: [
+      {
+        id: '1001',
+        title: 'Crochet Pattern',
+        changes: [{ field: 'price', category: 'price', before: '10.00 USD', after: '12.00 USD' }],
+      },
+      {
+        id: '1002',
+        title: 'Knitting Pattern',
+        changes: [
+          { field: 'availability', category: 'availability', before: 'in stock', after: 'out of stock' },
+          { field: 'quantity_to_sell_on_facebook', category: 'other', before: '3', after: '0' },
+        ],
+      },
+    ],
+    unchangedCount: 0,
+  },
+};
+
+test.describe('Feed Diff Panel', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.route('/api/status', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: {
+            authenticated: true,
+            tokenExpired: false,
+            shopId: '12345678',
+            sync: {
+              lastSyncTime: '2025-01-02T06:00:00.000Z',
+              status: 'success',
+              listingsCount: 3,
+              feedUrl: 'https://example.com/facebook-catalog.csv',
+              feedDiff: diffResponse.summary,
+            },
+          },
+        }),
+      });
+    });
+
+    await page.route('/api/feed/versions', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: { liveVersionId: versions[0].id, versions, pending: null },
+        }),
+      });
+    });
+  });
+
+  test('should show the changes of the last sync', async ({ page }) => {
+    const requestedUrls: string[] = [];
+    await page.route(/\/api\/feed\/diff/, async (route) => {
+      requestedUrls.push(route.request().url());
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({ success: true, data: diffResponse }),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    await expect(page.getByTestId('sync-feed-diff')).toContainText('+1 / -1 / 2 changed');
+
+    const panel = page.getByTestId('feed-diff-panel');
+    const results = panel.getByTestId('feed-diff-results');
+    await expect(results).toContainText('1 added');
+    await expect(results).toContainText('availability flips: 1');
+    await expect(results).toContainText('1004');
+    await expect(results.getByRole('row', { name: /quantity_to_sell_on_facebook/ })).toBeVisible();
+
+    // Filtering by a category hides the other changes
+    await results.getByRole('button', { name: /Availability/ }).click();
+    await expect(results.getByRole('row', { name: /out of stock/ })).toBeVisible();
+    await expect(results.getByRole('row', { name: /quantity_to_sell_on_facebook/ })).toHaveCount(0);
+    await expect(results.getByRole('row', { name: /12.00 USD/ })).toHaveCount(0);
+
+    // Compare two stored versions
+    await panel.getByLabel('From').selectOption(versions[0].id);
+    await panel.getByLabel('To').selectOption(versions[1].id);
+    await panel.getByRole('button', { name: 'Compare' }).click();
+    await expect.poll(() => requestedUrls.at(-1)).toContain(`from=${versions[0].id}`);
+    expect(requestedUrls.at(-1)).toContain(`to=${versions[1].id}`);
+
+    await page.screenshot({
+      path: 'tests/screenshots/feed-diff.png',
+      fullPage: true,
+    });
+  });
+
+  test('should explain when there is nothing to compare', async ({ page }) => {
+    await page.route(/\/api\/feed\/diff/, async (route) => {
+      await route.fulfill({
+        status: 404,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: false,
+          error: {
+            message: 'There is no feed version before the live version',
+            code: 'FEED_VERSION_NOT_FOUND',
+          },
+        }),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    await expect(page.getByTestId('feed-diff-panel')).toContainText('no feed version before the live version');
+  });
+});
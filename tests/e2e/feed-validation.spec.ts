@@ -0,0 +1,106 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Feed Validation Panel', () => {
+  test.beforeEach(async ({ page }) => {
+    // Mock a completed sync so the validation panel is rendered
+    await page.route('/api/status', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: {
+            authenticated: true,
+            tokenExpired: false,
+            shopId: '12345678',
+            sync: {
+              lastSyncTime: '2025-01-01T00:00:00.000Z',
+              status: 'success',
+              listingsCount: 2,
+              feedUrl: 'https://example.com/facebook-catalog.csv',
+            },
+          },
+        }),
+      });
+    });
+  });
+
+  test('should list errors and warnings by row', async ({ page }) => {
+    await page.route('/api/feed/validate', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: {
+            valid: false,
+            productCount: 2,
+            errorCount: 1,
+            warningCount: 1,
+            headers: ['id', 'title'],
+            headerIssues: [],
+            listings: [
+              {
+                listingId: '1234567890',
+                rows: [3],
+                errors: [
+                  {
+                    row: 3,
+                    field: 'price',
+                    severity: 'error',
+                    message: 'price must be an amount and currency code (e.g., "12.99 USD")',
+                  },
+                ],
+                warnings: [
+                  {
+                    row: 3,
+                    field: 'google_product_category',
+                    severity: 'warning',
+                    message: 'google_product_category is empty',
+                  },
+                ],
+              },
+            ],
+            sizeBytes: 1024,
+            uploadedAt: '2025-01-01T00:00:00.000Z',
+          },
+        }),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    const panel = page.getByTestId('feed-validation-panel');
+    await expect(panel).toBeVisible();
+    await panel.getByRole('button', { name: 'Validate Feed' }).click();
+
+    const results = page.getByTestId('feed-validation-results');
+    await expect(results).toContainText('Feed has errors: 2 products, 1 error, 1 warning');
+    await expect(results.getByRole('row', { name: /price must be an amount/ })).toContainText('1234567890');
+    await expect(results.getByRole('row', { name: /google_product_category is empty/ })).toContainText('Warning');
+
+    await page.screenshot({
+      path: 'tests/screenshots/feed-validation.png',
+      fullPage: true,
+    });
+  });
+
+  test('should report a missing feed', async ({ page }) => {
+    await page.route('/api/feed/validate', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({ success: true, data: { valid: false, error: 'No feed found' } }),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    const panel = page.getByTestId('feed-validation-panel');
+    await panel.getByRole('button', { name: 'Validate Feed' }).click();
+
+    await expect(panel).toContainText('No feed found');
+  });
+});
@@ -0,0 +1,120 @@
+import { test, expect } from '@playwright/test';
+
+const versions = [
+  {
+    id: '20250102T060000Z-9b1e2c3d4f5a',
+    createdAt: '2025-01-02T06:00:00.000Z',
+    contentHash: '9b1e2c3d4f5a',
+    filename: 'feed-versions/20250102T060000Z-9b1e2c3d4f5a.csv',
+    url: 'https://example.com/feed-versions/20250102T060000Z-9b1e2c3d4f5a.csv',
+    productCount: 3,
+    sizeBytes: 2048,
+  },
+  {
+    id: '20250101T060000Z-3f2a9c1b7d4e',
+    createdAt: '2025-01-01T06:00:00.000Z',
+    contentHash: '3f2a9c1b7d4e',
+    filename: 'feed-versions/20250101T060000Z-3f2a9c1b7d4e.csv',
+    url: 'https://example.com/feed-versions/20250101T060000Z-3f2a9c1b7d4e.csv',
+    productCount: 42,
+    sizeBytes: 40960,
+  },
+];
+
+test.describe('Feed Versions Panel', () => {
+  test.beforeEach(async ({ page }) => {
+    // Mock a completed sync so the versions panel is rendered
+    await page.route('/api/status', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: {
+            authenticated: true,
+            tokenExpired: false,
+            shopId: '12345678',
+            sync: {
+              lastSyncTime: '2025-01-02T06:00:00.000Z',
+              status: 'success',
+              listingsCount: 3,
+              feedUrl: 'https://example.com/facebook-catalog.csv',
+            },
+          },
+        }),
+      });
+    });
+
+    await page.route('/api/feed/versions', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: { liveVersionId: versions[0].id, versions, pending: null },
+        }),
+      });
+    });
+  });
+
+  test('should restore an earlier version', async ({ page }) => {
+    let promotedBody: Record<string, unknown> | null = null;
+    await page.route('/api/feed/versions/promote', async (route) => {
+      promotedBody = route.request().postDataJSON();
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: { liveVersionId: versions[1].id, version: versions[1] },
+        }),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    const panel = page.getByTestId('feed-versions-panel');
+    const olderRow = panel.getByRole('row', { name: /3f2a9c1b7d4e/ });
+    await expect(panel.getByRole('row', { name: /9b1e2c3d4f5a/ })).toContainText('Live');
+    await expect(olderRow).toContainText('42');
+
+    await olderRow.getByRole('button', { name: 'Restore' }).click();
+    await olderRow.getByRole('button', { name: 'Confirm Restore' }).click();
+
+    await expect(panel).toContainText('is now the live feed');
+    await expect(olderRow).toContainText('Live');
+    expect(promotedBody).toEqual({ versionId: versions[1].id });
+
+    await page.screenshot({
+      path: 'tests/screenshots/feed-versions.png',
+      fullPage: true,
+    });
+  });
+
+  test('should show restore errors', async ({ page }) => {
+    await page.route('/api/feed/versions/promote', async (route) => {
+      await route.fulfill({
+        status: 503,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: false,
+          error: {
+            message: `Stored copy of feed version ${versions[1].id} is missing`,
+            code: 'FEED_VERSION_MISSING',
+          },
+        }),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    const panel = page.getByTestId('feed-versions-panel');
+    const olderRow = panel.getByRole('row', { name: /3f2a9c1b7d4e/ });
+    await olderRow.getByRole('button', { name: 'Restore' }).click();
+    await olderRow.getByRole('button', { name: 'Confirm Restore' }).click();
+
+    await expect(panel).toContainText('is missing');
+  });
+});
@@ -0,0 +1,106 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Listing Filters Panel', () => {
+  test.beforeEach(async ({ page }) => {
+    // Mock an authenticated status so the filters panel is rendered
+    await page.route('/api/status', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: {
+            authenticated: true,
+            tokenExpired: false,
+            shopId: '12345678',
+            sync: null,
+          },
+        }),
+      });
+    });
+
+    // Mock the stored filters and the counts from the last sync
+    await page.route('/api/filters', async (route) => {
+      if (route.request().method() === 'PUT') {
+        const body = route.request().postDataJSON();
+        await route.fulfill({
+          status: 200,
+          contentType: 'application/json',
+          body: JSON.stringify({ success: true, data: { filters: body.filters } }),
+        });
+        return;
+      }
+
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: {
+            filters: [
+              {
+                id: 'no-free-patterns',
+                name: 'Hide free patterns',
+                mode: 'exclude',
+                condition: { field: 'price', max: 0 },
+              },
+              {
+                id: 'no-bundles',
+                mode: 'exclude',
+                condition: { field: 'title', pattern: 'bundle' },
+              },
+            ],
+            lastSync: {
+              timestamp: '2025-01-01T00:00:00.000Z',
+              stats: {
+                evaluated: 40,
+                removed: 5,
+                removedByFilter: { 'no-free-patterns': 3, 'no-bundles': 2 },
+              },
+            },
+          },
+        }),
+      });
+    });
+  });
+
+  test('should show how many listings each filter removed', async ({ page }) => {
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    const panel = page.getByTestId('filters-panel');
+    await expect(panel).toBeVisible();
+
+    const counts = page.getByTestId('filter-counts');
+    await expect(counts.getByRole('row', { name: /Hide free patterns/ })).toContainText('3 listings');
+    await expect(counts.getByRole('row', { name: /no-bundles/ })).toContainText('2 listings');
+    await expect(counts).toContainText('5 of 40 listings removed');
+
+    await page.screenshot({
+      path: 'tests/screenshots/filters-panel.png',
+      fullPage: true,
+    });
+  });
+
+  test('should save filters', async ({ page }) => {
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    const panel = page.getByTestId('filters-panel');
+    await expect(panel.getByLabel('Listing filters JSON')).toHaveValue(/no-free-patterns/);
+    await panel.getByRole('button', { name: 'Save Filters' }).click();
+
+    await expect(panel).toContainText('Saved 2 filters');
+  });
+
+  test('should reject filters that are not valid JSON before saving', async ({ page }) => {
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    const panel = page.getByTestId('filters-panel');
+    await panel.getByLabel('Listing filters JSON').fill('{ not json');
+    await panel.getByRole('button', { name: 'Save Filters' }).click();
+
+    await expect(panel).toContainText('Filters must be valid JSON');
+  });
+});
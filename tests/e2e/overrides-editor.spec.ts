@@ -0,0 +1,118 @@
+import { test, expect } from '@playwright/test';
+
+const listing = {
+  listingId: 1234567890,
+  title: 'Granny Square Blanket Crochet Pattern PDF',
+  description: 'A cozy blanket pattern.',
+  brand: 'TabascoSunrise',
+  state: 'active',
+  url: 'https://www.etsy.com/listing/1234567890',
+  variants: 1,
+  images: [
+    { id: 111, url: 'https://i.etsystatic.com/111.jpg' },
+    { id: 222, url: 'https://i.etsystatic.com/222.jpg' },
+  ],
+  override: null,
+  diagnostics: [],
+};
+
+test.describe('Listing Overrides Editor', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.route('/api/status', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: {
+            authenticated: true,
+            tokenExpired: false,
+            shopId: '12345678',
+            sync: null,
+          },
+        }),
+      });
+    });
+
+    await page.route('/api/rules', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({ success: true, data: { rules: [] } }),
+      });
+    });
+
+    await page.route(/\/api\/listings/, async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: { total: 1, offset: 0, limit: 50, listings: [listing] },
+        }),
+      });
+    });
+  });
+
+  test('should save an override for a listing', async ({ page }) => {
+    let savedBody: Record<string, unknown> | null = null;
+    await page.route('/api/overrides', async (route) => {
+      savedBody = route.request().postDataJSON();
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: {
+            listingId: '1234567890',
+            override: { title: 'Granny Square Blanket', excluded: true, imageOrder: [222, 111] },
+          },
+        }),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    const editor = page.getByTestId('overrides-editor');
+    await expect(editor).toBeVisible();
+    await editor.getByRole('button', { name: /Granny Square Blanket/ }).click();
+
+    const form = page.getByTestId('override-form');
+    await form.getByLabel('Title').fill('Granny Square Blanket');
+    await form.getByLabel('Exclude from catalog').check();
+    await form.getByRole('button', { name: 'Move image 2 earlier' }).click();
+
+    await page.screenshot({
+      path: 'tests/screenshots/overrides-editor-form.png',
+      fullPage: true,
+    });
+
+    await form.getByRole('button', { name: 'Save Override' }).click();
+
+    await expect(editor).toContainText('Override saved');
+    await expect(editor.getByText('Excluded')).toBeVisible();
+    expect(savedBody).toMatchObject({
+      listingId: 1234567890,
+      override: { title: 'Granny Square Blanket', excluded: true, imageOrder: [222, 111] },
+    });
+  });
+
+  test('should show an error when no sync has run yet', async ({ page }) => {
+    await page.route(/\/api\/listings/, async (route) => {
+      await route.fulfill({
+        status: 404,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: false,
+          error: { message: 'No synced listings yet. Please run a sync first.', code: 'NO_SNAPSHOT' },
+        }),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    await expect(page.getByTestId('overrides-editor')).toContainText('Please run a sync first');
+  });
+});
@@ -0,0 +1,139 @@
+import { test, expect } from '@playwright/test';
+
+const liveVersion = {
+  id: '20250101T060000Z-3f2a9c1b7d4e',
+  createdAt: '2025-01-01T06:00:00.000Z',
+  contentHash: '3f2a9c1b7d4e',
+  filename: 'feed-versions/20250101T060000Z-3f2a9c1b7d4e.csv',
+  url: 'https://example.com/feed-versions/20250101T060000Z-3f2a9c1b7d4e.csv',
+  productCount: 42,
+  sizeBytes: 40960,
+};
+
+const pendingVersion = {
+  id: '20250102T060000Z-9b1e2c3d4f5a',
+  createdAt: '2025-01-02T06:00:00.000Z',
+  contentHash: '9b1e2c3d4f5a',
+  filename: 'feed-versions/20250102T060000Z-9b1e2c3d4f5a.csv',
+  url: 'https://example.com/feed-versions/20250102T060000Z-9b1e2c3d4f5a.csv',
+  productCount: 3,
+  sizeBytes: 2048,
+  guard: {
+    allowed: false,
+    thresholdPercent: 20,
+    previousCount: 42,
+    newCount: 3,
+    removedCount: 39,
+    shrinkPercent: 92.9,
+    removedPercent: 92.9,
+    reason: 'The feed would shrink from 42 to 3 products (92.9% fewer, threshold 20%)',
+  },
+};
+
+test.describe('Publish Guard', () => {
+  let pending: typeof pendingVersion | null;
+  let approved: boolean;
+
+  test.beforeEach(async ({ page }) => {
+    pending = pendingVersion;
+    approved = false;
+
+    // Mock a sync that was blocked by the publish guard
+    await page.route('/api/status', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: {
+            authenticated: true,
+            tokenExpired: false,
+            shopId: '12345678',
+            sync: {
+              lastSyncTime: '2025-01-02T06:00:00.000Z',
+              status: 'blocked',
+              listingsCount: 42,
+              feedUrl: 'https://example.com/facebook-catalog.csv',
+              blockedReason: pendingVersion.guard.reason,
+            },
+          },
+        }),
+      });
+    });
+
+    await page.route('/api/feed/versions', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: {
+            liveVersionId: approved ? pendingVersion.id : liveVersion.id,
+            versions: approved ? [pendingVersion, liveVersion] : [liveVersion],
+            pending,
+          },
+        }),
+      });
+    });
+  });
+
+  test('should show a blocked sync and approve the pending version', async ({ page }) => {
+    await page.route('/api/feed/versions/pending', async (route) => {
+      expect(route.request().method()).toBe('POST');
+      approved = true;
+      pending = null;
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: { liveVersionId: pendingVersion.id, version: pendingVersion },
+        }),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    await expect(page.getByText('Blocked', { exact: true })).toBeVisible();
+
+    const panel = page.getByTestId('feed-versions-panel');
+    const pendingBox = panel.getByTestId('pending-feed-version');
+    await expect(pendingBox).toContainText('shrink from 42 to 3 products');
+    await expect(pendingBox).toContainText('39 removed');
+
+    await pendingBox.getByRole('button', { name: 'Approve' }).click();
+
+    await expect(panel).toContainText('Pending version approved');
+    await expect(panel.getByTestId('pending-feed-version')).toHaveCount(0);
+    await expect(panel.getByRole('row', { name: /9b1e2c3d4f5a/ })).toContainText('Live');
+    expect(approved).toBe(true);
+
+    await page.screenshot({
+      path: 'tests/screenshots/publish-guard.png',
+      fullPage: true,
+    });
+  });
+
+  test('should discard the pending version', async ({ page }) => {
+    await page.route('/api/feed/versions/pending', async (route) => {
+      expect(route.request().method()).toBe('DELETE');
+      pending = null;
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({ success: true, data: { pending: null } }),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    const panel = page.getByTestId('feed-versions-panel');
+    await panel.getByRole('button', { name: 'Discard' }).click();
+
+    await expect(panel).toContainText('Pending version discarded');
+    await expect(panel.getByTestId('pending-feed-version')).toHaveCount(0);
+    await expect(panel.getByRole('row', { name: /3f2a9c1b7d4e/ })).toContainText('Live');
+  });
+});
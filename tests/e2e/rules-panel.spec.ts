@@ -0,0 +1,137 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Feed Rules Panel', () => {
+  test.beforeEach(async ({ page }) => {
+    // Mock an authenticated status so the rules panel is rendered
+    await page.route('/api/status', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: {
+            authenticated: true,
+            tokenExpired: false,
+            shopId: '12345678',
+            sync: null,
+          },
+        }),
+      });
+    });
+
+    // Mock the stored rules
+    await page.route('/api/rules', async (route) => {
+      if (route.request().method() === 'PUT') {
+        const body = route.request().postDataJSON();
+        await route.fulfill({
+          status: 200,
+          contentType: 'application/json',
+          body: JSON.stringify({ success: true, data: { rules: body.rules } }),
+        });
+        return;
+      }
+
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: {
+            rules: [
+              {
+                id: 'pattern-title',
+                conditions: [{ field: 'tags', operator: 'contains', value: 'crochet pattern' }],
+                actions: [{ field: 'title', value: '{title} | Crochet Pattern' }],
+              },
+            ],
+          },
+        }),
+      });
+    });
+  });
+
+  test('should preview the effect of the rules', async ({ page }) => {
+    await page.route('/api/rules/preview', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: {
+            snapshotCreatedAt: '2025-01-01T00:00:00.000Z',
+            totalProducts: 12,
+            matchedProducts: 1,
+            changedProducts: 1,
+            items: [
+              {
+                id: '1234567890',
+                title: 'Granny Square Blanket',
+                ruleIds: ['pattern-title'],
+                changes: [
+                  {
+                    field: 'title',
+                    before: 'Granny Square Blanket',
+                    after: 'Granny Square Blanket | Crochet Pattern',
+                  },
+                ],
+              },
+            ],
+          },
+        }),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    const panel = page.getByTestId('rules-panel');
+    await expect(panel).toBeVisible();
+    await expect(panel.getByLabel('Feed rules JSON')).toHaveValue(/pattern-title/);
+
+    await panel.getByRole('button', { name: 'Preview' }).click();
+
+    const preview = page.getByTestId('rules-preview');
+    await expect(preview).toContainText('1 of 12 products matched');
+    await expect(preview).toContainText('Granny Square Blanket | Crochet Pattern');
+
+    await page.screenshot({
+      path: 'tests/screenshots/rules-panel-preview.png',
+      fullPage: true,
+    });
+  });
+
+  test('should show validation errors from the API', async ({ page }) => {
+    await page.route('/api/rules/preview', async (route) => {
+      await route.fulfill({
+        status: 400,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: false,
+          error: {
+            message: 'rules[0].actions[0].value uses unknown placeholder {name}',
+            code: 'VALIDATION_ERROR',
+          },
+        }),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    const panel = page.getByTestId('rules-panel');
+    await panel.getByRole('button', { name: 'Preview' }).click();
+
+    await expect(panel).toContainText('unknown placeholder {name}');
+  });
+
+  test('should reject rules that are not valid JSON before saving', async ({ page }) => {
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    const panel = page.getByTestId('rules-panel');
+    await panel.getByLabel('Feed rules JSON').fill('{ not json');
+    await panel.getByRole('button', { name: 'Save Rules' }).click();
+
+    await expect(panel).toContainText('Rules must be valid JSON');
+  });
+});
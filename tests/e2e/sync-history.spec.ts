@@ -0,0 +1,123 @@
+import { test, expect } from '@playwright/test';
+
+const successRun = {
+  id: 2,
+  trigger: 'manual',
+  status: 'success',
+  mode: 'incremental',
+  startedAt: '2025-01-07T10:00:00.000Z',
+  finishedAt: '2025-01-07T10:00:04.200Z',
+  durationMs: 4200,
+  listingsCount: 42,
+  productsCount: 57,
+  changedListings: 3,
+  reusedListings: 39,
+  addedProducts: 2,
+  removedProducts: 1,
+  changedProducts: 5,
+  errorCode: null,
+  errorMessage: null,
+  feedUrl: 'https://example.com/facebook-catalog.csv',
+  feedVersionId: '20250107T100004Z-9b1e2c3d4f5a',
+  contentHash: '9b1e2c3d4f5a',
+};
+
+const failedRun = {
+  ...successRun,
+  id: 1,
+  trigger: 'cron',
+  status: 'failure',
+  mode: null,
+  startedAt: '2025-01-06T06:00:00.000Z',
+  finishedAt: '2025-01-06T06:00:01.000Z',
+  durationMs: 1000,
+  listingsCount: null,
+  productsCount: null,
+  changedListings: null,
+  reusedListings: null,
+  addedProducts: null,
+  removedProducts: null,
+  changedProducts: null,
+  errorCode: 'RATE_LIMIT_ERROR',
+  errorMessage: 'Rate limit exceeded',
+  feedUrl: null,
+  feedVersionId: null,
+  contentHash: null,
+};
+
+test.describe('Sync History Panel', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.route('/api/status', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: {
+            authenticated: true,
+            tokenExpired: false,
+            shopId: '12345678',
+            sync: null,
+          },
+        }),
+      });
+    });
+  });
+
+  test('should page through recorded runs', async ({ page }) => {
+    await page.route(/\/api\/sync\/history/, async (route) => {
+      const pageNumber = Number(new URL(route.request().url()).searchParams.get('page'));
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: {
+            configured: true,
+            runs: pageNumber === 1 ? [successRun] : [failedRun],
+            page: pageNumber,
+            pageSize: 1,
+            total: 2,
+          },
+        }),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    const panel = page.getByTestId('sync-history-panel');
+    await expect(panel.getByRole('row', { name: /Manual/ })).toContainText('+2 / -1 / 5 changed');
+    await expect(panel).toContainText('Page 1 of 2');
+
+    await panel.getByRole('button', { name: 'Next' }).click();
+    const failedRow = panel.getByRole('row', { name: /Cron/ });
+    await expect(failedRow).toContainText('Failed');
+    await expect(failedRow).toContainText('RATE_LIMIT_ERROR');
+    await expect(panel).toContainText('Page 2 of 2');
+    await expect(panel.getByRole('button', { name: 'Next' })).toBeDisabled();
+
+    await page.screenshot({
+      path: 'tests/screenshots/sync-history.png',
+      fullPage: true,
+    });
+  });
+
+  test('should explain when no database is configured', async ({ page }) => {
+    await page.route(/\/api\/sync\/history/, async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: { configured: false, runs: [], page: 1, pageSize: 10, total: 0 },
+        }),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    await expect(page.getByTestId('sync-history-panel')).toContainText('POSTGRES_URL');
+  });
+});
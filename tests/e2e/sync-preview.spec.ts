@@ -0,0 +1,173 @@
+import { test, expect } from '@playwright/test';
+
+const product = {
+  id: '1001',
+  title: 'Crochet Pattern',
+  description: 'A pattern',
+  availability: 'in stock',
+  condition: 'new',
+  price: '12.00 USD',
+  link: 'https://www.etsy.com/listing/1001',
+  image_link: 'https://i.etsystatic.com/1001.jpg',
+  additional_image_link: '',
+  brand: 'Test Shop',
+  item_group_id: '',
+  quantity_to_sell_on_facebook: '5',
+  size: '',
+  color: '',
+  additional_variant_attribute: '',
+  google_product_category: '',
+  product_type: '',
+  custom_label_0: '',
+  custom_label_1: '',
+  custom_label_2: '',
+  custom_label_3: '',
+  custom_label_4: '',
+  sale_price: '',
+  sale_price_effective_date: '',
+  status: 'active',
+};
+
+const previewResponse = {
+  success: true,
+  dryRun: true,
+  stats: {
+    listingsCount: 2,
+    timestamp: '2025-01-02T06:00:00.000Z',
+    duration: 1500,
+    mode: 'incremental',
+    productsCount: 2,
+    changedListings: 1,
+    reusedListings: 1,
+    archivedListings: 0,
+    removedListings: 1,
+    excludedListings: 0,
+  },
+  preview: {
+    products: [product, { ...product, id: '1002', title: 'Knitting Pattern' }],
+    validation: {
+      valid: true,
+      productCount: 2,
+      errorCount: 0,
+      warningCount: 1,
+      headers: [],
+      headerIssues: [],
+      listings: [
+        {
+          listingId: '1002',
+          rows: [3],
+          errors: [],
+          warnings: [
+            { row: 3, field: 'google_product_category', severity: 'warning', message: 'Category is empty' },
+          ],
+        },
+      ],
+    },
+    diff: {
+      beforeCount: 2,
+      afterCount: 2,
+      added: ['1002'],
+      removed: ['1003'],
+      changed: [
+        {
+          id: '1001',
+          title: 'Crochet Pattern',
+          changes: [{ field: 'price', category: 'price', before: '10.00 USD', after: '12.00 USD' }],
+        },
+      ],
+      unchangedCount: 0,
+    },
+    diffSummary: {
+      added: 1,
+      removed: 1,
+      changed: 1,
+      unchanged: 0,
+      priceChanges: 1,
+      availabilityChanges: 0,
+      titleChanges: 0,
+    },
+    publishGuard: {
+      allowed: false,
+      thresholdPercent: 20,
+      previousCount: 2,
+      newCount: 2,
+      removedCount: 1,
+      shrinkPercent: 0,
+      removedPercent: 50,
+      reason: '1 of 2 live products would be removed (50%, threshold 20%)',
+    },
+  },
+};
+
+test.describe('Sync Preview Panel', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.route('/api/status', async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: true,
+          data: {
+            authenticated: true,
+            tokenExpired: false,
+            shopId: '12345678',
+            sync: null,
+          },
+        }),
+      });
+    });
+  });
+
+  test('should preview a sync without publishing', async ({ page }) => {
+    let requestedUrl = '';
+    await page.route(/\/api\/sync\/manual/, async (route) => {
+      requestedUrl = route.request().url();
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify(previewResponse),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    const panel = page.getByTestId('sync-preview-panel');
+    await panel.getByRole('button', { name: 'Preview Sync' }).click();
+
+    const results = panel.getByTestId('sync-preview-results');
+    await expect(results).toContainText('1 added');
+    await expect(results).toContainText('1 removed');
+    await expect(results).toContainText('publish guard would block');
+    await expect(results).toContainText('Category is empty');
+    await expect(results.getByRole('row', { name: /price/ })).toContainText('10.00 USD');
+    await expect(results.getByRole('row', { name: /Knitting Pattern/ })).toBeVisible();
+    expect(requestedUrl).toContain('dryRun=1');
+
+    await page.screenshot({
+      path: 'tests/screenshots/sync-preview.png',
+      fullPage: true,
+    });
+  });
+
+  test('should show preview errors', async ({ page }) => {
+    await page.route(/\/api\/sync\/manual/, async (route) => {
+      await route.fulfill({
+        status: 401,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          success: false,
+          error: { message: 'Token expired', code: 'TOKEN_EXPIRED' },
+        }),
+      });
+    });
+
+    await page.goto('/dashboard');
+    await page.waitForLoadState('networkidle');
+
+    const panel = page.getByTestId('sync-preview-panel');
+    await panel.getByRole('button', { name: 'Preview Sync' }).click();
+
+    await expect(panel).toContainText('Token expired');
+  });
+});
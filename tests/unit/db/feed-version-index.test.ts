@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  compareAndSetFeedVersionIndex,
+  ensureFeedVersionIndexTable,
+  getFeedVersionIndex,
+} from '@/lib/db/feed-version-index';
+import type { FeedVersionIndex } from '@/lib/facebook/types';
+import { createLocalDatabase, type LocalDatabase } from './local-database';
+
+/**
+ * Feed version index tests against a local Postgres (PGlite)
+ */
+
+let local: LocalDatabase;
+
+function createIndex(fields: Partial<FeedVersionIndex> = {}): FeedVersionIndex {
+  return {
+    updatedAt: '2025-06-01T06:00:00.000Z',
+    generation: 0,
+    liveVersionId: null,
+    versions: [],
+    pending: null,
+    ...fields,
+  };
+}
+
+beforeAll(async () => {
+  local = await createLocalDatabase();
+}, 30_000);
+
+afterAll(async () => {
+  await local.close();
+});
+
+beforeEach(async () => {
+  await ensureFeedVersionIndexTable(local.db);
+  await local.db.query('TRUNCATE feed_version_index');
+});
+
+describe('compareAndSetFeedVersionIndex', () => {
+  it('stores the first index and increments the generation on each write', async () => {
+    expect(await getFeedVersionIndex(local.db)).toBeNull();
+
+    expect(await compareAndSetFeedVersionIndex(createIndex(), local.db)).toBe(true);
+    const first = await getFeedVersionIndex(local.db);
+    expect(first).toEqual(createIndex({ generation: 1 }));
+
+    expect(
+      await compareAndSetFeedVersionIndex({ ...first!, liveVersionId: '20250601T060000Z-3f2a9c1b7d4e' }, local.db)
+    ).toBe(true);
+    expect(await getFeedVersionIndex(local.db)).toMatchObject({
+      generation: 2,
+      liveVersionId: '20250601T060000Z-3f2a9c1b7d4e',
+    });
+  });
+
+  it('refuses a write based on an index that has changed since', async () => {
+    await compareAndSetFeedVersionIndex(createIndex(), local.db);
+    const loaded = (await getFeedVersionIndex(local.db))!;
+
+    const writes = await Promise.all([
+      compareAndSetFeedVersionIndex({ ...loaded, liveVersionId: 'a' }, local.db),
+      compareAndSetFeedVersionIndex({ ...loaded, liveVersionId: 'b' }, local.db),
+    ]);
+
+    expect(writes.filter(Boolean)).toHaveLength(1);
+    expect(await getFeedVersionIndex(local.db)).toMatchObject({
+      generation: 2,
+      liveVersionId: writes[0] ? 'a' : 'b',
+    });
+  });
+
+  it('carries over an index loaded from Blob with its generation', async () => {
+    expect(await compareAndSetFeedVersionIndex(createIndex({ generation: 7 }), local.db)).toBe(true);
+    expect(await compareAndSetFeedVersionIndex(createIndex({ generation: 7 }), local.db)).toBe(false);
+
+    expect((await getFeedVersionIndex(local.db))?.generation).toBe(8);
+  });
+});
@@ -0,0 +1,240 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  ensureListingSnapshotsTable,
+  findListingChanges,
+  insertListingSnapshots,
+  listListingSnapshots,
+  toListingSnapshotValues,
+} from '@/lib/db/listing-snapshots';
+import { insertSyncRun } from '@/lib/db/sync-runs';
+import type { ListingSnapshot } from '@/lib/db/types';
+import { createImage, createListing } from '../fixtures';
+import { createLocalDatabase, type LocalDatabase } from './local-database';
+
+/**
+ * Listing snapshot tests
+ * Inserts and history queries run against a local Postgres (PGlite).
+ */
+
+let local: LocalDatabase;
+
+/**
+ * Records a sync run starting at the given time
+ * @returns Sync run ID
+ */
+async function recordRun(startedAt: string): Promise<number> {
+  const run = await insertSyncRun(
+    {
+      trigger: 'cron',
+      status: 'success',
+      mode: 'incremental',
+      startedAt,
+      finishedAt: startedAt,
+      listingsCount: null,
+      productsCount: null,
+      changedListings: null,
+      reusedListings: null,
+      addedProducts: null,
+      removedProducts: null,
+      changedProducts: null,
+      errorCode: null,
+      errorMessage: null,
+      feedUrl: null,
+      feedVersionId: null,
+      contentHash: null,
+    },
+    local.db
+  );
+  return run.id;
+}
+
+function createSnapshot(fields: Partial<ListingSnapshot> = {}): ListingSnapshot {
+  return {
+    syncRunId: 1,
+    capturedAt: '2025-06-01T06:00:00.000Z',
+    listingId: 1001,
+    price: 6.5,
+    currencyCode: 'USD',
+    quantity: 999,
+    state: 'active',
+    views: 120,
+    numFavorers: 14,
+    tags: ['crochet pattern', 'granny square'],
+    imageCount: 1,
+    ...fields,
+  };
+}
+
+beforeAll(async () => {
+  local = await createLocalDatabase();
+}, 30_000);
+
+afterAll(async () => {
+  await local.close();
+});
+
+beforeEach(async () => {
+  await ensureListingSnapshotsTable(local.db);
+  await local.db.query('TRUNCATE sync_runs RESTART IDENTITY CASCADE');
+});
+
+describe('toListingSnapshotValues', () => {
+  it('normalizes the listing price and counts', () => {
+    const listing = createListing({
+      price: { amount: 1299, divisor: 100, currency_code: 'EUR' },
+      images: [createImage(1001, 1), createImage(1001, 2, 2)],
+    });
+
+    expect(toListingSnapshotValues(listing)).toEqual({
+      listingId: 1001,
+      price: 12.99,
+      currencyCode: 'EUR',
+      quantity: 999,
+      state: 'active',
+      views: 120,
+      numFavorers: 14,
+      tags: ['crochet pattern', 'granny square'],
+      imageCount: 2,
+    });
+  });
+
+  it('treats a zero divisor as 1', () => {
+    const listing = createListing({ price: { amount: 650, divisor: 0, currency_code: 'USD' } });
+
+    expect(toListingSnapshotValues(listing).price).toBe(650);
+  });
+});
+
+describe('insertListingSnapshots', () => {
+  it('records each listing once per sync run', async () => {
+    const runId = await recordRun('2025-06-01T06:00:00.000Z');
+    const listings = [createListing({ listing_id: 1001 }), createListing({ listing_id: 1002, tags: [] })];
+
+    expect(await insertListingSnapshots(runId, '2025-06-01T06:00:00.000Z', listings, local.db)).toBe(2);
+    expect(await insertListingSnapshots(runId, '2025-06-01T06:00:00.000Z', listings, local.db)).toBe(0);
+
+    const [snapshot] = await listListingSnapshots(1002, {}, local.db);
+    expect(snapshot).toEqual({
+      ...toListingSnapshotValues(listings[1]),
+      syncRunId: runId,
+      capturedAt: '2025-06-01T06:00:00.000Z',
+    });
+  });
+
+  it('records a listing whose price has a zero divisor', async () => {
+    const runId = await recordRun('2025-06-01T06:00:00.000Z');
+    const listing = createListing({ price: { amount: 650, divisor: 0, currency_code: 'USD' } });
+
+    expect(await insertListingSnapshots(runId, '2025-06-01T06:00:00.000Z', [listing], local.db)).toBe(1);
+    expect((await listListingSnapshots(1001, {}, local.db))[0].price).toBe(650);
+  });
+
+  it('writes nothing for an empty listing set', async () => {
+    expect(await insertListingSnapshots(1, '2025-06-01T06:00:00.000Z', [], local.db)).toBe(0);
+  });
+
+  it('deletes snapshots with their sync run', async () => {
+    const runId = await recordRun('2025-06-01T06:00:00.000Z');
+    await insertListingSnapshots(runId, '2025-06-01T06:00:00.000Z', [createListing()], local.db);
+
+    await local.db.query('DELETE FROM sync_runs WHERE id = $1', [runId]);
+
+    expect(await listListingSnapshots(1001, {}, local.db)).toEqual([]);
+  });
+});
+
+describe('listListingSnapshots', () => {
+  const days = ['01', '02', '03', '04'];
+
+  beforeEach(async () => {
+    for (const [index, day] of days.entries()) {
+      const capturedAt = `2025-06-${day}T06:00:00.000Z`;
+      const runId = await recordRun(capturedAt);
+      await insertListingSnapshots(
+        runId,
+        capturedAt,
+        [createListing({ quantity: 10 - index }), createListing({ listing_id: 2002 })],
+        local.db
+      );
+    }
+  });
+
+  it('returns the snapshots of one listing, oldest first', async () => {
+    const snapshots = await listListingSnapshots(1001, {}, local.db);
+
+    expect(snapshots.map((snapshot) => snapshot.capturedAt)).toEqual(
+      days.map((day) => `2025-06-${day}T06:00:00.000Z`)
+    );
+    expect(snapshots.map((snapshot) => snapshot.quantity)).toEqual([10, 9, 8, 7]);
+    expect(snapshots.every((snapshot) => snapshot.listingId === 1001)).toBe(true);
+  });
+
+  it('returns the most recent snapshots up to the limit', async () => {
+    const snapshots = await listListingSnapshots(1001, { limit: 2 }, local.db);
+
+    expect(snapshots.map((snapshot) => snapshot.quantity)).toEqual([8, 7]);
+  });
+
+  it('returns snapshots captured at or after since', async () => {
+    const snapshots = await listListingSnapshots(1001, { since: '2025-06-03T06:00:00.000Z' }, local.db);
+
+    expect(snapshots.map((snapshot) => snapshot.capturedAt)).toEqual([
+      '2025-06-03T06:00:00.000Z',
+      '2025-06-04T06:00:00.000Z',
+    ]);
+  });
+
+  it('returns nothing for an unknown listing', async () => {
+    expect(await listListingSnapshots(9999, {}, local.db)).toEqual([]);
+  });
+});
+
+describe('findListingChanges', () => {
+  it('reports each tracked field that changed between consecutive snapshots', () => {
+    const snapshots = [
+      createSnapshot(),
+      createSnapshot({ syncRunId: 2, capturedAt: '2025-06-02T06:00:00.000Z', price: 5.2, views: 150 }),
+      createSnapshot({
+        syncRunId: 3,
+        capturedAt: '2025-06-03T06:00:00.000Z',
+        price: 5.2,
+        state: 'sold_out',
+        quantity: 0,
+        tags: ['crochet pattern', 'blanket'],
+        imageCount: 3,
+      }),
+    ];
+
+    expect(findListingChanges(snapshots)).toEqual([
+      { capturedAt: '2025-06-02T06:00:00.000Z', syncRunId: 2, field: 'price', before: 6.5, after: 5.2 },
+      { capturedAt: '2025-06-03T06:00:00.000Z', syncRunId: 3, field: 'quantity', before: 999, after: 0 },
+      { capturedAt: '2025-06-03T06:00:00.000Z', syncRunId: 3, field: 'state', before: 'active', after: 'sold_out' },
+      {
+        capturedAt: '2025-06-03T06:00:00.000Z',
+        syncRunId: 3,
+        field: 'tags',
+        before: ['crochet pattern', 'granny square'],
+        after: ['crochet pattern', 'blanket'],
+      },
+      { capturedAt: '2025-06-03T06:00:00.000Z', syncRunId: 3, field: 'imageCount', before: 1, after: 3 },
+    ]);
+  });
+
+  it('reports a currency change as a price change', () => {
+    const changes = findListingChanges([
+      createSnapshot(),
+      createSnapshot({ syncRunId: 2, currencyCode: 'EUR' }),
+    ]);
+
+    expect(changes.map((change) => change.field)).toEqual(['price']);
+  });
+
+  it('ignores views and favorers', () => {
+    expect(findListingChanges([createSnapshot(), createSnapshot({ views: 500, numFavorers: 40 })])).toEqual([]);
+  });
+
+  it('reports nothing for fewer than two snapshots', () => {
+    expect(findListingChanges([])).toEqual([]);
+    expect(findListingChanges([createSnapshot()])).toEqual([]);
+  });
+});
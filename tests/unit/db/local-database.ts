@@ -0,0 +1,38 @@
+import { PGlite } from '@electric-sql/pglite';
+import type { QueryResultRow } from '@vercel/postgres';
+import type { Queryable } from '@/lib/db/client';
+
+/**
+ * Local Postgres for repository tests
+ * PGlite runs a real Postgres build in process, so the repositories' SQL (schemas, jsonb, arrays,
+ * conditional upserts) runs unchanged without a database server. Like node-postgres, a query
+ * without values goes through the simple protocol, so multi-statement schemas work.
+ */
+
+/**
+ * A local database and the Queryable the repositories use
+ */
+export interface LocalDatabase {
+  db: Queryable;
+  close(): Promise<void>;
+}
+
+/**
+ * Creates an empty in-memory database
+ */
+export async function createLocalDatabase(): Promise<LocalDatabase> {
+  const pglite = await PGlite.create();
+
+  const db: Queryable = {
+    async query<R extends QueryResultRow = QueryResultRow>(text: string, values?: unknown[]) {
+      if (values === undefined) {
+        const results = await pglite.exec(text);
+        return { rows: (results.at(-1)?.rows ?? []) as R[] };
+      }
+      const { rows } = await pglite.query<R>(text, values);
+      return { rows };
+    },
+  };
+
+  return { db, close: () => pglite.close() };
+}
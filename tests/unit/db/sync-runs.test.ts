@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { ensureSyncRunsTable, insertSyncRun, listSyncRuns } from '@/lib/db/sync-runs';
+import { StorageError } from '@/lib/utils/errors';
+import type { NewSyncRun } from '@/lib/db/types';
+import { createLocalDatabase, type LocalDatabase } from './local-database';
+
+/**
+ * Sync run history tests against a local Postgres (PGlite)
+ */
+
+function createRun(fields: Partial<NewSyncRun> = {}): NewSyncRun {
+  return {
+    trigger: 'cron',
+    status: 'success',
+    mode: 'incremental',
+    startedAt: '2025-06-01T06:00:00.000Z',
+    finishedAt: '2025-06-01T06:00:42.500Z',
+    listingsCount: 120,
+    productsCount: 180,
+    changedListings: 4,
+    reusedListings: 116,
+    addedProducts: 1,
+    removedProducts: 0,
+    changedProducts: 3,
+    errorCode: null,
+    errorMessage: null,
+    feedUrl: 'memory://blobs/facebook-catalog.csv',
+    feedVersionId: '20250601T060042Z-3f2a9c1b7d4e',
+    contentHash: '3f2a9c1b7d4e',
+    ...fields,
+  };
+}
+
+let local: LocalDatabase;
+
+beforeAll(async () => {
+  local = await createLocalDatabase();
+}, 30_000);
+
+afterAll(async () => {
+  await local.close();
+});
+
+beforeEach(async () => {
+  await ensureSyncRunsTable(local.db);
+  await local.db.query('TRUNCATE sync_runs RESTART IDENTITY CASCADE');
+});
+
+describe('ensureSyncRunsTable', () => {
+  it('creates the table and can run again', async () => {
+    await ensureSyncRunsTable(local.db);
+
+    const { rows } = await local.db.query<{ name: string }>(
+      "SELECT table_name AS name FROM information_schema.tables WHERE table_name = 'sync_runs'"
+    );
+    expect(rows).toEqual([{ name: 'sync_runs' }]);
+  });
+});
+
+describe('insertSyncRun', () => {
+  it('records a run and returns it with its ID and duration', async () => {
+    const run = createRun();
+
+    const recorded = await insertSyncRun(run, local.db);
+
+    expect(recorded).toEqual({ ...run, id: 1, durationMs: 42500 });
+  });
+
+  it('records a failed run without build results', async () => {
+    const run = createRun({
+      trigger: 'manual',
+      status: 'failure',
+      mode: null,
+      listingsCount: null,
+      productsCount: null,
+      changedListings: null,
+      reusedListings: null,
+      addedProducts: null,
+      removedProducts: null,
+      changedProducts: null,
+      errorCode: 'ETSY_API_ERROR',
+      errorMessage: 'Etsy API request failed',
+      feedUrl: null,
+      feedVersionId: null,
+      contentHash: null,
+    });
+
+    expect(await insertSyncRun(run, local.db)).toMatchObject(run);
+  });
+
+  it('rejects values outside the schema as a StorageError', async () => {
+    const run = createRun({ trigger: 'webhook' as NewSyncRun['trigger'] });
+
+    await expect(insertSyncRun(run, local.db)).rejects.toMatchObject({
+      name: StorageError.name,
+      code: 'DATABASE_WRITE_ERROR',
+    });
+  });
+});
+
+describe('listSyncRuns', () => {
+  it('pages runs newest first with the total count', async () => {
+    for (const day of ['01', '03', '02']) {
+      await insertSyncRun(
+        createRun({ startedAt: `2025-06-${day}T06:00:00.000Z`, finishedAt: `2025-06-${day}T06:01:00.000Z` }),
+        local.db
+      );
+    }
+
+    const first = await listSyncRuns(1, 2, local.db);
+    const second = await listSyncRuns(2, 2, local.db);
+
+    expect(first.total).toBe(3);
+    expect(first.runs.map((run) => run.startedAt)).toEqual([
+      '2025-06-03T06:00:00.000Z',
+      '2025-06-02T06:00:00.000Z',
+    ]);
+    expect(second).toMatchObject({ page: 2, pageSize: 2, total: 3 });
+    expect(second.runs.map((run) => run.startedAt)).toEqual(['2025-06-01T06:00:00.000Z']);
+  });
+
+  it('orders runs started at the same time by ID', async () => {
+    const firstRun = await insertSyncRun(createRun(), local.db);
+    const secondRun = await insertSyncRun(createRun({ trigger: 'manual' }), local.db);
+
+    const { runs } = await listSyncRuns(1, 10, local.db);
+
+    expect(runs.map((run) => run.id)).toEqual([secondRun.id, firstRun.id]);
+  });
+
+  it('returns an empty page before any run is recorded', async () => {
+    expect(await listSyncRuns(1, 20, local.db)).toEqual({ runs: [], page: 1, pageSize: 20, total: 0 });
+  });
+});
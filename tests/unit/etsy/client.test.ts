@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EtsyClient } from '@/lib/etsy/client';
+import { createMemoryCounterStore, parseRateLimitHeaders, RateLimiter } from '@/lib/etsy/rate-limiter';
+import { storeEtsyTokens } from '@/lib/storage/edge-config';
+import { RateLimitError } from '@/lib/utils/errors';
+
+/**
+ * Etsy client tests for the rate limit headers
+ * fetch is stubbed and time is faked, so retry-after waits are measured without sleeping.
+ */
+
+const NOW = new Date('2025-06-01T06:00:00.000Z');
+const ENDPOINT = '/application/shops/12345';
+
+const fetchMock = vi.fn<typeof fetch>();
+
+/**
+ * Creates an Etsy API response with rate limit headers
+ */
+function createResponse(status: number, headers: Record<string, string> = {}): Response {
+  const body = status === 200 ? { shop_id: 12345 } : { error: 'Too many requests' };
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+/**
+ * Starts a request and tracks whether it has settled
+ */
+function startRequest(client: EtsyClient) {
+  const attempt = { settled: false, promise: client.makeRequest<{ shop_id: number }>(ENDPOINT) };
+  attempt.promise.then(
+    () => {
+      attempt.settled = true;
+    },
+    () => {
+      attempt.settled = true;
+    }
+  );
+  return attempt;
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ now: NOW });
+  vi.stubEnv('ETSY_API_KEY', 'test-api-key');
+  vi.stubGlobal('fetch', fetchMock);
+  fetchMock.mockReset();
+  await storeEtsyTokens({
+    access_token: '12345.access',
+    refresh_token: '12345.refresh',
+    expires_at: '2025-06-01T07:00:00.000Z',
+    user_id: '12345',
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('parseRateLimitHeaders', () => {
+  it('reads the quota and retry-after headers', () => {
+    const headers = new Headers({
+      'x-limit-per-day': '10000',
+      'x-remaining-today': '9123',
+      'x-remaining-this-second': '4',
+      'retry-after': '2.5',
+    });
+
+    expect(parseRateLimitHeaders(headers)).toEqual({
+      limitPerDay: 10000,
+      remainingToday: 9123,
+      remainingThisSecond: 4,
+      retryAfterMs: 2500,
+    });
+  });
+
+  it('reports missing and invalid headers as null', () => {
+    const headers = new Headers({
+      'x-limit-per-day': '',
+      'x-remaining-today': '-1',
+      'x-remaining-this-second': '1.5',
+      'retry-after': 'soon',
+    });
+
+    expect(parseRateLimitHeaders(headers)).toEqual({
+      limitPerDay: null,
+      remainingToday: null,
+      remainingThisSecond: null,
+      retryAfterMs: null,
+    });
+    expect(parseRateLimitHeaders(new Headers()).retryAfterMs).toBeNull();
+  });
+
+  it('reads a retry-after date as the time left until then', () => {
+    const now = Date.parse('Sun, 01 Jun 2025 06:00:00 GMT');
+    const retryAfter = (value: string) =>
+      parseRateLimitHeaders(new Headers({ 'retry-after': value }), now).retryAfterMs;
+
+    expect(retryAfter('Sun, 01 Jun 2025 06:00:30 GMT')).toBe(30000);
+    expect(retryAfter('Sun, 01 Jun 2025 05:59:00 GMT')).toBe(0);
+  });
+});
+
+describe('makeRequest', () => {
+  it('waits exactly the retry-after of a 429 before retrying', async () => {
+    fetchMock
+      .mockResolvedValueOnce(createResponse(429, { 'retry-after': '7' }))
+      .mockResolvedValueOnce(createResponse(200));
+    const client = new EtsyClient(new RateLimiter(createMemoryCounterStore()));
+
+    const request = startRequest(client);
+    await vi.advanceTimersByTimeAsync(6999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await expect(request.promise).resolves.toEqual({ shop_id: 12345 });
+  });
+
+  it('waits for a retry-after of up to 60 seconds', async () => {
+    fetchMock
+      .mockResolvedValueOnce(createResponse(429, { 'retry-after': '60' }))
+      .mockResolvedValueOnce(createResponse(200));
+    const client = new EtsyClient(new RateLimiter(createMemoryCounterStore()));
+
+    const request = startRequest(client);
+    await vi.advanceTimersByTimeAsync(59999);
+    expect(request.settled).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(request.promise).resolves.toEqual({ shop_id: 12345 });
+  });
+
+  it('fails with a RateLimitError instead of waiting longer than 60 seconds', async () => {
+    fetchMock.mockResolvedValue(createResponse(429, { 'retry-after': '61' }));
+    const client = new EtsyClient(new RateLimiter(createMemoryCounterStore()));
+
+    const request = client.makeRequest(ENDPOINT);
+
+    await expect(request).rejects.toBeInstanceOf(RateLimitError);
+    await expect(request).rejects.toThrow('Retry after 61 seconds');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports the quota from the last response', async () => {
+    fetchMock.mockResolvedValueOnce(
+      createResponse(200, { 'x-limit-per-day': '10000', 'x-remaining-today': '9123' })
+    );
+    const client = new EtsyClient(new RateLimiter(createMemoryCounterStore()));
+    expect(client.getRateLimitQuota()).toBeNull();
+
+    await client.makeRequest(ENDPOINT);
+
+    expect(client.getRateLimitQuota()).toEqual({
+      limitPerDay: 10000,
+      remainingToday: 9123,
+      resetsAt: '2025-06-02T00:00:00.000Z',
+      updatedAt: NOW.toISOString(),
+      source: 'etsy',
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryCounterStore, RATE_LIMIT, RateLimiter } from '@/lib/etsy/rate-limiter';
+import { getRateLimitState, storeRateLimitState } from '@/lib/storage/edge-config';
+import { RateLimitError } from '@/lib/utils/errors';
+import type { RateLimitCounterStore } from '@/lib/etsy/types';
+
+/**
+ * Rate limiter tests against the in-memory counter store
+ * Time is faked, so waits for the next second window are observed without sleeping.
+ */
+
+const NOW = new Date('2025-06-01T06:00:00.000Z');
+const DAILY_KEY = 'etsy_daily_2025-06-01';
+const SECOND_KEY = `etsy_second_${Math.floor(NOW.getTime() / RATE_LIMIT.SECOND_WINDOW_MS)}`;
+const NEXT_RESET = '2025-06-02T00:00:00.000Z';
+const COUNTER_EXPIRY = new Date('2025-06-03T00:00:00.000Z');
+
+let store: RateLimitCounterStore;
+
+/**
+ * Starts an acquire and tracks whether it has resolved
+ */
+function startAcquire(limiter: RateLimiter) {
+  const attempt = { done: false, promise: limiter.acquire() };
+  attempt.promise.then(() => {
+    attempt.done = true;
+  });
+  return attempt;
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ now: NOW });
+  store = createMemoryCounterStore();
+  // A state from the previous day is not used to seed the daily count
+  await storeRateLimitState({ daily_count: 0, daily_reset: '2025-06-01T00:00:00.000Z', second_timestamps: [] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('acquire', () => {
+  it('reserves daily quota in batches', async () => {
+    const increment = vi.spyOn(store, 'increment');
+    const limiter = new RateLimiter(store);
+
+    for (let i = 0; i < 3; i++) {
+      await limiter.acquire();
+    }
+
+    expect(await store.get(DAILY_KEY)).toBe(RATE_LIMIT.DAILY_BATCH_SIZE);
+    expect(increment.mock.calls.filter(([key]) => key === DAILY_KEY)).toHaveLength(1);
+  });
+
+  it('reserves a slot of the second for each request made one at a time', async () => {
+    const increment = vi.spyOn(store, 'increment');
+    const limiter = new RateLimiter(store);
+
+    for (let i = 0; i < 3; i++) {
+      await limiter.acquire();
+    }
+
+    expect(increment.mock.calls.filter(([key]) => key === SECOND_KEY).map(([, amount]) => amount)).toEqual([1, 1, 1]);
+    expect(await store.get(SECOND_KEY)).toBe(3);
+  });
+
+  it('reserves slots of the second for waiting requests in small batches', async () => {
+    const increment = vi.spyOn(store, 'increment');
+    const limiter = new RateLimiter(store);
+
+    await Promise.all(Array.from({ length: RATE_LIMIT.QPS }, () => limiter.acquire()));
+
+    expect(increment.mock.calls.filter(([key]) => key === SECOND_KEY).map(([, amount]) => amount)).toEqual([
+      RATE_LIMIT.SECOND_BATCH_SIZE,
+      RATE_LIMIT.SECOND_BATCH_SIZE,
+      1,
+    ]);
+    expect(await store.get(SECOND_KEY)).toBe(RATE_LIMIT.QPS);
+  });
+
+  it('shares a second between concurrent syncs', async () => {
+    const syncs = [new RateLimiter(store), new RateLimiter(store)].map((limiter) =>
+      Array.from({ length: RATE_LIMIT.QPS }, () => startAcquire(limiter))
+    );
+    await vi.advanceTimersByTimeAsync(0);
+
+    const done = syncs.map((attempts) => attempts.filter((attempt) => attempt.done).length);
+    expect(done[0] + done[1]).toBe(RATE_LIMIT.QPS);
+    expect(Math.min(...done)).toBeGreaterThanOrEqual(RATE_LIMIT.SECOND_BATCH_SIZE);
+  });
+
+  it('waits for the next second once the QPS limit is reached', async () => {
+    const limiter = new RateLimiter(store);
+    for (let i = 0; i < RATE_LIMIT.QPS; i++) {
+      await limiter.acquire();
+    }
+
+    const attempt = startAcquire(limiter);
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT.SECOND_WINDOW_MS - 1);
+    expect(attempt.done).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT.BUFFER_MS + 1);
+    expect(attempt.done).toBe(true);
+  });
+
+  it('takes single slots of a second partly used by another sync', async () => {
+    await store.increment(SECOND_KEY, 3, RATE_LIMIT.QPS, COUNTER_EXPIRY);
+    const limiter = new RateLimiter(store);
+
+    await limiter.acquire();
+    await limiter.acquire();
+    const attempt = startAcquire(limiter);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(await store.get(SECOND_KEY)).toBe(RATE_LIMIT.QPS);
+    expect(attempt.done).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT.SECOND_WINDOW_MS + RATE_LIMIT.BUFFER_MS);
+    expect(attempt.done).toBe(true);
+  });
+
+  it('refuses requests once the daily limit is used up', async () => {
+    await store.increment(DAILY_KEY, RATE_LIMIT.QPD - 1, RATE_LIMIT.QPD, COUNTER_EXPIRY);
+    const limiter = new RateLimiter(store);
+
+    await limiter.acquire();
+
+    await expect(limiter.acquire()).rejects.toBeInstanceOf(RateLimitError);
+    expect(await store.get(DAILY_KEY)).toBe(RATE_LIMIT.QPD);
+  });
+
+  it('refuses requests without touching the counters once Etsy reports none left today', async () => {
+    const increment = vi.spyOn(store, 'increment');
+    const limiter = new RateLimiter(store);
+    limiter.observe({ limitPerDay: 5000, remainingToday: 0, remainingThisSecond: null, retryAfterMs: null });
+
+    await expect(limiter.acquire()).rejects.toThrow('Daily rate limit exceeded (5000 requests)');
+    expect(increment).not.toHaveBeenCalled();
+  });
+
+  it('seeds the daily count from the saved state of the same day', async () => {
+    await storeRateLimitState({ daily_count: 100, daily_reset: NEXT_RESET, second_timestamps: [] });
+    const limiter = new RateLimiter(store);
+
+    await limiter.acquire();
+
+    expect(await store.get(DAILY_KEY)).toBe(100 + RATE_LIMIT.DAILY_BATCH_SIZE);
+  });
+});
+
+describe('flush', () => {
+  it('hands unused daily quota back and saves the daily count', async () => {
+    const limiter = new RateLimiter(store);
+    for (let i = 0; i < 3; i++) {
+      await limiter.acquire();
+    }
+
+    const state = await limiter.flush();
+
+    expect(await store.get(DAILY_KEY)).toBe(3);
+    expect(state).toMatchObject({ daily_count: 3, daily_reset: NEXT_RESET });
+    expect(await getRateLimitState()).toEqual(state);
+  });
+
+  it('raises the daily count to the figure Etsy reported', async () => {
+    const limiter = new RateLimiter(store);
+    await limiter.acquire();
+    limiter.observe({ limitPerDay: 10000, remainingToday: 9000, remainingThisSecond: 4, retryAfterMs: null });
+
+    const state = await limiter.flush();
+
+    expect(await store.get(DAILY_KEY)).toBe(1000);
+    expect(state).toMatchObject({
+      daily_count: 1000,
+      limit_per_day: 10000,
+      remaining_today: 9000,
+      server_updated_at: NOW.toISOString(),
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import { formatListing, getListingVariants } from '@/lib/facebook/catalog';
+import type { EtsyInventoryProduct, EtsyListingInventory, EtsyPropertyValue } from '@/lib/etsy/types';
+import { createListing } from '../fixtures';
+
+/**
+ * Catalog formatting tests for listings with inventory variations
+ */
+
+/**
+ * Builds an inventory property value
+ */
+function createProperty(name: string, valueId: number, value: string): EtsyPropertyValue {
+  return {
+    property_id: 200,
+    property_name: name,
+    scale_id: null,
+    scale_name: null,
+    value_ids: [valueId],
+    values: [value],
+  };
+}
+
+/**
+ * Builds an inventory product with one offering
+ */
+function createInventoryProduct(
+  offeringId: number,
+  amount: number,
+  propertyValues: EtsyPropertyValue[],
+  fields: { quantity?: number; is_enabled?: boolean } = {}
+): EtsyInventoryProduct {
+  return {
+    product_id: offeringId + 1000,
+    sku: '',
+    is_deleted: false,
+    offerings: [
+      {
+        offering_id: offeringId,
+        quantity: fields.quantity ?? 999,
+        is_enabled: fields.is_enabled ?? true,
+        is_deleted: false,
+        price: { amount, divisor: 100, currency_code: 'USD' },
+      },
+    ],
+    property_values: propertyValues,
+  };
+}
+
+/**
+ * Builds a listing inventory
+ */
+function createInventory(products: EtsyInventoryProduct[]): EtsyListingInventory {
+  return { products, price_on_property: [200], quantity_on_property: [], sku_on_property: [] };
+}
+
+describe('getListingVariants', () => {
+  it('yields the listing itself when it has no inventory variations', () => {
+    expect(getListingVariants(createListing())).toEqual([
+      {
+        id: '1001',
+        isVariant: false,
+        price: { amount: 650, divisor: 100, currency_code: 'USD' },
+        quantity: 999,
+        size: '',
+        color: '',
+        attributes: [],
+      },
+    ]);
+  });
+
+  it('builds variant IDs from property value IDs and sorts properties into size, color and attributes', () => {
+    const listing = createListing({
+      has_variations: true,
+      inventory: createInventory([
+        createInventoryProduct(1, 650, [
+          createProperty('Size', 11, 'Baby'),
+          createProperty('Primary colour', 21, 'Red'),
+          createProperty('Format', 31, 'PDF'),
+        ]),
+      ]),
+    });
+
+    expect(getListingVariants(listing)).toEqual([
+      {
+        id: '1001_11_21_31',
+        isVariant: true,
+        price: { amount: 650, divisor: 100, currency_code: 'USD' },
+        quantity: 999,
+        size: 'Baby',
+        color: 'Red',
+        attributes: [{ name: 'Format', value: 'PDF' }],
+      },
+    ]);
+  });
+
+  it('skips disabled offerings and reports the listing as sold out when none is left', () => {
+    const listing = createListing({
+      has_variations: true,
+      inventory: createInventory([
+        createInventoryProduct(1, 650, [createProperty('Size', 11, 'Baby')], { is_enabled: false }),
+      ]),
+    });
+
+    expect(getListingVariants(listing)).toMatchObject([{ id: '1001', isVariant: false, quantity: 0 }]);
+  });
+
+  it('keeps IDs unique when two offerings share a property combination', () => {
+    const listing = createListing({
+      has_variations: true,
+      inventory: createInventory([
+        createInventoryProduct(1, 650, [createProperty('Size', 11, 'Baby')]),
+        createInventoryProduct(2, 750, [createProperty('Size', 11, 'Baby')]),
+      ]),
+    });
+
+    expect(getListingVariants(listing).map((variant) => variant.id)).toEqual(['1001_11', '1001_11_2']);
+  });
+});
+
+describe('formatListing', () => {
+  it('formats a listing without variations as one product without an item group', () => {
+    expect(formatListing(createListing(), 'TabascoSunrise')).toEqual([
+      expect.objectContaining({
+        id: '1001',
+        price: '6.50 USD',
+        availability: 'in stock',
+        brand: 'TabascoSunrise',
+        item_group_id: '',
+        quantity_to_sell_on_facebook: '999',
+        status: 'active',
+      }),
+    ]);
+  });
+
+  it('formats one product per variant sharing the listing ID as item group', () => {
+    const listing = createListing({
+      has_variations: true,
+      inventory: createInventory([
+        createInventoryProduct(1, 650, [createProperty('Size', 11, 'Baby'), createProperty('Format', 31, 'PDF, A4')]),
+        createInventoryProduct(2, 900, [createProperty('Size', 12, 'Adult')], { quantity: 0 }),
+      ]),
+    });
+
+    const products = formatListing(listing, 'TabascoSunrise');
+
+    expect(products.map(({ id, item_group_id, price, size, availability, additional_variant_attribute }) => ({
+      id,
+      item_group_id,
+      price,
+      size,
+      availability,
+      additional_variant_attribute,
+    }))).toEqual([
+      {
+        id: '1001_11_31',
+        item_group_id: '1001',
+        price: '6.50 USD',
+        size: 'Baby',
+        availability: 'in stock',
+        additional_variant_attribute: 'Format:PDF A4',
+      },
+      {
+        id: '1001_12',
+        item_group_id: '1001',
+        price: '9.00 USD',
+        size: 'Adult',
+        availability: 'out of stock',
+        additional_variant_attribute: '',
+      },
+    ]);
+  });
+
+  it('reports an inactive listing as archived with nothing to sell', () => {
+    expect(formatListing(createListing({ state: 'inactive' }), 'TabascoSunrise')).toEqual([
+      expect.objectContaining({ availability: 'out of stock', quantity_to_sell_on_facebook: '0', status: 'archived' }),
+    ]);
+  });
+});
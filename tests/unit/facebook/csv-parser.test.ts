@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { CSV_HEADERS, generateCSV, UTF8_BOM } from '@/lib/facebook/catalog';
+import { CSVParser, parseCSV } from '@/lib/facebook/csv-parser';
+import { createProduct } from '../fixtures';
+
+/**
+ * CSV parser tests
+ * Feeds are generated with generateCSV and read back with parseCSV, so every value
+ * must survive the round trip unchanged.
+ */
+
+const products = [
+  createProduct(),
+  createProduct({
+    id: '1002_5001',
+    title: 'Ripple Blanket, "Classic" Edition',
+    description: 'Line one.\nLine two, with a comma.\r\nLine three with "quotes" and ""doubled"" quotes.',
+    additional_image_link:
+      'https://i.etsystatic.com/1002/a.jpg,https://i.etsystatic.com/1002/b.jpg',
+    item_group_id: '1002',
+    size: 'Large',
+    additional_variant_attribute: 'Format:PDF',
+    sale_price: '5.20 USD',
+    sale_price_effective_date: '2025-06-01T00:00:00Z/2025-06-30T23:59:59Z',
+  }),
+  createProduct({
+    id: '1003',
+    title: 'Amigurumi Fox – Häkelanleitung 🦊',
+    description: '',
+    availability: 'out of stock',
+    status: 'archived',
+  }),
+];
+
+function toRow(product: (typeof products)[number]): string[] {
+  return CSV_HEADERS.map((header) => product[header]);
+}
+
+describe('parseCSV', () => {
+  it('reproduces generateCSV rows exactly', () => {
+    const content = generateCSV(products);
+
+    expect(content.startsWith(UTF8_BOM)).toBe(true);
+    expect(parseCSV(content)).toEqual([[...CSV_HEADERS], ...products.map(toRow)]);
+  });
+
+  it('does not keep the BOM in the first header', () => {
+    const [headers] = parseCSV(generateCSV([]));
+
+    expect(headers[0]).toBe('id');
+  });
+
+  it('parses the same records when the content arrives in small chunks', () => {
+    const content = generateCSV(products);
+    const parser = new CSVParser();
+    const records: string[][] = [];
+    for (let i = 0; i < content.length; i += 7) {
+      records.push(...parser.write(content.slice(i, i + 7)));
+    }
+    records.push(...parser.end());
+
+    expect(records).toEqual(parseCSV(content));
+  });
+
+  it('splits a CRLF pair across chunks without an empty record', () => {
+    const parser = new CSVParser();
+    const records = [...parser.write('a,b\r'), ...parser.write('\n1,2'), ...parser.end()];
+
+    expect(records).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+});
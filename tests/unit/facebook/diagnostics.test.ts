@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import {
+  fromFeedUploadErrors,
+  groupDiagnosticsByListing,
+  importFeedDiagnostics,
+  loadFeedDiagnostics,
+  matchDiagnostics,
+  parseDiagnosticsCSV,
+  parseDiagnosticsJSON,
+  suggestFix,
+} from '@/lib/facebook/diagnostics';
+import { ValidationError } from '@/lib/utils/errors';
+import { SNAPSHOT_FORMAT_VERSION, type SyncSnapshot } from '@/lib/sync/snapshot';
+import { createListing, createProduct } from '../fixtures';
+
+/**
+ * Feed diagnostics tests: report parsing and matching to the synced listings
+ */
+
+const snapshot: SyncSnapshot = {
+  version: SNAPSHOT_FORMAT_VERSION,
+  createdAt: '2025-06-01T06:00:00.000Z',
+  shopId: 7001,
+  formatFingerprint: 'fingerprint',
+  entries: {
+    '1001': {
+      listing: createListing({ listing_id: 1001, title: 'Granny Square Blanket Pattern' }),
+      products: [createProduct({ id: '1001_11' }), createProduct({ id: '1001_12' })],
+    },
+    '1002': {
+      listing: createListing({ listing_id: 1002, title: 'Free Coaster Pattern' }),
+      products: [createProduct({ id: '1002' })],
+    },
+  },
+};
+
+describe('parseDiagnosticsCSV', () => {
+  it('finds the columns by their aliases and maps severities', () => {
+    const content = [
+      'Retailer ID,Error Message,Type,Attribute',
+      '1001_11,Title is too long,Warning,title',
+      '1002,Image could not be downloaded,Critical,',
+      ',Missing product ID,Error,',
+    ].join('\n');
+
+    expect(parseDiagnosticsCSV(content)).toEqual([
+      { productId: '1001_11', severity: 'warning', message: 'Title is too long', field: 'title' },
+      { productId: '1002', severity: 'error', message: 'Image could not be downloaded' },
+    ]);
+  });
+
+  it('requires a product ID and a message column', () => {
+    expect(() => parseDiagnosticsCSV('message\nTitle is too long')).toThrow(ValidationError);
+    expect(() => parseDiagnosticsCSV('id\n1001')).toThrow('Error report must have a message column');
+  });
+});
+
+describe('parseDiagnosticsJSON', () => {
+  it('reads an array or a data array with any of the accepted property names', () => {
+    const expected = [{ productId: '1002', severity: 'error', message: 'Price is missing' }];
+
+    expect(parseDiagnosticsJSON([{ retailer_id: 1002, error: 'Price is missing' }])).toEqual(expected);
+    expect(parseDiagnosticsJSON({ data: [{ id: '1002', description: 'Price is missing' }, null] })).toEqual(expected);
+    expect(() => parseDiagnosticsJSON({ errors: [] })).toThrow(ValidationError);
+  });
+});
+
+describe('fromFeedUploadErrors', () => {
+  it('creates one diagnostic per sample item', () => {
+    expect(
+      fromFeedUploadErrors([
+        {
+          summary: 'Invalid price',
+          description: 'Price must be above zero',
+          severity: 'fatal',
+          samples: [{ retailerId: '1001_11', rowNumber: 2 }, { retailerId: '1002' }],
+        },
+      ])
+    ).toEqual([
+      { productId: '1001_11', severity: 'error', message: 'Invalid price: Price must be above zero' },
+      { productId: '1002', severity: 'error', message: 'Invalid price: Price must be above zero' },
+    ]);
+  });
+});
+
+describe('suggestFix', () => {
+  it('uses the first matching suggestion, including the reported field', () => {
+    expect(suggestFix('Title is too long')).toBe(
+      'Shorten the title to 150 characters or fewer with a title override.'
+    );
+    expect(suggestFix('Sale price must be lower than price')).toMatch(/^Check the shop sale configuration/);
+    expect(suggestFix('Value is missing', 'brand')).toBe('Set a brand override for the listing.');
+    expect(suggestFix('Something unexpected happened')).toBeUndefined();
+  });
+});
+
+describe('matchDiagnostics', () => {
+  it('matches variant and listing IDs to the synced listing and falls back to the ID before the underscore', () => {
+    const matched = matchDiagnostics(
+      [
+        { productId: '1001_12', severity: 'error', message: 'Price is missing' },
+        { productId: '1002_99', severity: 'warning', message: 'Unrecognized issue' },
+        { productId: '9999', severity: 'error', message: 'Unrecognized issue' },
+      ],
+      snapshot
+    );
+
+    expect(matched).toEqual([
+      {
+        productId: '1001_12',
+        severity: 'error',
+        message: 'Price is missing',
+        listingId: 1001,
+        listingTitle: 'Granny Square Blanket Pattern',
+        suggestion: 'Check the listing price on Etsy; prices must be an amount above zero with a currency code.',
+      },
+      {
+        productId: '1002_99',
+        severity: 'warning',
+        message: 'Unrecognized issue',
+        listingId: 1002,
+        listingTitle: 'Free Coaster Pattern',
+      },
+      { productId: '9999', severity: 'error', message: 'Unrecognized issue', listingId: null },
+    ]);
+  });
+});
+
+describe('importFeedDiagnostics', () => {
+  it('stores the matched diagnostics with the unmatched count, grouped by listing for the dashboard', async () => {
+    const document = await importFeedDiagnostics(
+      [
+        { productId: '1001_11', severity: 'error', message: 'Price is missing' },
+        { productId: '1001_12', severity: 'warning', message: 'Title is too long' },
+        { productId: '9999', severity: 'error', message: 'Price is missing' },
+      ],
+      'csv',
+      snapshot
+    );
+
+    expect(document).toMatchObject({ source: 'csv', total: 3, unmatched: 1 });
+    expect(await loadFeedDiagnostics()).toEqual(document);
+    expect(
+      Object.fromEntries(
+        Object.entries(groupDiagnosticsByListing(document)).map(([listingId, diagnostics]) => [
+          listingId,
+          diagnostics.map((diagnostic) => diagnostic.productId),
+        ])
+      )
+    ).toEqual({ '1001': ['1001_11', '1001_12'] });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { diffFeeds, diffProduct, summarizeFeedDiff } from '@/lib/facebook/diff';
+import { createProduct } from '../fixtures';
+
+/**
+ * Feed diff tests
+ */
+
+describe('diffProduct', () => {
+  it('lists changed columns in feed order with their category', () => {
+    const before = createProduct();
+    const after = createProduct({
+      title: 'Granny Square Blanket Pattern PDF',
+      availability: 'out of stock',
+      sale_price: '5.20 USD',
+      custom_label_0: '5 to 10',
+    });
+
+    expect(diffProduct(before, after)).toEqual([
+      { field: 'title', category: 'title', before: 'Granny Square Blanket Pattern', after: 'Granny Square Blanket Pattern PDF' },
+      { field: 'availability', category: 'availability', before: 'in stock', after: 'out of stock' },
+      { field: 'custom_label_0', category: 'other', before: '', after: '5 to 10' },
+      { field: 'sale_price', category: 'price', before: '', after: '5.20 USD' },
+    ]);
+    expect(diffProduct(before, createProduct())).toEqual([]);
+  });
+});
+
+describe('diffFeeds', () => {
+  it('matches products by ID and reports added, removed and changed products in feed order', () => {
+    const before = [
+      createProduct({ id: '1' }),
+      createProduct({ id: '2' }),
+      createProduct({ id: '3' }),
+      createProduct({ id: '4' }),
+    ];
+    const after = [
+      createProduct({ id: '5' }),
+      createProduct({ id: '3', price: '7.00 USD' }),
+      createProduct({ id: '1' }),
+      createProduct({ id: '6' }),
+    ];
+
+    expect(diffFeeds(before, after)).toEqual({
+      beforeCount: 4,
+      afterCount: 4,
+      added: ['5', '6'],
+      removed: ['2', '4'],
+      changed: [
+        {
+          id: '3',
+          title: 'Granny Square Blanket Pattern',
+          changes: [{ field: 'price', category: 'price', before: '6.50 USD', after: '7.00 USD' }],
+        },
+      ],
+      unchangedCount: 1,
+    });
+  });
+
+  it('uses the last row of an ID that appears more than once', () => {
+    const diff = diffFeeds(
+      [createProduct({ id: '1' })],
+      [createProduct({ id: '1', price: '1.00 USD' }), createProduct({ id: '1' })]
+    );
+
+    expect(diff.changed).toEqual([]);
+    expect(diff.unchangedCount).toBe(1);
+  });
+});
+
+describe('summarizeFeedDiff', () => {
+  it('counts a product toward each kind of change it has', () => {
+    const diff = diffFeeds(
+      [createProduct({ id: '1' }), createProduct({ id: '2' }), createProduct({ id: '3' })],
+      [
+        createProduct({ id: '1', price: '7.00 USD', title: 'Renamed' }),
+        createProduct({ id: '2', availability: 'out of stock' }),
+        createProduct({ id: '4' }),
+      ]
+    );
+
+    expect(summarizeFeedDiff(diff)).toEqual({
+      added: 1,
+      removed: 1,
+      changed: 2,
+      unchanged: 0,
+      priceChanges: 1,
+      availabilityChanges: 1,
+      titleChanges: 1,
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyCustomLabels,
+  DEFAULT_CUSTOM_LABEL_CONFIG,
+  getPopularityTier,
+  getPriceBand,
+  getSkillLevel,
+  isNewArrival,
+  validateCustomLabelConfig,
+} from '@/lib/facebook/labels';
+import { createListing, createProduct } from '../fixtures';
+
+/**
+ * Custom label tests against the default label configuration
+ */
+
+const config = DEFAULT_CUSTOM_LABEL_CONFIG;
+const CREATED = new Date('2025-01-01T00:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('getPriceBand', () => {
+  it('uses the first band whose maxPrice is above the price', () => {
+    expect(getPriceBand(4.99, config.priceBands)).toBe('Under 5');
+    expect(getPriceBand(5, config.priceBands)).toBe('5 to 10');
+    expect(getPriceBand(250, config.priceBands)).toBe('25 and up');
+    expect(getPriceBand(NaN, config.priceBands)).toBe('');
+  });
+});
+
+describe('getPopularityTier', () => {
+  it('requires every threshold of a tier', () => {
+    expect(getPopularityTier(createListing({ views: 1000, num_favorers: 100 }), config.popularityTiers)).toBe(
+      'Bestseller'
+    );
+    expect(getPopularityTier(createListing({ views: 5000, num_favorers: 30 }), config.popularityTiers)).toBe(
+      'Popular'
+    );
+    expect(getPopularityTier(createListing({ views: 5000, num_favorers: 10 }), config.popularityTiers)).toBe(
+      'Standard'
+    );
+  });
+});
+
+describe('isNewArrival', () => {
+  it('counts a listing as new for the configured number of days', () => {
+    const listing = createListing();
+
+    expect(isNewArrival(listing, 30, new Date(CREATED.getTime() + 30 * DAY_MS - 1))).toBe(true);
+    expect(isNewArrival(listing, 30, new Date(CREATED.getTime() + 30 * DAY_MS))).toBe(false);
+    expect(isNewArrival(listing, 0, CREATED)).toBe(false);
+  });
+});
+
+describe('getSkillLevel', () => {
+  it('matches keywords inside tags regardless of case, in level order', () => {
+    expect(getSkillLevel(createListing({ tags: ['Easy Crochet Pattern'] }), config.skillLevels)).toBe('Beginner');
+    expect(getSkillLevel(createListing({ tags: ['expert lace', 'beginner'] }), config.skillLevels)).toBe('Beginner');
+    expect(getSkillLevel(createListing(), config.skillLevels)).toBe('');
+  });
+});
+
+describe('applyCustomLabels', () => {
+  it('sets labels 0 to 3, using each variant price for the price band', () => {
+    const listing = createListing({ tags: ['advanced'] });
+    const products = [createProduct({ id: '1001_1', price: '4.50 USD' }), createProduct({ id: '1001_2', price: '12.00 USD' })];
+
+    const labelled = applyCustomLabels(listing, products, config, new Date(CREATED.getTime() + DAY_MS));
+
+    expect(
+      labelled.map(({ custom_label_0, custom_label_1, custom_label_2, custom_label_3, custom_label_4 }) => [
+        custom_label_0,
+        custom_label_1,
+        custom_label_2,
+        custom_label_3,
+        custom_label_4,
+      ])
+    ).toEqual([
+      ['Under 5', 'Standard', 'New Arrival', 'Advanced', ''],
+      ['10 to 25', 'Standard', 'New Arrival', 'Advanced', ''],
+    ]);
+    expect(products[0].custom_label_0).toBe('');
+  });
+});
+
+describe('validateCustomLabelConfig', () => {
+  it('keeps the defaults for omitted settings and trims labels', () => {
+    expect(validateCustomLabelConfig({ newArrivalLabel: ' Just In ', newArrivalDays: 14 })).toEqual({
+      ...config,
+      newArrivalDays: 14,
+      newArrivalLabel: 'Just In',
+    });
+  });
+
+  it('rejects price bands out of order or with an open band before the last', () => {
+    expect(() =>
+      validateCustomLabelConfig({ priceBands: [{ label: 'Cheap', maxPrice: 10 }, { label: 'Cheaper', maxPrice: 5 }] })
+    ).toThrow('priceBands must be in ascending maxPrice order');
+    expect(() =>
+      validateCustomLabelConfig({ priceBands: [{ label: 'Any' }, { label: 'Cheap', maxPrice: 5 }] })
+    ).toThrow('Only the last price band may omit maxPrice');
+  });
+
+  it('rejects invalid thresholds and skill levels without tags', () => {
+    expect(() => validateCustomLabelConfig({ popularityTiers: [{ label: 'Hot', minViews: -1 }] })).toThrow(
+      'popularityTiers[0].minViews must be a non-negative number'
+    );
+    expect(() => validateCustomLabelConfig({ skillLevels: [{ label: 'Any', tags: [] }] })).toThrow(
+      'skillLevels[0].tags must be a non-empty array'
+    );
+    expect(() => validateCustomLabelConfig({ newArrivalDays: 1.5 })).toThrow(
+      'newArrivalDays must be a non-negative integer'
+    );
+  });
+});
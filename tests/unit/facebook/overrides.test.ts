@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  deleteListingOverride,
+  loadListingOverrides,
+  storeListingOverride,
+} from '@/lib/facebook/overrides';
+import { uploadJSON } from '@/lib/storage/blob';
+import type { ListingOverride } from '@/lib/facebook/types';
+
+/**
+ * Listing override storage tests against the in-memory storage backend
+ */
+
+const UPDATED_AT = '2025-06-01T06:00:00.000Z';
+
+function createOverride(fields: Omit<ListingOverride, 'updatedAt'>): ListingOverride {
+  return { ...fields, updatedAt: UPDATED_AT };
+}
+
+beforeEach(async () => {
+  for (const listingId of Object.keys(await loadListingOverrides())) {
+    await deleteListingOverride(listingId);
+  }
+});
+
+describe('storeListingOverride', () => {
+  it('keeps the overrides of listings saved one after another', async () => {
+    await storeListingOverride('1001', createOverride({ title: 'Granny Square Blanket' }));
+    await storeListingOverride('1002', createOverride({ excluded: true }));
+    await storeListingOverride('1001', createOverride({ brand: 'TabascoSunrise' }));
+
+    expect(await loadListingOverrides()).toEqual({
+      '1001': createOverride({ brand: 'TabascoSunrise' }),
+      '1002': createOverride({ excluded: true }),
+    });
+  });
+
+  it('keeps both overrides when two listings are saved at the same time', async () => {
+    await Promise.all([
+      storeListingOverride('1001', createOverride({ title: 'Granny Square Blanket' })),
+      storeListingOverride('1002', createOverride({ excluded: true })),
+    ]);
+
+    expect(Object.keys(await loadListingOverrides())).toEqual(['1001', '1002']);
+  });
+});
+
+describe('loadListingOverrides', () => {
+  it('ignores files under the prefix that are not listing overrides', async () => {
+    await storeListingOverride('1001', createOverride({ excluded: true }));
+    await uploadJSON('listing-overrides/notes.json', createOverride({ excluded: true }));
+
+    expect(await loadListingOverrides()).toEqual({ '1001': createOverride({ excluded: true }) });
+  });
+});
+
+describe('deleteListingOverride', () => {
+  it('removes one listing and reports whether it had an override', async () => {
+    await storeListingOverride('1001', createOverride({ excluded: true }));
+    await storeListingOverride('1002', createOverride({ excluded: true }));
+
+    expect(await deleteListingOverride('1001')).toBe(true);
+    expect(await deleteListingOverride('1001')).toBe(false);
+    expect(await loadListingOverrides()).toEqual({ '1002': createOverride({ excluded: true }) });
+  });
+});
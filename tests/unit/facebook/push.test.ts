@@ -0,0 +1,349 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { FacebookCatalogClient } from '@/lib/facebook/graph';
+import {
+  executeCatalogPush,
+  hashProduct,
+  planCatalogPush,
+  pushFacebookCatalog,
+  pushFeedVersion,
+  type FacebookPushState,
+} from '@/lib/facebook/push';
+import { generateCSV } from '@/lib/facebook/catalog';
+import { recordFeedVersion } from '@/lib/facebook/versions';
+import type { CatalogBatchRequest } from '@/lib/facebook/types';
+import { getJSON, uploadJSON } from '@/lib/storage/blob';
+import { createProduct } from '../fixtures';
+
+/**
+ * Catalog push tests
+ * Plans and pushes run against a local mock Graph API server, so they exercise the real
+ * HTTP requests (items_batch, check_batch_request_status) and the push state in Blob storage.
+ */
+
+const CATALOG_ID = '987654321';
+const ACCESS_TOKEN = 'test-token';
+const PUSH_STATE_FILENAME = 'facebook-push-state.json';
+
+/** Poll without waiting */
+const poll = { intervalMs: 0, maxAttempts: 3, sleep: async () => undefined };
+
+/**
+ * Batch status returned by the mock for one status check
+ */
+interface MockBatchStatus {
+  status: string;
+  errors?: Array<{ line?: number; id?: string; message: string }>;
+  warnings?: Array<{ line?: number; id?: string; message: string }>;
+}
+
+/**
+ * Local mock of the Graph API catalog endpoints
+ * Each items_batch call gets the next handle; each status check of a handle returns the next
+ * queued status for it (the last one repeats), defaulting to a finished batch without errors.
+ */
+class MockGraphApi {
+  readonly batches: CatalogBatchRequest[][] = [];
+  readonly statusChecks: string[] = [];
+  readonly authorizations: string[] = [];
+  private readonly statuses = new Map<string, MockBatchStatus[]>();
+  private server: Server | null = null;
+  baseUrl = '';
+
+  /** Queues the statuses returned for a handle */
+  respondWith(handle: string, ...statuses: MockBatchStatus[]): void {
+    this.statuses.set(handle, statuses);
+  }
+
+  reset(): void {
+    this.batches.length = 0;
+    this.statusChecks.length = 0;
+    this.authorizations.length = 0;
+    this.statuses.clear();
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((request, response) => {
+      this.handle(request)
+        .then(({ status, body }) => {
+          response.writeHead(status, { 'Content-Type': 'application/json' });
+          response.end(JSON.stringify(body));
+        })
+        .catch((error: Error) => {
+          response.writeHead(500, { 'Content-Type': 'application/json' });
+          response.end(JSON.stringify({ error: { message: error.message } }));
+        });
+    });
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}/v21.0`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) =>
+      this.server?.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  private async handle(request: IncomingMessage): Promise<{ status: number; body: unknown }> {
+    const url = new URL(request.url ?? '/', 'http://127.0.0.1');
+    this.authorizations.push(request.headers.authorization ?? '');
+
+    if (request.method === 'POST' && url.pathname === `/v21.0/${CATALOG_ID}/items_batch`) {
+      let text = '';
+      for await (const chunk of request) {
+        text += chunk;
+      }
+      const body = JSON.parse(text) as { item_type: string; requests: CatalogBatchRequest[] };
+      if (body.item_type !== 'PRODUCT_ITEM') {
+        return { status: 400, body: { error: { message: 'Invalid item_type' } } };
+      }
+      this.batches.push(body.requests);
+      return { status: 200, body: { handles: [`handle-${this.batches.length}`] } };
+    }
+
+    if (request.method === 'GET' && url.pathname === `/v21.0/${CATALOG_ID}/check_batch_request_status`) {
+      const handle = url.searchParams.get('handle') ?? '';
+      this.statusChecks.push(handle);
+      const queued = this.statuses.get(handle) ?? [];
+      const status = (queued.length > 1 ? queued.shift() : queued[0]) ?? { status: 'finished' };
+      return {
+        status: 200,
+        body: { data: [{ status: status.status, errors: status.errors ?? [], warnings: status.warnings ?? [] }] },
+      };
+    }
+
+    return { status: 404, body: { error: { message: `Unknown path ${url.pathname}` } } };
+  }
+}
+
+const graph = new MockGraphApi();
+
+async function loadPushState(): Promise<FacebookPushState | undefined> {
+  return (await getJSON<FacebookPushState>(PUSH_STATE_FILENAME))?.data;
+}
+
+beforeAll(async () => {
+  await graph.start();
+  process.env.FACEBOOK_PUSH_ENABLED = 'true';
+  process.env.FACEBOOK_CATALOG_ID = CATALOG_ID;
+  process.env.FACEBOOK_ACCESS_TOKEN = ACCESS_TOKEN;
+  process.env.FACEBOOK_GRAPH_API_URL = graph.baseUrl;
+});
+
+afterAll(async () => {
+  await graph.stop();
+});
+
+beforeEach(async () => {
+  graph.reset();
+  await uploadJSON(PUSH_STATE_FILENAME, { catalogId: CATALOG_ID, updatedAt: '', items: {} });
+});
+
+describe('planCatalogPush', () => {
+  it('creates new items, updates changed ones, deletes removed ones and skips unchanged ones', () => {
+    const unchanged = createProduct({ id: '1' });
+    const changed = createProduct({ id: '2', price: '7.00 USD' });
+    const created = createProduct({ id: '3' });
+    const pushed = {
+      '1': hashProduct(unchanged),
+      '2': hashProduct(createProduct({ id: '2' })),
+      '4': 'removed-item-hash',
+    };
+
+    const plan = planCatalogPush([unchanged, changed, created], pushed);
+
+    expect(plan.requests.map((request) => [request.method, request.data.id])).toEqual([
+      ['UPDATE', '2'],
+      ['CREATE', '3'],
+      ['DELETE', '4'],
+    ]);
+    expect(plan.unchanged).toBe(1);
+    expect(plan.hashes).toEqual({ '2': hashProduct(changed), '3': hashProduct(created) });
+  });
+
+  it('sends empty clearable fields on UPDATE only', () => {
+    const product = createProduct({ id: '1', sale_price: '' });
+
+    const create = planCatalogPush([product], {}).requests[0];
+    const update = planCatalogPush([product], { '1': 'old-hash' }).requests[0];
+
+    expect(create.data).not.toHaveProperty('sale_price');
+    expect(update.data.sale_price).toBe('');
+  });
+});
+
+describe('executeCatalogPush', () => {
+  it('sends the plan and records accepted items', async () => {
+    const client = new FacebookCatalogClient({ catalogId: CATALOG_ID, accessToken: ACCESS_TOKEN, baseUrl: graph.baseUrl });
+    const products = [createProduct({ id: '1' }), createProduct({ id: '2' })];
+    const plan = planCatalogPush(products, { '3': 'removed-item-hash' });
+
+    const { result, items } = await executeCatalogPush(client, plan, { '3': 'removed-item-hash' }, poll);
+
+    expect(graph.batches).toHaveLength(1);
+    expect(graph.batches[0].map((request) => request.method)).toEqual(['CREATE', 'CREATE', 'DELETE']);
+    expect(graph.authorizations.every((value) => value === `Bearer ${ACCESS_TOKEN}`)).toBe(true);
+    expect(result).toMatchObject({ status: 'success', created: 2, updated: 0, deleted: 1, handles: ['handle-1'] });
+    expect(items).toEqual({ '1': hashProduct(products[0]), '2': hashProduct(products[1]) });
+  });
+});
+
+describe('pushFacebookCatalog', () => {
+  it('returns null when push mode is disabled', async () => {
+    process.env.FACEBOOK_PUSH_ENABLED = 'false';
+    try {
+      expect(await pushFacebookCatalog([createProduct()])).toBeNull();
+      expect(graph.batches).toHaveLength(0);
+    } finally {
+      process.env.FACEBOOK_PUSH_ENABLED = 'true';
+    }
+  });
+
+  it('pushes CREATE, UPDATE and DELETE requests and saves the push state', async () => {
+    const first = [createProduct({ id: '1' }), createProduct({ id: '2' }), createProduct({ id: '3' })];
+    const firstResult = await pushFacebookCatalog(first, { poll });
+
+    expect(firstResult).toMatchObject({ status: 'success', created: 3, updated: 0, deleted: 0 });
+
+    const second = [first[0], createProduct({ id: '2', price: '9.00 USD' }), createProduct({ id: '4' })];
+    const secondResult = await pushFacebookCatalog(second, { poll });
+
+    expect(graph.batches[1].map((request) => [request.method, request.data.id])).toEqual([
+      ['UPDATE', '2'],
+      ['CREATE', '4'],
+      ['DELETE', '3'],
+    ]);
+    expect(graph.batches[1][0].data.price).toBe('9.00 USD');
+    expect(secondResult).toMatchObject({ status: 'success', created: 1, updated: 1, deleted: 1, unchanged: 1 });
+
+    const state = await loadPushState();
+    expect(state?.catalogId).toBe(CATALOG_ID);
+    expect(state?.items).toEqual({
+      '1': hashProduct(second[0]),
+      '2': hashProduct(second[1]),
+      '4': hashProduct(second[2]),
+    });
+    expect(state?.lastResult).toEqual(secondResult);
+  });
+
+  it('does not record items with per-item errors, so they are re-sent', async () => {
+    graph.respondWith('handle-1', {
+      status: 'finished',
+      errors: [
+        { line: 1, message: 'Invalid price' },
+        { id: '3', message: 'Image could not be downloaded' },
+      ],
+    });
+    const products = [createProduct({ id: '1' }), createProduct({ id: '2' }), createProduct({ id: '3' })];
+
+    const result = await pushFacebookCatalog(products, { poll });
+
+    expect(result).toMatchObject({ status: 'partial', created: 3, errorCount: 2 });
+    expect(result?.errors).toEqual([
+      { id: '2', line: 1, message: 'Invalid price' },
+      { id: '3', message: 'Image could not be downloaded' },
+    ]);
+    expect(Object.keys((await loadPushState())?.items ?? {})).toEqual(['1']);
+
+    await pushFacebookCatalog(products, { poll });
+
+    expect(graph.batches[1].map((request) => [request.method, request.data.id])).toEqual([
+      ['CREATE', '2'],
+      ['CREATE', '3'],
+    ]);
+  });
+
+  it('polls a pending batch until it finishes', async () => {
+    graph.respondWith('handle-1', { status: 'dispatched' }, { status: 'in_progress' }, { status: 'finished' });
+
+    const result = await pushFacebookCatalog([createProduct({ id: '1' })], { poll });
+
+    expect(graph.statusChecks).toEqual(['handle-1', 'handle-1', 'handle-1']);
+    expect(result).toMatchObject({ status: 'success', pendingBatches: 0 });
+    expect(Object.keys((await loadPushState())?.items ?? {})).toEqual(['1']);
+  });
+
+  it('leaves the items of a batch still pending after polling unrecorded', async () => {
+    graph.respondWith('handle-1', { status: 'in_progress' });
+
+    const result = await pushFacebookCatalog([createProduct({ id: '1' })], { poll });
+
+    expect(graph.statusChecks).toHaveLength(poll.maxAttempts);
+    expect(result).toMatchObject({ status: 'partial', pendingBatches: 1, handles: ['handle-1'] });
+    expect((await loadPushState())?.items).toEqual({});
+  });
+
+  it('starts over with a full push when the catalog changes', async () => {
+    await uploadJSON(PUSH_STATE_FILENAME, {
+      catalogId: 'another-catalog',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+      items: { '1': hashProduct(createProduct({ id: '1' })), '9': 'other-item-hash' },
+    });
+
+    const result = await pushFacebookCatalog([createProduct({ id: '1' })], { poll });
+
+    expect(result).toMatchObject({ created: 1, deleted: 0, unchanged: 0 });
+  });
+
+  it('reports a failed push through the injected fetch without changing the push state', async () => {
+    const fetchFn: typeof fetch = async () => {
+      throw new Error('connect ECONNREFUSED');
+    };
+
+    const result = await pushFacebookCatalog([createProduct({ id: '1' })], { fetchFn, poll });
+
+    expect(result).toMatchObject({ status: 'failed' });
+    expect(result?.error).toContain('connect ECONNREFUSED');
+    expect(graph.batches).toHaveLength(0);
+    expect((await loadPushState())?.items).toEqual({});
+  });
+
+  it('reports Graph API error responses as a failed push', async () => {
+    process.env.FACEBOOK_CATALOG_ID = 'unknown-catalog';
+    try {
+      const result = await pushFacebookCatalog([createProduct({ id: '1' })], { poll });
+
+      expect(result).toMatchObject({ status: 'failed' });
+      expect(result?.error).toContain('Graph API request failed (404)');
+    } finally {
+      process.env.FACEBOOK_CATALOG_ID = CATALOG_ID;
+    }
+  });
+});
+
+describe('pushFeedVersion', () => {
+  it('pushes the products of a version made live outside a sync', async () => {
+    const products = [createProduct({ id: '1' }), createProduct({ id: '2' })];
+    const version = await recordFeedVersion(generateCSV(products), products.length);
+
+    const result = await pushFeedVersion(version, { poll });
+
+    expect(graph.batches[0].map((request) => [request.method, request.data.id])).toEqual([
+      ['CREATE', '1'],
+      ['CREATE', '2'],
+    ]);
+    expect(result).toMatchObject({ status: 'success', created: 2 });
+  });
+
+  it('reports a version whose stored copy is missing as a failed push', async () => {
+    const version = await recordFeedVersion(generateCSV([createProduct()]), 1);
+
+    const result = await pushFeedVersion({ ...version, id: 'missing', filename: 'feed-versions/missing.csv' }, { poll });
+
+    expect(result).toMatchObject({ status: 'failed' });
+    expect(graph.batches).toHaveLength(0);
+  });
+
+  it('returns null without reading the version when push mode is disabled', async () => {
+    process.env.FACEBOOK_PUSH_ENABLED = 'false';
+    try {
+      const version = await recordFeedVersion(generateCSV([createProduct()]), 1);
+
+      expect(await pushFeedVersion({ ...version, filename: 'feed-versions/missing.csv' })).toBeNull();
+    } finally {
+      process.env.FACEBOOK_PUSH_ENABLED = 'true';
+    }
+  });
+});
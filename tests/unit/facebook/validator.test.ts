@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { generateCSV, PLACEHOLDER_IMAGE_URL } from '@/lib/facebook/catalog';
+import { validateFeed } from '@/lib/facebook/validator';
+import type { FacebookProduct } from '@/lib/facebook/types';
+import { createProduct } from '../fixtures';
+
+/**
+ * Feed validator tests
+ * Feeds are built with generateCSV, so rows are validated exactly as they are stored.
+ */
+
+const GOOGLE_CATEGORY = 'Arts & Entertainment > Hobbies & Creative Arts';
+
+/**
+ * Builds a product that passes every check
+ */
+function createValidProduct(fields: Partial<FacebookProduct> = {}): FacebookProduct {
+  return createProduct({ google_product_category: GOOGLE_CATEGORY, ...fields });
+}
+
+/**
+ * Validates a feed of one product and returns its issues as "field: message"
+ */
+function validateProduct(fields: Partial<FacebookProduct>): { errors: string[]; warnings: string[] } {
+  const [listing] = validateFeed(generateCSV([createValidProduct(fields)])).listings;
+  const format = (issues: Array<{ field: string; message: string }> = []) =>
+    issues.map((issue) => `${issue.field}: ${issue.message}`);
+  return { errors: format(listing?.errors), warnings: format(listing?.warnings) };
+}
+
+describe('validateFeed', () => {
+  it('accepts a feed generated from valid products', () => {
+    expect(validateFeed(generateCSV([createValidProduct(), createValidProduct({ id: '1002' })]))).toMatchObject({
+      valid: true,
+      productCount: 2,
+      errorCount: 0,
+      warningCount: 0,
+      headerIssues: [],
+      listings: [],
+    });
+  });
+
+  it('reports missing required fields and values over the length limits', () => {
+    expect(validateProduct({ brand: ' ', title: 'x'.repeat(151) }).errors).toEqual([
+      'title: title is 151 characters (maximum 150)',
+      'brand: brand is required',
+    ]);
+  });
+
+  it('checks prices, sale prices and the sale period', () => {
+    expect(validateProduct({ price: '6.5USD' }).errors).toEqual([
+      'price: price must be an amount and currency code (e.g., "12.99 USD")',
+    ]);
+    expect(validateProduct({ sale_price: '7.00 USD' }).errors).toEqual(['sale_price: sale_price must be lower than price']);
+    expect(validateProduct({ sale_price: '5.00 EUR' }).errors).toEqual([
+      'sale_price: sale_price must use the same currency as price',
+    ]);
+    expect(
+      validateProduct({
+        sale_price: '5.00 USD',
+        sale_price_effective_date: '2025-06-30T00:00:00Z/2025-06-01T00:00:00Z',
+      }).errors
+    ).toEqual(['sale_price_effective_date: sale_price_effective_date must end after it starts']);
+    expect(validateProduct({ price: '0.00 USD' }).warnings).toEqual(['price: Product is priced at 0']);
+  });
+
+  it('checks enums, quantities and URLs', () => {
+    expect(
+      validateProduct({ availability: 'available' as FacebookProduct['availability'], link: 'www.etsy.com/listing/1001' })
+        .errors
+    ).toEqual([
+      'availability: availability must be one of: in stock, out of stock',
+      'link: link must be a valid http(s) URL',
+    ]);
+    expect(validateProduct({ quantity_to_sell_on_facebook: '0' }).warnings).toEqual([
+      'availability: Product is "in stock" with a quantity of 0',
+    ]);
+    expect(validateProduct({ image_link: PLACEHOLDER_IMAGE_URL, google_product_category: '' }).warnings).toEqual([
+      'image_link: Listing has no images; a placeholder image is used',
+      'google_product_category: google_product_category is empty',
+    ]);
+  });
+
+  it('groups variant rows by listing and reports duplicate IDs with row numbers', () => {
+    const report = validateFeed(
+      generateCSV([
+        createValidProduct({ id: '1001_1', item_group_id: '1001' }),
+        createValidProduct({ id: '1001_1', item_group_id: '1001' }),
+        createValidProduct({ id: '1002' }),
+      ])
+    );
+
+    expect(report.valid).toBe(false);
+    expect(report.listings).toEqual([
+      {
+        listingId: '1001',
+        rows: [2, 3],
+        errors: [{ row: 3, field: 'id', severity: 'error', message: 'id 1001_1 is already used by row 2' }],
+        warnings: [],
+      },
+    ]);
+  });
+
+  it('reports missing and unknown columns in the header row', () => {
+    const report = validateFeed('id,title,colour\n1001,Blanket,Red');
+
+    expect(report.headerIssues.map((issue) => `${issue.severity}: ${issue.message}`)).toEqual([
+      'error: Required column description is missing',
+      'error: Required column availability is missing',
+      'error: Required column condition is missing',
+      'error: Required column price is missing',
+      'error: Required column link is missing',
+      'error: Required column image_link is missing',
+      'error: Required column brand is missing',
+      'warning: Unknown column colour',
+    ]);
+  });
+});
@@ -0,0 +1,214 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateCSV } from '@/lib/facebook/catalog';
+import {
+  approvePendingFeedVersion,
+  discardPendingFeedVersion,
+  loadFeedVersionIndex,
+  parseFeedProducts,
+  promoteFeedVersion,
+  recordFeedVersion,
+  storePendingFeedVersion,
+} from '@/lib/facebook/versions';
+import { evaluatePublishGuard } from '@/lib/sync/publish-guard';
+import { FACEBOOK_XML_FILENAME } from '@/lib/facebook/xml';
+import { deleteBlob, getCSV, getFeedFile, getJSON, uploadCSV, uploadJSON } from '@/lib/storage/blob';
+import { StorageError } from '@/lib/utils/errors';
+import type { FacebookProduct, FeedVersionIndex } from '@/lib/facebook/types';
+import { createProduct } from '../fixtures';
+
+/**
+ * Feed version tests
+ * Versions are recorded and promoted through the in-memory storage backend. The Facebook XML upload
+ * can be intercepted, to fail it or to change the index while a promotion is in progress.
+ */
+
+const hooks = vi.hoisted(() => ({
+  beforeFeedFileUpload: null as null | (() => Promise<void>),
+}));
+
+vi.mock('@/lib/storage/blob', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/storage/blob')>();
+  return {
+    ...actual,
+    uploadFeedFile: async (...args: Parameters<typeof actual.uploadFeedFile>) => {
+      await hooks.beforeFeedFileUpload?.();
+      return actual.uploadFeedFile(...args);
+    },
+  };
+});
+
+const VERSION_INDEX_FILENAME = 'feed-versions.json';
+
+/**
+ * Publishes a feed the way a sync does: upload the live CSV, then record the version
+ */
+async function publish(products: FacebookProduct[]) {
+  const content = generateCSV(products);
+  await uploadCSV(content);
+  return recordFeedVersion(content, products.length);
+}
+
+beforeEach(async () => {
+  hooks.beforeFeedFileUpload = null;
+  for (const file of [await getJSON(VERSION_INDEX_FILENAME), await getCSV()]) {
+    if (file) {
+      await deleteBlob(file.url);
+    }
+  }
+});
+
+describe('parseFeedProducts', () => {
+  it('reads back the products written by generateCSV', () => {
+    const products = [
+      createProduct(),
+      createProduct({ id: '1002', title: 'Ripple, "Classic"', description: 'Two\nlines', status: 'archived' }),
+    ];
+
+    expect(parseFeedProducts(generateCSV(products))).toEqual(products);
+  });
+
+  it('leaves columns missing from the CSV empty', () => {
+    const [product] = parseFeedProducts('id,title,price\n1001,Granny Square,6.50 USD\n');
+
+    expect(product).toMatchObject({ id: '1001', title: 'Granny Square', price: '6.50 USD' });
+    expect(product.status).toBe('');
+    expect(product.custom_label_4).toBe('');
+  });
+});
+
+describe('recordFeedVersion', () => {
+  it('records the size in UTF-8 bytes', async () => {
+    const content = generateCSV([createProduct({ title: 'Häkelanleitung Fuchs 🦊' })]);
+
+    const version = await recordFeedVersion(content, 1);
+
+    expect(version.sizeBytes).toBe(Buffer.byteLength(content, 'utf8'));
+    expect(version.sizeBytes).toBeGreaterThan(content.length);
+  });
+
+  it('increments the index generation on every write', async () => {
+    await publish([createProduct({ id: '1' })]);
+    await publish([createProduct({ id: '2' })]);
+
+    expect((await loadFeedVersionIndex()).generation).toBe(2);
+  });
+
+  it('treats an index without a generation as generation 0', async () => {
+    const index: Omit<FeedVersionIndex, 'generation'> = {
+      updatedAt: '2025-01-01T00:00:00.000Z',
+      liveVersionId: null,
+      versions: [],
+      pending: null,
+    };
+    await uploadJSON(VERSION_INDEX_FILENAME, index);
+
+    await publish([createProduct()]);
+
+    expect((await loadFeedVersionIndex()).generation).toBe(1);
+  });
+});
+
+describe('promoteFeedVersion', () => {
+  const older = [createProduct({ id: '1', title: 'Older Feed Product' })];
+  const newer = [createProduct({ id: '2', title: 'Newer Feed Product' })];
+
+  it('makes a stored version the live feed and records it in the index', async () => {
+    const olderVersion = await publish(older);
+    await publish(newer);
+
+    const promoted = await promoteFeedVersion(olderVersion.id);
+
+    expect(promoted.id).toBe(olderVersion.id);
+    expect(parseFeedProducts((await getCSV())!.content)).toEqual(older);
+    expect((await getFeedFile(FACEBOOK_XML_FILENAME))!.content).toContain('Older Feed Product');
+    const index = await loadFeedVersionIndex();
+    expect(index.liveVersionId).toBe(olderVersion.id);
+    expect(index.generation).toBe(3);
+  });
+
+  it('restores the live feed when the XML upload fails', async () => {
+    const olderVersion = await publish(older);
+    const newerVersion = await publish(newer);
+    hooks.beforeFeedFileUpload = async () => {
+      hooks.beforeFeedFileUpload = null;
+      throw new StorageError('Blob upload failed', 'BLOB_UPLOAD_ERROR');
+    };
+
+    await expect(promoteFeedVersion(olderVersion.id)).rejects.toThrow('Blob upload failed');
+
+    expect(parseFeedProducts((await getCSV())!.content)).toEqual(newer);
+    expect((await getFeedFile(FACEBOOK_XML_FILENAME))!.content).toContain('Newer Feed Product');
+    expect((await loadFeedVersionIndex()).liveVersionId).toBe(newerVersion.id);
+  });
+
+  it('fails without overwriting an index changed by another request, and restores the live feed', async () => {
+    const olderVersion = await publish(older);
+    const newerVersion = await publish(newer);
+    hooks.beforeFeedFileUpload = async () => {
+      hooks.beforeFeedFileUpload = null;
+      const index = await loadFeedVersionIndex();
+      await uploadJSON(VERSION_INDEX_FILENAME, { ...index, generation: index.generation + 1, pending: null });
+    };
+
+    const promotion = promoteFeedVersion(olderVersion.id);
+
+    await expect(promotion).rejects.toBeInstanceOf(StorageError);
+    await expect(promotion).rejects.toMatchObject({ code: 'FEED_VERSION_INDEX_CONFLICT' });
+    expect(parseFeedProducts((await getCSV())!.content)).toEqual(newer);
+    const index = await loadFeedVersionIndex();
+    expect(index.liveVersionId).toBe(newerVersion.id);
+    expect(index.generation).toBe(3);
+  });
+
+  it('rejects an unknown version without touching the live feed', async () => {
+    await publish(newer);
+
+    await expect(promoteFeedVersion('20250101T000000Z-000000000000')).rejects.toMatchObject({
+      code: 'FEED_VERSION_NOT_FOUND',
+    });
+    expect(parseFeedProducts((await getCSV())!.content)).toEqual(newer);
+  });
+});
+
+describe('pending feed versions', () => {
+  const live = [createProduct({ id: '1' }), createProduct({ id: '2' })];
+  const blocked = [createProduct({ id: '1', title: 'Blocked Feed Product' })];
+  const guard = evaluatePublishGuard(['1'], ['1', '2'], 20);
+
+  it('keeps the live feed while a blocked feed waits for approval', async () => {
+    const liveVersion = await publish(live);
+
+    const pending = await storePendingFeedVersion(generateCSV(blocked), blocked.length, guard);
+
+    expect(pending.guard.allowed).toBe(false);
+    expect(parseFeedProducts((await getCSV())!.content)).toEqual(live);
+    const index = await loadFeedVersionIndex();
+    expect(index.liveVersionId).toBe(liveVersion.id);
+    expect(index.pending?.id).toBe(pending.id);
+  });
+
+  it('publishes the pending feed when it is approved', async () => {
+    await publish(live);
+    const pending = await storePendingFeedVersion(generateCSV(blocked), blocked.length, guard);
+
+    const approved = await approvePendingFeedVersion();
+
+    expect(approved).not.toHaveProperty('guard');
+    expect(parseFeedProducts((await getCSV())!.content)).toEqual(blocked);
+    const index = await loadFeedVersionIndex();
+    expect(index.liveVersionId).toBe(pending.id);
+    expect(index.pending).toBeNull();
+  });
+
+  it('drops the pending feed when it is discarded, and refuses a second discard', async () => {
+    const liveVersion = await publish(live);
+    await storePendingFeedVersion(generateCSV(blocked), blocked.length, guard);
+
+    await discardPendingFeedVersion();
+
+    const index = await loadFeedVersionIndex();
+    expect(index.pending).toBeNull();
+    expect(index.liveVersionId).toBe(liveVersion.id);
+    await expect(discardPendingFeedVersion()).rejects.toMatchObject({ code: 'NO_PENDING_VERSION' });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { generateXML } from '@/lib/facebook/xml';
+import { createProduct } from '../fixtures';
+
+/**
+ * Facebook RSS XML feed tests
+ */
+
+describe('generateXML', () => {
+  it('writes one item per product with the channel named after the brand', () => {
+    const xml = generateXML([createProduct(), createProduct({ id: '1002' })]);
+
+    expect(xml.split('\n').slice(0, 6)).toEqual([
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">',
+      '  <channel>',
+      '    <title>TabascoSunrise</title>',
+      '    <link>https://www.etsy.com/shop/TabascoSunrise</link>',
+      '    <description>TabascoSunrise product feed</description>',
+    ]);
+    expect(xml.match(/<item>/g)).toHaveLength(2);
+    expect(xml).toContain('      <g:price>6.50 USD</g:price>');
+    expect(xml).not.toContain('<g:sale_price>');
+  });
+
+  it('repeats multi-value columns as separate elements', () => {
+    const xml = generateXML([
+      createProduct({
+        additional_image_link: 'https://i.etsystatic.com/1001/a.jpg, https://i.etsystatic.com/1001/b.jpg',
+        additional_variant_attribute: 'Format:PDF,Language:English',
+      }),
+    ]);
+
+    expect(xml).toContain(
+      [
+        '      <g:additional_image_link>https://i.etsystatic.com/1001/a.jpg</g:additional_image_link>',
+        '      <g:additional_image_link>https://i.etsystatic.com/1001/b.jpg</g:additional_image_link>',
+      ].join('\n')
+    );
+    expect(xml).toContain(
+      [
+        '      <g:additional_variant_attribute>',
+        '        <label>Format</label>',
+        '        <value>PDF</value>',
+        '      </g:additional_variant_attribute>',
+        '      <g:additional_variant_attribute>',
+        '        <label>Language</label>',
+        '        <value>English</value>',
+        '      </g:additional_variant_attribute>',
+      ].join('\n')
+    );
+  });
+
+  it('escapes markup and drops characters that are invalid in XML', () => {
+    const xml = generateXML([createProduct({ title: 'Hats & <Scarves>\u0001' })]);
+
+    expect(xml).toContain('      <g:title>Hats &amp; &lt;Scarves&gt;</g:title>');
+  });
+
+  it('uses a generic channel without a link when no product has a brand', () => {
+    const xml = generateXML([]);
+
+    expect(xml).toContain('    <title>Product Catalog</title>');
+    expect(xml).not.toContain('<link>');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyListingFilters,
+  findUnsafePatternConstruct,
+  matchesFilterCondition,
+  validateListingFilters,
+} from '@/lib/filters/engine';
+import { ValidationError } from '@/lib/utils/errors';
+import type { ListingFilter } from '@/lib/filters/types';
+import { createListing } from '../fixtures';
+
+/**
+ * Listing filter tests
+ */
+
+const listings = [
+  createListing({ listing_id: 1, title: 'Granny Square Blanket Pattern', tags: ['blanket'], shop_section_id: 10 }),
+  createListing({
+    listing_id: 2,
+    title: 'Free Coaster Pattern',
+    price: { amount: 0, divisor: 100, currency_code: 'USD' },
+    shop_section_id: 20,
+  }),
+  createListing({ listing_id: 3, title: 'Blanket Pattern Bundle', is_digital: false, listing_type: 'physical' }),
+];
+
+describe('matchesFilterCondition', () => {
+  it('matches tags as whole words regardless of case', () => {
+    expect(matchesFilterCondition(listings[0], { field: 'tags', values: ['Blanket'] })).toBe(true);
+    expect(matchesFilterCondition(listings[0], { field: 'tags', values: ['blank'] })).toBe(false);
+  });
+
+  it('matches a price range with inclusive, optional bounds', () => {
+    expect(matchesFilterCondition(listings[1], { field: 'price', max: 0 })).toBe(true);
+    expect(matchesFilterCondition(listings[0], { field: 'price', min: 6.5, max: 6.5 })).toBe(true);
+    expect(matchesFilterCondition(listings[0], { field: 'price', min: 7 })).toBe(false);
+  });
+
+  it('matches sections, listing types and digital listings', () => {
+    expect(matchesFilterCondition(listings[1], { field: 'shop_section_id', values: [20] })).toBe(true);
+    expect(matchesFilterCondition(listings[2], { field: 'shop_section_id', values: [20] })).toBe(false);
+    expect(matchesFilterCondition(listings[2], { field: 'listing_type', values: ['physical'] })).toBe(true);
+    expect(matchesFilterCondition(listings[2], { field: 'is_digital', value: false })).toBe(true);
+  });
+
+  it('matches a title pattern or plain title words regardless of case', () => {
+    expect(matchesFilterCondition(listings[2], { field: 'title', pattern: '\\bbundle\\b' })).toBe(true);
+    expect(matchesFilterCondition(listings[1], { field: 'title_contains', values: ['bundle', 'FREE'] })).toBe(true);
+    expect(matchesFilterCondition(listings[0], { field: 'title_contains', values: ['bundle'] })).toBe(false);
+  });
+});
+
+describe('applyListingFilters', () => {
+  it('keeps listings matching every include filter and no exclude filter, counting removals per filter', () => {
+    const filters: ListingFilter[] = [
+      { id: 'no-free', mode: 'exclude', condition: { field: 'price', max: 0 } },
+      { id: 'no-bundles', mode: 'exclude', condition: { field: 'title', pattern: 'bundle' } },
+      { id: 'patterns', mode: 'include', condition: { field: 'title_contains', values: ['pattern'] } },
+      { id: 'disabled', mode: 'exclude', enabled: false, condition: { field: 'tags', values: ['blanket'] } },
+    ];
+
+    const result = applyListingFilters(listings, filters);
+
+    expect(result.listings.map((listing) => listing.listing_id)).toEqual([1]);
+    expect(result.stats).toEqual({
+      evaluated: 3,
+      removed: 2,
+      removedByFilter: { 'no-free': 1, 'no-bundles': 1, patterns: 0, disabled: 0 },
+    });
+  });
+
+  it('refuses an unsafe title pattern stored before patterns were checked', () => {
+    const filters: ListingFilter[] = [{ id: 'slow', mode: 'exclude', condition: { field: 'title', pattern: '(a+)+$' } }];
+
+    expect(() => applyListingFilters(listings, filters)).toThrow(ValidationError);
+  });
+});
+
+describe('findUnsafePatternConstruct', () => {
+  it.each(['(a+)+$', '(a*)*b', '(\\w+\\s?)*$', '(a|ab)*c', '(?:x+){2,}', '((ab)+)+', '(a)\\1', '(?<w>a)\\k<w>'])(
+    'rejects %s',
+    (pattern) => {
+      expect(findUnsafePatternConstruct(pattern)).not.toBeNull();
+    }
+  );
+
+  it.each(['\\bbundle\\b', '^free\\b', '(free|gratis) pattern', '(ab)+', '[a+]+', '\\(x+\\)+', '(?:free)? ?pattern'])(
+    'accepts %s',
+    (pattern) => {
+      expect(findUnsafePatternConstruct(pattern)).toBeNull();
+    }
+  );
+});
+
+describe('validateListingFilters', () => {
+  it('normalizes filters and drops unknown properties', () => {
+    expect(
+      validateListingFilters([
+        { mode: 'exclude', name: ' Free ', extra: 1, condition: { field: 'title_contains', values: [' free '] } },
+      ])
+    ).toEqual([
+      { id: 'filter-1', name: 'Free', mode: 'exclude', condition: { field: 'title_contains', values: ['free'] } },
+    ]);
+  });
+
+  it('rejects unsafe, invalid and overlong title patterns', () => {
+    const validate = (pattern: string) =>
+      validateListingFilters([{ mode: 'exclude', condition: { field: 'title', pattern } }]);
+
+    expect(() => validate('(a+)+')).toThrow(expect.objectContaining({ code: 'UNSAFE_FILTER_PATTERN' }));
+    expect(() => validate('(unclosed')).toThrow('is not a valid regular expression');
+    expect(() => validate('a'.repeat(101))).toThrow('at most 100 characters');
+  });
+
+  it('rejects duplicate IDs and an empty price range', () => {
+    expect(() =>
+      validateListingFilters([
+        { id: 'a', mode: 'exclude', condition: { field: 'is_digital', value: true } },
+        { id: 'a', mode: 'exclude', condition: { field: 'is_digital', value: false } },
+      ])
+    ).toThrow('is used by more than one filter');
+    expect(() => validateListingFilters([{ mode: 'include', condition: { field: 'price' } }])).toThrow(
+      'must set min, max or both'
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import type { EtsyImage, EtsyListing, EtsyShop } from '@/lib/etsy/types';
+import type { FacebookProduct } from '@/lib/facebook/types';
+
+/**
+ * Shared fixtures for unit tests
+ */
+
+/**
+ * Builds a Facebook product with every CSV column set
+ */
+export function createProduct(fields: Partial<FacebookProduct> = {}): FacebookProduct {
+  return {
+    id: '1001',
+    title: 'Granny Square Blanket Pattern',
+    description: 'Crochet pattern for a granny square blanket.',
+    availability: 'in stock',
+    condition: 'new',
+    price: '6.50 USD',
+    link: 'https://www.etsy.com/listing/1001/granny-square-blanket-pattern',
+    image_link: 'https://i.etsystatic.com/1001/il_fullxfull.jpg',
+    additional_image_link: '',
+    brand: 'TabascoSunrise',
+    item_group_id: '',
+    quantity_to_sell_on_facebook: '999',
+    size: '',
+    color: '',
+    additional_variant_attribute: '',
+    google_product_category: '',
+    product_type: 'Craft Supplies & Tools > Patterns & How To > Crochet',
+    custom_label_0: '',
+    custom_label_1: '',
+    custom_label_2: '',
+    custom_label_3: '',
+    custom_label_4: '',
+    sale_price: '',
+    sale_price_effective_date: '',
+    status: 'active',
+    ...fields,
+  };
+}
+
+/**
+ * Builds an Etsy listing image
+ */
+export function createImage(listingId: number, imageId: number, rank: number = 1): EtsyImage {
+  const url = `https://i.etsystatic.com/${listingId}/il_${imageId}`;
+  return {
+    listing_image_id: imageId,
+    listing_id: listingId,
+    hex_code: null,
+    red: 0,
+    green: 0,
+    blue: 0,
+    hue: 0,
+    saturation: 0,
+    brightness: 0,
+    is_black_and_white: false,
+    creation_tsz: 1735689600,
+    created_timestamp: 1735689600,
+    rank,
+    url_75x75: `${url}_75x75.jpg`,
+    url_170x135: `${url}_170x135.jpg`,
+    url_570xN: `${url}_570xN.jpg`,
+    url_fullxfull: `${url}_fullxfull.jpg`,
+    full_height: 2000,
+    full_width: 2000,
+    alt_text: null,
+  };
+}
+
+/**
+ * Builds an active Etsy listing without variations
+ */
+export function createListing(fields: Partial<EtsyListing> = {}): EtsyListing {
+  const listingId = fields.listing_id ?? 1001;
+  return {
+    listing_id: listingId,
+    user_id: 5001,
+    shop_id: 7001,
+    title: 'Granny Square Blanket Pattern',
+    description: 'Crochet pattern for a granny square blanket.',
+    price: { amount: 650, divisor: 100, currency_code: 'USD' },
+    quantity: 999,
+    url: `https://www.etsy.com/listing/${listingId}/granny-square-blanket-pattern`,
+    images: [createImage(listingId, 1)],
+    state: 'active',
+    creation_timestamp: 1735689600,
+    last_modified_timestamp: 1735689600,
+    state_timestamp: 1735689600,
+    ending_timestamp: 1767225600,
+    original_creation_timestamp: 1735689600,
+    views: 120,
+    num_favorers: 14,
+    is_digital: true,
+    is_personalizable: false,
+    is_customizable: false,
+    listing_type: 'download',
+    tags: ['crochet pattern', 'granny square'],
+    taxonomy_id: 1234,
+    shop_section_id: null,
+    has_variations: false,
+    ...fields,
+  };
+}
+
+/**
+ * Builds the shop the fixture listings belong to
+ */
+export function createShop(fields: Partial<EtsyShop> = {}): EtsyShop {
+  return {
+    shop_id: 7001,
+    shop_name: 'TabascoSunrise',
+    user_id: 5001,
+    title: 'Crochet & Knitting Patterns',
+    announcement: null,
+    currency_code: 'USD',
+    is_vacation: false,
+    vacation_message: null,
+    sale_message: null,
+    digital_sale_message: null,
+    url: 'https://www.etsy.com/shop/TabascoSunrise',
+    icon_url_fullxfull: null,
+    listing_active_count: 1,
+    digital_listing_count: 1,
+    num_favorers: 10,
+    review_count: 5,
+    review_average: 5,
+    transaction_sold_count: 20,
+    create_date: 1735689600,
+    update_date: 1735689600,
+    ...fields,
+  };
+}
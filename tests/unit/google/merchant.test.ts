@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { formatGoogleItems, generateGoogleMerchantXML } from '@/lib/google/merchant';
+import { createImage, createListing, createShop } from '../fixtures';
+
+/**
+ * Google Merchant Center feed tests
+ */
+
+const shop = createShop();
+
+const category = {
+  productType: 'Craft Supplies & Tools > Patterns & How To > Crochet',
+  googleProductCategory: 'Arts & Entertainment > Hobbies & Creative Arts',
+};
+
+describe('formatGoogleItems', () => {
+  it('formats a listing with Google availability values and without product identifiers', () => {
+    const listing = createListing({ images: [createImage(1001, 2, 2), createImage(1001, 1, 1)] });
+
+    expect(formatGoogleItems(listing, 'TabascoSunrise', category)).toEqual([
+      {
+        id: '1001',
+        title: 'Granny Square Blanket Pattern',
+        description: 'Crochet pattern for a granny square blanket.',
+        link: 'https://www.etsy.com/listing/1001/granny-square-blanket-pattern',
+        image_link: 'https://i.etsystatic.com/1001/il_1_fullxfull.jpg',
+        additional_image_links: ['https://i.etsystatic.com/1001/il_2_fullxfull.jpg'],
+        availability: 'in_stock',
+        condition: 'new',
+        price: '6.50 USD',
+        brand: 'TabascoSunrise',
+        identifier_exists: 'no',
+        item_group_id: '',
+        google_product_category: 'Arts & Entertainment > Hobbies & Creative Arts',
+        product_type: 'Craft Supplies & Tools > Patterns & How To > Crochet',
+        size: '',
+        color: '',
+      },
+    ]);
+  });
+
+  it('reports sold out listings as out_of_stock and skips invalid listings', () => {
+    expect(formatGoogleItems(createListing({ quantity: 0 }), 'TabascoSunrise')[0].availability).toBe('out_of_stock');
+    expect(formatGoogleItems(createListing({ title: ' ' }), 'TabascoSunrise')).toEqual([]);
+  });
+});
+
+describe('generateGoogleMerchantXML', () => {
+  it('writes an RSS 2.0 channel with escaped g: elements and omits empty ones', () => {
+    const [item] = formatGoogleItems(createListing({ title: 'Hats & "Scarves"' }), 'TabascoSunrise', category);
+
+    const xml = generateGoogleMerchantXML([item], shop);
+
+    expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">')).toBe(true);
+    expect(xml).toContain('    <title>Crochet &amp; Knitting Patterns</title>');
+    expect(xml).toContain('      <g:title>Hats &amp; &quot;Scarves&quot;</g:title>');
+    expect(xml).toContain('      <g:identifier_exists>no</g:identifier_exists>');
+    expect(xml).not.toContain('<g:item_group_id>');
+    expect(xml).not.toContain('<g:size>');
+    expect(xml.endsWith('  </channel>\n</rss>\n')).toBe(true);
+  });
+
+  it('falls back to the shop name when the shop has no title', () => {
+    expect(generateGoogleMerchantXML([], { ...shop, title: null })).toContain('    <title>TabascoSunrise</title>');
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatPinterestProducts,
+  formatPinterestProductType,
+  generatePinterestCSV,
+} from '@/lib/pinterest/catalog';
+import { createListing } from '../fixtures';
+
+/**
+ * Pinterest catalog tests for the Pinterest-specific field rules
+ */
+
+describe('formatPinterestProductType', () => {
+  it('keeps at most five levels of the category path', () => {
+    expect(
+      formatPinterestProductType({ productType: 'A > B > C > D > E > F', googleProductCategory: '' })
+    ).toBe('A > B > C > D > E');
+  });
+
+  it('falls back to the Google category, then to Handmade', () => {
+    expect(formatPinterestProductType({ productType: '', googleProductCategory: 'Media > Books' })).toBe(
+      'Media > Books'
+    );
+    expect(formatPinterestProductType()).toBe('Handmade');
+  });
+});
+
+describe('formatPinterestProducts', () => {
+  it('keeps titles longer than the Facebook limit', () => {
+    const title = 'Pattern '.repeat(30).trim();
+
+    expect(formatPinterestProducts(createListing({ title }), 'TabascoSunrise')[0].title).toBe(title);
+  });
+
+  it('drops a google_product_category that is not from the Google taxonomy', () => {
+    const format = (googleProductCategory: string) =>
+      formatPinterestProducts(createListing(), 'TabascoSunrise', { productType: '', googleProductCategory })[0]
+        .google_product_category;
+
+    expect(format('Media > Books')).toBe('Media > Books');
+    expect(format('505370')).toBe('505370');
+    expect(format('Crochet stuff')).toBe('');
+  });
+});
+
+describe('generatePinterestCSV', () => {
+  it('writes the Pinterest columns with escaped values and no byte order mark', () => {
+    const products = formatPinterestProducts(
+      createListing({ title: 'Ripple Blanket, "Classic" Edition' }),
+      'TabascoSunrise'
+    );
+
+    expect(generatePinterestCSV(products).split('\n')).toEqual([
+      'id,item_group_id,title,description,link,image_link,additional_image_link,price,availability,condition,brand,product_type,google_product_category,size,color',
+      '1001,,"Ripple Blanket, ""Classic"" Edition",Crochet pattern for a granny square blanket.,' +
+        'https://www.etsy.com/listing/1001/granny-square-blanket-pattern,https://i.etsystatic.com/1001/il_1_fullxfull.jpg,,' +
+        '6.50 USD,in stock,new,TabascoSunrise,Handmade,,,',
+    ]);
+  });
+});
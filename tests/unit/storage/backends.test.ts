@@ -0,0 +1,118 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import { getStorageBackend } from '@/lib/storage/backend';
+import { createFilesystemBlobStore, createFilesystemKeyValueStore } from '@/lib/storage/filesystem';
+import { createMemoryBlobStore, createMemoryKeyValueStore } from '@/lib/storage/memory';
+import { ConfigError, StorageError } from '@/lib/utils/errors';
+import type { BlobStore, KeyValueStore } from '@/lib/storage/types';
+
+/**
+ * Storage backend tests
+ * The memory and filesystem backends run the same cases; the filesystem backend writes to a
+ * temporary directory removed after the tests.
+ */
+
+const PUT_OPTIONS = { contentType: 'application/json', cacheControlMaxAge: 60 };
+
+const tempDirs: string[] = [];
+
+/**
+ * Creates an empty temporary directory
+ */
+async function createTempDir(): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'storage-test-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+const backends: Array<{ name: string; createBlobStore: () => Promise<BlobStore>; createKeyValueStore: () => Promise<KeyValueStore> }> = [
+  {
+    name: 'memory',
+    createBlobStore: async () => createMemoryBlobStore(),
+    createKeyValueStore: async () => createMemoryKeyValueStore(),
+  },
+  {
+    name: 'filesystem',
+    createBlobStore: async () => createFilesystemBlobStore(await createTempDir()),
+    createKeyValueStore: async () => createFilesystemKeyValueStore(await createTempDir()),
+  },
+];
+
+afterAll(async () => {
+  await Promise.all(tempDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe.each(backends)('$name blob store', ({ createBlobStore }) => {
+  it('reads back what was written, keeping the URL when a pathname is rewritten', async () => {
+    const store = await createBlobStore();
+
+    const url = await store.put('feed-versions/a.csv', 'first', PUT_OPTIONS);
+    const rewrittenUrl = await store.put('feed-versions/a.csv', 'second', PUT_OPTIONS);
+
+    expect(rewrittenUrl).toBe(url);
+    expect(await store.get('feed-versions/a.csv')).toMatchObject({ content: 'second', url });
+    expect(await store.get('feed-versions/missing.csv')).toBeNull();
+  });
+
+  it('lists the pathnames under a prefix in ascending order', async () => {
+    const store = await createBlobStore();
+    for (const pathname of ['listing-overrides/1002.json', 'listing-overrides/1001.json', 'feed-versions.json']) {
+      await store.put(pathname, '{}', PUT_OPTIONS);
+    }
+
+    expect(await store.list('listing-overrides/')).toEqual(['listing-overrides/1001.json', 'listing-overrides/1002.json']);
+    expect(await store.list('missing/')).toEqual([]);
+  });
+
+  it('deletes a blob by its URL', async () => {
+    const store = await createBlobStore();
+    const url = await store.put('sync-snapshot.json', '{}', PUT_OPTIONS);
+
+    await store.delete(url);
+
+    expect(await store.get('sync-snapshot.json')).toBeNull();
+    await expect(store.delete('https://example.com/sync-snapshot.json')).rejects.toMatchObject({
+      code: 'INVALID_BLOB_URL',
+    });
+  });
+});
+
+describe.each(backends)('$name key-value store', ({ createKeyValueStore }) => {
+  it('stores copies of values and deletes keys', async () => {
+    const store = await createKeyValueStore();
+    const tokens = { access_token: '12345.access', scopes: ['listings_r'] };
+
+    await store.set('etsy_tokens', tokens);
+    tokens.scopes.push('shops_r');
+
+    expect(await store.get('etsy_tokens')).toEqual({ access_token: '12345.access', scopes: ['listings_r'] });
+    await store.delete('etsy_tokens');
+    await store.delete('etsy_tokens');
+    expect(await store.get('etsy_tokens')).toBeUndefined();
+  });
+});
+
+describe('filesystem blob store', () => {
+  it('refuses pathnames outside the storage directory', async () => {
+    const store = createFilesystemBlobStore(await createTempDir());
+
+    await expect(store.put('../outside.json', '{}', PUT_OPTIONS)).rejects.toBeInstanceOf(StorageError);
+  });
+});
+
+describe('getStorageBackend', () => {
+  it('defaults to vercel and rejects unknown backends', () => {
+    vi.stubEnv('STORAGE_BACKEND', '');
+    expect(getStorageBackend()).toBe('vercel');
+    vi.stubEnv('STORAGE_BACKEND', ' Filesystem ');
+    expect(getStorageBackend()).toBe('filesystem');
+    vi.stubEnv('STORAGE_BACKEND', 's3');
+    expect(() => getStorageBackend()).toThrow(ConfigError);
+  });
+});
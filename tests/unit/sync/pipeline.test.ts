@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildCatalog, getArchiveGraceDays, previewCatalog } from '@/lib/sync/pipeline';
+import { SNAPSHOT_FORMAT_VERSION, storeSyncSnapshot, type SnapshotEntry } from '@/lib/sync/snapshot';
+import { generateCSV } from '@/lib/facebook/catalog';
+import { loadFeedVersionIndex } from '@/lib/facebook/versions';
+import { getCSV, uploadCSV } from '@/lib/storage/blob';
+import type { EtsyClient } from '@/lib/etsy/client';
+import type { EtsyListing, EtsyListingState } from '@/lib/etsy/types';
+import { createListing, createProduct, createShop } from '../fixtures';
+
+/**
+ * Sync pipeline tests
+ * The Etsy client is replaced by a stub serving listings per state; everything else runs against
+ * the in-memory storage backend.
+ */
+
+const NOW = new Date('2025-06-01T06:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const shop = createShop();
+
+/**
+ * Creates an Etsy client stub serving the given listings by state
+ */
+function createClient(listings: EtsyListing[]): EtsyClient {
+  return {
+    getShopListings: async (_shopId: string, state: EtsyListingState = 'active') =>
+      listings.filter((listing) => listing.state === state).map((listing) => ({ ...listing })),
+    attachListingInventories: async () => 0,
+    getSellerTaxonomyNodes: async () => {
+      throw new Error('Taxonomy unavailable');
+    },
+  } as unknown as EtsyClient;
+}
+
+/**
+ * Stores a snapshot of a previous sync holding the given entries
+ */
+async function storePreviousSync(entries: Record<string, SnapshotEntry>): Promise<void> {
+  await storeSyncSnapshot({
+    version: SNAPSHOT_FORMAT_VERSION,
+    createdAt: new Date(NOW.getTime() - DAY_MS).toISOString(),
+    shopId: shop.shop_id,
+    formatFingerprint: 'previous',
+    entries,
+  });
+}
+
+/**
+ * Builds a snapshot entry for a listing
+ */
+function createEntry(listingId: number, archivedSince?: string): SnapshotEntry {
+  const entry: SnapshotEntry = {
+    listing: createListing({ listing_id: listingId }),
+    products: [createProduct({ id: listingId.toString() })],
+  };
+  if (archivedSince) {
+    entry.archivedSince = archivedSince;
+  }
+  return entry;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('getArchiveGraceDays', () => {
+  it('reads ARCHIVE_GRACE_DAYS, falling back to 30 days for invalid values', () => {
+    expect(getArchiveGraceDays()).toBe(30);
+    vi.stubEnv('ARCHIVE_GRACE_DAYS', '0');
+    expect(getArchiveGraceDays()).toBe(0);
+    vi.stubEnv('ARCHIVE_GRACE_DAYS', '-3');
+    expect(getArchiveGraceDays()).toBe(30);
+  });
+});
+
+describe('buildCatalog', () => {
+  it('keeps listings that stopped being active in the feed as archived and out of stock', async () => {
+    await storePreviousSync({ '1001': createEntry(1001), '1002': createEntry(1002) });
+    const client = createClient([
+      createListing({ listing_id: 1001 }),
+      createListing({ listing_id: 1002, state: 'sold_out' }),
+    ]);
+
+    const build = await buildCatalog(client, shop, { mode: 'full' });
+
+    expect(build.products.map(({ id, availability, status }) => ({ id, availability, status }))).toEqual([
+      { id: '1001', availability: 'in stock', status: 'active' },
+      { id: '1002', availability: 'out of stock', status: 'archived' },
+    ]);
+    expect(build.archivedListings).toBe(1);
+    expect(build.snapshot.entries['1002'].archivedSince).toBe(NOW.toISOString());
+    expect(build.snapshot.entries['1001'].archivedSince).toBeUndefined();
+  });
+
+  it('drops archived listings past the grace period and listings no longer on Etsy', async () => {
+    const archivedSince = new Date(NOW.getTime() - 30 * DAY_MS).toISOString();
+    await storePreviousSync({
+      '1001': createEntry(1001),
+      '1002': createEntry(1002, archivedSince),
+      '1003': createEntry(1003),
+    });
+    const client = createClient([
+      createListing({ listing_id: 1001 }),
+      createListing({ listing_id: 1002, state: 'expired' }),
+    ]);
+
+    const build = await buildCatalog(client, shop, { mode: 'full' });
+
+    expect(build.products.map((product) => product.id)).toEqual(['1001']);
+    expect(build.archivedListings).toBe(0);
+    expect(build.removedListings).toBe(2);
+  });
+
+  it('drops listings as soon as they stop being active when the grace period is 0', async () => {
+    vi.stubEnv('ARCHIVE_GRACE_DAYS', '0');
+    await storePreviousSync({ '1001': createEntry(1001), '1002': createEntry(1002) });
+    const client = createClient([
+      createListing({ listing_id: 1001 }),
+      createListing({ listing_id: 1002, state: 'inactive' }),
+    ]);
+
+    const build = await buildCatalog(client, shop, { mode: 'full' });
+
+    expect(build.products.map((product) => product.id)).toEqual(['1001']);
+    expect(build.removedListings).toBe(1);
+  });
+});
+
+describe('previewCatalog', () => {
+  it('validates and diffs the build against the live feed without publishing anything', async () => {
+    const live = [createProduct({ id: '1001' }), createProduct({ id: '1002' }), createProduct({ id: '1003' })];
+    const liveContent = generateCSV(live);
+    await uploadCSV(liveContent);
+    await storePreviousSync({});
+    const client = createClient([createListing({ listing_id: 1001, price: { amount: 700, divisor: 100, currency_code: 'USD' } })]);
+    const build = await buildCatalog(client, shop, { mode: 'full' });
+
+    const preview = await previewCatalog(build);
+
+    expect(preview.diffSummary).toMatchObject({ added: 0, removed: 2, changed: 1, priceChanges: 1 });
+    expect(preview.publishGuard).toMatchObject({ allowed: false, previousCount: 3, newCount: 1 });
+    expect(preview.validation.productCount).toBe(1);
+    expect((await getCSV())!.content).toBe(liveContent);
+    expect((await loadFeedVersionIndex()).pending).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { evaluatePublishGuard, getPublishShrinkThreshold } from '@/lib/sync/publish-guard';
+
+/**
+ * Publish guard tests
+ */
+
+const liveIds = ['1', '2', '3', '4', '5'];
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getPublishShrinkThreshold', () => {
+  it('reads PUBLISH_SHRINK_THRESHOLD, falling back to 20 percent for values outside 0-100', () => {
+    expect(getPublishShrinkThreshold()).toBe(20);
+    vi.stubEnv('PUBLISH_SHRINK_THRESHOLD', '12.5');
+    expect(getPublishShrinkThreshold()).toBe(12.5);
+    vi.stubEnv('PUBLISH_SHRINK_THRESHOLD', '150');
+    expect(getPublishShrinkThreshold()).toBe(20);
+  });
+});
+
+describe('evaluatePublishGuard', () => {
+  it('allows a feed that shrinks by exactly the threshold', () => {
+    expect(evaluatePublishGuard(['1', '2', '3', '4'], liveIds, 20)).toEqual({
+      allowed: true,
+      thresholdPercent: 20,
+      previousCount: 5,
+      newCount: 4,
+      removedCount: 1,
+      shrinkPercent: 20,
+      removedPercent: 20,
+    });
+  });
+
+  it('blocks a feed whose product count drops past the threshold', () => {
+    const result = evaluatePublishGuard(['1', '2', '3'], liveIds, 20);
+
+    expect(result).toMatchObject({ allowed: false, shrinkPercent: 40, removedPercent: 40 });
+    expect(result.reason).toBe('The feed would shrink from 5 to 3 products (40% fewer, threshold 20%)');
+  });
+
+  it('blocks a feed of the same size that replaces too many live products', () => {
+    const result = evaluatePublishGuard(['1', '2', '3', '6', '7'], liveIds, 20);
+
+    expect(result).toMatchObject({ allowed: false, shrinkPercent: 0, removedCount: 2, removedPercent: 40 });
+    expect(result.reason).toBe('2 of 5 live products would be removed (40%, threshold 20%)');
+  });
+
+  it('allows any feed when no feed is live yet', () => {
+    expect(evaluatePublishGuard([], null, 0)).toMatchObject({ allowed: true, previousCount: 0, shrinkPercent: 0 });
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  computeFormatFingerprint,
+  getSnapshotIncompatibility,
+  hasListingChanged,
+  loadSyncSnapshot,
+  MAX_SNAPSHOT_AGE_MS,
+  SNAPSHOT_FORMAT_VERSION,
+  storeSyncSnapshot,
+  type SyncSnapshot,
+} from '@/lib/sync/snapshot';
+import { createListing, createProduct } from '../fixtures';
+
+/**
+ * Sync snapshot tests
+ * Time is faked so snapshot ages are exact.
+ */
+
+const NOW = new Date('2025-06-01T06:00:00.000Z');
+const SHOP_ID = 7001;
+const FINGERPRINT = computeFormatFingerprint({ shopName: 'TabascoSunrise' });
+
+/**
+ * Builds a snapshot created the given time before now
+ */
+function createSnapshot(ageMs: number = 0, fields: Partial<SyncSnapshot> = {}): SyncSnapshot {
+  return {
+    version: SNAPSHOT_FORMAT_VERSION,
+    createdAt: new Date(NOW.getTime() - ageMs).toISOString(),
+    shopId: SHOP_ID,
+    formatFingerprint: FINGERPRINT,
+    entries: { '1001': { listing: createListing(), products: [createProduct()] } },
+    ...fields,
+  };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('hasListingChanged', () => {
+  it('detects edits and state changes from the listing timestamps', () => {
+    const previous = createListing();
+
+    expect(hasListingChanged(createListing({ views: 500 }), previous)).toBe(false);
+    expect(hasListingChanged(createListing({ last_modified_timestamp: 1735700000 }), previous)).toBe(true);
+    expect(hasListingChanged(createListing({ state_timestamp: 1735700000 }), previous)).toBe(true);
+  });
+});
+
+describe('computeFormatFingerprint', () => {
+  it('changes only when the formatter inputs change', () => {
+    expect(computeFormatFingerprint({ shopName: 'TabascoSunrise' })).toBe(FINGERPRINT);
+    expect(computeFormatFingerprint({ shopName: 'Other Shop' })).not.toBe(FINGERPRINT);
+  });
+});
+
+describe('getSnapshotIncompatibility', () => {
+  it('accepts a recent snapshot of the same shop and configuration', () => {
+    expect(getSnapshotIncompatibility(createSnapshot(MAX_SNAPSHOT_AGE_MS - 1), SHOP_ID, FINGERPRINT)).toBeNull();
+  });
+
+  it('explains why a snapshot cannot be reused', () => {
+    expect(getSnapshotIncompatibility(createSnapshot(0, { version: 1 }), SHOP_ID, FINGERPRINT)).toBe(
+      'snapshot version changed'
+    );
+    expect(getSnapshotIncompatibility(createSnapshot(), 9999, FINGERPRINT)).toBe('shop changed');
+    expect(getSnapshotIncompatibility(createSnapshot(), SHOP_ID, 'other')).toBe('formatter configuration changed');
+    expect(getSnapshotIncompatibility(createSnapshot(MAX_SNAPSHOT_AGE_MS), SHOP_ID, FINGERPRINT)).toBe(
+      'snapshot too old'
+    );
+    expect(getSnapshotIncompatibility(createSnapshot(0, { createdAt: 'never' }), SHOP_ID, FINGERPRINT)).toBe(
+      'snapshot too old'
+    );
+  });
+});
+
+describe('storeSyncSnapshot', () => {
+  it('stores the snapshot for the next sync to load', async () => {
+    const snapshot = createSnapshot();
+
+    await storeSyncSnapshot(snapshot);
+
+    expect(await loadSyncSnapshot()).toEqual(snapshot);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findTaxonomyOverride,
+  isGoogleProductCategory,
+  mapGoogleProductCategory,
+  resolveListingCategory,
+  splitTaxonomyPath,
+  validateTaxonomyOverrides,
+} from '@/lib/taxonomy/mapper';
+import { ValidationError } from '@/lib/utils/errors';
+import type { EtsyTaxonomyCache } from '@/lib/taxonomy/types';
+import { createListing } from '../fixtures';
+
+/**
+ * Taxonomy mapping tests against the bundled mapping table
+ */
+
+const CROCHET_PATH = ['Craft Supplies & Tools', 'Patterns & How To', 'Crochet'];
+const NEEDLECRAFT_PATTERNS =
+  'Arts & Entertainment > Hobbies & Creative Arts > Arts & Crafts > Crafting Patterns & Molds > Needlecraft Patterns';
+
+const taxonomy: EtsyTaxonomyCache = {
+  fetchedAt: '2025-06-01T06:00:00.000Z',
+  checksum: 'checksum',
+  paths: { '1234': CROCHET_PATH, '5678': ['Gift Cards'] },
+};
+
+describe('splitTaxonomyPath', () => {
+  it('splits on ">" and drops empty segments', () => {
+    expect(splitTaxonomyPath(' Craft Supplies & Tools >Patterns & How To > ')).toEqual([
+      'Craft Supplies & Tools',
+      'Patterns & How To',
+    ]);
+  });
+});
+
+describe('mapGoogleProductCategory', () => {
+  it('uses the longest matching prefix, ignoring case', () => {
+    expect(mapGoogleProductCategory(CROCHET_PATH)).toBe(NEEDLECRAFT_PATTERNS);
+    expect(mapGoogleProductCategory(['craft supplies & tools', 'patterns & how to', 'crochet'])).toBe(
+      NEEDLECRAFT_PATTERNS
+    );
+  });
+
+  it('returns an empty category for unmapped paths', () => {
+    expect(mapGoogleProductCategory(['Gift Cards'])).toBe('');
+    expect(mapGoogleProductCategory([])).toBe('');
+  });
+});
+
+describe('isGoogleProductCategory', () => {
+  it('accepts category IDs and paths under a Google top-level category', () => {
+    expect(isGoogleProductCategory('505370')).toBe(true);
+    expect(isGoogleProductCategory('Media > Books')).toBe(true);
+    expect(isGoogleProductCategory('Crochet stuff')).toBe(false);
+  });
+});
+
+describe('findTaxonomyOverride', () => {
+  it('prefers an exact taxonomy ID over the longest path prefix', () => {
+    const byId = { match: '1234', productType: 'By ID' };
+    const byCraft = { match: 'Craft Supplies & Tools', productType: 'Craft' };
+    const byPatterns = { match: 'Craft Supplies & Tools > Patterns & How To', productType: 'Patterns' };
+
+    expect(findTaxonomyOverride(1234, CROCHET_PATH, [byCraft, byPatterns, byId])).toBe(byId);
+    expect(findTaxonomyOverride(9999, CROCHET_PATH, [byCraft, byPatterns, byId])).toBe(byPatterns);
+    expect(findTaxonomyOverride(5678, ['Gift Cards'], [byCraft, byId])).toBeUndefined();
+  });
+});
+
+describe('resolveListingCategory', () => {
+  it('falls back to the Etsy path and the mapping table for fields the override leaves unset', () => {
+    const overrides = [{ match: '1234', googleProductCategory: 'Media > Books' }];
+
+    expect(resolveListingCategory(createListing(), taxonomy, overrides)).toEqual({
+      productType: 'Craft Supplies & Tools > Patterns & How To > Crochet',
+      googleProductCategory: 'Media > Books',
+    });
+    expect(resolveListingCategory(createListing(), taxonomy, [])).toEqual({
+      productType: 'Craft Supplies & Tools > Patterns & How To > Crochet',
+      googleProductCategory: NEEDLECRAFT_PATTERNS,
+    });
+  });
+
+  it('leaves both fields empty when the taxonomy is unknown', () => {
+    expect(resolveListingCategory(createListing({ taxonomy_id: null }), taxonomy, [])).toEqual({
+      productType: '',
+      googleProductCategory: '',
+    });
+    expect(resolveListingCategory(createListing(), null, [])).toEqual({ productType: '', googleProductCategory: '' });
+  });
+});
+
+describe('validateTaxonomyOverrides', () => {
+  it('trims values and drops empty fields', () => {
+    expect(validateTaxonomyOverrides([{ match: ' 1234 ', productType: ' Crochet ', googleProductCategory: ' ' }])).toEqual(
+      [{ match: '1234', productType: 'Crochet' }]
+    );
+  });
+
+  it('rejects overrides without a match or without any field to set', () => {
+    expect(() => validateTaxonomyOverrides({})).toThrow(ValidationError);
+    expect(() => validateTaxonomyOverrides([{ match: '', productType: 'Crochet' }])).toThrow(
+      'overrides[0].match must be a taxonomy ID or category path'
+    );
+    expect(() => validateTaxonomyOverrides([{ match: '1234' }])).toThrow(
+      'overrides[0] must set googleProductCategory or productType'
+    );
+  });
+});
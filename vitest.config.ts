@@ -0,0 +1,25 @@
+import path from 'node:path'
+import { defineConfig } from 'vitest/config'
+
+/**
+ * Vitest configuration for unit and integration tests
+ *
+ * Unit tests live in tests/unit and run in Node against the in-memory storage backend,
+ * so they need no Vercel, Etsy or Meta credentials. End-to-end tests stay with Playwright.
+ */
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, 'src'),
+    },
+  },
+  test: {
+    include: ['tests/unit/**/*.test.ts'],
+    environment: 'node',
+    // Logs are only shown for failing tests
+    silent: 'passed-only',
+    env: {
+      STORAGE_BACKEND: 'memory',
+    },
+  },
+})